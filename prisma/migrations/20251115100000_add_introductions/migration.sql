@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "IntroductionStatus" AS ENUM ('PROPOSED', 'SENT', 'ACCEPTED', 'DECLINED', 'CLOSED');
+
+-- CreateTable
+CREATE TABLE "Introduction" (
+    "id" TEXT NOT NULL,
+    "evangelistId" TEXT NOT NULL,
+    "innovatorId" INTEGER NOT NULL,
+    "introducedById" TEXT,
+    "status" "IntroductionStatus" NOT NULL DEFAULT 'PROPOSED',
+    "proposedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" TIMESTAMP(3),
+    "respondedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Introduction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Introduction_evangelistId_status_idx" ON "Introduction"("evangelistId", "status");
+
+-- CreateIndex
+CREATE INDEX "Introduction_innovatorId_idx" ON "Introduction"("innovatorId");
+
+-- AddForeignKey
+ALTER TABLE "Introduction"
+ADD CONSTRAINT "Introduction_evangelistId_fkey" FOREIGN KEY ("evangelistId") REFERENCES "evangelists"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Introduction"
+ADD CONSTRAINT "Introduction_innovatorId_fkey" FOREIGN KEY ("innovatorId") REFERENCES "Innovator"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Introduction"
+ADD CONSTRAINT "Introduction_introducedById_fkey" FOREIGN KEY ("introducedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
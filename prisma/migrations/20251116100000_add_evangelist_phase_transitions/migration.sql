@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "EvangelistPhase" AS ENUM ('FIRST_CONTACT', 'REGISTERED', 'LIST_SHARED', 'CANDIDATE_SELECTION', 'INNOVATOR_REVIEW', 'INTRODUCING', 'FOLLOW_UP');
+
+-- CreateTable
+CREATE TABLE "EvangelistPhaseTransition" (
+    "id" TEXT NOT NULL,
+    "evangelistId" TEXT NOT NULL,
+    "fromPhase" "EvangelistPhase",
+    "toPhase" "EvangelistPhase" NOT NULL,
+    "changedById" TEXT,
+    "note" TEXT,
+    "forced" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "EvangelistPhaseTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EvangelistPhaseTransition_evangelistId_createdAt_idx" ON "EvangelistPhaseTransition"("evangelistId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "EvangelistPhaseTransition"
+ADD CONSTRAINT "EvangelistPhaseTransition_evangelistId_fkey" FOREIGN KEY ("evangelistId") REFERENCES "evangelists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EvangelistPhaseTransition"
+ADD CONSTRAINT "EvangelistPhaseTransition_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- 旧 UI のフェーズ値を EvangelistPhase に読み替え
+UPDATE "evangelists" SET "managementPhase" = CASE "managementPhase"
+    WHEN 'INQUIRY' THEN 'FIRST_CONTACT'
+    WHEN 'FIRST_MEETING' THEN 'FIRST_CONTACT'
+    WHEN 'LIST_PROVIDED' THEN 'LIST_SHARED'
+    WHEN 'INTRODUCTION_STARTED' THEN 'INTRODUCING'
+    WHEN 'MEETING_SCHEDULED' THEN 'INTRODUCING'
+    WHEN 'FIRST_RESULT' THEN 'FOLLOW_UP'
+    WHEN 'CONTINUED_PROPOSAL' THEN 'FOLLOW_UP'
+    ELSE "managementPhase"
+END
+WHERE "managementPhase" IS NOT NULL;
+
+-- 未知の値は未設定に戻す
+UPDATE "evangelists" SET "managementPhase" = NULL
+WHERE "managementPhase" IS NOT NULL
+  AND "managementPhase" NOT IN ('FIRST_CONTACT', 'REGISTERED', 'LIST_SHARED', 'CANDIDATE_SELECTION', 'INNOVATOR_REVIEW', 'INTRODUCING', 'FOLLOW_UP');
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "ActivitySource" AS ENUM ('UI', 'IMPORT', 'BULK_ASSIGN', 'API');
+
+-- CreateTable
+CREATE TABLE "EvangelistActivity" (
+    "id" TEXT NOT NULL,
+    "evangelistId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "source" "ActivitySource" NOT NULL,
+    "action" TEXT NOT NULL,
+    "changes" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "EvangelistActivity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EvangelistActivity_evangelistId_createdAt_idx" ON "EvangelistActivity"("evangelistId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "EvangelistActivity"
+ADD CONSTRAINT "EvangelistActivity_evangelistId_fkey" FOREIGN KEY ("evangelistId") REFERENCES "evangelists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EvangelistActivity"
+ADD CONSTRAINT "EvangelistActivity_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "ImportJobStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "ImportRowStatus" AS ENUM ('CREATED', 'UPDATED', 'FAILED', 'SKIPPED');
+
+-- CreateTable
+CREATE TABLE "ImportJob" (
+    "id" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "uploadedById" TEXT,
+    "mapping" JSONB,
+    "status" "ImportJobStatus" NOT NULL DEFAULT 'RUNNING',
+    "totalRows" INTEGER NOT NULL DEFAULT 0,
+    "createdCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    CONSTRAINT "ImportJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ImportJobRow" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "status" "ImportRowStatus" NOT NULL,
+    "evangelistId" TEXT,
+    "reason" TEXT,
+    "data" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ImportJobRow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportJob_createdAt_idx" ON "ImportJob"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ImportJobRow_jobId_status_idx" ON "ImportJobRow"("jobId", "status");
+
+-- CreateIndex
+CREATE INDEX "ImportJobRow_jobId_rowNumber_idx" ON "ImportJobRow"("jobId", "rowNumber");
+
+-- AddForeignKey
+ALTER TABLE "ImportJob"
+ADD CONSTRAINT "ImportJob_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ImportJobRow"
+ADD CONSTRAINT "ImportJobRow_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "ImportJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
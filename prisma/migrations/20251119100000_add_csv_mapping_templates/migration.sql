@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "CsvMappingTemplate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ownerId" TEXT,
+    "shared" BOOLEAN NOT NULL DEFAULT false,
+    "mapping" JSONB NOT NULL,
+    "headers" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "CsvMappingTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CsvMappingTemplate_ownerId_idx" ON "CsvMappingTemplate"("ownerId");
+
+-- AddForeignKey
+ALTER TABLE "CsvMappingTemplate"
+ADD CONSTRAINT "CsvMappingTemplate_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "BulkAssignRunStatus" AS ENUM ('APPLIED', 'PARTIALLY_REVERTED', 'REVERTED');
+
+-- CreateTable
+CREATE TABLE "BulkAssignRun" (
+    "id" TEXT NOT NULL,
+    "fileName" TEXT,
+    "executedById" TEXT,
+    "status" "BulkAssignRunStatus" NOT NULL DEFAULT 'APPLIED',
+    "totalRows" INTEGER NOT NULL DEFAULT 0,
+    "changedCount" INTEGER NOT NULL DEFAULT 0,
+    "revertedCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revertedAt" TIMESTAMP(3),
+    "revertedById" TEXT,
+    CONSTRAINT "BulkAssignRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BulkAssignChange" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "evangelistId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "changes" JSONB NOT NULL,
+    "appliedUpdatedAt" TIMESTAMP(3) NOT NULL,
+    "revertedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "BulkAssignChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BulkAssignRun_createdAt_idx" ON "BulkAssignRun"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "BulkAssignChange_runId_idx" ON "BulkAssignChange"("runId");
+
+-- CreateIndex
+CREATE INDEX "BulkAssignChange_evangelistId_idx" ON "BulkAssignChange"("evangelistId");
+
+-- AddForeignKey
+ALTER TABLE "BulkAssignRun"
+ADD CONSTRAINT "BulkAssignRun_executedById_fkey" FOREIGN KEY ("executedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BulkAssignRun"
+ADD CONSTRAINT "BulkAssignRun_revertedById_fkey" FOREIGN KEY ("revertedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BulkAssignChange"
+ADD CONSTRAINT "BulkAssignChange_runId_fkey" FOREIGN KEY ("runId") REFERENCES "BulkAssignRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
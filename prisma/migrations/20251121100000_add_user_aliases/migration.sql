@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "UserAlias" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "alias" TEXT NOT NULL,
+    "normalized" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "UserAlias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserAlias_userId_normalized_key" ON "UserAlias"("userId", "normalized");
+
+-- CreateIndex
+CREATE INDEX "UserAlias_normalized_idx" ON "UserAlias"("normalized");
+
+-- AddForeignKey
+ALTER TABLE "UserAlias"
+ADD CONSTRAINT "UserAlias_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 一括反映 API に直書きしていた別名を移行
+INSERT INTO "UserAlias" ("id", "userId", "alias", "normalized")
+SELECT gen_random_uuid()::text, u."id", a."alias", a."normalized"
+FROM (
+    VALUES
+        ('徳永', '徳永', '徳永渉'),
+        ('中崎', '中崎', '中崎功大'),
+        ('遠藤', '遠藤', '遠藤亜沙子'),
+        ('今岡', '今岡', 'MisakiImaoka'),
+        ('飯田', '飯田', '飯田省吾')
+) AS a ("alias", "normalized", "userName")
+JOIN "User" u ON regexp_replace(u."name", '[\s　()（）]', '', 'g') = a."userName"
+ON CONFLICT DO NOTHING;
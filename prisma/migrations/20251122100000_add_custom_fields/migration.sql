@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "CustomFieldType" AS ENUM ('TEXT', 'NUMBER', 'DATE', 'SINGLE_SELECT', 'MULTI_SELECT', 'BOOLEAN');
+
+-- AlterTable
+ALTER TABLE "evangelists" ADD COLUMN "customFields" JSONB;
+
+-- CreateTable
+CREATE TABLE "CustomFieldDefinition" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "type" "CustomFieldType" NOT NULL,
+    "options" JSONB,
+    "required" BOOLEAN NOT NULL DEFAULT false,
+    "minValue" DOUBLE PRECISION,
+    "maxValue" DOUBLE PRECISION,
+    "maxLength" INTEGER,
+    "pattern" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "archived" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "CustomFieldDefinition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomFieldDefinition_key_key" ON "CustomFieldDefinition"("key");
+
+-- CreateIndex
+CREATE INDEX "CustomFieldDefinition_archived_sortOrder_idx" ON "CustomFieldDefinition"("archived", "sortOrder");
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "PicklistOption" (
+    "id" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "archived" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "PicklistOption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PicklistSynonym" (
+    "id" TEXT NOT NULL,
+    "optionId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "synonym" TEXT NOT NULL,
+    "normalized" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "PicklistSynonym_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PicklistOption_field_value_key" ON "PicklistOption"("field", "value");
+
+-- CreateIndex
+CREATE INDEX "PicklistOption_field_archived_sortOrder_idx" ON "PicklistOption"("field", "archived", "sortOrder");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PicklistSynonym_field_normalized_key" ON "PicklistSynonym"("field", "normalized");
+
+-- CreateIndex
+CREATE INDEX "PicklistSynonym_optionId_idx" ON "PicklistSynonym"("optionId");
+
+-- AddForeignKey
+ALTER TABLE "PicklistSynonym"
+ADD CONSTRAINT "PicklistSynonym_optionId_fkey" FOREIGN KEY ("optionId") REFERENCES "PicklistOption"("id") ON DELETE CASCADE ON UPDATE CASCADE;
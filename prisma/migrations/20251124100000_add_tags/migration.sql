@@ -0,0 +1,81 @@
+-- CreateTable
+CREATE TABLE "Tag" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "normalized" TEXT NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#64748b',
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "Tag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EvangelistTag" (
+    "evangelistId" TEXT NOT NULL,
+    "tagId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "EvangelistTag_pkey" PRIMARY KEY ("evangelistId","tagId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_normalized_key" ON "Tag"("normalized");
+
+-- CreateIndex
+CREATE INDEX "EvangelistTag_tagId_idx" ON "EvangelistTag"("tagId");
+
+-- AddForeignKey
+ALTER TABLE "EvangelistTag"
+ADD CONSTRAINT "EvangelistTag_evangelistId_fkey" FOREIGN KEY ("evangelistId") REFERENCES "evangelists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EvangelistTag"
+ADD CONSTRAINT "EvangelistTag_tagId_fkey" FOREIGN KEY ("tagId") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Migrate JSON-string tags (["IT","HR"] or a bare string) into Tag / EvangelistTag
+DO $$
+DECLARE
+  rec RECORD;
+  tag_name TEXT;
+  tag_key TEXT;
+  tag_names TEXT[];
+  tag_id TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_schema = current_schema()
+      AND table_name = 'evangelists'
+      AND column_name = 'tags'
+  ) THEN
+    RETURN;
+  END IF;
+
+  FOR rec IN EXECUTE 'SELECT "id", "tags" FROM "evangelists" WHERE "tags" IS NOT NULL AND btrim("tags") <> ''''' LOOP
+    BEGIN
+      SELECT array_agg(value) INTO tag_names FROM jsonb_array_elements_text(rec.tags::jsonb);
+    EXCEPTION WHEN others THEN
+      tag_names := string_to_array(rec.tags, ',');
+    END;
+
+    FOREACH tag_name IN ARRAY COALESCE(tag_names, ARRAY[]::TEXT[]) LOOP
+      tag_name := btrim(tag_name, E' \t\r\n"');
+      CONTINUE WHEN tag_name = '';
+      tag_key := lower(regexp_replace(normalize(tag_name, NFKC), '\s+', '', 'g'));
+
+      SELECT "id" INTO tag_id FROM "Tag" WHERE "normalized" = tag_key;
+      IF tag_id IS NULL THEN
+        tag_id := md5(random()::text || clock_timestamp()::text || tag_key);
+        INSERT INTO "Tag" ("id", "name", "normalized", "updatedAt")
+        VALUES (tag_id, tag_name, tag_key, CURRENT_TIMESTAMP);
+      END IF;
+
+      INSERT INTO "EvangelistTag" ("evangelistId", "tagId")
+      VALUES (rec.id, tag_id)
+      ON CONFLICT DO NOTHING;
+    END LOOP;
+  END LOOP;
+END $$;
+
+-- AlterTable
+ALTER TABLE "evangelists" DROP COLUMN IF EXISTS "tags";
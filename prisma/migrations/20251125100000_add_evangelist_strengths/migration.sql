@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "EvangelistStrengthEntry" (
+    "evangelistId" TEXT NOT NULL,
+    "domain" TEXT NOT NULL,
+    "proficiency" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "EvangelistStrengthEntry_pkey" PRIMARY KEY ("evangelistId","domain")
+);
+
+-- CreateIndex
+CREATE INDEX "EvangelistStrengthEntry_domain_idx" ON "EvangelistStrengthEntry"("domain");
+
+-- AddForeignKey
+ALTER TABLE "EvangelistStrengthEntry"
+ADD CONSTRAINT "EvangelistStrengthEntry_evangelistId_fkey" FOREIGN KEY ("evangelistId") REFERENCES "evangelists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Migrate the single "strengths" value ("IT", "営業", "IT,人事" ...) into EvangelistStrengthEntry
+-- (same aliases as lib/business-domain; unknown values are dropped, proficiency is left empty)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_schema = current_schema()
+      AND table_name = 'evangelists'
+      AND column_name = 'strengths'
+  ) THEN
+    RETURN;
+  END IF;
+
+  EXECUTE $sql$
+    WITH aliases ("alias", "domain") AS (
+      VALUES
+        ('hr', 'HR'), ('人事', 'HR'), ('人材', 'HR'),
+        ('it', 'IT'), ('アイティー', 'IT'),
+        ('accounting', 'ACCOUNTING'), ('会計', 'ACCOUNTING'), ('経理', 'ACCOUNTING'),
+        ('advertising', 'ADVERTISING'), ('広告', 'ADVERTISING'), ('マーケ', 'ADVERTISING'), ('マーケティング', 'ADVERTISING'),
+        ('management', 'MANAGEMENT'), ('経営', 'MANAGEMENT'),
+        ('sales', 'SALES'), ('営業', 'SALES'),
+        ('manufacturing', 'MANUFACTURING'), ('製造', 'MANUFACTURING'), ('ものづくり', 'MANUFACTURING'),
+        ('medical', 'MEDICAL'), ('医療', 'MEDICAL'), ('ヘルスケア', 'MEDICAL'),
+        ('finance', 'FINANCE'), ('金融', 'FINANCE')
+    ),
+    parts AS (
+      SELECT e."id", lower(btrim(part)) AS "alias"
+      FROM "evangelists" e
+      CROSS JOIN LATERAL regexp_split_to_table(e."strengths", '[,、/／]') AS part
+      WHERE e."strengths" IS NOT NULL
+    )
+    INSERT INTO "EvangelistStrengthEntry" ("evangelistId", "domain")
+    SELECT DISTINCT parts."id", aliases."domain"
+    FROM parts
+    JOIN aliases ON aliases."alias" = parts."alias"
+    ON CONFLICT DO NOTHING
+  $sql$;
+END $$;
+
+-- AlterTable
+ALTER TABLE "evangelists" DROP COLUMN IF EXISTS "strengths";
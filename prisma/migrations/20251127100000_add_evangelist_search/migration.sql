@@ -0,0 +1,126 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- AlterTable
+ALTER TABLE "evangelists" ADD COLUMN "firstNameKana" TEXT,
+ADD COLUMN "lastNameKana" TEXT,
+ADD COLUMN "searchText" TEXT NOT NULL DEFAULT '',
+ADD COLUMN "searchVector" tsvector;
+
+-- Normalize text for search: NFKC, lower case, katakana -> hiragana
+-- (must stay in sync with normalizeSearchText in lib/evangelist-search)
+CREATE OR REPLACE FUNCTION evangelist_search_normalize(value TEXT) RETURNS TEXT AS $$
+  SELECT translate(
+    lower(normalize(coalesce(value, ''), NFKC)),
+    'ァアィイゥウェエォオカガキギクグケゲコゴサザシジスズセゼソゾタダチヂッツヅテデトドナニヌネノハバパヒビピフブプヘベペホボポマミムメモャヤュユョヨラリルレロヮワヰヱヲンヴヵヶ',
+    'ぁあぃいぅうぇえぉおかがきぎくぐけげこごさざしじすずせぜそぞただちぢっつづてでとどなにぬねのはばぱひびぴふぶぷへべぺほぼぽまみむめもゃやゅゆょよらりるれろゎわゐゑをんゔゕゖ'
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Rebuild "searchText" / "searchVector" of one evangelist
+-- weights: A = names and kana, B = email and phone, C = strengths and next action, D = notes and meeting memos
+CREATE OR REPLACE FUNCTION evangelist_search_refresh(target_id TEXT) RETURNS void AS $$
+BEGIN
+  WITH parts AS (
+    SELECT
+      e."id",
+      evangelist_search_normalize(concat_ws(' ',
+        e."lastName", e."firstName", e."lastName" || e."firstName",
+        e."lastNameKana", e."firstNameKana", e."lastNameKana" || e."firstNameKana"
+      )) AS names,
+      evangelist_search_normalize(concat_ws(' ',
+        e."email", e."phoneNumber", nullif(regexp_replace(coalesce(e."phoneNumber", ''), '[^0-9]', '', 'g'), '')
+      )) AS contacts,
+      evangelist_search_normalize(concat_ws(' ',
+        e."nextAction",
+        (
+          SELECT string_agg(concat_ws(' ', s."domain", labels.label), ' ')
+          FROM "EvangelistStrengthEntry" s
+          LEFT JOIN (VALUES
+            ('HR', '人事'),
+            ('IT', 'IT'),
+            ('ACCOUNTING', '会計'),
+            ('ADVERTISING', '広告'),
+            ('MANAGEMENT', '経営'),
+            ('SALES', '営業'),
+            ('MANUFACTURING', '製造'),
+            ('MEDICAL', '医療'),
+            ('FINANCE', '金融')
+          ) AS labels(domain, label) ON labels.domain = s."domain"
+          WHERE s."evangelistId" = e."id"
+        )
+      )) AS details,
+      evangelist_search_normalize(concat_ws(' ',
+        e."notes",
+        (
+          SELECT string_agg(concat_ws(' ', m."summary", m."nextActions"), ' ')
+          FROM "Meeting" m
+          WHERE m."evangelistId" = e."id"
+        )
+      )) AS memos
+    FROM "evangelists" e
+    WHERE e."id" = target_id
+  )
+  UPDATE "evangelists" AS e
+  SET
+    "searchText" = concat_ws(' ', nullif(p.names, ''), nullif(p.contacts, ''), nullif(p.details, ''), nullif(p.memos, '')),
+    "searchVector" =
+      setweight(to_tsvector('simple', p.names), 'A') ||
+      setweight(to_tsvector('simple', p.contacts), 'B') ||
+      setweight(to_tsvector('simple', p.details), 'C') ||
+      setweight(to_tsvector('simple', p.memos), 'D')
+  FROM parts p
+  WHERE e."id" = p."id";
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION evangelists_search_trigger() RETURNS trigger AS $$
+BEGIN
+  PERFORM evangelist_search_refresh(NEW."id");
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Meeting / EvangelistStrengthEntry: refresh the evangelist the row belongs (or belonged) to
+CREATE OR REPLACE FUNCTION evangelist_children_search_trigger() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM evangelist_search_refresh(NEW."evangelistId");
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM evangelist_search_refresh(OLD."evangelistId");
+  ELSE
+    PERFORM evangelist_search_refresh(NEW."evangelistId");
+    IF NEW."evangelistId" IS DISTINCT FROM OLD."evangelistId" THEN
+      PERFORM evangelist_search_refresh(OLD."evangelistId");
+    END IF;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- CreateTrigger
+CREATE TRIGGER "evangelists_search_refresh"
+AFTER INSERT OR UPDATE OF "firstName", "lastName", "firstNameKana", "lastNameKana", "email", "phoneNumber", "notes", "nextAction"
+ON "evangelists"
+FOR EACH ROW EXECUTE FUNCTION evangelists_search_trigger();
+
+-- CreateTrigger
+CREATE TRIGGER "Meeting_search_refresh"
+AFTER INSERT OR DELETE OR UPDATE OF "evangelistId", "summary", "nextActions"
+ON "Meeting"
+FOR EACH ROW EXECUTE FUNCTION evangelist_children_search_trigger();
+
+-- CreateTrigger
+CREATE TRIGGER "EvangelistStrengthEntry_search_refresh"
+AFTER INSERT OR DELETE OR UPDATE
+ON "EvangelistStrengthEntry"
+FOR EACH ROW EXECUTE FUNCTION evangelist_children_search_trigger();
+
+-- Backfill existing rows
+SELECT evangelist_search_refresh("id") FROM "evangelists";
+
+-- CreateIndex
+CREATE INDEX "evangelists_searchText_trgm_idx" ON "evangelists" USING GIN ("searchText" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "evangelists_searchVector_idx" ON "evangelists" USING GIN ("searchVector");
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "evangelists" ADD COLUMN "archivedAt" TIMESTAMP(3),
+ADD COLUMN "archivedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "evangelists_archivedAt_idx" ON "evangelists"("archivedAt");
+
+-- AddForeignKey
+ALTER TABLE "evangelists"
+ADD CONSTRAINT "evangelists_archivedById_fkey" FOREIGN KEY ("archivedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
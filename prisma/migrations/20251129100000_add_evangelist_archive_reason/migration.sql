@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "evangelists" ADD COLUMN "archiveReason" TEXT;
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "CompletenessRule" (
+    "tier" "Tier" NOT NULL,
+    "field" TEXT NOT NULL,
+    "weight" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "CompletenessRule_pkey" PRIMARY KEY ("tier","field")
+);
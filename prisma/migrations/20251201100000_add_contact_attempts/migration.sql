@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "ContactPreference" AS ENUM ('FACEBOOK', 'LINE', 'EMAIL', 'PHONE', 'SLACK');
+
+-- CreateEnum
+CREATE TYPE "ContactAttemptOutcome" AS ENUM ('NO_RESPONSE', 'REPLIED', 'UNREACHABLE', 'DECLINED');
+
+-- CreateTable
+CREATE TABLE "ContactAttempt" (
+    "id" TEXT NOT NULL,
+    "evangelistId" TEXT NOT NULL,
+    "channel" "ContactPreference" NOT NULL,
+    "outcome" "ContactAttemptOutcome" NOT NULL DEFAULT 'NO_RESPONSE',
+    "attemptedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ContactAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContactAttempt_evangelistId_attemptedAt_idx" ON "ContactAttempt"("evangelistId", "attemptedAt");
+
+-- AddForeignKey
+ALTER TABLE "ContactAttempt"
+ADD CONSTRAINT "ContactAttempt_evangelistId_fkey" FOREIGN KEY ("evangelistId") REFERENCES "evangelists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ContactAttempt"
+ADD CONSTRAINT "ContactAttempt_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "evangelists" ADD COLUMN "referredById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "evangelists_referredById_idx" ON "evangelists"("referredById");
+
+-- AddForeignKey
+ALTER TABLE "evangelists"
+ADD CONSTRAINT "evangelists_referredById_fkey" FOREIGN KEY ("referredById") REFERENCES "evangelists"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateIndex
+CREATE INDEX "Meeting_evangelistId_idx" ON "Meeting"("evangelistId");
+
+-- CreateView
+-- Per-evangelist counts used by the advanced filter (schema.prisma: view EvangelistMetrics).
+-- Simple view over "evangelists" so the planner only evaluates the columns a filter references.
+CREATE OR REPLACE VIEW "evangelist_metrics" AS
+SELECT
+  e."id" AS "evangelistId",
+  (SELECT COUNT(*) FROM "Meeting" m WHERE m."evangelistId" = e."id")::int AS "meetingCount",
+  (
+    SELECT COUNT(*) FROM "evangelists" r
+    WHERE r."referredById" = e."id" AND r."archivedAt" IS NULL
+  )::int AS "referralCount",
+  -- same counting as summarizeContactAttempts in lib/contact-attempts
+  (
+    SELECT COUNT(*)
+    FROM "ContactAttempt" a
+    WHERE a."evangelistId" = e."id"
+      AND a."outcome" IN ('NO_RESPONSE', 'UNREACHABLE')
+      AND a."attemptedAt" > GREATEST(
+        COALESCE((
+          SELECT MAX(r."attemptedAt") FROM "ContactAttempt" r
+          WHERE r."evangelistId" = e."id" AND r."outcome" NOT IN ('NO_RESPONSE', 'UNREACHABLE')
+        ), '-infinity'::timestamp),
+        COALESCE((SELECT MAX(m."date") FROM "Meeting" m WHERE m."evangelistId" = e."id"), '-infinity'::timestamp)
+      )
+  )::int AS "unansweredAttempts"
+FROM "evangelists" e;
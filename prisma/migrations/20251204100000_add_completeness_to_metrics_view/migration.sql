@@ -0,0 +1,68 @@
+-- Store the default weights (lib/evangelist-completeness DEFAULT_COMPLETENESS_WEIGHTS) so the view can score
+-- from "CompletenessRule" alone. Weights an admin already saved are kept.
+INSERT INTO "CompletenessRule" ("tier", "field", "weight", "updatedAt")
+VALUES
+  ('TIER1', 'email', 3, CURRENT_TIMESTAMP),
+  ('TIER1', 'phoneNumber', 2, CURRENT_TIMESTAMP),
+  ('TIER1', 'contactMethod', 2, CURRENT_TIMESTAMP),
+  ('TIER1', 'strength', 2, CURRENT_TIMESTAMP),
+  ('TIER1', 'kana', 1, CURRENT_TIMESTAMP),
+  ('TIER1', 'facebookUrl', 1, CURRENT_TIMESTAMP),
+  ('TIER1', 'assignedCs', 2, CURRENT_TIMESTAMP),
+  ('TIER1', 'managementPhase', 1, CURRENT_TIMESTAMP),
+  ('TIER1', 'nextAction', 2, CURRENT_TIMESTAMP),
+  ('TIER2', 'email', 3, CURRENT_TIMESTAMP),
+  ('TIER2', 'phoneNumber', 1, CURRENT_TIMESTAMP),
+  ('TIER2', 'contactMethod', 2, CURRENT_TIMESTAMP),
+  ('TIER2', 'strength', 1, CURRENT_TIMESTAMP),
+  ('TIER2', 'kana', 0, CURRENT_TIMESTAMP),
+  ('TIER2', 'facebookUrl', 0, CURRENT_TIMESTAMP),
+  ('TIER2', 'assignedCs', 1, CURRENT_TIMESTAMP),
+  ('TIER2', 'managementPhase', 1, CURRENT_TIMESTAMP),
+  ('TIER2', 'nextAction', 0, CURRENT_TIMESTAMP)
+ON CONFLICT ("tier", "field") DO NOTHING;
+
+-- CreateView
+-- Add the completeness score (0-100, same scoring as computeCompleteness in lib/evangelist-completeness)
+CREATE OR REPLACE VIEW "evangelist_metrics" AS
+SELECT
+  e."id" AS "evangelistId",
+  (SELECT COUNT(*) FROM "Meeting" m WHERE m."evangelistId" = e."id")::int AS "meetingCount",
+  (
+    SELECT COUNT(*) FROM "evangelists" r
+    WHERE r."referredById" = e."id" AND r."archivedAt" IS NULL
+  )::int AS "referralCount",
+  -- same counting as summarizeContactAttempts in lib/contact-attempts
+  (
+    SELECT COUNT(*)
+    FROM "ContactAttempt" a
+    WHERE a."evangelistId" = e."id"
+      AND a."outcome" IN ('NO_RESPONSE', 'UNREACHABLE')
+      AND a."attemptedAt" > GREATEST(
+        COALESCE((
+          SELECT MAX(r."attemptedAt") FROM "ContactAttempt" r
+          WHERE r."evangelistId" = e."id" AND r."outcome" NOT IN ('NO_RESPONSE', 'UNREACHABLE')
+        ), '-infinity'::timestamp),
+        COALESCE((SELECT MAX(m."date") FROM "Meeting" m WHERE m."evangelistId" = e."id"), '-infinity'::timestamp)
+      )
+  )::int AS "unansweredAttempts",
+  (
+    SELECT CASE
+      WHEN COALESCE(SUM(w."weight"), 0) = 0 THEN 100
+      ELSE ROUND(SUM(CASE WHEN f."present" THEN w."weight" ELSE 0 END) * 100.0 / SUM(w."weight"))
+    END
+    FROM (
+      VALUES
+        ('email', COALESCE(TRIM(e."email"), '') <> ''),
+        ('phoneNumber', COALESCE(TRIM(e."phoneNumber"), '') <> ''),
+        ('contactMethod', COALESCE(TRIM(e."contactPref"), '') <> ''),
+        ('strength', EXISTS (SELECT 1 FROM "EvangelistStrengthEntry" s WHERE s."evangelistId" = e."id")),
+        ('kana', COALESCE(TRIM(e."lastNameKana"), '') <> '' AND COALESCE(TRIM(e."firstNameKana"), '') <> ''),
+        ('facebookUrl', COALESCE(TRIM(e."facebookUrl"), '') <> ''),
+        ('assignedCs', e."assignedCsId" IS NOT NULL),
+        ('managementPhase', COALESCE(TRIM(e."managementPhase"), '') <> ''),
+        ('nextAction', COALESCE(TRIM(e."nextAction"), '') <> '')
+    ) AS f ("field", "present")
+    JOIN "CompletenessRule" w ON w."tier" = e."tier" AND w."field" = f."field" AND w."weight" > 0
+  )::int AS "completeness"
+FROM "evangelists" e;
@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "PhaseTransitionRule" (
+    "fromPhase" TEXT NOT NULL,
+    "toPhases" TEXT[],
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "PhaseTransitionRule_pkey" PRIMARY KEY ("fromPhase")
+);
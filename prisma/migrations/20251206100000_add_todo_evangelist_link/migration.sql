@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "Todo" ADD COLUMN "evangelistId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Todo_evangelistId_idx" ON "Todo"("evangelistId");
+
+-- AddForeignKey
+ALTER TABLE "Todo"
+ADD CONSTRAINT "Todo_evangelistId_fkey" FOREIGN KEY ("evangelistId") REFERENCES "evangelists"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: link existing todos created from an evangelist page (notes contain "/evangelists/<id>")
+UPDATE "Todo" t
+SET "evangelistId" = e."id"
+FROM "evangelists" e
+WHERE t."evangelistId" IS NULL
+  AND strpos(t."notes", '/evangelists/' || e."id") > 0;
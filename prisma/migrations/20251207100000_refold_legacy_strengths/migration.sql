@@ -0,0 +1,59 @@
+-- Corrects the legacy "strengths" conversion of 20251125100000_add_evangelist_strengths:
+-- values are NFKC-folded (full-width "ＩＴ", "，" separators) like lib/business-domain, and values that match
+-- no domain are appended to "notes" instead of being dropped.
+-- Databases that already applied 20251125100000 no longer have the column, so this is a no-op there
+-- (the values it dropped cannot be recovered from the database); it only runs where the column still exists.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM information_schema.columns
+    WHERE table_schema = current_schema()
+      AND table_name = 'evangelists'
+      AND column_name = 'strengths'
+  ) THEN
+    RETURN;
+  END IF;
+
+  EXECUTE $sql$
+    WITH aliases ("alias", "domain") AS (
+      VALUES
+        ('hr', 'HR'), ('人事', 'HR'), ('人材', 'HR'),
+        ('it', 'IT'), ('アイティー', 'IT'),
+        ('accounting', 'ACCOUNTING'), ('会計', 'ACCOUNTING'), ('経理', 'ACCOUNTING'),
+        ('advertising', 'ADVERTISING'), ('広告', 'ADVERTISING'), ('マーケ', 'ADVERTISING'), ('マーケティング', 'ADVERTISING'),
+        ('management', 'MANAGEMENT'), ('経営', 'MANAGEMENT'),
+        ('sales', 'SALES'), ('営業', 'SALES'),
+        ('manufacturing', 'MANUFACTURING'), ('製造', 'MANUFACTURING'), ('ものづくり', 'MANUFACTURING'),
+        ('medical', 'MEDICAL'), ('医療', 'MEDICAL'), ('ヘルスケア', 'MEDICAL'),
+        ('finance', 'FINANCE'), ('金融', 'FINANCE')
+    ),
+    parts AS (
+      SELECT e."id", btrim(normalize(part, NFKC)) AS "value", lower(btrim(normalize(part, NFKC))) AS "alias"
+      FROM "evangelists" e
+      CROSS JOIN LATERAL regexp_split_to_table(e."strengths", '[,，、/／]') AS part
+      WHERE e."strengths" IS NOT NULL
+    ),
+    inserted AS (
+      INSERT INTO "EvangelistStrengthEntry" ("evangelistId", "domain")
+      SELECT DISTINCT parts."id", aliases."domain"
+      FROM parts
+      JOIN aliases ON aliases."alias" = parts."alias"
+      ON CONFLICT DO NOTHING
+    ),
+    unmapped AS (
+      SELECT parts."id", string_agg(DISTINCT parts."value", ', ') AS "values"
+      FROM parts
+      LEFT JOIN aliases ON aliases."alias" = parts."alias"
+      WHERE aliases."domain" IS NULL AND parts."value" <> ''
+      GROUP BY parts."id"
+    )
+    UPDATE "evangelists" e
+    SET "notes" = concat_ws(E'\n', NULLIF(e."notes", ''), '強み（移行前の値）: ' || unmapped."values")
+    FROM unmapped
+    WHERE e."id" = unmapped."id"
+  $sql$;
+END $$;
+
+-- AlterTable
+ALTER TABLE "evangelists" DROP COLUMN IF EXISTS "strengths";
@@ -0,0 +1,32 @@
+-- CreateView
+-- Evangelists matching the list search term, with their relevance (schema.prisma: view EvangelistSearchMatch).
+-- The term is set per transaction by lib/evangelist-search (withEvangelistSearch):
+--   flowgent.search_term    normalized tokens joined by a single space
+--   flowgent.search_tsquery prefix tsquery of the tokens ('' when no token survives)
+-- so the list can filter, order by rank and paginate in one query. Without a term the view is empty.
+-- Same matching and ranking as searchEvangelists: all tokens contained, full-text match or word similarity.
+CREATE OR REPLACE VIEW "evangelist_search_matches" AS
+WITH "term" AS (
+  SELECT
+    s."joined",
+    regexp_split_to_array(s."joined", ' ') AS "tokens",
+    NULLIF(current_setting('flowgent.search_tsquery', true), '') AS "tsQuery"
+  FROM (SELECT NULLIF(current_setting('flowgent.search_term', true), '') AS "joined") s
+  WHERE s."joined" IS NOT NULL
+)
+SELECT
+  e."id" AS "evangelistId",
+  (
+    COALESCE(ts_rank(e."searchVector", to_tsquery('simple', t."tsQuery")), 0) * 4
+    + word_similarity(t."joined", e."searchText")
+    + CASE WHEN c."containsAll" THEN 1 ELSE 0 END
+  )::float8 AS "rank"
+FROM "evangelists" e
+CROSS JOIN "term" t
+CROSS JOIN LATERAL (
+  SELECT bool_and(strpos(e."searchText", token) > 0) AS "containsAll"
+  FROM unnest(t."tokens") AS token
+) c
+WHERE c."containsAll"
+  OR (t."tsQuery" IS NOT NULL AND e."searchVector" @@ to_tsquery('simple', t."tsQuery"))
+  OR t."joined" <% e."searchText";
@@ -0,0 +1,145 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  COMPLETENESS_FIELD_LABELS,
+  COMPLETENESS_FIELDS,
+  COMPLETENESS_INCOMPLETE_BELOW,
+  COMPLETENESS_MAX_WEIGHT,
+  COMPLETENESS_TIERS,
+  DEFAULT_COMPLETENESS_WEIGHTS,
+  type CompletenessField,
+  type CompletenessTier,
+  type CompletenessWeights,
+} from '@/lib/evangelist-completeness';
+
+export default function CompletenessClient() {
+  const [weights, setWeights] = useState<CompletenessWeights | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadWeights = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/completeness', { credentials: 'include', cache: 'no-store' });
+      if (response.status === 401) {
+        window.location.href = '/login';
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('充足度の設定の取得に失敗しました');
+      }
+      const data = (await response.json()) as { weights: CompletenessWeights };
+      setWeights(data.weights);
+    } catch (error) {
+      console.error('Failed to load completeness weights', error);
+      toast.error(error instanceof Error ? error.message : '充足度の設定の取得に失敗しました');
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadWeights();
+  }, [loadWeights]);
+
+  const updateWeight = (tier: CompletenessTier, field: CompletenessField, raw: string) => {
+    const weight = Math.min(COMPLETENESS_MAX_WEIGHT, Math.max(0, Number.parseInt(raw, 10) || 0));
+    setWeights((prev) => (prev ? { ...prev, [tier]: { ...prev[tier], [field]: weight } } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!weights) return;
+    try {
+      setSaving(true);
+      const response = await fetch('/api/admin/completeness', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(weights),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(result?.error === 'Invalid request data' ? '入力内容に誤りがあります' : '保存に失敗しました');
+      }
+      setWeights((result as { weights: CompletenessWeights }).weights);
+      toast.success('充足度の設定を保存しました');
+    } catch (error) {
+      console.error('Failed to save completeness weights', error);
+      toast.error(error instanceof Error ? error.message : '保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="card w-full">
+      <CardHeader>
+        <CardTitle className="titleRow text-base md:text-lg">データ充足度の設定（管理者のみ）</CardTitle>
+        <p className="text-sm text-slate-600">
+          項目ごとの重み（0〜{COMPLETENESS_MAX_WEIGHT}）を Tier 別に設定します。入力済み項目の重みの合計の割合が充足度になり、
+          0 の項目は採点しません。{COMPLETENESS_INCOMPLETE_BELOW}% 未満のEVAはダッシュボードで「入力不足」として集計されます。
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!weights ? (
+          <p className="py-6 text-center text-sm text-slate-600">読み込み中...</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 text-left text-slate-600">
+                <th className="py-2 pr-4 font-semibold">項目</th>
+                {COMPLETENESS_TIERS.map((tier) => (
+                  <th key={tier} className="py-2 pr-4 font-semibold">
+                    {tier}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {COMPLETENESS_FIELDS.map((field) => (
+                <tr key={field} className="border-b border-slate-100 last:border-0">
+                  <td className="py-2 pr-4 text-slate-800">{COMPLETENESS_FIELD_LABELS[field]}</td>
+                  {COMPLETENESS_TIERS.map((tier) => (
+                    <td key={tier} className="py-2 pr-4">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={COMPLETENESS_MAX_WEIGHT}
+                        aria-label={`${tier} ${COMPLETENESS_FIELD_LABELS[field]}`}
+                        value={weights[tier][field]}
+                        onChange={(event) => updateWeight(tier, field, event.target.value)}
+                        className="w-20"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={!weights || saving}
+            onClick={() =>
+              setWeights({ TIER1: { ...DEFAULT_COMPLETENESS_WEIGHTS.TIER1 }, TIER2: { ...DEFAULT_COMPLETENESS_WEIGHTS.TIER2 } })
+            }
+          >
+            既定値に戻す
+          </Button>
+          <Button
+            type="button"
+            disabled={!weights || saving}
+            onClick={() => void handleSave()}
+            className="bg-brand text-white hover:bg-brand-600"
+          >
+            {saving ? '保存中...' : '保存'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,13 @@
+import { requireAdmin } from '@/lib/session';
+
+import CompletenessClient from './client';
+
+export default async function CompletenessPage() {
+  await requireAdmin();
+
+  return (
+    <div className="app-shell py-8">
+      <CompletenessClient />
+    </div>
+  );
+}
@@ -0,0 +1,411 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  CUSTOM_FIELD_TYPE_LABELS,
+  CUSTOM_FIELD_TYPE_VALUES,
+  type CustomFieldDefinition,
+} from '@/lib/custom-fields';
+
+type FieldType = CustomFieldDefinition['type'];
+
+type FormState = {
+  key: string;
+  label: string;
+  type: FieldType;
+  options: string;
+  required: boolean;
+  minValue: string;
+  maxValue: string;
+  maxLength: string;
+  pattern: string;
+  sortOrder: string;
+};
+
+const EMPTY_FORM: FormState = {
+  key: '',
+  label: '',
+  type: 'TEXT',
+  options: '',
+  required: false,
+  minValue: '',
+  maxValue: '',
+  maxLength: '',
+  pattern: '',
+  sortOrder: '0',
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  'Custom field key already exists': '同じキーの項目が既にあります',
+  'Custom field has values': '値が入力されているEVAがあるため削除できません。アーカイブしてください',
+  'Select fields require options': '選択肢を入力してください',
+  'Invalid request data': '入力内容に誤りがあります',
+};
+
+const isSelectType = (type: FieldType) => type === 'SINGLE_SELECT' || type === 'MULTI_SELECT';
+
+const toNumberOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+function toFormState(definition: CustomFieldDefinition): FormState {
+  return {
+    key: definition.key,
+    label: definition.label,
+    type: definition.type,
+    options: definition.options.join('\n'),
+    required: definition.required,
+    minValue: definition.minValue === null ? '' : String(definition.minValue),
+    maxValue: definition.maxValue === null ? '' : String(definition.maxValue),
+    maxLength: definition.maxLength === null ? '' : String(definition.maxLength),
+    pattern: definition.pattern ?? '',
+    sortOrder: String(definition.sortOrder),
+  };
+}
+
+function describeRules(definition: CustomFieldDefinition) {
+  const rules: string[] = [];
+  if (definition.required) rules.push('必須');
+  if (definition.minValue !== null) rules.push(`最小 ${definition.minValue}`);
+  if (definition.maxValue !== null) rules.push(`最大 ${definition.maxValue}`);
+  if (definition.maxLength !== null) rules.push(`${definition.maxLength}文字以内`);
+  if (definition.pattern) rules.push(`形式 /${definition.pattern}/`);
+  return rules;
+}
+
+export default function CustomFieldsClient() {
+  const [items, setItems] = useState<CustomFieldDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/custom-fields', { credentials: 'include', cache: 'no-store' });
+      if (response.status === 401) {
+        window.location.href = '/login';
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('カスタム項目の取得に失敗しました');
+      }
+      const data = (await response.json()) as { items?: CustomFieldDefinition[] };
+      setItems(Array.isArray(data.items) ? data.items : []);
+    } catch (error) {
+      console.error('Failed to load custom fields', error);
+      toast.error(error instanceof Error ? error.message : 'カスタム項目の取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadItems();
+  }, [loadItems]);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const options = form.options
+      .split(/[\n,]/)
+      .map((option) => option.trim())
+      .filter(Boolean);
+    const settings = {
+      label: form.label.trim(),
+      required: form.required,
+      options: isSelectType(form.type) ? options : undefined,
+      minValue: form.type === 'NUMBER' ? toNumberOrNull(form.minValue) : null,
+      maxValue: form.type === 'NUMBER' ? toNumberOrNull(form.maxValue) : null,
+      maxLength: form.type === 'TEXT' ? toNumberOrNull(form.maxLength) : null,
+      pattern: form.type === 'TEXT' && form.pattern.trim() ? form.pattern.trim() : null,
+      sortOrder: Number(form.sortOrder) || 0,
+    };
+
+    try {
+      setSaving(true);
+      const response = await fetch(editingId ? `/api/admin/custom-fields/${editingId}` : '/api/admin/custom-fields', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(editingId ? settings : { ...settings, key: form.key.trim(), type: form.type }),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(ERROR_MESSAGES[result?.error] ?? 'カスタム項目の保存に失敗しました');
+      }
+      const saved = result as CustomFieldDefinition;
+      setItems((prev) =>
+        editingId ? prev.map((item) => (item.id === saved.id ? saved : item)) : [...prev, saved],
+      );
+      toast.success(editingId ? `「${saved.label}」を更新しました` : `「${saved.label}」を追加しました`);
+      resetForm();
+    } catch (error) {
+      console.error('Failed to save custom field', error);
+      toast.error(error instanceof Error ? error.message : 'カスタム項目の保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleArchived = async (definition: CustomFieldDefinition) => {
+    try {
+      setBusyId(definition.id);
+      const response = await fetch(`/api/admin/custom-fields/${definition.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ archived: !definition.archived }),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error('カスタム項目の更新に失敗しました');
+      }
+      setItems((prev) => prev.map((item) => (item.id === definition.id ? (result as CustomFieldDefinition) : item)));
+      toast.success(definition.archived ? `「${definition.label}」を再開しました` : `「${definition.label}」をアーカイブしました`);
+    } catch (error) {
+      console.error('Failed to archive custom field', error);
+      toast.error(error instanceof Error ? error.message : 'カスタム項目の更新に失敗しました');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteItem = async (definition: CustomFieldDefinition) => {
+    if (!window.confirm(`カスタム項目「${definition.label}」を削除します。よろしいですか？`)) return;
+
+    try {
+      setBusyId(definition.id);
+      const response = await fetch(`/api/admin/custom-fields/${definition.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(ERROR_MESSAGES[result?.error] ?? 'カスタム項目の削除に失敗しました');
+      }
+      setItems((prev) => prev.filter((item) => item.id !== definition.id));
+      if (editingId === definition.id) resetForm();
+      toast.success(`「${definition.label}」を削除しました`);
+    } catch (error) {
+      console.error('Failed to delete custom field', error);
+      toast.error(error instanceof Error ? error.message : 'カスタム項目の削除に失敗しました');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="card w-full">
+      <CardHeader>
+        <CardTitle className="titleRow text-base md:text-lg">カスタム項目（管理者のみ）</CardTitle>
+        <p className="text-sm text-slate-600">
+          EVAに独自の項目を追加できます。追加した項目は編集画面・CSVインポート・一覧の絞り込み・エクスポートで利用できます。
+          キーと型は作成後に変更できません。不要になった項目はアーカイブすると入力欄から外れ、保存済みの値は残ります。
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4 rounded-xl border border-slate-200 bg-slate-50 p-4">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="custom-field-key">キー</Label>
+              <Input
+                id="custom-field-key"
+                value={form.key}
+                onChange={(event) => setForm((prev) => ({ ...prev, key: event.target.value }))}
+                placeholder="例: company_size"
+                disabled={Boolean(editingId)}
+                maxLength={40}
+                required
+              />
+              <p className="text-xs text-slate-500">英小文字で始まる英小文字・数字・_（CSV では cf.キー）</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="custom-field-label">表示名</Label>
+              <Input
+                id="custom-field-label"
+                value={form.label}
+                onChange={(event) => setForm((prev) => ({ ...prev, label: event.target.value }))}
+                placeholder="例: 従業員規模"
+                maxLength={100}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="custom-field-type">型</Label>
+              <select
+                id="custom-field-type"
+                value={form.type}
+                onChange={(event) => setForm((prev) => ({ ...prev, type: event.target.value as FieldType }))}
+                disabled={Boolean(editingId)}
+                className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900"
+              >
+                {CUSTOM_FIELD_TYPE_VALUES.map((type) => (
+                  <option key={type} value={type}>
+                    {CUSTOM_FIELD_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {isSelectType(form.type) && (
+            <div className="space-y-2">
+              <Label htmlFor="custom-field-options">選択肢（1 行に 1 つ）</Label>
+              <Textarea
+                id="custom-field-options"
+                value={form.options}
+                onChange={(event) => setForm((prev) => ({ ...prev, options: event.target.value }))}
+                rows={4}
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+            {form.type === 'NUMBER' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="custom-field-min">最小値</Label>
+                  <Input
+                    id="custom-field-min"
+                    type="number"
+                    value={form.minValue}
+                    onChange={(event) => setForm((prev) => ({ ...prev, minValue: event.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="custom-field-max">最大値</Label>
+                  <Input
+                    id="custom-field-max"
+                    type="number"
+                    value={form.maxValue}
+                    onChange={(event) => setForm((prev) => ({ ...prev, maxValue: event.target.value }))}
+                  />
+                </div>
+              </>
+            )}
+            {form.type === 'TEXT' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="custom-field-max-length">最大文字数</Label>
+                  <Input
+                    id="custom-field-max-length"
+                    type="number"
+                    min={1}
+                    value={form.maxLength}
+                    onChange={(event) => setForm((prev) => ({ ...prev, maxLength: event.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="custom-field-pattern">形式（正規表現）</Label>
+                  <Input
+                    id="custom-field-pattern"
+                    value={form.pattern}
+                    onChange={(event) => setForm((prev) => ({ ...prev, pattern: event.target.value }))}
+                    placeholder="例: ^\d{3}-\d{4}$"
+                  />
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="custom-field-sort">表示順</Label>
+              <Input
+                id="custom-field-sort"
+                type="number"
+                value={form.sortOrder}
+                onChange={(event) => setForm((prev) => ({ ...prev, sortOrder: event.target.value }))}
+              />
+            </div>
+            <label className="flex items-center gap-2 self-end pb-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={form.required}
+                onChange={(event) => setForm((prev) => ({ ...prev, required: event.target.checked }))}
+              />
+              必須（編集画面で未入力を許可しない）
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                キャンセル
+              </Button>
+            )}
+            <Button type="submit" disabled={saving} className="bg-brand text-white hover:bg-brand-600">
+              {saving ? '保存中...' : editingId ? '更新' : '追加'}
+            </Button>
+          </div>
+        </form>
+
+        {loading ? (
+          <p className="py-6 text-center text-sm text-slate-600">読み込み中...</p>
+        ) : items.length === 0 ? (
+          <p className="py-6 text-center text-sm text-slate-500">カスタム項目はまだありません</p>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {items.map((definition) => (
+              <li key={definition.id} className="flex flex-wrap items-start justify-between gap-3 py-4">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-slate-800">{definition.label}</span>
+                    <code className="text-xs text-slate-500">cf.{definition.key}</code>
+                    <Badge variant="outline">{CUSTOM_FIELD_TYPE_LABELS[definition.type]}</Badge>
+                    {definition.archived && <Badge className="bg-slate-200 text-slate-700">アーカイブ済み</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-1 text-xs text-slate-500">
+                    {describeRules(definition).map((rule) => (
+                      <span key={rule}>{rule}</span>
+                    ))}
+                    {definition.options.length > 0 && <span>選択肢: {definition.options.join(' / ')}</span>}
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setEditingId(definition.id);
+                      setForm(toFormState(definition));
+                    }}
+                  >
+                    編集
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busyId === definition.id}
+                    onClick={() => void toggleArchived(definition)}
+                  >
+                    {definition.archived ? '再開' : 'アーカイブ'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-rose-600"
+                    disabled={busyId === definition.id}
+                    onClick={() => void deleteItem(definition)}
+                  >
+                    削除
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
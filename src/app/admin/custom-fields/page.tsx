@@ -0,0 +1,13 @@
+import { requireAdmin } from '@/lib/session';
+
+import CustomFieldsClient from './client';
+
+export default async function CustomFieldsPage() {
+  await requireAdmin();
+
+  return (
+    <div className="app-shell py-8">
+      <CustomFieldsClient />
+    </div>
+  );
+}
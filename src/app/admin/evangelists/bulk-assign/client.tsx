@@ -1,19 +1,48 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { decodeTextBytes, isXlsxBytes, readXlsxRows } from '@/lib/spreadsheet';
 
 export default function BulkAssignClient() {
   const [file, setFile] = useState<File | null>(null);
+  const [fileInfo, setFileInfo] = useState<string | null>(null);
+  const [sheets, setSheets] = useState<string[]>([]);
+  const [sheet, setSheet] = useState<string>('');
   const [dryRun, setDryRun] = useState(true);
   const [result, setResult] = useState<string | Record<string, unknown> | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
+  // Excel はシート一覧、CSV は判定した文字コードを表示する
+  const handleFileChange = async (nextFile: File | null) => {
+    setFile(nextFile);
+    setFileInfo(null);
+    setSheets([]);
+    setSheet('');
+    setError(null);
+    if (!nextFile) return;
+
+    try {
+      const bytes = new Uint8Array(await nextFile.arrayBuffer());
+      if (isXlsxBytes(bytes)) {
+        const workbook = await readXlsxRows(bytes);
+        setSheets(workbook.sheets);
+        setSheet(workbook.sheet);
+        setFileInfo('Excel (.xlsx)');
+      } else {
+        setFileInfo(`CSV（文字コード: ${decodeTextBytes(bytes).encoding}）`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? `ファイルを読み込めませんでした: ${err.message}` : 'ファイルを読み込めませんでした。');
+    }
+  };
+
   const handleSubmit = async () => {
     if (!file) {
       setError('CSVファイルを選択してください。');
@@ -27,8 +56,9 @@ export default function BulkAssignClient() {
     try {
       const form = new FormData();
       form.append('file', file);
+      if (sheet) form.append('sheet', sheet);
 
-      if (!dryRun && !window.confirm('本当に反映しますか？（この操作は元に戻せません）')) {
+      if (!dryRun && !window.confirm('本当に反映しますか？（実行履歴から取り消せます）')) {
         setLoading(false);
         return;
       }
@@ -75,8 +105,15 @@ export default function BulkAssignClient() {
   return (
     <Card className="card w-full">
       <CardHeader>
-        <CardTitle className="titleRow text-base md:text-lg">CSV一括反映（管理者のみ）</CardTitle>
-        <p className="text-sm text-slate-600">担当・Tier を CSV で一括更新します。まずはドライランで確認してください。</p>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="titleRow text-base md:text-lg">CSV一括反映（管理者のみ）</CardTitle>
+          <Link href="/admin/evangelists/bulk-assign/history" className="text-sm text-slate-600 hover:underline">
+            実行履歴・取り消し
+          </Link>
+        </div>
+        <p className="text-sm text-slate-600">
+          担当・Tier を CSV（UTF-8 / Shift_JIS）または Excel (.xlsx) で一括更新します。まずはドライランで確認してください。
+        </p>
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="flex flex-col gap-2 text-sm text-slate-600">
@@ -87,15 +124,34 @@ export default function BulkAssignClient() {
         </div>
 
         <div className="space-y-2">
-          <Label htmlFor="bulk-upload">CSVファイル</Label>
+          <Label htmlFor="bulk-upload">CSV / Excel ファイル</Label>
           <Input
             id="bulk-upload"
             type="file"
-            accept=".csv,text/csv"
-            onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+            accept=".csv,text/csv,.xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={(event) => void handleFileChange(event.target.files?.[0] ?? null)}
           />
+          {fileInfo && <p className="text-xs text-slate-500">{fileInfo}</p>}
         </div>
 
+        {sheets.length > 1 && (
+          <div className="space-y-2">
+            <Label htmlFor="bulk-sheet">シート</Label>
+            <select
+              id="bulk-sheet"
+              value={sheet}
+              onChange={(event) => setSheet(event.target.value)}
+              className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm md:w-64"
+            >
+              {sheets.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <label className="flex items-center gap-2 text-sm text-slate-700">
           <input type="checkbox" checked={dryRun} onChange={(event) => setDryRun(event.target.checked)} />
           ドライラン（件数のみ・更新なし）
@@ -107,6 +163,16 @@ export default function BulkAssignClient() {
 
         {error && <p className="text-sm text-red-600">{error}</p>}
 
+        {result && typeof result === 'object' && typeof result.runId === 'string' && (
+          <p className="text-sm text-slate-700">
+            反映内容は
+            <Link href={`/admin/evangelists/bulk-assign/history?run=${result.runId}`} className="mx-1 text-brand underline">
+              実行履歴
+            </Link>
+            から確認・取り消しできます。
+          </p>
+        )}
+
         {result && (
           <pre className="max-h-96 overflow-auto rounded-md bg-slate-50 p-3 text-xs text-slate-700">
             {typeof result === 'string'
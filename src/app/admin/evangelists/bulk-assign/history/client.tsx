@@ -0,0 +1,320 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ACTIVITY_FIELD_LABELS } from '@/lib/evangelist-activity';
+import {
+  BULK_ASSIGN_REVERT_STATUS_LABELS,
+  BULK_ASSIGN_RUN_STATUS_LABELS,
+  type BulkAssignRevertItem,
+  type BulkAssignRevertStatus,
+} from '@/lib/bulk-assign-history';
+
+type UserRef = { id: string; name: string };
+
+type BulkAssignRunItem = {
+  id: string;
+  fileName: string | null;
+  status: keyof typeof BULK_ASSIGN_RUN_STATUS_LABELS;
+  totalRows: number;
+  changedCount: number;
+  revertedCount: number;
+  createdAt: string;
+  revertedAt: string | null;
+  executedBy: UserRef | null;
+  revertedBy: UserRef | null;
+};
+
+type BulkAssignRunDetail = {
+  run: BulkAssignRunItem;
+  items: BulkAssignRevertItem[];
+  users: UserRef[];
+};
+
+type RevertPlan = {
+  items: BulkAssignRevertItem[];
+  counts: Partial<Record<BulkAssignRevertStatus, number>>;
+};
+
+const RUN_BADGE_CLASS: Record<string, string> = {
+  APPLIED: 'bg-emerald-100 text-emerald-700',
+  PARTIALLY_REVERTED: 'bg-amber-100 text-amber-700',
+  REVERTED: 'bg-slate-200 text-slate-700',
+};
+
+const REVERT_BADGE_CLASS: Record<BulkAssignRevertStatus, string> = {
+  REVERTIBLE: 'border-emerald-300 text-emerald-700',
+  CONFLICT: 'border-rose-300 text-rose-700',
+  MISSING: 'border-slate-300 text-slate-500',
+  ALREADY_REVERTED: 'border-slate-300 text-slate-500',
+};
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString('ja-JP') : '—');
+
+export default function BulkAssignHistoryClient() {
+  const [runs, setRuns] = useState<BulkAssignRunItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [detail, setDetail] = useState<BulkAssignRunDetail | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [plan, setPlan] = useState<RevertPlan | null>(null);
+  const [reverting, setReverting] = useState(false);
+
+  const userNameById = useMemo(
+    () => new Map((detail?.users ?? []).map((user) => [user.id, user.name])),
+    [detail?.users],
+  );
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '（なし）';
+    if (field === 'assignedCsId' && typeof value === 'string') return userNameById.get(value) ?? value;
+    return String(value);
+  };
+
+  const loadRuns = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/evangelists/bulk-assign/runs', { credentials: 'include' });
+      if (response.status === 401) {
+        window.location.href = '/login';
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('実行履歴の取得に失敗しました');
+      }
+      const data = (await response.json()) as { items?: BulkAssignRunItem[] };
+      setRuns(Array.isArray(data.items) ? data.items : []);
+    } catch (error) {
+      console.error('Failed to load bulk assign runs', error);
+      toast.error(error instanceof Error ? error.message : '実行履歴の取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const openRun = useCallback(async (runId: string) => {
+    try {
+      setDetailLoading(true);
+      setPlan(null);
+      const response = await fetch(`/api/admin/evangelists/bulk-assign/runs/${runId}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error('実行履歴の詳細の取得に失敗しました');
+      }
+      setDetail((await response.json()) as BulkAssignRunDetail);
+    } catch (error) {
+      console.error('Failed to load bulk assign run', error);
+      toast.error(error instanceof Error ? error.message : '実行履歴の詳細の取得に失敗しました');
+    } finally {
+      setDetailLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadRuns();
+    // CSV一括反映画面からのリンク（?run=）は詳細を開いた状態で表示する
+    const runId = new URLSearchParams(window.location.search).get('run');
+    if (runId) void openRun(runId);
+  }, [loadRuns, openRun]);
+
+  const requestRevert = async (dryRun: boolean) => {
+    if (!detail) return;
+    try {
+      setReverting(true);
+      const response = await fetch(
+        `/api/admin/evangelists/bulk-assign/runs/${detail.run.id}/revert?dryRun=${dryRun}`,
+        { method: 'POST', credentials: 'include' },
+      );
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(response.status === 409 ? 'この実行はすでに取り消されています' : '取り消しに失敗しました');
+      }
+
+      if (dryRun) {
+        setPlan(data as RevertPlan);
+        return;
+      }
+
+      const result = data as RevertPlan & { reverted: number; conflicts: number };
+      toast.success(
+        result.conflicts > 0
+          ? `${result.reverted} 件を取り消しました（${result.conflicts} 件は直前に編集されたためスキップ）`
+          : `${result.reverted} 件を取り消しました`,
+      );
+      setPlan(null);
+      await Promise.all([loadRuns(), openRun(detail.run.id)]);
+    } catch (error) {
+      console.error('Failed to revert bulk assign run', error);
+      toast.error(error instanceof Error ? error.message : '取り消しに失敗しました');
+    } finally {
+      setReverting(false);
+    }
+  };
+
+  const items = plan?.items ?? detail?.items ?? [];
+  const revertibleCount = plan?.counts.REVERTIBLE ?? 0;
+  const skippedCount = (plan?.counts.CONFLICT ?? 0) + (plan?.counts.MISSING ?? 0);
+
+  return (
+    <div className="space-y-6">
+      <Card className="card w-full">
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="titleRow text-base md:text-lg">CSV一括反映の実行履歴（管理者のみ）</CardTitle>
+            <Link href="/admin/evangelists/bulk-assign" className="text-sm text-slate-600 hover:underline">
+              CSV一括反映に戻る
+            </Link>
+          </div>
+          <p className="text-sm text-slate-600">
+            実行ごとに変更した担当CS・Tier の変更前後を確認し、取り消せます。反映後に編集されたレコードは取り消しの対象外です。
+          </p>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="py-6 text-center text-sm text-slate-600">読み込み中...</p>
+          ) : runs.length === 0 ? (
+            <p className="py-6 text-center text-sm text-slate-500">実行履歴はまだありません</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-left text-slate-700">
+                  <tr>
+                    <th className="px-3 py-2">実行日時</th>
+                    <th className="px-3 py-2">ファイル名</th>
+                    <th className="px-3 py-2">実行者</th>
+                    <th className="px-3 py-2">状態</th>
+                    <th className="px-3 py-2 text-right">行数</th>
+                    <th className="px-3 py-2 text-right">変更</th>
+                    <th className="px-3 py-2 text-right">取り消し</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map((run) => (
+                    <tr
+                      key={run.id}
+                      className={`border-t border-slate-100 ${detail?.run.id === run.id ? 'bg-purple-50' : ''}`}
+                    >
+                      <td className="whitespace-nowrap px-3 py-2">{formatDateTime(run.createdAt)}</td>
+                      <td className="break-all px-3 py-2">{run.fileName ?? '—'}</td>
+                      <td className="px-3 py-2">{run.executedBy?.name ?? '—'}</td>
+                      <td className="px-3 py-2">
+                        <Badge className={RUN_BADGE_CLASS[run.status] ?? ''}>
+                          {BULK_ASSIGN_RUN_STATUS_LABELS[run.status] ?? run.status}
+                        </Badge>
+                      </td>
+                      <td className="px-3 py-2 text-right">{run.totalRows}</td>
+                      <td className="px-3 py-2 text-right">{run.changedCount}</td>
+                      <td className="px-3 py-2 text-right">{run.revertedCount}</td>
+                      <td className="px-3 py-2 text-right">
+                        <Button size="sm" variant="outline" onClick={() => void openRun(run.id)}>
+                          詳細
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {detailLoading && <p className="text-center text-sm text-slate-600">読み込み中...</p>}
+
+      {detail && !detailLoading && (
+        <Card className="card w-full">
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-base">
+                {detail.run.fileName ?? 'CSV一括反映'}（{formatDateTime(detail.run.createdAt)}）
+              </CardTitle>
+              {detail.run.status !== 'REVERTED' && detail.items.length > 0 && !plan && (
+                <Button size="sm" variant="outline" onClick={() => void requestRevert(true)} disabled={reverting}>
+                  {reverting ? '確認中...' : '取り消す'}
+                </Button>
+              )}
+            </div>
+            <p className="text-sm text-slate-600">
+              変更 {detail.run.changedCount} 件 / 取り消し済み {detail.run.revertedCount} 件
+              {detail.run.revertedAt &&
+                `（最終取り消し: ${formatDateTime(detail.run.revertedAt)} ${detail.run.revertedBy?.name ?? ''}）`}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {plan && (
+              <div className="space-y-3 rounded-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+                <p>
+                  {revertibleCount} 件を変更前の値に戻します。
+                  {skippedCount > 0 && ` ${skippedCount} 件は反映後に編集された・削除されたため戻しません。`}
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => void requestRevert(false)}
+                    disabled={reverting || revertibleCount === 0}
+                    className="bg-amber-600 text-white hover:bg-amber-700"
+                  >
+                    {reverting ? '取り消し中...' : '取り消しを実行'}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setPlan(null)} disabled={reverting}>
+                    キャンセル
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {items.length === 0 ? (
+              <p className="py-4 text-center text-sm text-slate-500">変更したレコードはありません</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-left text-slate-700">
+                    <tr>
+                      <th className="px-3 py-2">対象</th>
+                      <th className="px-3 py-2">変更内容（変更前 → 変更後）</th>
+                      <th className="px-3 py-2">取り消し</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {items.map((item) => (
+                      <tr key={item.changeId} className="border-t border-slate-100 align-top">
+                        <td className="px-3 py-2">
+                          {item.status === 'MISSING' ? (
+                            <span className="text-slate-500">{item.key}</span>
+                          ) : (
+                            <Link href={`/evangelists/${item.evangelistId}`} className="text-brand hover:underline">
+                              {item.name || item.key}
+                            </Link>
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          <ul className="space-y-1">
+                            {Object.entries(item.changes).map(([field, { before, after }]) => (
+                              <li key={field}>
+                                <span className="text-slate-500">{ACTIVITY_FIELD_LABELS[field] ?? field}: </span>
+                                {formatValue(field, before)} → {formatValue(field, after)}
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                        <td className="whitespace-nowrap px-3 py-2">
+                          <Badge variant="outline" className={REVERT_BADGE_CLASS[item.status]}>
+                            {BULK_ASSIGN_REVERT_STATUS_LABELS[item.status]}
+                          </Badge>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { requireAdmin } from '@/lib/session';
+
+import BulkAssignHistoryClient from './client';
+
+export default async function BulkAssignHistoryPage() {
+  await requireAdmin();
+
+  return (
+    <div className="app-shell py-8">
+      <BulkAssignHistoryClient />
+    </div>
+  );
+}
@@ -0,0 +1,407 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { ContactBackfillItem } from '@/lib/contact-backfill';
+import { CONTACT_FIELD_LABELS } from '@/lib/contact-normalize';
+import { ACTIVITY_FIELD_LABELS } from '@/lib/evangelist-activity';
+import {
+  DUPLICATE_REASON_LABELS,
+  MERGEABLE_FIELDS,
+  type DuplicateReason,
+  type MergeableField,
+} from '@/lib/evangelist-duplicates';
+
+type DuplicateEvangelist = Record<string, unknown> & {
+  id: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  email?: string | null;
+  phoneNumber?: string | null;
+  assignedCs?: { id: string; name: string } | null;
+  _count?: { meetings: number };
+  createdAt?: string;
+};
+
+type DuplicatePairItem = {
+  score: number;
+  reasons: DuplicateReason[];
+  a: DuplicateEvangelist;
+  b: DuplicateEvangelist;
+};
+
+type Side = 'a' | 'b';
+
+const displayName = (evangelist: DuplicateEvangelist) =>
+  [evangelist.lastName, evangelist.firstName].filter(Boolean).join(' ') || '(氏名なし)';
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+const formatValue = (field: MergeableField, evangelist: DuplicateEvangelist) => {
+  const value = evangelist[field];
+  if (field === 'assignedCsId') return evangelist.assignedCs?.name ?? (isEmpty(value) ? '—' : String(value));
+  if (isEmpty(value)) return '—';
+  if (typeof value === 'boolean') return value ? '済' : '未';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleDateString('ja-JP');
+  }
+  return String(value);
+};
+
+export default function DuplicatesClient() {
+  const [items, setItems] = useState<DuplicatePairItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<DuplicatePairItem | null>(null);
+  const [survivor, setSurvivor] = useState<Side>('a');
+  const [choices, setChoices] = useState<Partial<Record<MergeableField, Side>>>({});
+  const [merging, setMerging] = useState(false);
+
+  const loadDuplicates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/evangelists/duplicates', { credentials: 'include' });
+      if (response.status === 401) {
+        window.location.href = '/login';
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('重複候補の取得に失敗しました');
+      }
+      const data = (await response.json()) as { items?: DuplicatePairItem[] };
+      setItems(Array.isArray(data.items) ? data.items : []);
+    } catch (error) {
+      console.error('Failed to load duplicates', error);
+      toast.error(error instanceof Error ? error.message : '重複候補の取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadDuplicates();
+  }, [loadDuplicates]);
+
+  const openMerge = (item: DuplicatePairItem) => {
+    // 面談数が多い方（同数なら古い方）を残す側の初期値にする
+    const aMeetings = item.a._count?.meetings ?? 0;
+    const bMeetings = item.b._count?.meetings ?? 0;
+    const defaultSurvivor: Side =
+      aMeetings !== bMeetings
+        ? aMeetings > bMeetings
+          ? 'a'
+          : 'b'
+        : String(item.a.createdAt ?? '') <= String(item.b.createdAt ?? '')
+          ? 'a'
+          : 'b';
+    const other: Side = defaultSurvivor === 'a' ? 'b' : 'a';
+
+    // 残す側が空欄の項目は相手側の値を初期選択にする
+    const initialChoices: Partial<Record<MergeableField, Side>> = {};
+    MERGEABLE_FIELDS.forEach((field) => {
+      initialChoices[field] =
+        isEmpty(item[defaultSurvivor][field]) && !isEmpty(item[other][field]) ? other : defaultSurvivor;
+    });
+
+    setSelected(item);
+    setSurvivor(defaultSurvivor);
+    setChoices(initialChoices);
+  };
+
+  const differingFields = useMemo(() => {
+    if (!selected) return [];
+    return MERGEABLE_FIELDS.filter(
+      (field) => JSON.stringify(selected.a[field] ?? null) !== JSON.stringify(selected.b[field] ?? null),
+    );
+  }, [selected]);
+
+  const handleMerge = async () => {
+    if (!selected) return;
+    const survivorRecord = selected[survivor];
+    const mergedSide: Side = survivor === 'a' ? 'b' : 'a';
+    const mergedRecord = selected[mergedSide];
+
+    if (
+      !window.confirm(
+        `「${displayName(mergedRecord)}」を「${displayName(survivorRecord)}」に統合します。統合元は削除されます。よろしいですか？`,
+      )
+    ) {
+      return;
+    }
+
+    const selections: Partial<Record<MergeableField, 'survivor' | 'merged'>> = {};
+    differingFields.forEach((field) => {
+      selections[field] = choices[field] === survivor ? 'survivor' : 'merged';
+    });
+
+    try {
+      setMerging(true);
+      const response = await fetch('/api/admin/evangelists/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ survivorId: survivorRecord.id, mergedId: mergedRecord.id, selections }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(
+          data?.error === 'Evangelist is archived'
+            ? 'アーカイブ済みのEVAは統合できません（復元してから統合してください）'
+            : typeof data?.error === 'string'
+              ? data.error
+              : '統合に失敗しました',
+        );
+      }
+      toast.success('重複EVAを統合しました');
+      setSelected(null);
+      setItems((prev) =>
+        prev.filter((item) => item.a.id !== mergedRecord.id && item.b.id !== mergedRecord.id),
+      );
+    } catch (error) {
+      console.error('Failed to merge evangelists', error);
+      toast.error(error instanceof Error ? error.message : '統合に失敗しました');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="card w-full">
+        <CardHeader>
+          <CardTitle className="titleRow text-base md:text-lg">重複EVAの検出と統合（管理者のみ）</CardTitle>
+          <p className="text-sm text-slate-600">
+            氏名（全角/半角・カナ揺れを吸収）、メール、電話番号、Facebook URL の一致からスコアを算出しています。
+          </p>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="py-6 text-center text-sm text-slate-600">読み込み中...</p>
+          ) : items.length === 0 ? (
+            <p className="py-6 text-center text-sm text-slate-500">重複候補は見つかりませんでした</p>
+          ) : (
+            <ul className="divide-y divide-slate-200">
+              {items.map((item) => (
+                <li key={`${item.a.id}:${item.b.id}`} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <Badge className="bg-amber-100 text-amber-800">{item.score}</Badge>
+                      <Link href={`/evangelists/${item.a.id}`} className="font-medium text-slate-800 hover:underline">
+                        {displayName(item.a)}
+                      </Link>
+                      <span className="text-slate-400">/</span>
+                      <Link href={`/evangelists/${item.b.id}`} className="font-medium text-slate-800 hover:underline">
+                        {displayName(item.b)}
+                      </Link>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {item.reasons.map((reason) => (
+                        <Badge key={reason} variant="outline" className="text-xs">
+                          {DUPLICATE_REASON_LABELS[reason]}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => openMerge(item)}>
+                    統合する
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <ContactNormalizeCard onApplied={loadDuplicates} />
+
+      {selected && (
+        <Card className="card w-full">
+          <CardHeader>
+            <CardTitle className="text-base">統合内容の確認</CardTitle>
+            <p className="text-sm text-slate-600">
+              残すレコードと、項目ごとに残す値を選択してください。面談・紹介実績・フェーズ履歴・変更履歴は残すレコードに移され、タグと強みは両方のものを残します。カスタム項目は残すレコードに無い項目だけ統合元の値で補います。
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-left text-slate-700">
+                  <tr>
+                    <th className="px-3 py-2">項目</th>
+                    {(['a', 'b'] as const).map((side) => (
+                      <th key={side} className="px-3 py-2">
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="radio"
+                            name="survivor"
+                            checked={survivor === side}
+                            onChange={() => setSurvivor(side)}
+                          />
+                          {displayName(selected[side])}（面談 {selected[side]._count?.meetings ?? 0}件）
+                          {survivor === side && <Badge className="bg-emerald-100 text-emerald-700">残す</Badge>}
+                        </label>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {differingFields.map((field) => (
+                    <tr key={field} className="border-t border-slate-100">
+                      <td className="px-3 py-2 text-slate-600">{ACTIVITY_FIELD_LABELS[field] ?? field}</td>
+                      {(['a', 'b'] as const).map((side) => (
+                        <td key={side} className="px-3 py-2">
+                          <label className="flex items-start gap-2">
+                            <input
+                              type="radio"
+                              name={`field-${field}`}
+                              checked={choices[field] === side}
+                              onChange={() => setChoices((prev) => ({ ...prev, [field]: side }))}
+                            />
+                            <span className="break-all">{formatValue(field, selected[side])}</span>
+                          </label>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  {differingFields.length === 0 && (
+                    <tr>
+                      <td colSpan={3} className="px-3 py-4 text-center text-slate-500">
+                        項目の値はすべて同じです
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setSelected(null)} disabled={merging}>
+                キャンセル
+              </Button>
+              <Button
+                onClick={handleMerge}
+                disabled={merging}
+                className="bg-brand text-white hover:bg-brand-600"
+              >
+                {merging ? '統合中...' : '統合を実行'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+type ContactBackfillResponse = {
+  dryRun: boolean;
+  updated?: number;
+  skipped?: number;
+  items: ContactBackfillItem[];
+  counts: { changes: number; invalid: number; emailConflicts: number };
+};
+
+const PREVIEW_LIMIT = 50;
+
+/** 既存レコードの連絡先（メール・電話番号・Facebook URL）の表記揃え */
+function ContactNormalizeCard({ onApplied }: { onApplied: () => void }) {
+  const [result, setResult] = useState<ContactBackfillResponse | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const run = async (dryRun: boolean) => {
+    if (!dryRun && !window.confirm(`${result?.counts.changes ?? 0}件のEVAの連絡先を書き換えます。よろしいですか？`)) {
+      return;
+    }
+    try {
+      setRunning(true);
+      const response = await fetch(`/api/admin/evangelists/normalize-contacts?dryRun=${dryRun}`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error('連絡先の表記揃えに失敗しました');
+      }
+      const next = data as ContactBackfillResponse;
+      setResult(next);
+      if (!next.dryRun) {
+        toast.success(
+          next.skipped
+            ? `${next.updated ?? 0}件を揃えました（${next.skipped}件は途中で編集されたためスキップ）`
+            : `${next.updated ?? 0}件を揃えました`,
+        );
+        onApplied();
+      }
+    } catch (error) {
+      console.error('Failed to normalize contacts', error);
+      toast.error(error instanceof Error ? error.message : '連絡先の表記揃えに失敗しました');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card className="card w-full">
+      <CardHeader>
+        <CardTitle className="titleRow text-base md:text-lg">連絡先の表記揃え</CardTitle>
+        <p className="text-sm text-slate-600">
+          登録済みのメールを小文字に、電話番号を +81 から始まる国際表記に、Facebook URL をプロフィールの URL に揃えます。形式が正しくない値はそのまま残します。
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => run(true)} disabled={running}>
+            {running ? '確認中...' : '対象を確認'}
+          </Button>
+          {result?.dryRun && result.counts.changes > 0 && (
+            <Button onClick={() => run(false)} disabled={running} className="bg-brand text-white hover:bg-brand-600">
+              {result.counts.changes}件を揃える
+            </Button>
+          )}
+        </div>
+
+        {result && (
+          <>
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">書き換え {result.counts.changes}件</Badge>
+              <Badge variant="outline">形式エラー {result.counts.invalid}件</Badge>
+              <Badge variant="outline">メール重複 {result.counts.emailConflicts}件</Badge>
+            </div>
+            {result.items.length === 0 ? (
+              <p className="text-sm text-slate-500">揃える必要のある連絡先はありません</p>
+            ) : (
+              <ul className="divide-y divide-slate-200 text-sm">
+                {result.items.slice(0, PREVIEW_LIMIT).map((item) => (
+                  <li key={item.evangelistId} className="space-y-1 py-2">
+                    <Link href={`/evangelists/${item.evangelistId}`} className="font-medium text-slate-800 hover:underline">
+                      {item.name || '(氏名なし)'}
+                    </Link>
+                    {Object.entries(item.changes).map(([field, { before, after }]) => (
+                      <p key={field} className="break-all text-xs text-slate-600">
+                        {ACTIVITY_FIELD_LABELS[field] ?? field}: {String(before ?? '—')} → {String(after ?? '—')}
+                      </p>
+                    ))}
+                    {item.invalid.length > 0 && (
+                      <p className="text-xs text-red-600">
+                        {item.invalid.map((field) => CONTACT_FIELD_LABELS[field]).join('・')}の形式が正しくありません
+                      </p>
+                    )}
+                    {item.emailConflict && (
+                      <p className="text-xs text-amber-700">揃えると他のEVAと同じメールアドレスになります。統合してください</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {result.items.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-slate-500">ほか {result.items.length - PREVIEW_LIMIT}件</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,13 @@
+import { requireAdmin } from '@/lib/session';
+
+import DuplicatesClient from './client';
+
+export default async function DuplicatesPage() {
+  await requireAdmin();
+
+  return (
+    <div className="app-shell py-8">
+      <DuplicatesClient />
+    </div>
+  );
+}
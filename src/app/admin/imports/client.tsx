@@ -0,0 +1,265 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ACTIVITY_FIELD_LABELS } from '@/lib/evangelist-activity';
+import { IMPORT_JOB_STATUS_LABELS, IMPORT_ROW_STATUS_LABELS } from '@/lib/import-jobs';
+
+type ImportJobItem = {
+  id: string;
+  fileName: string;
+  status: string;
+  mapping: Record<string, string | string[]> | null;
+  totalRows: number;
+  createdCount: number;
+  updatedCount: number;
+  failedCount: number;
+  skippedCount: number;
+  createdAt: string;
+  finishedAt: string | null;
+  uploadedBy: { id: string; name: string } | null;
+};
+
+type ImportIssueRow = {
+  id: string;
+  rowNumber: number;
+  status: keyof typeof IMPORT_ROW_STATUS_LABELS;
+  reason: string | null;
+  data: Record<string, unknown> | null;
+};
+
+type ImportJobDetail = {
+  job: ImportJobItem;
+  issues: ImportIssueRow[];
+  issuesTruncated: boolean;
+};
+
+const STATUS_BADGE_CLASS: Record<string, string> = {
+  RUNNING: 'bg-sky-100 text-sky-700',
+  COMPLETED: 'bg-emerald-100 text-emerald-700',
+  FAILED: 'bg-rose-100 text-rose-700',
+};
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString('ja-JP') : '—');
+
+const summarizeRow = (data: Record<string, unknown> | null) => {
+  if (!data) return '—';
+  const name = [data.lastName, data.firstName].filter(Boolean).join(' ');
+  const contact = typeof data.email === 'string' ? data.email : typeof data.recordId === 'string' ? data.recordId : '';
+  return [name, contact].filter(Boolean).join(' / ') || '—';
+};
+
+export default function ImportsClient() {
+  const [items, setItems] = useState<ImportJobItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [detail, setDetail] = useState<ImportJobDetail | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/imports', { credentials: 'include' });
+      if (response.status === 401) {
+        window.location.href = '/login';
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('インポート履歴の取得に失敗しました');
+      }
+      const data = (await response.json()) as { items?: ImportJobItem[] };
+      setItems(Array.isArray(data.items) ? data.items : []);
+    } catch (error) {
+      console.error('Failed to load import jobs', error);
+      toast.error(error instanceof Error ? error.message : 'インポート履歴の取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const openJob = useCallback(async (jobId: string) => {
+    try {
+      setDetailLoading(true);
+      const response = await fetch(`/api/admin/imports/${jobId}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error('インポート詳細の取得に失敗しました');
+      }
+      setDetail((await response.json()) as ImportJobDetail);
+    } catch (error) {
+      console.error('Failed to load import job', error);
+      toast.error(error instanceof Error ? error.message : 'インポート詳細の取得に失敗しました');
+    } finally {
+      setDetailLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadJobs();
+    // CSVインポート画面からのリンク（?job=）は詳細を開いた状態で表示する
+    const jobId = new URLSearchParams(window.location.search).get('job');
+    if (jobId) void openJob(jobId);
+  }, [loadJobs, openJob]);
+
+  return (
+    <div className="space-y-6">
+      <Card className="card w-full">
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="titleRow text-base md:text-lg">CSVインポート履歴（管理者のみ）</CardTitle>
+            <Link href="/admin/imports/templates" className="text-sm text-slate-600 hover:underline">
+              マッピングテンプレート管理
+            </Link>
+          </div>
+          <p className="text-sm text-slate-600">
+            インポートごとの件数と、失敗・スキップした行の理由を確認できます。失敗行は CSV でダウンロードして修正後に再インポートしてください。
+          </p>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="py-6 text-center text-sm text-slate-600">読み込み中...</p>
+          ) : items.length === 0 ? (
+            <p className="py-6 text-center text-sm text-slate-500">インポート履歴はまだありません</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-left text-slate-700">
+                  <tr>
+                    <th className="px-3 py-2">実行日時</th>
+                    <th className="px-3 py-2">ファイル名</th>
+                    <th className="px-3 py-2">実行者</th>
+                    <th className="px-3 py-2">状態</th>
+                    <th className="px-3 py-2 text-right">総行数</th>
+                    <th className="px-3 py-2 text-right">新規</th>
+                    <th className="px-3 py-2 text-right">更新</th>
+                    <th className="px-3 py-2 text-right">失敗</th>
+                    <th className="px-3 py-2 text-right">スキップ</th>
+                    <th className="px-3 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((job) => (
+                    <tr
+                      key={job.id}
+                      className={`border-t border-slate-100 ${detail?.job.id === job.id ? 'bg-purple-50' : ''}`}
+                    >
+                      <td className="whitespace-nowrap px-3 py-2">{formatDateTime(job.createdAt)}</td>
+                      <td className="break-all px-3 py-2">{job.fileName}</td>
+                      <td className="px-3 py-2">{job.uploadedBy?.name ?? '—'}</td>
+                      <td className="px-3 py-2">
+                        <Badge className={STATUS_BADGE_CLASS[job.status] ?? ''}>
+                          {IMPORT_JOB_STATUS_LABELS[job.status] ?? job.status}
+                        </Badge>
+                      </td>
+                      <td className="px-3 py-2 text-right">{job.totalRows}</td>
+                      <td className="px-3 py-2 text-right">{job.createdCount}</td>
+                      <td className="px-3 py-2 text-right">{job.updatedCount}</td>
+                      <td className={`px-3 py-2 text-right ${job.failedCount > 0 ? 'font-semibold text-rose-600' : ''}`}>
+                        {job.failedCount}
+                      </td>
+                      <td className="px-3 py-2 text-right">{job.skippedCount}</td>
+                      <td className="whitespace-nowrap px-3 py-2 text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="outline" onClick={() => void openJob(job.id)}>
+                            詳細
+                          </Button>
+                          {job.failedCount + job.skippedCount > 0 && (
+                            <Button size="sm" variant="outline" asChild>
+                              <a href={`/api/admin/imports/${job.id}/failures`}>失敗行CSV</a>
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {detailLoading && <p className="text-center text-sm text-slate-600">読み込み中...</p>}
+
+      {detail && !detailLoading && (
+        <Card className="card w-full">
+          <CardHeader>
+            <CardTitle className="text-base">
+              {detail.job.fileName}（{formatDateTime(detail.job.createdAt)}）
+            </CardTitle>
+            <p className="text-sm text-slate-600">
+              新規 {detail.job.createdCount} 件 / 更新 {detail.job.updatedCount} 件 / 失敗 {detail.job.failedCount} 件 /
+              スキップ {detail.job.skippedCount} 件（総行数 {detail.job.totalRows}）
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {detail.job.mapping && Object.keys(detail.job.mapping).length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-semibold text-slate-700">列マッピング</h3>
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(detail.job.mapping).map(([field, columns]) => (
+                    <Badge key={field} variant="outline" className="text-xs">
+                      {ACTIVITY_FIELD_LABELS[field] ?? field} ← {Array.isArray(columns) ? columns.join(', ') : columns}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="text-sm font-semibold text-slate-700">失敗・スキップした行と注記のある行</h3>
+                {detail.issues.length > 0 && (
+                  <Button size="sm" variant="outline" asChild>
+                    <a href={`/api/admin/imports/${detail.job.id}/failures`}>CSVダウンロード</a>
+                  </Button>
+                )}
+              </div>
+              {detail.issues.length === 0 ? (
+                <p className="py-4 text-center text-sm text-slate-500">すべての行がそのまま取り込まれました</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-left text-slate-700">
+                      <tr>
+                        <th className="px-3 py-2">行</th>
+                        <th className="px-3 py-2">結果</th>
+                        <th className="px-3 py-2">対象</th>
+                        <th className="px-3 py-2">理由</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {detail.issues.map((row) => (
+                        <tr key={row.id} className="border-t border-slate-100 align-top">
+                          <td className="px-3 py-2">{row.rowNumber}</td>
+                          <td className="whitespace-nowrap px-3 py-2">
+                            <Badge
+                              variant="outline"
+                              className={row.status === 'FAILED' ? 'border-rose-300 text-rose-700' : 'text-slate-600'}
+                            >
+                              {IMPORT_ROW_STATUS_LABELS[row.status] ?? row.status}
+                            </Badge>
+                          </td>
+                          <td className="px-3 py-2">{summarizeRow(row.data)}</td>
+                          <td className="break-all px-3 py-2 text-slate-600">{row.reason ?? '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {detail.issuesTruncated && (
+                    <p className="mt-2 text-xs text-slate-500">
+                      表示は先頭 {detail.issues.length} 行までです。全件は CSV でダウンロードしてください。
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { requireAdmin } from '@/lib/session';
+
+import ImportsClient from './client';
+
+export default async function ImportsPage() {
+  await requireAdmin();
+
+  return (
+    <div className="app-shell py-8">
+      <ImportsClient />
+    </div>
+  );
+}
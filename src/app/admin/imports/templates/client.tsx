@@ -0,0 +1,194 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import type { MappingTemplate } from '@/components/csv/mapping-template-bar';
+import { DB_FIELD_LABELS } from '@/lib/import-fields';
+
+export default function MappingTemplatesClient() {
+  const [items, setItems] = useState<MappingTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/imports/templates', { credentials: 'include' });
+      if (response.status === 401) {
+        window.location.href = '/login';
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('テンプレートの取得に失敗しました');
+      }
+      const data = (await response.json()) as { items?: MappingTemplate[] };
+      setItems(Array.isArray(data.items) ? data.items : []);
+    } catch (error) {
+      console.error('Failed to load mapping templates', error);
+      toast.error(error instanceof Error ? error.message : 'テンプレートの取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadTemplates();
+  }, [loadTemplates]);
+
+  const updateTemplate = async (id: string, data: { name?: string; shared?: boolean }) => {
+    try {
+      setBusyId(id);
+      const response = await fetch(`/api/evangelists/import/templates/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(typeof result?.error === 'string' ? result.error : 'テンプレートの更新に失敗しました');
+      }
+      setItems((prev) => prev.map((item) => (item.id === id ? (result as MappingTemplate) : item)));
+      setEditingId(null);
+      toast.success('テンプレートを更新しました');
+    } catch (error) {
+      console.error('Failed to update mapping template', error);
+      toast.error(error instanceof Error ? error.message : 'テンプレートの更新に失敗しました');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteTemplate = async (template: MappingTemplate) => {
+    if (!window.confirm(`テンプレート「${template.name}」を削除します。よろしいですか？`)) return;
+
+    try {
+      setBusyId(template.id);
+      const response = await fetch(`/api/evangelists/import/templates/${template.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        throw new Error('テンプレートの削除に失敗しました');
+      }
+      setItems((prev) => prev.filter((item) => item.id !== template.id));
+      toast.success('テンプレートを削除しました');
+    } catch (error) {
+      console.error('Failed to delete mapping template', error);
+      toast.error(error instanceof Error ? error.message : 'テンプレートの削除に失敗しました');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="card w-full">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="titleRow text-base md:text-lg">CSVマッピングテンプレート（管理者のみ）</CardTitle>
+          <Link href="/admin/imports" className="text-sm text-slate-600 hover:underline">
+            インポート履歴へ
+          </Link>
+        </div>
+        <p className="text-sm text-slate-600">
+          CSVインポート画面で保存されたテンプレートです。共有テンプレートはすべての CS が利用でき、CSV のヘッダが一致すると自動で提案されます。
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="py-6 text-center text-sm text-slate-600">読み込み中...</p>
+        ) : items.length === 0 ? (
+          <p className="py-6 text-center text-sm text-slate-500">テンプレートはまだありません</p>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {items.map((template) => (
+              <li key={template.id} className="space-y-2 py-4">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {editingId === template.id ? (
+                      <Input
+                        value={editingName}
+                        onChange={(event) => setEditingName(event.target.value)}
+                        className="h-8 w-64"
+                        maxLength={100}
+                      />
+                    ) : (
+                      <span className="font-medium text-slate-800">{template.name}</span>
+                    )}
+                    {template.shared ? (
+                      <Badge className="bg-purple-100 text-purple-700">共有</Badge>
+                    ) : (
+                      <Badge variant="outline">個人</Badge>
+                    )}
+                    <span className="text-xs text-slate-500">
+                      作成者: {template.owner?.name ?? '—'} / 更新: {new Date(template.updatedAt).toLocaleString('ja-JP')}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {editingId === template.id ? (
+                      <>
+                        <Button
+                          size="sm"
+                          disabled={busyId === template.id || !editingName.trim()}
+                          onClick={() => void updateTemplate(template.id, { name: editingName.trim() })}
+                        >
+                          保存
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                          キャンセル
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setEditingId(template.id);
+                          setEditingName(template.name);
+                        }}
+                      >
+                        名前を変更
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={busyId === template.id}
+                      onClick={() => void updateTemplate(template.id, { shared: !template.shared })}
+                    >
+                      {template.shared ? '共有を解除' : 'チームで共有'}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-rose-600"
+                      disabled={busyId === template.id}
+                      onClick={() => void deleteTemplate(template)}
+                    >
+                      削除
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {Object.entries(template.mapping).map(([field, columns]) => (
+                    <Badge key={field} variant="outline" className="text-xs font-normal">
+                      {DB_FIELD_LABELS[field] ?? field} ← {Array.isArray(columns) ? columns.join(', ') : columns}
+                    </Badge>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
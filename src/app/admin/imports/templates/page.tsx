@@ -0,0 +1,13 @@
+import { requireAdmin } from '@/lib/session';
+
+import MappingTemplatesClient from './client';
+
+export default async function MappingTemplatesPage() {
+  await requireAdmin();
+
+  return (
+    <div className="app-shell py-8">
+      <MappingTemplatesClient />
+    </div>
+  );
+}
@@ -112,6 +112,12 @@ export default function AdminInnovatorsPage() {
     }
   }, [currentPage, searchTerm])
 
+  // コマンドパレットから ?search= つきで開かれたときは検索語を引き継ぐ
+  useEffect(() => {
+    const initialSearch = new URLSearchParams(window.location.search).get('search')
+    if (initialSearch) setSearchTerm(initialSearch)
+  }, [])
+
   useEffect(() => {
     void fetchInnovators()
   }, [fetchInnovators])
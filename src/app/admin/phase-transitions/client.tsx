@@ -0,0 +1,147 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  DEFAULT_PHASE_TRANSITIONS,
+  EVANGELIST_PHASE_LABELS,
+  EVANGELIST_PHASE_VALUES,
+  PHASE_TRANSITION_SOURCE_LABELS,
+  PHASE_TRANSITION_SOURCES,
+  type EvangelistPhaseValue,
+  type PhaseTransitionRules,
+  type PhaseTransitionSource,
+} from '@/lib/evangelist-phase';
+
+export default function PhaseTransitionsClient() {
+  const [rules, setRules] = useState<PhaseTransitionRules | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/phase-transitions', { credentials: 'include', cache: 'no-store' });
+      if (response.status === 401) {
+        window.location.href = '/login';
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('遷移ルールの取得に失敗しました');
+      }
+      const data = (await response.json()) as { rules: PhaseTransitionRules };
+      setRules(data.rules);
+    } catch (error) {
+      console.error('Failed to load phase transition rules', error);
+      toast.error(error instanceof Error ? error.message : '遷移ルールの取得に失敗しました');
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadRules();
+  }, [loadRules]);
+
+  const toggleTransition = (from: PhaseTransitionSource, to: EvangelistPhaseValue) => {
+    setRules((prev) => {
+      if (!prev) return prev;
+      const current = prev[from];
+      const next = current.includes(to) ? current.filter((phase) => phase !== to) : [...current, to];
+      return { ...prev, [from]: EVANGELIST_PHASE_VALUES.filter((phase) => next.includes(phase)) };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!rules) return;
+    try {
+      setSaving(true);
+      const response = await fetch('/api/admin/phase-transitions', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(rules),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(result?.error === 'Invalid request data' ? '入力内容に誤りがあります' : '保存に失敗しました');
+      }
+      setRules((result as { rules: PhaseTransitionRules }).rules);
+      toast.success('遷移ルールを保存しました');
+    } catch (error) {
+      console.error('Failed to save phase transition rules', error);
+      toast.error(error instanceof Error ? error.message : '保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="card w-full">
+      <CardHeader>
+        <CardTitle className="titleRow text-base md:text-lg">フェーズ遷移ルールの設定（管理者のみ）</CardTitle>
+        <p className="text-sm text-slate-600">
+          各フェーズから移動できるフェーズを選びます。ルール外の移動は、管理者が強制変更を指定したときだけ行えます。
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!rules ? (
+          <p className="py-6 text-center text-sm text-slate-600">読み込み中...</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-left text-slate-600">
+                  <th className="py-2 pr-4 font-semibold">遷移元 ＼ 遷移先</th>
+                  {EVANGELIST_PHASE_VALUES.map((phase) => (
+                    <th key={phase} className="py-2 pr-4 font-semibold">
+                      {EVANGELIST_PHASE_LABELS[phase]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {PHASE_TRANSITION_SOURCES.map((from) => (
+                  <tr key={from} className="border-b border-slate-100 last:border-0">
+                    <td className="py-2 pr-4 text-slate-800">{PHASE_TRANSITION_SOURCE_LABELS[from]}</td>
+                    {EVANGELIST_PHASE_VALUES.map((to) => (
+                      <td key={to} className="py-2 pr-4">
+                        {from === to ? (
+                          <span className="text-slate-300">—</span>
+                        ) : (
+                          <input
+                            type="checkbox"
+                            aria-label={`${PHASE_TRANSITION_SOURCE_LABELS[from]} → ${EVANGELIST_PHASE_LABELS[to]}`}
+                            checked={rules[from].includes(to)}
+                            onChange={() => toggleTransition(from, to)}
+                          />
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={!rules || saving}
+            onClick={() => setRules({ ...DEFAULT_PHASE_TRANSITIONS })}
+          >
+            既定値に戻す
+          </Button>
+          <Button
+            type="button"
+            disabled={!rules || saving}
+            onClick={() => void handleSave()}
+            className="bg-brand text-white hover:bg-brand-600"
+          >
+            {saving ? '保存中...' : '保存'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
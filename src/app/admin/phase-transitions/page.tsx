@@ -0,0 +1,13 @@
+import { requireAdmin } from '@/lib/session';
+
+import PhaseTransitionsClient from './client';
+
+export default async function PhaseTransitionsPage() {
+  await requireAdmin();
+
+  return (
+    <div className="app-shell py-8">
+      <PhaseTransitionsClient />
+    </div>
+  );
+}
@@ -0,0 +1,484 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  PICKLIST_FIELD_LABELS,
+  PICKLIST_FIELDS,
+  type PicklistField,
+  type PicklistOptionItem,
+} from '@/lib/picklists';
+
+type FormState = {
+  value: string;
+  synonyms: string;
+  sortOrder: string;
+};
+
+type DistinctValue = {
+  value: string;
+  count: number;
+  suggestion: string | null;
+  canonical: boolean;
+};
+
+type SaveResult = {
+  item: PicklistOptionItem;
+  conflicts?: { synonym: string; option: string }[];
+  replaced?: number;
+};
+
+const EMPTY_FORM: FormState = { value: '', synonyms: '', sortOrder: '0' };
+
+const ERROR_MESSAGES: Record<string, string> = {
+  'Picklist option already exists': '同じ表記の選択肢が既にあります',
+  'Picklist option in use': 'この値が入力されているEVAがあるため削除できません。アーカイブしてください',
+  'Picklist option not found': '選択肢が見つかりません。再読み込みしてください',
+  'Invalid request data': '入力内容に誤りがあります',
+};
+
+const selectClassName = 'w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900';
+
+const splitLines = (value: string) =>
+  value
+    .split(/[\n,]/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+function notifyConflicts(conflicts?: { synonym: string; option: string }[]) {
+  if (!conflicts || conflicts.length === 0) return;
+  toast.warning(
+    `他の選択肢と重なる同義語は登録しませんでした: ${conflicts
+      .map((conflict) => `${conflict.synonym}（${conflict.option}）`)
+      .join(', ')}`,
+  );
+}
+
+export default function PicklistsClient() {
+  const [field, setField] = useState<PicklistField>(PICKLIST_FIELDS[0]);
+  const [items, setItems] = useState<PicklistOptionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [values, setValues] = useState<DistinctValue[]>([]);
+  const [valuesLoading, setValuesLoading] = useState(false);
+  const [mappings, setMappings] = useState<Record<string, string>>({});
+  const [addSynonyms, setAddSynonyms] = useState(true);
+  const [normalizing, setNormalizing] = useState(false);
+
+  const fieldItems = useMemo(() => items.filter((item) => item.field === field), [field, items]);
+
+  const loadItems = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/picklists', { credentials: 'include', cache: 'no-store' });
+      if (response.status === 401) {
+        window.location.href = '/login';
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('選択肢の取得に失敗しました');
+      }
+      const data = (await response.json()) as { items?: PicklistOptionItem[] };
+      setItems(Array.isArray(data.items) ? data.items : []);
+    } catch (error) {
+      console.error('Failed to load picklists', error);
+      toast.error(error instanceof Error ? error.message : '選択肢の取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadValues = useCallback(async (target: PicklistField) => {
+    try {
+      setValuesLoading(true);
+      const response = await fetch(`/api/admin/picklists/values?field=${target}`, {
+        credentials: 'include',
+        cache: 'no-store',
+      });
+      if (!response.ok) {
+        throw new Error('既存値の取得に失敗しました');
+      }
+      const data = (await response.json()) as { items?: DistinctValue[] };
+      setValues(Array.isArray(data.items) ? data.items : []);
+    } catch (error) {
+      console.error('Failed to load picklist values', error);
+      toast.error(error instanceof Error ? error.message : '既存値の取得に失敗しました');
+    } finally {
+      setValuesLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadItems();
+  }, [loadItems]);
+
+  useEffect(() => {
+    void loadValues(field);
+  }, [field, loadValues]);
+
+  // 表記ゆれとして照合できた値は、寄せ先の選択肢を初期選択しておく
+  useEffect(() => {
+    const optionIdByValue = new Map(fieldItems.map((item) => [item.value, item.id]));
+    setMappings(
+      values.reduce<Record<string, string>>((acc, item) => {
+        if (!item.canonical && item.suggestion) {
+          const optionId = optionIdByValue.get(item.suggestion);
+          if (optionId) acc[item.value] = optionId;
+        }
+        return acc;
+      }, {}),
+    );
+  }, [fieldItems, values]);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const changeField = (next: PicklistField) => {
+    setField(next);
+    resetForm();
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const settings = {
+      value: form.value.trim(),
+      synonyms: splitLines(form.synonyms),
+      sortOrder: Number(form.sortOrder) || 0,
+    };
+
+    try {
+      setSaving(true);
+      const response = await fetch(editingId ? `/api/admin/picklists/${editingId}` : '/api/admin/picklists', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(editingId ? settings : { ...settings, field }),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(ERROR_MESSAGES[result?.error] ?? '選択肢の保存に失敗しました');
+      }
+      const { item, conflicts, replaced } = result as SaveResult;
+      setItems((prev) => (editingId ? prev.map((option) => (option.id === item.id ? item : option)) : [...prev, item]));
+      toast.success(
+        editingId
+          ? `「${item.value}」を更新しました${replaced ? `（${replaced}件のEVAの値を置き換えました）` : ''}`
+          : `「${item.value}」を追加しました`,
+      );
+      notifyConflicts(conflicts);
+      resetForm();
+      void loadValues(field);
+    } catch (error) {
+      console.error('Failed to save picklist option', error);
+      toast.error(error instanceof Error ? error.message : '選択肢の保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleArchived = async (option: PicklistOptionItem) => {
+    try {
+      setBusyId(option.id);
+      const response = await fetch(`/api/admin/picklists/${option.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ archived: !option.archived }),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(ERROR_MESSAGES[result?.error] ?? '選択肢の更新に失敗しました');
+      }
+      const { item } = result as SaveResult;
+      setItems((prev) => prev.map((candidate) => (candidate.id === item.id ? item : candidate)));
+      toast.success(option.archived ? `「${option.value}」を再開しました` : `「${option.value}」をアーカイブしました`);
+    } catch (error) {
+      console.error('Failed to archive picklist option', error);
+      toast.error(error instanceof Error ? error.message : '選択肢の更新に失敗しました');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteItem = async (option: PicklistOptionItem) => {
+    if (!window.confirm(`選択肢「${option.value}」を削除します。よろしいですか？`)) return;
+
+    try {
+      setBusyId(option.id);
+      const response = await fetch(`/api/admin/picklists/${option.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(ERROR_MESSAGES[result?.error] ?? '選択肢の削除に失敗しました');
+      }
+      setItems((prev) => prev.filter((candidate) => candidate.id !== option.id));
+      if (editingId === option.id) resetForm();
+      toast.success(`「${option.value}」を削除しました`);
+    } catch (error) {
+      console.error('Failed to delete picklist option', error);
+      toast.error(error instanceof Error ? error.message : '選択肢の削除に失敗しました');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const runNormalize = async () => {
+    const entries = Object.entries(mappings).filter(([, optionId]) => optionId);
+    if (entries.length === 0) {
+      toast.error('置き換える値を選択してください');
+      return;
+    }
+    if (!window.confirm(`${entries.length}種類の値を選択肢の表記に置き換えます。よろしいですか？`)) return;
+
+    try {
+      setNormalizing(true);
+      const response = await fetch('/api/admin/picklists/normalize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          field,
+          mappings: entries.map(([from, optionId]) => ({ from, optionId })),
+          addSynonyms,
+        }),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(ERROR_MESSAGES[result?.error] ?? '正規化に失敗しました');
+      }
+      toast.success(`${result?.updated ?? 0}件のEVAを更新しました`);
+      await Promise.all([loadItems(), loadValues(field)]);
+    } catch (error) {
+      console.error('Failed to normalize picklist values', error);
+      toast.error(error instanceof Error ? error.message : '正規化に失敗しました');
+    } finally {
+      setNormalizing(false);
+    }
+  };
+
+  const pendingValues = values.filter((item) => !item.canonical);
+
+  return (
+    <div className="space-y-6">
+      <Card className="card w-full">
+        <CardHeader>
+          <CardTitle className="titleRow text-base md:text-lg">ステータス選択肢（管理者のみ）</CardTitle>
+          <p className="text-sm text-slate-600">
+            ステータス系の項目で使う値を選択肢として登録できます。選択肢を登録した項目は、CSVインポート時に同義語や表記ゆれを選択肢の表記へ寄せ、
+            どれにも当たらない値はプレビューで警告します。選択肢が 1 つもない項目は従来どおり自由入力です。
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="max-w-xs space-y-2">
+            <Label htmlFor="picklist-field">項目</Label>
+            <select
+              id="picklist-field"
+              value={field}
+              onChange={(event) => changeField(event.target.value as PicklistField)}
+              className={selectClassName}
+            >
+              {PICKLIST_FIELDS.map((candidate) => (
+                <option key={candidate} value={candidate}>
+                  {PICKLIST_FIELD_LABELS[candidate]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4 rounded-xl border border-slate-200 bg-slate-50 p-4">
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="picklist-value">表記</Label>
+                <Input
+                  id="picklist-value"
+                  value={form.value}
+                  onChange={(event) => setForm((prev) => ({ ...prev, value: event.target.value }))}
+                  placeholder="例: 面談済み"
+                  maxLength={100}
+                  required
+                />
+                {editingId && (
+                  <p className="text-xs text-slate-500">
+                    表記を変えると、旧表記が入っているEVAの値も置き換え、旧表記を同義語に残します
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="picklist-sort">表示順</Label>
+                <Input
+                  id="picklist-sort"
+                  type="number"
+                  value={form.sortOrder}
+                  onChange={(event) => setForm((prev) => ({ ...prev, sortOrder: event.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="picklist-synonyms">同義語（1 行に 1 つ）</Label>
+              <Textarea
+                id="picklist-synonyms"
+                value={form.synonyms}
+                onChange={(event) => setForm((prev) => ({ ...prev, synonyms: event.target.value }))}
+                placeholder={'例:\n面談完了\n実施済'}
+                rows={3}
+              />
+              <p className="text-xs text-slate-500">全角・半角、大文字・小文字、空白の違いは自動で同じ値として扱います</p>
+            </div>
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  キャンセル
+                </Button>
+              )}
+              <Button type="submit" disabled={saving} className="bg-brand text-white hover:bg-brand-600">
+                {saving ? '保存中...' : editingId ? '更新' : '追加'}
+              </Button>
+            </div>
+          </form>
+
+          {loading ? (
+            <p className="py-6 text-center text-sm text-slate-600">読み込み中...</p>
+          ) : fieldItems.length === 0 ? (
+            <p className="py-6 text-center text-sm text-slate-500">
+              {PICKLIST_FIELD_LABELS[field]}の選択肢はまだありません（自由入力）
+            </p>
+          ) : (
+            <ul className="divide-y divide-slate-200">
+              {fieldItems.map((option) => (
+                <li key={option.id} className="flex flex-wrap items-start justify-between gap-3 py-4">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-slate-800">{option.value}</span>
+                      <span className="text-xs text-slate-500">表示順 {option.sortOrder}</span>
+                      {option.archived && <Badge className="bg-slate-200 text-slate-700">アーカイブ済み</Badge>}
+                    </div>
+                    {option.synonyms.length > 0 && (
+                      <p className="text-xs text-slate-500">同義語: {option.synonyms.join(' / ')}</p>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setEditingId(option.id);
+                        setForm({
+                          value: option.value,
+                          synonyms: option.synonyms.join('\n'),
+                          sortOrder: String(option.sortOrder),
+                        });
+                      }}
+                    >
+                      編集
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={busyId === option.id}
+                      onClick={() => void toggleArchived(option)}
+                    >
+                      {option.archived ? '再開' : 'アーカイブ'}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-rose-600"
+                      disabled={busyId === option.id}
+                      onClick={() => void deleteItem(option)}
+                    >
+                      削除
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="card w-full">
+        <CardHeader>
+          <CardTitle className="titleRow text-base md:text-lg">既存値の正規化</CardTitle>
+          <p className="text-sm text-slate-600">
+            {PICKLIST_FIELD_LABELS[field]}に保存されている値の一覧です。選択肢の表記と異なる値に寄せ先を選んで実行すると、
+            該当するEVAの値をまとめて置き換え、変更履歴に残します。
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {valuesLoading ? (
+            <p className="py-6 text-center text-sm text-slate-600">読み込み中...</p>
+          ) : values.length === 0 ? (
+            <p className="py-6 text-center text-sm text-slate-500">値が入力されているEVAはありません</p>
+          ) : (
+            <ul className="divide-y divide-slate-200">
+              {values.map((item) => (
+                <li key={item.value} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-slate-800">{item.value}</span>
+                    <span className="text-xs text-slate-500">{item.count}件</span>
+                    {item.canonical ? (
+                      <Badge className="bg-emerald-100 text-emerald-800">選択肢どおり</Badge>
+                    ) : item.suggestion ? (
+                      <Badge className="bg-amber-100 text-amber-800">表記ゆれ</Badge>
+                    ) : (
+                      <Badge className="bg-rose-100 text-rose-700">未登録</Badge>
+                    )}
+                  </div>
+                  {!item.canonical && (
+                    <select
+                      value={mappings[item.value] ?? ''}
+                      onChange={(event) =>
+                        setMappings((prev) => ({ ...prev, [item.value]: event.target.value }))
+                      }
+                      className={`${selectClassName} md:w-64`}
+                      disabled={fieldItems.length === 0}
+                    >
+                      <option value="">置き換えない</option>
+                      {fieldItems.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.value}
+                          {option.archived ? '（アーカイブ済み）' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {pendingValues.length > 0 && (
+            <div className="flex flex-wrap items-center justify-end gap-4">
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input type="checkbox" checked={addSynonyms} onChange={(event) => setAddSynonyms(event.target.checked)} />
+                置き換えた元の値を同義語として登録する
+              </label>
+              <Button
+                type="button"
+                disabled={normalizing || fieldItems.length === 0}
+                onClick={() => void runNormalize()}
+                className="bg-brand text-white hover:bg-brand-600"
+              >
+                {normalizing ? '実行中...' : '正規化を実行'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
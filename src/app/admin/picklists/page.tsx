@@ -0,0 +1,13 @@
+import { requireAdmin } from '@/lib/session';
+
+import PicklistsClient from './client';
+
+export default async function PicklistsPage() {
+  await requireAdmin();
+
+  return (
+    <div className="app-shell py-8">
+      <PicklistsClient />
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { TagBadge } from '@/components/evangelists/tag-inputs';
+import { DEFAULT_TAG_COLOR, TAG_COLOR_PRESETS, type TagItem } from '@/lib/tags';
+
+type FormState = {
+  name: string;
+  color: string;
+  description: string;
+};
+
+const EMPTY_FORM: FormState = { name: '', color: DEFAULT_TAG_COLOR, description: '' };
+
+const ERROR_MESSAGES: Record<string, string> = {
+  'Tag already exists': '同じ名前のタグが既にあります',
+  'Tag not found': 'タグが見つかりません。再読み込みしてください',
+  'Invalid request data': '入力内容に誤りがあります',
+};
+
+export default function TagsClient() {
+  const [items, setItems] = useState<TagItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/tags', { credentials: 'include', cache: 'no-store' });
+      if (response.status === 401) {
+        window.location.href = '/login';
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('タグの取得に失敗しました');
+      }
+      const data = (await response.json()) as { items?: TagItem[] };
+      setItems(Array.isArray(data.items) ? data.items : []);
+    } catch (error) {
+      console.error('Failed to load tags', error);
+      toast.error(error instanceof Error ? error.message : 'タグの取得に失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadItems();
+  }, [loadItems]);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const settings = {
+      name: form.name.trim(),
+      color: form.color,
+      description: form.description.trim() || null,
+    };
+
+    try {
+      setSaving(true);
+      const response = await fetch(editingId ? `/api/admin/tags/${editingId}` : '/api/admin/tags', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(settings),
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(ERROR_MESSAGES[result?.error] ?? 'タグの保存に失敗しました');
+      }
+      const saved = result as TagItem;
+      setItems((prev) =>
+        (editingId ? prev.map((item) => (item.id === saved.id ? saved : item)) : [...prev, saved]).sort((a, b) =>
+          a.name.localeCompare(b.name, 'ja'),
+        ),
+      );
+      toast.success(editingId ? `「${saved.name}」を更新しました` : `「${saved.name}」を追加しました`);
+      resetForm();
+    } catch (error) {
+      console.error('Failed to save tag', error);
+      toast.error(error instanceof Error ? error.message : 'タグの保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteItem = async (tag: TagItem) => {
+    const message =
+      tag.count > 0
+        ? `タグ「${tag.name}」を削除します。付与されている ${tag.count} 件のEVAからも外れます。よろしいですか？`
+        : `タグ「${tag.name}」を削除します。よろしいですか？`;
+    if (!window.confirm(message)) return;
+
+    try {
+      setBusyId(tag.id);
+      const response = await fetch(`/api/admin/tags/${tag.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const result = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(ERROR_MESSAGES[result?.error] ?? 'タグの削除に失敗しました');
+      }
+      setItems((prev) => prev.filter((item) => item.id !== tag.id));
+      if (editingId === tag.id) resetForm();
+      toast.success(`「${tag.name}」を削除しました`);
+    } catch (error) {
+      console.error('Failed to delete tag', error);
+      toast.error(error instanceof Error ? error.message : 'タグの削除に失敗しました');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="card w-full">
+      <CardHeader>
+        <CardTitle className="titleRow text-base md:text-lg">タグ管理（管理者のみ）</CardTitle>
+        <p className="text-sm text-slate-600">
+          EVAに付けるタグの名前・色・説明を管理します。タグは一覧の絞り込み（いずれか/すべて）と一括タグ付けで使えます。
+          CSVインポートで未登録のタグ名が来た場合は既定の色で自動作成されます。
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4 rounded-xl border border-slate-200 bg-slate-50 p-4">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="tag-name">名前</Label>
+              <Input
+                id="tag-name"
+                value={form.name}
+                onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))}
+                placeholder="例: ITコンサル"
+                maxLength={50}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tag-color">色</Label>
+              <div className="flex flex-wrap items-center gap-2">
+                {TAG_COLOR_PRESETS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    aria-label={color}
+                    aria-pressed={form.color === color}
+                    onClick={() => setForm((prev) => ({ ...prev, color }))}
+                    className={`h-6 w-6 rounded-full border-2 ${form.color === color ? 'border-slate-900' : 'border-white'}`}
+                    style={{ backgroundColor: color }}
+                  />
+                ))}
+                <input
+                  id="tag-color"
+                  type="color"
+                  value={form.color}
+                  onChange={(event) => setForm((prev) => ({ ...prev, color: event.target.value }))}
+                  className="h-8 w-10 cursor-pointer rounded border border-slate-300 bg-white"
+                />
+                <TagBadge tag={{ id: 'preview', name: form.name.trim() || 'プレビュー', color: form.color }} />
+              </div>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tag-description">説明</Label>
+            <Textarea
+              id="tag-description"
+              value={form.description}
+              onChange={(event) => setForm((prev) => ({ ...prev, description: event.target.value }))}
+              placeholder="どのようなEVAに付けるタグかを記載します"
+              maxLength={500}
+              rows={2}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                キャンセル
+              </Button>
+            )}
+            <Button type="submit" disabled={saving} className="bg-brand text-white hover:bg-brand-600">
+              {saving ? '保存中...' : editingId ? '更新' : '追加'}
+            </Button>
+          </div>
+        </form>
+
+        {loading ? (
+          <p className="py-6 text-center text-sm text-slate-600">読み込み中...</p>
+        ) : items.length === 0 ? (
+          <p className="py-6 text-center text-sm text-slate-500">タグはまだありません</p>
+        ) : (
+          <ul className="divide-y divide-slate-200">
+            {items.map((tag) => (
+              <li key={tag.id} className="flex flex-wrap items-start justify-between gap-3 py-4">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <TagBadge tag={tag} />
+                    <span className="text-xs text-slate-500">{tag.count}件</span>
+                  </div>
+                  {tag.description && <p className="text-xs text-slate-500">{tag.description}</p>}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setEditingId(tag.id);
+                      setForm({ name: tag.name, color: tag.color, description: tag.description ?? '' });
+                    }}
+                  >
+                    編集
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-rose-600"
+                    disabled={busyId === tag.id}
+                    onClick={() => void deleteItem(tag)}
+                  >
+                    削除
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,13 @@
+import { requireAdmin } from '@/lib/session';
+
+import TagsClient from './client';
+
+export default async function TagsPage() {
+  await requireAdmin();
+
+  return (
+    <div className="app-shell py-8">
+      <TagsClient />
+    </div>
+  );
+}
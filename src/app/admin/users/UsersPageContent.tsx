@@ -19,8 +19,18 @@ interface User {
   role: 'ADMIN' | 'CS' | 'USER'
   createdAt: string
   updatedAt: string
+  aliases?: { id: string; alias: string }[]
 }
 
+type AliasConflict = { alias: string; users: string[] }
+
+// 入力欄はカンマ・読点区切り
+const parseAliases = (value: string) =>
+  value
+    .split(/[,、]/)
+    .map((alias) => alias.trim())
+    .filter(Boolean)
+
 export default function UsersPageContent() {
   const [users, setUsers] = useState<User[]>([])
   const [loading, setLoading] = useState(true)
@@ -44,7 +54,8 @@ export default function UsersPageContent() {
   const [editUser, setEditUser] = useState({
     name: '',
     email: '',
-    role: 'USER' as 'ADMIN' | 'CS' | 'USER'
+    role: 'USER' as 'ADMIN' | 'CS' | 'USER',
+    aliases: ''
   })
 
   // ユーザー一覧取得
@@ -99,15 +110,34 @@ export default function UsersPageContent() {
     if (!selectedUser) return
 
     try {
+      const { aliases, ...userData } = editUser
       const response = await fetch(`/api/admin/users/${selectedUser.id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(editUser),
+        body: JSON.stringify(userData),
         cache: 'no-store'
       })
 
       if (!response.ok) throw new Error('Failed to update user')
 
+      const aliasResponse = await fetch(`/api/admin/users/${selectedUser.id}/aliases`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ aliases: parseAliases(aliases) }),
+        cache: 'no-store'
+      })
+
+      if (!aliasResponse.ok) throw new Error('Failed to update aliases')
+
+      const { conflicts } = (await aliasResponse.json()) as { conflicts?: AliasConflict[] }
+      if (conflicts && conflicts.length > 0) {
+        toast.warning(
+          `他のユーザーと重なる別名があります: ${conflicts
+            .map((conflict) => `${conflict.alias}（${conflict.users.join(', ')}）`)
+            .join(' / ')}`
+        )
+      }
+
       toast.success('ユーザーを更新しました')
       setIsEditDialogOpen(false)
       setSelectedUser(null)
@@ -171,7 +201,8 @@ export default function UsersPageContent() {
     setEditUser({
       name: user.name,
       email: user.email,
-      role: user.role
+      role: user.role,
+      aliases: (user.aliases ?? []).map((alias) => alias.alias).join(', ')
     })
     setIsEditDialogOpen(true)
   }
@@ -325,6 +356,7 @@ export default function UsersPageContent() {
                   <TableHead>名前</TableHead>
                   <TableHead>メール</TableHead>
                   <TableHead>役割</TableHead>
+                  <TableHead>別名</TableHead>
                   <TableHead>作成日</TableHead>
                   <TableHead>更新日</TableHead>
                   <TableHead>操作</TableHead>
@@ -340,6 +372,15 @@ export default function UsersPageContent() {
                         {user.role}
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {(user.aliases ?? []).map((alias) => (
+                          <Badge key={alias.id} variant="outline">
+                            {alias.alias}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
                     <TableCell>{new Date(user.createdAt).toLocaleDateString('ja-JP')}</TableCell>
                     <TableCell>{new Date(user.updatedAt).toLocaleDateString('ja-JP')}</TableCell>
                     <TableCell>
@@ -423,6 +464,22 @@ export default function UsersPageContent() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label htmlFor="edit-aliases" className="pt-2 text-right">
+                別名
+              </Label>
+              <div className="col-span-3 space-y-1">
+                <Input
+                  id="edit-aliases"
+                  value={editUser.aliases}
+                  onChange={(e) => setEditUser({ ...editUser, aliases: e.target.value })}
+                  placeholder="例: 徳永, とくなが"
+                />
+                <p className="text-xs text-muted-foreground">
+                  CSV一括反映・CSVインポートで CS 名として照合する略称（カンマ区切り）
+                </p>
+              </div>
+            </div>
           </div>
           <DialogFooter>
             <Button onClick={handleEditUser}>更新</Button>
@@ -3,6 +3,8 @@ import { prisma, prismaSource } from '@/lib/prisma'
 import { getIronSession } from 'iron-session'
 import { cookies } from 'next/headers'
 import type { SessionData } from '@/lib/session'
+import { parseStrengths } from '@/lib/evangelist-strengths'
+import { ensureTags, parseTagNames } from '@/lib/tags'
 
 type EvangelistRow = {
   id: string
@@ -25,14 +27,14 @@ type EvangelistRow = {
   contactOwner: string | null
   marketingContactStatus: string | null
   sourceCreatedAt: Date | null
-  strengths: string | null
+  strengths: string | null // 旧スキーマの単一値
   notes: string | null
   nextAction: string | null
   nextActionDueOn: Date | null
   managementPhase: string | null
   tier: string | null
   assignedCsId: string | null
-  tags: string[] | null
+  tags: string | string[] | null // 旧スキーマの JSON 文字列
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -114,8 +116,8 @@ export async function POST(req: NextRequest) {
     const evs = await prismaSource.$queryRaw<EvangelistRow[]>`SELECT * FROM "evangelists"`
     for (const e of evs) {
       await prisma.$executeRawUnsafe(
-        `INSERT INTO "evangelists" (id, recordId, firstName, lastName, email, contactPref, supportPriority, pattern, meetingStatus, registrationStatus, lineRegistered, phoneNumber, acquisitionSource, facebookUrl, listAcquired, listProvided, matchingListUrl, contactOwner, marketingContactStatus, sourceCreatedAt, strengths, notes, nextAction, nextActionDueOn, managementPhase, tier, assignedCsId, tags, createdAt, updatedAt)
-         VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20,$21,$22,$23,$24,$25,$26,$27,$28,$29,$30)
+        `INSERT INTO "evangelists" (id, recordId, firstName, lastName, email, contactPref, supportPriority, pattern, meetingStatus, registrationStatus, lineRegistered, phoneNumber, acquisitionSource, facebookUrl, listAcquired, listProvided, matchingListUrl, contactOwner, marketingContactStatus, sourceCreatedAt, notes, nextAction, nextActionDueOn, managementPhase, tier, assignedCsId, createdAt, updatedAt)
+         VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20,$21,$22,$23,$24,$25,$26,$27,$28)
          ON CONFLICT (id) DO NOTHING`,
         e.id,
         e.recordId,
@@ -137,17 +139,34 @@ export async function POST(req: NextRequest) {
         e.contactOwner,
         e.marketingContactStatus,
         e.sourceCreatedAt,
-        e.strengths,
         e.notes,
         e.nextAction,
         e.nextActionDueOn,
         e.managementPhase,
         e.tier,
         e.assignedCsId,
-        e.tags,
         e.createdAt,
         e.updatedAt
       )
+
+      // 強みは EvangelistStrengthEntry に移す
+      const { entries: strengths } = parseStrengths(e.strengths)
+      if (strengths.length > 0) {
+        await prisma.evangelistStrengthEntry.createMany({
+          data: strengths.map((entry) => ({ evangelistId: e.id, ...entry })),
+          skipDuplicates: true,
+        })
+      }
+
+      // タグは Tag / EvangelistTag に移す
+      const tagNames = parseTagNames(e.tags)
+      if (tagNames.length > 0) {
+        const tags = await ensureTags(prisma, tagNames)
+        await prisma.evangelistTag.createMany({
+          data: Array.from(tags.values()).map((tag) => ({ evangelistId: e.id, tagId: tag.id })),
+          skipDuplicates: true,
+        })
+      }
     }
 
     return NextResponse.json({ ok: true, users: users.length, innovators: innovators.length, evangelists: evs.length })
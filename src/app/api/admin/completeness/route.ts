@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import {
+  COMPLETENESS_TIERS,
+  completenessWeightsSchema,
+  loadCompletenessWeights,
+  type CompletenessField,
+} from '@/lib/evangelist-completeness';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/completeness - Tier 別の充足度の重み（未設定は既定値）
+export async function GET(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const weights = await loadCompletenessWeights(prisma);
+    return NextResponse.json({ weights });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:completeness:get]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
+
+// PUT /api/admin/completeness - 重みを保存（送られた項目だけを更新）
+export async function PUT(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const parsed = completenessWeightsSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const rows = COMPLETENESS_TIERS.flatMap((tier) =>
+      Object.entries(parsed.data[tier]).map(([field, weight]) => ({
+        tier,
+        field: field as CompletenessField,
+        weight: weight ?? 0,
+      })),
+    );
+    await prisma.$transaction(
+      rows.map(({ tier, field, weight }) =>
+        prisma.completenessRule.upsert({
+          where: { tier_field: { tier, field } },
+          create: { tier, field, weight },
+          update: { weight },
+        }),
+      ),
+    );
+
+    const weights = await loadCompletenessWeights(prisma);
+    return NextResponse.json({ weights });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:completeness:update]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
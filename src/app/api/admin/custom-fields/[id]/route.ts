@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import { toCustomFieldDefinition, updateCustomFieldSchema } from '@/lib/custom-fields';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// PATCH /api/admin/custom-fields/[id] - 表示名・選択肢・検証条件などを更新
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const { id } = await params;
+    const parsed = updateCustomFieldSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const existing = await prisma.customFieldDefinition.findUnique({ where: { id }, select: { type: true } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Custom field not found' }, { status: 404 });
+    }
+
+    const { options, ...data } = parsed.data;
+    const isSelect = existing.type === 'SINGLE_SELECT' || existing.type === 'MULTI_SELECT';
+    if (isSelect && options !== undefined && options.length === 0) {
+      return NextResponse.json({ error: 'Select fields require options' }, { status: 400 });
+    }
+
+    const updated = await prisma.customFieldDefinition.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(isSelect && options ? { options: Array.from(new Set(options)) } : {}),
+      },
+    });
+
+    return NextResponse.json(toCustomFieldDefinition(updated));
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:custom-fields:update]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/admin/custom-fields/[id] - 値が残っていない項目だけを削除（残っている場合はアーカイブを使う）
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const { id } = await params;
+    const existing = await prisma.customFieldDefinition.findUnique({ where: { id }, select: { key: true } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Custom field not found' }, { status: 404 });
+    }
+
+    const [{ count }] = await prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(*) AS "count"
+      FROM "evangelists"
+      WHERE jsonb_exists("customFields", ${existing.key})
+    `;
+    const inUse = Number(count);
+    if (inUse > 0) {
+      return NextResponse.json({ error: 'Custom field has values', count: inUse }, { status: 409 });
+    }
+
+    await prisma.customFieldDefinition.delete({ where: { id } });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:custom-fields:delete]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import {
+  createCustomFieldSchema,
+  loadCustomFieldDefinitions,
+  toCustomFieldDefinition,
+} from '@/lib/custom-fields';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/custom-fields - カスタム項目の定義一覧（アーカイブ済みを含む）
+export async function GET(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const items = await loadCustomFieldDefinitions(prisma, { includeArchived: true });
+    return NextResponse.json({ items });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:custom-fields:list]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/admin/custom-fields - カスタム項目を追加
+export async function POST(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const parsed = createCustomFieldSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { options, ...data } = parsed.data;
+    const isSelect = data.type === 'SINGLE_SELECT' || data.type === 'MULTI_SELECT';
+    const created = await prisma.customFieldDefinition.create({
+      data: {
+        ...data,
+        options: isSelect && options ? Array.from(new Set(options)) : Prisma.DbNull,
+      },
+    });
+
+    return NextResponse.json(toCustomFieldDefinition(created), { status: 201 });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    if (err?.code === 'P2002') {
+      return NextResponse.json({ error: 'Custom field key already exists' }, { status: 409 });
+    }
+    console.error('[admin:custom-fields:create]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
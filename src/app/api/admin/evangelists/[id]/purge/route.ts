@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import { purgeEvangelist } from '@/lib/evangelist-archive';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// DELETE /api/admin/evangelists/[id]/purge - アーカイブ済みの EVA を完全に削除（面談・紹介実績は削除、ToDo は匿名化）
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const { id } = await params;
+    const existing = await prisma.evangelist.findUnique({
+      where: { id },
+      select: { id: true, firstName: true, lastName: true, archivedAt: true },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'Evangelist not found' }, { status: 404 });
+    }
+    if (!existing.archivedAt) {
+      return NextResponse.json({ error: 'Evangelist is not archived' }, { status: 409 });
+    }
+
+    const name = [existing.lastName, existing.firstName].filter(Boolean).join(' ') || null;
+    const purged = await prisma.$transaction((tx) => purgeEvangelist(tx, { id, name }), { timeout: 60_000 });
+
+    return NextResponse.json({ ok: true, ...purged });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:evangelists:purge]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
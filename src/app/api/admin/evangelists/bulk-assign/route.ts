@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
 import Papa from 'papaparse';
 
 import { prisma } from '@/lib/prisma';
 import { requireAdminForApi } from '@/lib/auth';
+import { getSession } from '@/lib/session';
+import { loadCsResolver } from '@/lib/cs-resolver';
+import { normalizeEmail } from '@/lib/contact-normalize';
+import { diffActivityFields, recordEvangelistActivity } from '@/lib/evangelist-activity';
+import { decodeTextBytes, isXlsxBytes, readXlsxRows, rowsToRecords } from '@/lib/spreadsheet';
 
 export const runtime = 'nodejs';
 
@@ -58,11 +64,6 @@ function normalizeTier(input?: string | number | null) {
   return null;
 }
 
-function cleanName(value?: string | null) {
-  if (!value) return '';
-  return value.replace(/[\s\u3000]+/g, '').replace(/[()（）]/g, '').trim();
-}
-
 function parseCsv(text: string): Row[] {
   const parsed = Papa.parse<Record<string, unknown>>(text, {
     header: true,
@@ -77,7 +78,7 @@ function parseCsv(text: string): Row[] {
   return parsed.data.map((row) => normalizeHeader(row));
 }
 
-async function readBodyAsRows(req: NextRequest): Promise<Row[]> {
+async function readBodyAsRows(req: NextRequest): Promise<{ rows: Row[]; fileName: string | null }> {
   const contentType = req.headers.get('content-type') || '';
 
   if (contentType.includes('multipart/form-data')) {
@@ -86,13 +87,19 @@ async function readBodyAsRows(req: NextRequest): Promise<Row[]> {
     if (!file || typeof file === 'string') {
       throw new Error('CSVファイル（file）が必要です。');
     }
-    const text = await (file as File).text();
-    return parseCsv(text);
+    const sheet = form.get('sheet');
+    const bytes = new Uint8Array(await (file as File).arrayBuffer());
+    const fileName = (file as File).name || null;
+    if (isXlsxBytes(bytes)) {
+      const { rows } = await readXlsxRows(bytes, typeof sheet === 'string' ? sheet : null);
+      return { rows: rowsToRecords(rows).map((row) => normalizeHeader(row)), fileName };
+    }
+    return { rows: parseCsv(decodeTextBytes(bytes).text), fileName };
   }
 
   if (contentType.includes('text/csv')) {
-    const text = await req.text();
-    return parseCsv(text);
+    const bytes = new Uint8Array(await req.arrayBuffer());
+    return { rows: parseCsv(decodeTextBytes(bytes).text), fileName: null };
   }
 
   const json = await req.json();
@@ -100,17 +107,9 @@ async function readBodyAsRows(req: NextRequest): Promise<Row[]> {
     throw new Error('配列(JSON)を送ってください。');
   }
 
-  return json.map((row) => normalizeHeader(row as Record<string, unknown>));
+  return { rows: json.map((row) => normalizeHeader(row as Record<string, unknown>)), fileName: null };
 }
 
-const CS_ALIAS: Record<string, string> = {
-  徳永: '徳永渉',
-  中崎: '中崎功大',
-  遠藤: '遠藤亜沙子',
-  今岡: 'Misaki Imaoka',
-  飯田: '飯田省吾',
-};
-
 export async function POST(req: NextRequest) {
   const authRes = await requireAdminForApi(req);
   if (authRes) return authRes;
@@ -118,25 +117,19 @@ export async function POST(req: NextRequest) {
   try {
     const dryRun = getBool(req.nextUrl.searchParams.get('dryRun'), false);
     const mode = dryRun ? 'DRY_RUN' : 'EXECUTE';
-    const rows = await readBodyAsRows(req);
+    const { rows, fileName } = await readBodyAsRows(req);
+    const session = await getSession();
 
-    const users = await prisma.user.findMany({
-      where: { role: { in: ['CS', 'ADMIN'] } },
-      select: { id: true, name: true, role: true },
-    });
+    // CS 名は氏名と /admin/users で登録した別名から引く
+    const csResolver = await loadCsResolver(prisma);
 
-    const userByNormalizedName = new Map<string, { id: string; name: string; role: string }>();
-    users.forEach((user) => {
-      userByNormalizedName.set(cleanName(user.name), user);
-    });
-
-    const aliasToId = new Map<string, string>();
-    for (const [alias, displayName] of Object.entries(CS_ALIAS)) {
-      const resolved = userByNormalizedName.get(cleanName(displayName));
-      if (resolved) {
-        aliasToId.set(cleanName(alias), resolved.id);
-      }
-    }
+    // 実行時は変更前後の値を履歴として残し、後から取り消せるようにする
+    const run = dryRun
+      ? null
+      : await prisma.bulkAssignRun.create({
+          data: { fileName, executedById: session.userId ?? null, totalRows: rows.length },
+          select: { id: true },
+        });
 
     const summary = {
       mode,
@@ -148,6 +141,7 @@ export async function POST(req: NextRequest) {
       wouldChangeTier: 0,
       notFound: [] as Array<{ key: string; reason: string }>,
       csNotFound: [] as Array<{ name: string }>,
+      csAmbiguous: [] as Array<{ name: string; candidates: string[] }>,
       invalidTier: [] as Array<{ value: string }>,
       multiMatched: [] as Array<{ key: string; count: number }>,
       details: [] as Array<{
@@ -163,138 +157,193 @@ export async function POST(req: NextRequest) {
       }>,
     };
 
-    for (const rawRow of rows) {
-      const row: Row = {
-        assignedCsName: rawRow.assignedCsName ?? '',
-        tier: rawRow.tier,
-        lastName: rawRow.lastName ?? '',
-        firstName: rawRow.firstName ?? '',
-        email: rawRow.email ?? '',
-      };
-
-      const email = row.email?.trim() ?? '';
-      const lastName = row.lastName?.trim() ?? '';
-      const firstName = row.firstName?.trim() ?? '';
-
-      let evangelist: { id: string; assignedCsId: string | null; tier: string | null } | null = null;
-
-      if (email) {
-        evangelist = await prisma.evangelist.findFirst({
-          where: { email: { equals: email, mode: 'insensitive' } },
-          select: { id: true, assignedCsId: true, tier: true },
-        });
-
-        if (!evangelist) {
-          summary.notFound.push({ key: `email:${email}`, reason: 'Evangelist not found' });
-          summary.skipped++;
-          continue;
-        }
-      } else {
-        if (!lastName || !firstName) {
-          summary.notFound.push({ key: `name:${lastName}${firstName}`, reason: 'emailが空・氏名不足' });
+    try {
+      for (const rawRow of rows) {
+        const row: Row = {
+          assignedCsName: rawRow.assignedCsName ?? '',
+          tier: rawRow.tier,
+          lastName: rawRow.lastName ?? '',
+          firstName: rawRow.firstName ?? '',
+          email: rawRow.email ?? '',
+        };
+
+        const normalizedEmail = normalizeEmail(row.email);
+        if (normalizedEmail === undefined) {
+          summary.notFound.push({ key: `email:${row.email}`, reason: 'Invalid email' });
           summary.skipped++;
           continue;
         }
+        const email = normalizedEmail ?? '';
+        const lastName = row.lastName?.trim() ?? '';
+        const firstName = row.firstName?.trim() ?? '';
+
+        const key = email ? `email:${email}` : `name:${lastName}${firstName}`;
+        let evangelist: { id: string; assignedCsId: string | null; tier: string | null; archivedAt: Date | null } | null =
+          null;
+
+        if (email) {
+          evangelist = await prisma.evangelist.findFirst({
+            where: { email: { equals: email, mode: 'insensitive' } },
+            select: { id: true, assignedCsId: true, tier: true, archivedAt: true },
+          });
+
+          if (!evangelist) {
+            summary.notFound.push({ key: `email:${email}`, reason: 'Evangelist not found' });
+            summary.skipped++;
+            continue;
+          }
+        } else {
+          if (!lastName || !firstName) {
+            summary.notFound.push({ key: `name:${lastName}${firstName}`, reason: 'emailが空・氏名不足' });
+            summary.skipped++;
+            continue;
+          }
 
-        const candidates = await prisma.evangelist.findMany({
-          where: { lastName, firstName },
-          select: { id: true, assignedCsId: true, tier: true },
-        });
+          const matches = await prisma.evangelist.findMany({
+            where: { lastName, firstName },
+            select: { id: true, assignedCsId: true, tier: true, archivedAt: true },
+          });
+          // 同姓同名がいる場合はアーカイブされていないEVAだけで判定する
+          const active = matches.filter((match) => !match.archivedAt);
+          const candidates = active.length > 0 ? active : matches;
+
+          if (candidates.length === 0) {
+            summary.notFound.push({ key: `name:${lastName}${firstName}`, reason: 'Evangelist not found' });
+            summary.skipped++;
+            continue;
+          }
 
-        if (candidates.length === 0) {
-          summary.notFound.push({ key: `name:${lastName}${firstName}`, reason: 'Evangelist not found' });
-          summary.skipped++;
-          continue;
+          if (candidates.length > 1) {
+            summary.multiMatched.push({ key: `name:${lastName}${firstName}`, count: candidates.length });
+            summary.skipped++;
+            continue;
+          }
+
+          evangelist = candidates[0];
         }
 
-        if (candidates.length > 1) {
-          summary.multiMatched.push({ key: `name:${lastName}${firstName}`, count: candidates.length });
+        // アーカイブ済みのEVAは変更しない（復元してから反映する）
+        if (evangelist.archivedAt) {
           summary.skipped++;
+          summary.whySkipped.push({
+            key,
+            reason: 'アーカイブ済み',
+            current: { assignedCsId: evangelist.assignedCsId, tier: evangelist.tier },
+          });
           continue;
         }
 
-        evangelist = candidates[0];
-      }
-
-      summary.matched++;
-
-      let resolvedAssignedCsId: string | undefined;
-      if (row.assignedCsName) {
-        const normalized = cleanName(row.assignedCsName);
-        resolvedAssignedCsId = aliasToId.get(normalized);
-        if (!resolvedAssignedCsId) {
-          const direct = userByNormalizedName.get(normalized);
-          if (direct) {
-            resolvedAssignedCsId = direct.id;
+        summary.matched++;
+
+        let resolvedAssignedCsId: string | undefined;
+        let csAmbiguous = false;
+        if (row.assignedCsName) {
+          const resolution = csResolver.resolve(row.assignedCsName);
+          if (resolution.status === 'RESOLVED') {
+            resolvedAssignedCsId = resolution.user.id;
+          } else if (resolution.status === 'AMBIGUOUS') {
+            csAmbiguous = true;
+            summary.csAmbiguous.push({
+              name: row.assignedCsName,
+              candidates: resolution.candidates.map((candidate) => candidate.name),
+            });
+          } else {
+            summary.csNotFound.push({ name: row.assignedCsName });
           }
         }
 
-        if (!resolvedAssignedCsId) {
-          summary.csNotFound.push({ name: row.assignedCsName });
+        const tierValue = row.tier;
+        const hasTierValue = tierValue != null && String(tierValue).trim() !== '';
+        const normalizedTier = hasTierValue ? normalizeTier(tierValue) : null;
+        if (hasTierValue && !normalizedTier) {
+          summary.invalidTier.push({ value: String(tierValue) });
         }
-      }
 
-      const tierValue = row.tier;
-      const hasTierValue = tierValue != null && String(tierValue).trim() !== '';
-      const normalizedTier = hasTierValue ? normalizeTier(tierValue) : null;
-      if (hasTierValue && !normalizedTier) {
-        summary.invalidTier.push({ value: String(tierValue) });
-      }
+        const changed: Record<string, string> = {};
 
-      const changed: Record<string, string> = {};
+        if (resolvedAssignedCsId && resolvedAssignedCsId !== evangelist!.assignedCsId) {
+          changed.assignedCsId = resolvedAssignedCsId;
+          summary.wouldChangeAssignedCs++;
+        }
 
-      if (resolvedAssignedCsId && resolvedAssignedCsId !== evangelist!.assignedCsId) {
-        changed.assignedCsId = resolvedAssignedCsId;
-        summary.wouldChangeAssignedCs++;
-      }
+        if (normalizedTier && normalizedTier !== evangelist!.tier) {
+          changed.tier = normalizedTier;
+          summary.wouldChangeTier++;
+        }
 
-      if (normalizedTier && normalizedTier !== evangelist!.tier) {
-        changed.tier = normalizedTier;
-        summary.wouldChangeTier++;
-      }
+        if (Object.keys(changed).length === 0) {
+          summary.skipped++;
+          summary.whySkipped.push({
+            key,
+            reason: csAmbiguous
+              ? 'CS候補が複数（氏名・別名が重複）'
+              : (!resolvedAssignedCsId && row.assignedCsName)
+                ? 'CS解決不可（assignedCsName未解決）'
+                : normalizedTier == null && hasTierValue
+                  ? 'Tier不正値'
+                  : '差分なし（現状と同じ）',
+            current: { assignedCsId: evangelist!.assignedCsId, tier: evangelist!.tier },
+            incoming: {
+              assignedCsName: row.assignedCsName || null,
+              resolvedCsId: resolvedAssignedCsId || null,
+              tier: normalizedTier,
+            },
+          });
+          continue;
+        }
 
-      if (Object.keys(changed).length === 0) {
-        summary.skipped++;
-        summary.whySkipped.push({
-          key: email ? `email:${email}` : `name:${lastName}${firstName}`,
-          reason:
-            (!resolvedAssignedCsId && row.assignedCsName)
-              ? 'CS解決不可（assignedCsName未解決）'
-              : normalizedTier == null && hasTierValue
-                ? 'Tier不正値'
-                : '差分なし（現状と同じ）',
-          current: { assignedCsId: evangelist!.assignedCsId, tier: evangelist!.tier },
-          incoming: {
-            assignedCsName: row.assignedCsName || null,
-            resolvedCsId: resolvedAssignedCsId || null,
-            tier: normalizedTier,
-          },
+        summary.details.push({
+          key,
+          changed,
+          dryRun,
         });
-        continue;
-      }
-
-      summary.details.push({
-        key: email ? `email:${email}` : `name:${lastName}${firstName}`,
-        changed,
-        dryRun,
-      });
 
-      if (!dryRun) {
-        await prisma.evangelist.update({
-          where: email ? { email } : { id: evangelist!.id },
-          data: changed,
-          select: { id: true },
+        if (run) {
+          const changes = diffActivityFields(evangelist, changed);
+          await prisma.$transaction(async (tx) => {
+            const updated = await tx.evangelist.update({
+              where: { id: evangelist!.id },
+              data: changed,
+              select: { id: true, updatedAt: true },
+            });
+            await tx.bulkAssignChange.create({
+              data: {
+                runId: run.id,
+                evangelistId: updated.id,
+                key,
+                changes: changes as Prisma.InputJsonValue,
+                appliedUpdatedAt: updated.updatedAt,
+              },
+            });
+            await recordEvangelistActivity(tx, {
+              evangelistId: updated.id,
+              actorId: session.userId ?? null,
+              source: 'BULK_ASSIGN',
+              action: 'UPDATED',
+              changes,
+            });
+          });
+          summary.updated++;
+        }
+      }
+    } finally {
+      // 途中の行で失敗しても、それまでに反映した件数を実行履歴に残す
+      if (run) {
+        await prisma.bulkAssignRun.update({
+          where: { id: run.id },
+          data: { changedCount: summary.updated },
         });
-        summary.updated++;
       }
     }
 
     return NextResponse.json({
       ...summary,
+      runId: run?.id ?? null,
       summary: {
         toUpdate: summary.details.length,
         notFound: summary.notFound.length,
         csNotFound: summary.csNotFound.length,
+        csAmbiguous: summary.csAmbiguous.length,
         invalidTier: summary.invalidTier.length,
         multiMatched: summary.multiMatched.length,
         wouldChangeAssignedCs: summary.wouldChangeAssignedCs,
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import { getSession } from '@/lib/session';
+import { executeBulkAssignRevert, planBulkAssignRevert } from '@/lib/bulk-assign-history';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const countByStatus = (items: Awaited<ReturnType<typeof planBulkAssignRevert>>) =>
+  items.reduce<Record<string, number>>((acc, item) => {
+    acc[item.status] = (acc[item.status] ?? 0) + 1;
+    return acc;
+  }, {});
+
+// POST /api/admin/evangelists/bulk-assign/runs/[id]/revert?dryRun=true - 一括反映の取り消し
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const { id } = await params;
+    const dryRun = req.nextUrl.searchParams.get('dryRun') === 'true';
+
+    const run = await prisma.bulkAssignRun.findUnique({ where: { id }, select: { id: true, status: true } });
+    if (!run) {
+      return NextResponse.json({ error: 'Bulk assign run not found' }, { status: 404 });
+    }
+    if (run.status === 'REVERTED') {
+      return NextResponse.json({ error: 'Bulk assign run already reverted' }, { status: 409 });
+    }
+
+    const items = await planBulkAssignRevert(prisma, id);
+    if (dryRun) {
+      return NextResponse.json({ dryRun: true, items, counts: countByStatus(items) });
+    }
+
+    const session = await getSession();
+    const { reverted, conflicts } = await executeBulkAssignRevert(prisma, id, session.userId ?? null, items);
+    const after = await planBulkAssignRevert(prisma, id);
+
+    return NextResponse.json({
+      dryRun: false,
+      reverted,
+      conflicts: conflicts.length,
+      items: after,
+      counts: countByStatus(after),
+    });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:bulk-assign:revert]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import { planBulkAssignRevert } from '@/lib/bulk-assign-history';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/evangelists/bulk-assign/runs/[id] - 実行履歴の詳細（レコードごとの変更前後）
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const { id } = await params;
+    const run = await prisma.bulkAssignRun.findUnique({
+      where: { id },
+      include: {
+        executedBy: { select: { id: true, name: true } },
+        revertedBy: { select: { id: true, name: true } },
+      },
+    });
+    if (!run) {
+      return NextResponse.json({ error: 'Bulk assign run not found' }, { status: 404 });
+    }
+
+    const items = await planBulkAssignRevert(prisma, id);
+    // 担当CS の ID を表示名に変換するための一覧
+    const users = await prisma.user.findMany({ select: { id: true, name: true } });
+
+    return NextResponse.json({ run, items, users });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:bulk-assign:run]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
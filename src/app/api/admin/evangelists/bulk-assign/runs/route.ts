@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// GET /api/admin/evangelists/bulk-assign/runs - CSV一括反映の実行履歴
+export async function GET(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const limitParam = Number.parseInt(req.nextUrl.searchParams.get('limit') || '');
+    const limit = Number.isNaN(limitParam) ? DEFAULT_LIMIT : Math.min(MAX_LIMIT, Math.max(1, limitParam));
+
+    const items = await prisma.bulkAssignRun.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: {
+        executedBy: { select: { id: true, name: true } },
+        revertedBy: { select: { id: true, name: true } },
+      },
+    });
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:bulk-assign:runs]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import {
+  buildEvangelistSelect,
+  getEvangelistColumnSet,
+  normalizeEvangelistResult,
+} from '@/lib/evangelist-columns';
+import {
+  DEFAULT_DUPLICATE_MIN_SCORE,
+  findDuplicatePairs,
+  type DuplicateCandidateSource,
+} from '@/lib/evangelist-duplicates';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_PAIRS = 200;
+
+// GET /api/admin/evangelists/duplicates - 重複候補ペアの一覧（アーカイブ済みを除く）
+export async function GET(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const minScoreParam = Number.parseInt(req.nextUrl.searchParams.get('minScore') || '');
+    const minScore = Number.isNaN(minScoreParam)
+      ? DEFAULT_DUPLICATE_MIN_SCORE
+      : Math.min(100, Math.max(1, minScoreParam));
+
+    const columns = await getEvangelistColumnSet();
+    const select = buildEvangelistSelect(columns, { includeAssignedCs: true, includeCount: true });
+
+    // アーカイブ済みは統合の対象にしない（復元してから統合する）
+    const evangelists = (
+      await prisma.evangelist.findMany({ where: columns.has('archivedAt') ? { archivedAt: null } : {}, select })
+    ).map((evangelist) =>
+      normalizeEvangelistResult(evangelist as Record<string, unknown>),
+    );
+
+    const pairs = findDuplicatePairs(
+      evangelists as unknown as DuplicateCandidateSource[],
+      minScore,
+    ).slice(0, MAX_PAIRS);
+
+    const byId = new Map(evangelists.map((evangelist) => [evangelist.id as string, evangelist]));
+
+    return NextResponse.json({
+      minScore,
+      items: pairs.map((pair) => ({
+        score: pair.score,
+        reasons: pair.reasons,
+        a: byId.get(pair.aId),
+        b: byId.get(pair.bId),
+      })),
+    });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:evangelists:duplicates]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import { getSession } from '@/lib/session';
+import {
+  buildEvangelistSelect,
+  filterEvangelistData,
+  getEvangelistColumnSet,
+} from '@/lib/evangelist-columns';
+import { diffCustomFieldValues, toCustomFieldValues } from '@/lib/custom-fields';
+import { diffActivityFields, recordEvangelistActivity } from '@/lib/evangelist-activity';
+import { MERGEABLE_FIELDS } from '@/lib/evangelist-duplicates';
+import { wouldCreateReferralCycle } from '@/lib/evangelist-referrals';
+import { flattenEvangelistStrengths, formatStrengths } from '@/lib/evangelist-strengths';
+import { flattenEvangelistTags, formatTagNames } from '@/lib/tags';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const mergeSchema = z
+  .object({
+    survivorId: z.string().min(1),
+    mergedId: z.string().min(1),
+    // 項目ごとにどちらの値を残すか（未指定は survivor の値）
+    selections: z.partialRecord(z.enum(MERGEABLE_FIELDS), z.enum(['survivor', 'merged'])).optional(),
+  })
+  .refine((data) => data.survivorId !== data.mergedId, {
+    message: 'survivorId and mergedId must differ',
+  });
+
+// POST /api/admin/evangelists/merge - 重複EVAを統合
+export async function POST(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const session = await getSession();
+    const json = await req.json().catch(() => null);
+    const result = mergeSchema.safeParse(json);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: result.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { survivorId, mergedId, selections = {} } = result.data;
+    const columns = await getEvangelistColumnSet();
+    const select = buildEvangelistSelect(columns);
+
+    const [survivor, merged] = (await Promise.all([
+      prisma.evangelist.findUnique({ where: { id: survivorId }, select }),
+      prisma.evangelist.findUnique({ where: { id: mergedId }, select }),
+    ])) as [Record<string, unknown> | null, Record<string, unknown> | null];
+
+    if (!survivor || !merged) {
+      return NextResponse.json({ error: 'Evangelist not found' }, { status: 404 });
+    }
+    if (survivor.archivedAt || merged.archivedAt) {
+      return NextResponse.json({ error: 'Evangelist is archived' }, { status: 409 });
+    }
+
+    const picked: Record<string, unknown> = {};
+    for (const field of MERGEABLE_FIELDS) {
+      if (selections[field] === 'merged' && field in merged) {
+        picked[field] = merged[field];
+      }
+    }
+    const updateData = filterEvangelistData(picked, columns);
+    // カスタム項目はキー単位で統合する（残す側の値を優先し、残す側に無いキーだけ統合元から補う）
+    const survivorCustomFields = toCustomFieldValues(survivor.customFields);
+    const customFields = { ...toCustomFieldValues(merged.customFields), ...survivorCustomFields };
+    const customFieldsChanged =
+      columns.has('customFields') && Object.keys(customFields).length > Object.keys(survivorCustomFields).length;
+    const survivorTagIds = new Set(flattenEvangelistTags(survivor.tags).map((tag) => tag.id));
+    const addedTags = flattenEvangelistTags(merged.tags).filter((tag) => !survivorTagIds.has(tag.id));
+    const survivorDomains = new Set(flattenEvangelistStrengths(survivor.strengths).map((entry) => entry.domain));
+    const addedStrengths = flattenEvangelistStrengths(merged.strengths).filter(
+      (entry) => !survivorDomains.has(entry.domain),
+    );
+    const mergedName = [merged.lastName, merged.firstName].filter(Boolean).join(' ') || mergedId;
+
+    const moved = await prisma.$transaction(async (tx) => {
+      const relationWhere = { where: { evangelistId: mergedId }, data: { evangelistId: survivorId } };
+      const [meetings, contactAttempts, introductions, phaseTransitions, activities, todos] = await Promise.all([
+        tx.meeting.updateMany(relationWhere),
+        tx.contactAttempt.updateMany(relationWhere),
+        tx.introduction.updateMany(relationWhere),
+        tx.evangelistPhaseTransition.updateMany(relationWhere),
+        tx.evangelistActivity.updateMany(relationWhere),
+        tx.todo.updateMany(relationWhere),
+      ]);
+
+      // 統合元が紹介したEVAは残す側の紹介にする（残す側自身が統合元の紹介なら紹介者を外す）
+      const [referrals] = await Promise.all([
+        tx.evangelist.updateMany({
+          where: { referredById: mergedId, id: { not: survivorId } },
+          data: { referredById: survivorId },
+        }),
+        tx.evangelist.updateMany({
+          where: { id: survivorId, referredById: mergedId },
+          data: { referredById: null },
+        }),
+      ]);
+      // 残す側に紹介者が無ければ統合元の紹介者を引き継ぐ
+      const mergedReferrerId = merged.referredById as string | null | undefined;
+      if (
+        !survivor.referredById &&
+        mergedReferrerId &&
+        mergedReferrerId !== survivorId &&
+        !(await wouldCreateReferralCycle(tx, survivorId, mergedReferrerId))
+      ) {
+        await tx.evangelist.update({ where: { id: survivorId }, data: { referredById: mergedReferrerId } });
+      }
+
+      // タグは両方の和集合にする（統合元のタグ付けは削除時に消える）
+      if (addedTags.length > 0) {
+        await tx.evangelistTag.createMany({
+          data: addedTags.map((tag) => ({ evangelistId: survivorId, tagId: tag.id })),
+          skipDuplicates: true,
+        });
+      }
+
+      // 強みも和集合にする（同じ分野は残すレコードの習熟度を優先）
+      if (addedStrengths.length > 0) {
+        await tx.evangelistStrengthEntry.createMany({
+          data: addedStrengths.map((entry) => ({ evangelistId: survivorId, ...entry })),
+          skipDuplicates: true,
+        });
+      }
+
+      // email / recordId の一意制約があるため統合元を先に削除する
+      await tx.evangelist.delete({ where: { id: mergedId } });
+
+      if (Object.keys(updateData).length > 0 || customFieldsChanged) {
+        await tx.evangelist.update({
+          where: { id: survivorId },
+          data: { ...updateData, ...(customFieldsChanged ? { customFields } : {}), updatedAt: new Date() },
+        });
+      }
+
+      await recordEvangelistActivity(tx, {
+        evangelistId: survivorId,
+        actorId: session.userId ?? null,
+        source: 'UI',
+        action: 'MERGED',
+        changes: {
+          mergedFrom: { before: null, after: `${mergedName} (${mergedId})` },
+          ...diffActivityFields(survivor, updateData),
+          ...(customFieldsChanged ? diffCustomFieldValues(survivor.customFields, customFields) : {}),
+          ...diffActivityFields(
+            { tags: formatTagNames(survivor.tags) },
+            { tags: formatTagNames([...flattenEvangelistTags(survivor.tags), ...addedTags]) },
+          ),
+          ...diffActivityFields(
+            { strength: formatStrengths(survivor.strengths) },
+            { strength: formatStrengths([...flattenEvangelistStrengths(survivor.strengths), ...addedStrengths]) },
+          ),
+        },
+      });
+
+      return {
+        meetings: meetings.count,
+        contactAttempts: contactAttempts.count,
+        introductions: introductions.count,
+        phaseTransitions: phaseTransitions.count,
+        activities: activities.count,
+        todos: todos.count,
+        referrals: referrals.count,
+      };
+    });
+
+    return NextResponse.json({ ok: true, survivorId, mergedId, moved });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:evangelists:merge]', err?.code ?? 'UNKNOWN', error);
+    if (err?.code === 'P2002') {
+      return NextResponse.json({ error: 'Unique constraint violation', code: err.code }, { status: 409 });
+    }
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import { getSession } from '@/lib/session';
+import { executeContactBackfill, planContactBackfill, type ContactBackfillItem } from '@/lib/contact-backfill';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const countItems = (items: ContactBackfillItem[]) => ({
+  changes: items.filter((item) => Object.keys(item.changes).length > 0).length,
+  invalid: items.filter((item) => item.invalid.length > 0).length,
+  emailConflicts: items.filter((item) => item.emailConflict).length,
+});
+
+// POST /api/admin/evangelists/normalize-contacts?dryRun=true - 既存の連絡先（メール・電話番号・Facebook URL）の表記を揃える
+export async function POST(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const dryRun = req.nextUrl.searchParams.get('dryRun') === 'true';
+
+    const items = await planContactBackfill(prisma);
+    if (dryRun) {
+      return NextResponse.json({ dryRun: true, items, counts: countItems(items) });
+    }
+
+    const session = await getSession();
+    const { updated, skipped } = await executeContactBackfill(prisma, session.userId ?? null, items);
+    const after = await planContactBackfill(prisma);
+
+    return NextResponse.json({
+      dryRun: false,
+      updated,
+      skipped: skipped.length,
+      items: after,
+      counts: countItems(after),
+    });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:evangelists:normalize-contacts]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
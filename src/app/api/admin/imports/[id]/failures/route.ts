@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import { buildImportFailureCsv } from '@/lib/import-jobs';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/imports/[id]/failures - 失敗・スキップ行を理由付きで CSV ダウンロード
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const { id } = await params;
+    const job = await prisma.importJob.findUnique({ where: { id }, select: { id: true, fileName: true } });
+    if (!job) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 });
+    }
+
+    const rows = await prisma.importJobRow.findMany({
+      where: { jobId: id, status: { in: ['FAILED', 'SKIPPED'] } },
+      orderBy: { rowNumber: 'asc' },
+      select: { rowNumber: true, status: true, reason: true, data: true },
+    });
+
+    const csv = buildImportFailureCsv(rows);
+    const baseName = job.fileName.replace(/\.[^.]+$/, '') || 'import';
+    const filename = `${baseName}-failures.csv`;
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="import-${job.id}-failures.csv"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      },
+    });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:imports:failures]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_ISSUE_ROWS = 500;
+
+// GET /api/admin/imports/[id] - インポートジョブの詳細（失敗・スキップ行と、注記つきで取り込んだ行を含む）
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const { id } = await params;
+    const job = await prisma.importJob.findUnique({
+      where: { id },
+      include: { uploadedBy: { select: { id: true, name: true } } },
+    });
+    if (!job) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 });
+    }
+
+    const issues = await prisma.importJobRow.findMany({
+      where: { jobId: id, OR: [{ status: { in: ['FAILED', 'SKIPPED'] } }, { reason: { not: null } }] },
+      orderBy: { rowNumber: 'asc' },
+      take: MAX_ISSUE_ROWS,
+      select: { id: true, rowNumber: true, status: true, reason: true, data: true },
+    });
+
+    return NextResponse.json({ job, issues, issuesTruncated: issues.length === MAX_ISSUE_ROWS });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:imports:detail]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// GET /api/admin/imports - インポート履歴の一覧
+export async function GET(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const limitParam = Number.parseInt(req.nextUrl.searchParams.get('limit') || '');
+    const limit = Number.isNaN(limitParam) ? DEFAULT_LIMIT : Math.min(MAX_LIMIT, Math.max(1, limitParam));
+
+    const items = await prisma.importJob.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: { uploadedBy: { select: { id: true, name: true } } },
+    });
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:imports:list]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
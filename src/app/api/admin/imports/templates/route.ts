@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/imports/templates - 全ユーザーのマッピングテンプレート
+export async function GET(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const items = await prisma.csvMappingTemplate.findMany({
+      orderBy: [{ shared: 'desc' }, { updatedAt: 'desc' }],
+      include: { owner: { select: { id: true, name: true } } },
+    });
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:imports:templates]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
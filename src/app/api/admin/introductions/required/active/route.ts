@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from 'next/server'
 
 import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/session'
+import {
+  EVANGELIST_STRENGTHS_SELECT,
+  flattenEvangelistStrengths,
+  matchesStrengthCondition,
+} from '@/lib/evangelist-strengths'
 import { mapRule, parseStringArray, type RuleWithInnovator } from '../utils'
 
 export async function GET(req: NextRequest) {
@@ -29,7 +34,7 @@ export async function GET(req: NextRequest) {
 
     const evangelist = await prisma.evangelist.findUnique({
       where: { id: evangelistId },
-      select: { id: true, tier: true, strength: true },
+      select: { id: true, tier: true, strengths: EVANGELIST_STRENGTHS_SELECT },
     })
 
     if (!evangelist) {
@@ -54,13 +59,12 @@ export async function GET(req: NextRequest) {
       },
     }) as RuleWithInnovator[]
 
+    // 強みが複数ある EVA は、ルールの強みのいずれかを持っていれば対象
+    const evangelistStrengths = flattenEvangelistStrengths(evangelist.strengths)
     const matching = rules.filter((rule) => {
       const tiers = parseStringArray(rule.tiers)
-      const strengths = parseStringArray(rule.strengths)
       const tierMatch = tiers.length === 0 || tiers.includes(evangelist.tier)
-      const evangelistStrength = evangelist.strength ?? undefined
-      const strengthMatch =
-        strengths.length === 0 || (evangelistStrength ? strengths.includes(evangelistStrength) : false)
+      const strengthMatch = matchesStrengthCondition(parseStringArray(rule.strengths), evangelistStrengths)
 
       return tierMatch && strengthMatch
     })
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import {
+  loadPhaseTransitionRules,
+  phaseTransitionRulesSchema,
+  type PhaseTransitionSource,
+} from '@/lib/evangelist-phase';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/phase-transitions - 遷移元ごとの遷移できるフェーズ（未設定は既定値）
+export async function GET(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const rules = await loadPhaseTransitionRules(prisma);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:phase-transitions:get]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
+
+// PUT /api/admin/phase-transitions - 遷移ルールを保存（送られた遷移元だけを更新）
+export async function PUT(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const parsed = phaseTransitionRulesSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const rows = Object.entries(parsed.data).map(([fromPhase, toPhases]) => ({
+      fromPhase: fromPhase as PhaseTransitionSource,
+      toPhases: Array.from(new Set(toPhases ?? [])).filter((phase) => phase !== fromPhase),
+    }));
+    await prisma.$transaction(
+      rows.map(({ fromPhase, toPhases }) =>
+        prisma.phaseTransitionRule.upsert({
+          where: { fromPhase },
+          create: { fromPhase, toPhases },
+          update: { toPhases },
+        }),
+      ),
+    );
+
+    const rules = await loadPhaseTransitionRules(prisma);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:phase-transitions:update]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import { getSession } from '@/lib/session';
+import {
+  isPicklistField,
+  loadPicklistOptions,
+  replaceEvangelistPicklistValues,
+  replacePicklistSynonyms,
+  updatePicklistOptionSchema,
+} from '@/lib/picklists';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// PATCH /api/admin/picklists/[id] - 表記・同義語・並び順・アーカイブを更新
+// 表記を変えた場合は既存 EVA の値も新しい表記に置き換え、旧表記は同義語に残す
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const { id } = await params;
+    const parsed = updatePicklistOptionSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const existing = await prisma.picklistOption.findUnique({
+      where: { id },
+      select: { id: true, field: true, value: true, synonyms: { select: { synonym: true } } },
+    });
+    if (!existing || !isPicklistField(existing.field)) {
+      return NextResponse.json({ error: 'Picklist option not found' }, { status: 404 });
+    }
+
+    const field = existing.field;
+    const { value, synonyms, sortOrder, archived } = parsed.data;
+    const renamed = value !== undefined && value !== existing.value;
+    const session = await getSession();
+
+    const { conflicts, replaced } = await prisma.$transaction(async (tx) => {
+      await tx.picklistOption.update({ where: { id }, data: { value, sortOrder, archived } });
+
+      let replaced = 0;
+      if (renamed) {
+        replaced = await replaceEvangelistPicklistValues(tx, {
+          field,
+          from: [existing.value],
+          to: value,
+          actorId: session.userId ?? null,
+        });
+      }
+
+      const nextValue = value ?? existing.value;
+      const currentSynonyms = existing.synonyms.map((item) => item.synonym);
+      const nextSynonyms = [...(synonyms ?? currentSynonyms), ...(renamed ? [existing.value] : [])];
+      const conflicts =
+        synonyms !== undefined || renamed
+          ? await replacePicklistSynonyms(tx, { id, field, value: nextValue }, nextSynonyms)
+          : [];
+      return { conflicts, replaced };
+    });
+
+    const item = (await loadPicklistOptions(prisma, { field, includeArchived: true })).find(
+      (candidate) => candidate.id === id,
+    );
+    return NextResponse.json({ item, conflicts, replaced });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    if (err?.code === 'P2002') {
+      return NextResponse.json({ error: 'Picklist option already exists' }, { status: 409 });
+    }
+    console.error('[admin:picklists:update]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/admin/picklists/[id] - EVA で使われていない選択肢だけを削除（使われている場合はアーカイブを使う）
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const { id } = await params;
+    const existing = await prisma.picklistOption.findUnique({ where: { id }, select: { field: true, value: true } });
+    if (!existing || !isPicklistField(existing.field)) {
+      return NextResponse.json({ error: 'Picklist option not found' }, { status: 404 });
+    }
+
+    const inUse = await prisma.evangelist.count({ where: { [existing.field]: existing.value } });
+    if (inUse > 0) {
+      return NextResponse.json({ error: 'Picklist option in use', count: inUse }, { status: 409 });
+    }
+
+    await prisma.picklistOption.delete({ where: { id } });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:picklists:delete]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
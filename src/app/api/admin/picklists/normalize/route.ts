@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import { getSession } from '@/lib/session';
+import {
+  loadPicklistOptions,
+  normalizePicklistSchema,
+  replaceEvangelistPicklistValues,
+  replacePicklistSynonyms,
+} from '@/lib/picklists';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// POST /api/admin/picklists/normalize - 既存の値を選択肢の表記に一括で置き換える
+export async function POST(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const parsed = normalizePicklistSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { field, mappings, addSynonyms } = parsed.data;
+    const options = await loadPicklistOptions(prisma, { field, includeArchived: true });
+    const optionById = new Map(options.map((option) => [option.id, option]));
+    if (mappings.some((mapping) => !optionById.has(mapping.optionId))) {
+      return NextResponse.json({ error: 'Picklist option not found' }, { status: 404 });
+    }
+
+    const fromByOption = new Map<string, string[]>();
+    mappings.forEach(({ from, optionId }) => {
+      fromByOption.set(optionId, [...(fromByOption.get(optionId) ?? []), from]);
+    });
+
+    const session = await getSession();
+    const updated = await prisma.$transaction(
+      async (tx) => {
+        let count = 0;
+        for (const [optionId, from] of fromByOption) {
+          const option = optionById.get(optionId)!;
+          count += await replaceEvangelistPicklistValues(tx, {
+            field,
+            from,
+            to: option.value,
+            actorId: session.userId ?? null,
+          });
+          if (addSynonyms) {
+            await replacePicklistSynonyms(tx, option, [...option.synonyms, ...from]);
+          }
+        }
+        return count;
+      },
+      { timeout: 60_000 },
+    );
+
+    return NextResponse.json({ ok: true, updated });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:picklists:normalize]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import {
+  createPicklistOptionSchema,
+  loadPicklistOptions,
+  replacePicklistSynonyms,
+} from '@/lib/picklists';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/picklists - ステータス系項目の選択肢一覧（アーカイブ済み・同義語を含む）
+export async function GET(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const items = await loadPicklistOptions(prisma, { includeArchived: true });
+    return NextResponse.json({ items });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:picklists:list]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/admin/picklists - 選択肢を追加
+export async function POST(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const parsed = createPicklistOptionSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { field, value, synonyms, sortOrder } = parsed.data;
+    const { id, conflicts } = await prisma.$transaction(async (tx) => {
+      const option = await tx.picklistOption.create({
+        data: { field, value, sortOrder: sortOrder ?? 0 },
+        select: { id: true },
+      });
+      const conflicts = await replacePicklistSynonyms(tx, { id: option.id, field, value }, synonyms ?? []);
+      return { id: option.id, conflicts };
+    });
+
+    const item = (await loadPicklistOptions(prisma, { field, includeArchived: true })).find(
+      (candidate) => candidate.id === id,
+    );
+    return NextResponse.json({ item, conflicts }, { status: 201 });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    if (err?.code === 'P2002') {
+      return NextResponse.json({ error: 'Picklist option already exists' }, { status: 409 });
+    }
+    console.error('[admin:picklists:create]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import { isPicklistField, loadPicklistResolver } from '@/lib/picklists';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/picklists/values?field= - 既存 EVA に入っている値の一覧（件数と寄せ先の候補付き）
+export async function GET(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const field = req.nextUrl.searchParams.get('field');
+    if (!isPicklistField(field)) {
+      return NextResponse.json({ error: 'Invalid field' }, { status: 400 });
+    }
+
+    // field は PICKLIST_FIELDS で検証済みの列名
+    const column = Prisma.raw(`"${field}"`);
+    const rows = await prisma.$queryRaw<{ value: string; count: number }[]>`
+      SELECT ${column} AS "value", COUNT(*)::int AS "count"
+      FROM "evangelists"
+      WHERE ${column} IS NOT NULL AND btrim(${column}) <> ''
+      GROUP BY ${column}
+      ORDER BY "count" DESC, "value" ASC
+    `;
+
+    const resolver = await loadPicklistResolver(prisma);
+    const items = rows.map((row) => {
+      const resolution = resolver.resolve(field, row.value);
+      const suggestion = resolution.status === 'MATCHED' ? resolution.value : null;
+      return {
+        value: row.value,
+        count: row.count,
+        suggestion,
+        canonical: suggestion === row.value,
+      };
+    });
+
+    return NextResponse.json({ field, items });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:picklists:values]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
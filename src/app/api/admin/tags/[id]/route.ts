@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import { getSession } from '@/lib/session';
+import { recordEvangelistActivities } from '@/lib/evangelist-activity';
+import { applyEvangelistTagChanges, normalizeTagName, updateTagSchema } from '@/lib/tags';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// PATCH /api/admin/tags/[id] - 名前・色・説明を更新
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const { id } = await params;
+    const parsed = updateTagSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { name, color, description } = parsed.data;
+    const updated = await prisma.tag.update({
+      where: { id },
+      data: {
+        ...(name !== undefined ? { name, normalized: normalizeTagName(name) } : {}),
+        ...(color !== undefined ? { color } : {}),
+        ...(description !== undefined ? { description: description || null } : {}),
+      },
+      select: {
+        id: true,
+        name: true,
+        color: true,
+        description: true,
+        _count: { select: { evangelists: true } },
+      },
+    });
+
+    const { _count, ...tag } = updated;
+    return NextResponse.json({ ...tag, count: _count.evangelists });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    if (err?.code === 'P2025') {
+      return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+    }
+    if (err?.code === 'P2002') {
+      return NextResponse.json({ error: 'Tag already exists' }, { status: 409 });
+    }
+    console.error('[admin:tags:update]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/admin/tags/[id] - タグを削除（付与されていた EVA には変更履歴を残す）
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const { id } = await params;
+    const session = await getSession();
+    const existing = await prisma.tag.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+    }
+
+    const removed = await prisma.$transaction(
+      async (tx) => {
+        const links = await tx.evangelistTag.findMany({ where: { tagId: id }, select: { evangelistId: true } });
+        const changes = await applyEvangelistTagChanges(tx, {
+          evangelistIds: links.map((link) => link.evangelistId),
+          remove: [id],
+        });
+        await recordEvangelistActivities(
+          tx,
+          changes.map((change) => ({
+            evangelistId: change.evangelistId,
+            actorId: session.userId ?? null,
+            source: 'UI',
+            action: 'UPDATED',
+            changes: { tags: { before: change.before, after: change.after } },
+          })),
+        );
+        await tx.tag.delete({ where: { id } });
+        return changes.length;
+      },
+      { timeout: 60_000 },
+    );
+
+    return NextResponse.json({ ok: true, removed });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:tags:delete]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { requireAdminForApi } from '@/lib/auth';
+import { createTagSchema, DEFAULT_TAG_COLOR, loadTags, normalizeTagName } from '@/lib/tags';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/tags - タグ一覧（付与件数つき）
+export async function GET(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const items = await loadTags(prisma);
+    return NextResponse.json({ items });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[admin:tags:list]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/admin/tags - タグを追加
+export async function POST(req: NextRequest) {
+  const authRes = await requireAdminForApi(req);
+  if (authRes) return authRes;
+
+  try {
+    const parsed = createTagSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { name, color, description } = parsed.data;
+    const created = await prisma.tag.create({
+      data: {
+        name,
+        normalized: normalizeTagName(name),
+        color: color ?? DEFAULT_TAG_COLOR,
+        description: description || null,
+      },
+      select: { id: true, name: true, color: true, description: true },
+    });
+
+    return NextResponse.json({ ...created, count: 0 }, { status: 201 });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    if (err?.code === 'P2002') {
+      return NextResponse.json({ error: 'Tag already exists' }, { status: 409 });
+    }
+    console.error('[admin:tags:create]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { requireAdminForApi } from '@/lib/auth'
+import { loadCsResolver, normalizeAlias } from '@/lib/cs-resolver'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const updateAliasesSchema = z.object({
+  aliases: z.array(z.string().trim().min(1).max(100)).max(50),
+})
+
+// PUT /api/admin/users/[id]/aliases - CS 名照合用の別名を置き換える
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const authRes = await requireAdminForApi(req)
+  if (authRes) return authRes
+
+  try {
+    const { id } = await params
+    const validationResult = updateAliasesSchema.safeParse(await req.json())
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({ where: { id }, select: { id: true } })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // 同じ照合キーになる別名は 1 つにまとめる
+    const entries = new Map<string, string>()
+    validationResult.data.aliases.forEach((alias) => {
+      const normalized = normalizeAlias(alias)
+      if (normalized && !entries.has(normalized)) entries.set(normalized, alias)
+    })
+
+    const aliases = await prisma.$transaction(async (tx) => {
+      await tx.userAlias.deleteMany({ where: { userId: id } })
+      await tx.userAlias.createMany({
+        data: Array.from(entries, ([normalized, alias]) => ({ userId: id, alias, normalized })),
+      })
+      return tx.userAlias.findMany({
+        where: { userId: id },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true, alias: true },
+      })
+    })
+
+    // 他ユーザーの氏名・別名と重なる別名は、一括反映や CSV インポートで曖昧として報告される
+    const resolver = await loadCsResolver(prisma)
+    const conflicts = aliases.flatMap(({ alias }) => {
+      const resolution = resolver.resolve(alias)
+      if (resolution.status !== 'AMBIGUOUS') return []
+      return [
+        {
+          alias,
+          users: resolution.candidates.filter((candidate) => candidate.id !== id).map((candidate) => candidate.name),
+        },
+      ]
+    })
+
+    return NextResponse.json({ aliases, conflicts })
+  } catch (error) {
+    const err = error as { code?: string; message?: string }
+    console.error('[admin:users:aliases]', err?.code ?? 'UNKNOWN', error)
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 }
+    )
+  }
+}
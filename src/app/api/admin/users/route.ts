@@ -78,6 +78,10 @@ export async function GET(request: NextRequest) {
           role: true,
           createdAt: true,
           updatedAt: true,
+          aliases: {
+            select: { id: true, alias: true },
+            orderBy: { createdAt: 'asc' },
+          },
           _count: {
             select: {
               assignedEvangelists: true,
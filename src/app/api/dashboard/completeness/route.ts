@@ -0,0 +1,51 @@
+import { Prisma } from '@prisma/client'
+import { NextResponse } from 'next/server'
+
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { getEvangelistColumnSet } from '@/lib/evangelist-columns'
+import { COMPLETENESS_INCOMPLETE_BELOW } from '@/lib/evangelist-completeness'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const RANKING_LIMIT = 5
+
+// GET /api/dashboard/completeness - 充足度が低い担当エヴァの多い CS
+export async function GET() {
+  try {
+    const session = await getSession()
+
+    if (!session.isLoggedIn) {
+      return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const columns = await getEvangelistColumnSet()
+    // アーカイブ済みのエヴァは集計しない
+    const active = columns.has('archivedAt') ? Prisma.sql`AND e."archivedAt" IS NULL` : Prisma.empty
+
+    // 充足度は evangelist_metrics ビューで採点済み
+    const rows = await prisma.$queryRaw<{ id: string; name: string; incomplete: number; total: number }[]>`
+      SELECT u."id", u."name",
+        COUNT(*) FILTER (WHERE x."completeness" < ${COMPLETENESS_INCOMPLETE_BELOW})::int AS "incomplete",
+        COUNT(*)::int AS "total"
+      FROM "evangelists" e
+      JOIN "User" u ON u."id" = e."assignedCsId"
+      JOIN "evangelist_metrics" x ON x."evangelistId" = e."id"
+      WHERE TRUE ${active}
+      GROUP BY u."id", u."name"
+      HAVING COUNT(*) FILTER (WHERE x."completeness" < ${COMPLETENESS_INCOMPLETE_BELOW}) > 0
+      ORDER BY "incomplete" DESC, u."name" ASC
+      LIMIT ${RANKING_LIMIT}
+    `
+
+    return NextResponse.json({ ok: true, threshold: COMPLETENESS_INCOMPLETE_BELOW, items: rows })
+  } catch (error) {
+    const err = error as { code?: string; message?: string }
+    console.error('[dashboard:completeness]', err?.code ?? 'UNKNOWN', err)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', code: err?.code },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { loadTopReferrers } from '@/lib/evangelist-referrals'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const RANKING_LIMIT = 10
+// 直近の紹介として数える期間
+const RECENT_DAYS = 90
+
+// GET /api/dashboard/referrers - 紹介したEVAの多いEVA
+export async function GET() {
+  try {
+    const session = await getSession()
+
+    if (!session.isLoggedIn) {
+      return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const since = new Date()
+    since.setDate(since.getDate() - RECENT_DAYS)
+
+    const items = await loadTopReferrers(prisma, { limit: RANKING_LIMIT, since })
+
+    return NextResponse.json({ ok: true, recentDays: RECENT_DAYS, items })
+  } catch (error) {
+    const err = error as { code?: string; message?: string }
+    console.error('[dashboard:referrers]', err?.code ?? 'UNKNOWN', err)
+    return NextResponse.json(
+      { ok: false, error: 'Internal server error', code: err?.code },
+      { status: 500 }
+    )
+  }
+}
@@ -52,12 +52,16 @@ export async function GET() {
       columns = new Set<string>()
     }
 
+    // アーカイブ済みのエヴァは集計しない
+    const active = columns.has('archivedAt') ? { archivedAt: null } : {}
+
     const [totalEvangelists, pendingMeetings, requiredInnovators, staleEvangelists] = await Promise.all([
-      safeCount('totalEvangelists', () => prisma.evangelist.count()),
+      safeCount('totalEvangelists', () => prisma.evangelist.count({ where: active })),
       safeCount('pendingMeetings', () =>
         prisma.meeting.count({
           where: {
             date: { gte: weekStart, lt: weekEnd },
+            evangelist: active,
           },
         })
       ),
@@ -65,6 +69,7 @@ export async function GET() {
       safeCount('staleEvangelists', () =>
         prisma.evangelist.count({
           where: {
+            ...active,
             OR: [
               { meetings: { none: {} } },
               {
@@ -83,24 +88,31 @@ export async function GET() {
     const unassignedEvangelists = columns.has('assignedCsId')
       ? await safeCount('unassignedEvangelists', () =>
           prisma.evangelist.count({
-            where: { assignedCsId: null },
+            where: { ...active, assignedCsId: null },
+          })
+        )
+      : 0
+
+    // 他のEVAの紹介で登録されたエヴァ
+    const referredEvangelists = columns.has('referredById')
+      ? await safeCount('referredEvangelists', () =>
+          prisma.evangelist.count({
+            where: { ...active, referredById: { not: null } },
           })
         )
       : 0
 
     let itTagEvangelists = 0
-    const itFilters = [] as Array<Record<string, unknown>>
-    if (columns.has('strengths')) {
-      itFilters.push({ strength: { contains: 'IT', mode: 'insensitive' } })
-    }
-    if (columns.has('tags')) {
-      itFilters.push({ tags: { contains: '"IT"' } })
-    }
+    const itFilters = [
+      { strengths: { some: { domain: 'IT' } } },
+      { tags: { some: { tag: { normalized: 'it' } } } },
+    ] as Array<Record<string, unknown>>
 
     if (itFilters.length > 0) {
       itTagEvangelists = await safeCount('itTagEvangelists', () =>
         prisma.evangelist.count({
           where: {
+            ...active,
             OR: itFilters,
           },
         })
@@ -115,6 +127,7 @@ export async function GET() {
       requiredInnovators,
       staleEvangelists,
       itTagEvangelists,
+      referredEvangelists,
     })
   } catch (error) {
     const err = error as { code?: string; message?: string }
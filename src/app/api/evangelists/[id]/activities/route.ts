@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import type { ActivityChanges } from '@/lib/evangelist-activity'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET /api/evangelists/[id]/activities - 変更履歴取得（新しい順）
+export async function GET(request: Request, context: unknown) {
+  try {
+    const session = await getSession()
+
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = (context as { params: { id: string } }).params
+    const { searchParams } = new URL(request.url)
+    const take = Math.min(500, Math.max(1, Number.parseInt(searchParams.get('take') || '200')))
+
+    const evangelist = await prisma.evangelist.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!evangelist) {
+      return NextResponse.json({ error: 'Evangelist not found' }, { status: 404 })
+    }
+
+    const activities = await prisma.evangelistActivity.findMany({
+      where: { evangelistId: id },
+      orderBy: { createdAt: 'desc' },
+      take,
+      include: { actor: { select: { id: true, name: true } } },
+    })
+
+    // 担当CSの差分は ID で保存しているため表示名を添える
+    const userIds = new Set<string>()
+    activities.forEach((activity) => {
+      const change = (activity.changes as ActivityChanges | null)?.assignedCsId
+      if (typeof change?.before === 'string') userIds.add(change.before)
+      if (typeof change?.after === 'string') userIds.add(change.after)
+    })
+    const users =
+      userIds.size > 0
+        ? await prisma.user.findMany({
+            where: { id: { in: Array.from(userIds) } },
+            select: { id: true, name: true },
+          })
+        : []
+
+    return NextResponse.json({
+      items: activities.map((activity) => ({
+        id: activity.id,
+        source: activity.source,
+        action: activity.action,
+        changes: (activity.changes as ActivityChanges | null) ?? {},
+        createdAt: activity.createdAt.toISOString(),
+        actor: activity.actor,
+      })),
+      userNames: Object.fromEntries(users.map((user) => [user.id, user.name])),
+    })
+  } catch (error) {
+    const err = error as { code?: string; message?: string }
+    console.error('[evangelists:activities:get]', err?.code ?? 'UNKNOWN', err)
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 }
+    )
+  }
+}
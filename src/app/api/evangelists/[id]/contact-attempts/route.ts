@@ -0,0 +1,144 @@
+import { NextResponse } from 'next/server'
+
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { recordEvangelistActivity, resolveActivitySource } from '@/lib/evangelist-activity'
+import {
+  CONTACT_ATTEMPT_OUTCOME_LABELS,
+  CONTACT_CHANNEL_LABELS,
+  contactAttemptSelect,
+  createContactAttemptSchema,
+  EMPTY_CONTACT_SUMMARY,
+  loadContactSummaries,
+  mapContactAttempt,
+} from '@/lib/contact-attempts'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET /api/evangelists/[id]/contact-attempts - 連絡記録（新しい順）と未返信の状況
+export async function GET(_request: Request, context: unknown) {
+  try {
+    const session = await getSession()
+
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.role !== 'ADMIN' && session.role !== 'CS') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = (context as { params: { id: string } }).params
+
+    const evangelist = await prisma.evangelist.findUnique({
+      where: { id },
+      select: { id: true },
+    })
+
+    if (!evangelist) {
+      return NextResponse.json({ error: 'Evangelist not found' }, { status: 404 })
+    }
+
+    const [attempts, summaries] = await Promise.all([
+      prisma.contactAttempt.findMany({
+        where: { evangelistId: id },
+        orderBy: { attemptedAt: 'desc' },
+        select: contactAttemptSelect,
+      }),
+      loadContactSummaries(prisma, [id]),
+    ])
+
+    return NextResponse.json({
+      items: attempts.map(mapContactAttempt),
+      summary: summaries.get(id) ?? EMPTY_CONTACT_SUMMARY,
+    })
+  } catch (error) {
+    const err = error as { code?: string; message?: string }
+    console.error('[evangelists:contact-attempts:get]', err?.code ?? 'UNKNOWN', err)
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/evangelists/[id]/contact-attempts - 連絡を記録
+export async function POST(request: Request, context: unknown) {
+  try {
+    const session = await getSession()
+
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.role !== 'ADMIN' && session.role !== 'CS') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = (context as { params: { id: string } }).params
+
+    const parsed = createContactAttemptSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const evangelist = await prisma.evangelist.findUnique({
+      where: { id },
+      select: { id: true, archivedAt: true },
+    })
+
+    if (!evangelist) {
+      return NextResponse.json({ error: 'Evangelist not found' }, { status: 404 })
+    }
+
+    if (evangelist.archivedAt) {
+      return NextResponse.json({ error: 'Evangelist is archived' }, { status: 409 })
+    }
+
+    const { channel, outcome, attemptedAt, note } = parsed.data
+    const attempt = await prisma.$transaction(async (tx) => {
+      const created = await tx.contactAttempt.create({
+        data: {
+          evangelistId: id,
+          channel,
+          outcome,
+          attemptedAt: attemptedAt ? new Date(attemptedAt) : new Date(),
+          note: note || null,
+          createdById: session.userId ?? null,
+        },
+        select: contactAttemptSelect,
+      })
+      await recordEvangelistActivity(tx, {
+        evangelistId: id,
+        actorId: session.userId ?? null,
+        source: resolveActivitySource(request),
+        action: 'CONTACT_ATTEMPTED',
+        changes: {
+          contactAttempt: {
+            before: null,
+            after: `${CONTACT_CHANNEL_LABELS[channel]}・${CONTACT_ATTEMPT_OUTCOME_LABELS[outcome]}`,
+          },
+        },
+      })
+      return created
+    })
+
+    const summaries = await loadContactSummaries(prisma, [id])
+
+    return NextResponse.json(
+      { attempt: mapContactAttempt(attempt), summary: summaries.get(id) ?? EMPTY_CONTACT_SUMMARY },
+      { status: 201 }
+    )
+  } catch (error) {
+    const err = error as { code?: string; message?: string }
+    console.error('[evangelists:contact-attempts:post]', err?.code ?? 'UNKNOWN', err)
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 }
+    )
+  }
+}
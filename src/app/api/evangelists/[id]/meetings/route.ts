@@ -9,6 +9,11 @@ import {
   getEvangelistColumnSet,
   normalizeEvangelistResult,
 } from '@/lib/evangelist-columns'
+import {
+  diffActivityFields,
+  recordEvangelistActivity,
+  resolveActivitySource,
+} from '@/lib/evangelist-activity'
 import { z } from 'zod'
 
 export const runtime = 'nodejs'
@@ -121,7 +126,7 @@ export async function POST(request: Request, context: unknown) {
     // EVAが存在するかチェック
     const evangelist = await prisma.evangelist.findUnique({
       where: { id },
-      select: { id: true },
+      select: { id: true, nextAction: true, nextActionDueOn: true },
     })
 
     if (!evangelist) {
@@ -161,6 +166,14 @@ export async function POST(request: Request, context: unknown) {
       select,
     })
 
+    await recordEvangelistActivity(prisma, {
+      evangelistId: id,
+      actorId: session.userId ?? null,
+      source: resolveActivitySource(request),
+      action: 'MEETING_CREATED',
+      changes: diffActivityFields(evangelist, updatePayload),
+    })
+
     const normalizedEvangelist = normalizeEvangelistResult(updatedEvangelist)
 
     return NextResponse.json(
@@ -0,0 +1,155 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import {
+  EVANGELIST_PHASE_VALUES,
+  getAllowedPhaseTransitions,
+  loadPhaseTransitionRules,
+  mapEvangelistPhase,
+} from '@/lib/evangelist-phase'
+import { recordEvangelistActivity, resolveActivitySource } from '@/lib/evangelist-activity'
+import {
+  checkPhaseTransition,
+  createPhaseTransition,
+  mapPhaseTransition,
+  phaseTransitionInclude,
+  summarizePhaseDurations,
+  type PhaseTransitionWithActor,
+} from './utils'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const movePhaseSchema = z.object({
+  phase: z.enum(EVANGELIST_PHASE_VALUES),
+  note: z.string().optional().nullable(),
+  force: z.boolean().optional(),
+})
+
+// GET /api/evangelists/[id]/phase - 現在フェーズと遷移履歴
+export async function GET(_request: Request, context: unknown) {
+  try {
+    const session = await getSession()
+
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = (context as { params: { id: string } }).params
+
+    const evangelist = await prisma.evangelist.findUnique({
+      where: { id },
+      select: { id: true, managementPhase: true },
+    })
+
+    if (!evangelist) {
+      return NextResponse.json({ error: 'Evangelist not found' }, { status: 404 })
+    }
+
+    const transitions = (await prisma.evangelistPhaseTransition.findMany({
+      where: { evangelistId: id },
+      orderBy: { createdAt: 'asc' },
+      include: phaseTransitionInclude,
+    })) as PhaseTransitionWithActor[]
+
+    const phase = mapEvangelistPhase(evangelist.managementPhase)
+    const rules = await loadPhaseTransitionRules(prisma)
+
+    return NextResponse.json({
+      phase,
+      allowed: getAllowedPhaseTransitions(phase, rules),
+      history: transitions.map(mapPhaseTransition).reverse(),
+      durations: summarizePhaseDurations(transitions),
+    })
+  } catch (error) {
+    const err = error as { code?: string; message?: string }
+    console.error('[evangelists:phase:get]', err?.code ?? 'UNKNOWN', err)
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/evangelists/[id]/phase - フェーズを遷移させる
+export async function POST(request: Request, context: unknown) {
+  try {
+    const session = await getSession()
+
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = (context as { params: { id: string } }).params
+    const body = await request.json().catch(() => null)
+
+    const validationResult = movePhaseSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: validationResult.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const { phase, note, force } = validationResult.data
+
+    if (force && session.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const evangelist = await prisma.evangelist.findUnique({
+      where: { id },
+      select: { id: true, managementPhase: true },
+    })
+
+    if (!evangelist) {
+      return NextResponse.json({ error: 'Evangelist not found' }, { status: 404 })
+    }
+
+    const rules = await loadPhaseTransitionRules(prisma)
+    const check = checkPhaseTransition(evangelist.managementPhase, phase, rules, force)
+    if (!check.ok) {
+      return NextResponse.json(
+        { error: 'Invalid phase transition', from: check.from, to: phase, allowed: check.allowed },
+        { status: 409 }
+      )
+    }
+
+    const transition = await prisma.$transaction(async (tx) => {
+      await tx.evangelist.update({
+        where: { id },
+        data: { managementPhase: phase, updatedAt: new Date() },
+      })
+      await recordEvangelistActivity(tx, {
+        evangelistId: id,
+        actorId: session.userId ?? null,
+        source: resolveActivitySource(request),
+        action: 'PHASE_CHANGED',
+        changes: { managementPhase: { before: evangelist.managementPhase ?? null, after: phase } },
+      })
+      return createPhaseTransition(tx, {
+        evangelistId: id,
+        from: check.from,
+        to: phase,
+        changedById: session.userId ?? null,
+        note,
+        forced: check.forced,
+      })
+    })
+
+    return NextResponse.json({
+      phase,
+      allowed: getAllowedPhaseTransitions(phase, rules),
+      transition: mapPhaseTransition(transition),
+    })
+  } catch (error) {
+    const err = error as { code?: string; message?: string }
+    console.error('[evangelists:phase:post]', err?.code ?? 'UNKNOWN', err)
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,102 @@
+import type { EvangelistPhaseTransition, Prisma } from '@prisma/client'
+
+import { prisma } from '@/lib/prisma'
+import {
+  canTransitionPhase,
+  getAllowedPhaseTransitions,
+  mapEvangelistPhase,
+  type EvangelistPhaseValue,
+  type PhaseTransitionRules,
+} from '@/lib/evangelist-phase'
+
+export const phaseTransitionInclude = {
+  changedBy: { select: { id: true, name: true } },
+} as const
+
+export type PhaseTransitionWithActor = EvangelistPhaseTransition & {
+  changedBy: { id: string; name: string } | null
+}
+
+export type PhaseTransitionCheck =
+  | { ok: true; from: EvangelistPhaseValue | null; forced: boolean }
+  | { ok: false; from: EvangelistPhaseValue | null; allowed: readonly EvangelistPhaseValue[] }
+
+/**
+ * 現在値から `to` への遷移可否を rules（loadPhaseTransitionRules）で判定する。
+ * ルール外でも `force` が true なら許可する（呼び出し側で ADMIN に限定すること）。
+ */
+export function checkPhaseTransition(
+  current: string | null | undefined,
+  to: EvangelistPhaseValue,
+  rules: PhaseTransitionRules,
+  force = false,
+): PhaseTransitionCheck {
+  const from = mapEvangelistPhase(current)
+  if (canTransitionPhase(from, to, rules)) {
+    return { ok: true, from, forced: false }
+  }
+  if (force && from !== to) {
+    return { ok: true, from, forced: true }
+  }
+  return { ok: false, from, allowed: getAllowedPhaseTransitions(from, rules) }
+}
+
+export function createPhaseTransition(
+  tx: Prisma.TransactionClient | typeof prisma,
+  data: {
+    evangelistId: string
+    from: EvangelistPhaseValue | null
+    to: EvangelistPhaseValue
+    changedById: string | null
+    note?: string | null
+    forced?: boolean
+  },
+) {
+  return tx.evangelistPhaseTransition.create({
+    data: {
+      evangelistId: data.evangelistId,
+      fromPhase: data.from,
+      toPhase: data.to,
+      changedById: data.changedById,
+      note: data.note?.trim() || null,
+      forced: data.forced ?? false,
+    },
+    include: phaseTransitionInclude,
+  }) as Promise<PhaseTransitionWithActor>
+}
+
+export function mapPhaseTransition(record: PhaseTransitionWithActor) {
+  return {
+    id: record.id,
+    evangelistId: record.evangelistId,
+    fromPhase: record.fromPhase,
+    toPhase: record.toPhase,
+    note: record.note,
+    forced: record.forced,
+    createdAt: record.createdAt.toISOString(),
+    changedBy: record.changedBy ? { id: record.changedBy.id, name: record.changedBy.name } : null,
+  }
+}
+
+/**
+ * 遷移履歴（古い順）からフェーズごとの滞留日数を集計する。
+ * 最後のフェーズは `now` までを滞留期間として数える。
+ */
+export function summarizePhaseDurations(
+  transitions: Pick<EvangelistPhaseTransition, 'toPhase' | 'createdAt'>[],
+  now: Date = new Date(),
+) {
+  const totals = new Map<EvangelistPhaseValue, number>()
+  transitions.forEach((transition, index) => {
+    const next = transitions[index + 1]
+    const end = next ? next.createdAt : now
+    const days = Math.max(0, (end.getTime() - transition.createdAt.getTime()) / 86_400_000)
+    const phase = transition.toPhase as EvangelistPhaseValue
+    totals.set(phase, (totals.get(phase) ?? 0) + days)
+  })
+
+  return Array.from(totals.entries()).map(([phase, days]) => ({
+    phase,
+    days: Math.round(days * 10) / 10,
+  }))
+}
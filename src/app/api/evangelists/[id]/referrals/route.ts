@@ -0,0 +1,151 @@
+import { NextResponse } from 'next/server'
+
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { recordEvangelistActivity, resolveActivitySource } from '@/lib/evangelist-activity'
+import {
+  formatReferralName,
+  mapReferralPerson,
+  referralPersonSelect,
+  setReferrerSchema,
+  wouldCreateReferralCycle,
+} from '@/lib/evangelist-referrals'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+async function loadReferrals(id: string) {
+  const evangelist = await prisma.evangelist.findUnique({
+    where: { id },
+    select: {
+      referredBy: { select: referralPersonSelect },
+      referrals: { orderBy: { createdAt: 'desc' }, select: referralPersonSelect },
+    },
+  })
+  if (!evangelist) return null
+  return {
+    referredBy: evangelist.referredBy ? mapReferralPerson(evangelist.referredBy) : null,
+    referrals: evangelist.referrals.map(mapReferralPerson),
+  }
+}
+
+// GET /api/evangelists/[id]/referrals - 紹介者と、このEVAが紹介したEVA（新しい順）
+export async function GET(_request: Request, context: unknown) {
+  try {
+    const session = await getSession()
+
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = (context as { params: { id: string } }).params
+
+    const referrals = await loadReferrals(id)
+    if (!referrals) {
+      return NextResponse.json({ error: 'Evangelist not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(referrals)
+  } catch (error) {
+    const err = error as { code?: string; message?: string }
+    console.error('[evangelists:referrals:get]', err?.code ?? 'UNKNOWN', err)
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/evangelists/[id]/referrals - 紹介者を設定（null で解除）
+export async function PUT(request: Request, context: unknown) {
+  try {
+    const session = await getSession()
+
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.role !== 'ADMIN' && session.role !== 'CS') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { id } = (context as { params: { id: string } }).params
+
+    const parsed = setReferrerSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const evangelist = await prisma.evangelist.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        archivedAt: true,
+        referredById: true,
+        referredBy: { select: { firstName: true, lastName: true } },
+      },
+    })
+
+    if (!evangelist) {
+      return NextResponse.json({ error: 'Evangelist not found' }, { status: 404 })
+    }
+
+    if (evangelist.archivedAt) {
+      return NextResponse.json({ error: 'Evangelist is archived' }, { status: 409 })
+    }
+
+    const { referredById } = parsed.data
+    const referrer = referredById
+      ? await prisma.evangelist.findUnique({
+          where: { id: referredById },
+          select: { id: true, firstName: true, lastName: true, archivedAt: true },
+        })
+      : null
+
+    if (referredById && !referrer) {
+      return NextResponse.json({ error: 'Referrer not found' }, { status: 404 })
+    }
+
+    if (referrer?.archivedAt) {
+      return NextResponse.json({ error: 'Referrer is archived' }, { status: 409 })
+    }
+
+    // 自分自身や、自分が紹介した（連鎖の先にいる）EVAは紹介者にできない
+    if (referredById && (await wouldCreateReferralCycle(prisma, id, referredById))) {
+      return NextResponse.json({ error: 'Referral cycle' }, { status: 409 })
+    }
+
+    if (evangelist.referredById !== referredById) {
+      await prisma.$transaction(async (tx) => {
+        await tx.evangelist.update({
+          where: { id },
+          data: { referredById, updatedAt: new Date() },
+        })
+        await recordEvangelistActivity(tx, {
+          evangelistId: id,
+          actorId: session.userId ?? null,
+          source: resolveActivitySource(request),
+          action: 'UPDATED',
+          changes: {
+            referredBy: {
+              before: evangelist.referredBy ? formatReferralName(evangelist.referredBy) : null,
+              after: referrer ? formatReferralName(referrer) : null,
+            },
+          },
+        })
+      })
+    }
+
+    return NextResponse.json(await loadReferrals(id))
+  } catch (error) {
+    const err = error as { code?: string; message?: string }
+    console.error('[evangelists:referrals:put]', err?.code ?? 'UNKNOWN', err)
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 }
+    )
+  }
+}
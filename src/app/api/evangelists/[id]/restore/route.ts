@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { RESTORE_DATA } from '@/lib/evangelist-archive'
+import {
+  diffActivityFields,
+  recordEvangelistActivity,
+  resolveActivitySource,
+} from '@/lib/evangelist-activity'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// POST /api/evangelists/[id]/restore - アーカイブしたEVAを一覧に戻す
+export async function POST(request: Request, context: unknown) {
+  const { id } = (context as { params: { id: string } }).params
+
+  try {
+    const session = await getSession()
+
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.role !== 'ADMIN' && session.role !== 'CS') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existingEvangelist = await prisma.evangelist.findUnique({
+      where: { id },
+      select: { id: true, archivedAt: true, archivedById: true, archiveReason: true },
+    })
+
+    if (!existingEvangelist) {
+      return NextResponse.json({ error: 'Evangelist not found' }, { status: 404 })
+    }
+
+    if (!existingEvangelist.archivedAt) {
+      return NextResponse.json({ error: 'Evangelist is not archived' }, { status: 409 })
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.evangelist.update({ where: { id }, data: RESTORE_DATA })
+      await recordEvangelistActivity(tx, {
+        evangelistId: id,
+        actorId: session.userId ?? null,
+        source: resolveActivitySource(request),
+        action: 'RESTORED',
+        changes: diffActivityFields(existingEvangelist, RESTORE_DATA),
+      })
+    })
+
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    const err = error as { code?: string; message?: string }
+    console.error('[evangelists:restore]', err?.code ?? 'UNKNOWN', error)
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 }
+    )
+  }
+}
@@ -8,34 +8,43 @@ import {
   getEvangelistColumnSet,
   normalizeEvangelistResult,
 } from '@/lib/evangelist-columns'
+import { computeCompleteness, loadCompletenessWeights } from '@/lib/evangelist-completeness'
+import { EVANGELIST_PHASE_VALUES, loadPhaseTransitionRules } from '@/lib/evangelist-phase'
+import {
+  diffActivityFields,
+  recordEvangelistActivity,
+  resolveActivitySource,
+} from '@/lib/evangelist-activity'
+import {
+  applyCustomFieldInput,
+  diffCustomFieldValues,
+  loadCustomFieldDefinitions,
+  type CustomFieldValues,
+} from '@/lib/custom-fields'
+import { formatTagNames, joinTagNames, setEvangelistTags } from '@/lib/tags'
+import { formatStrengths, setEvangelistStrengths, strengthEntriesSchema, uniqueStrengths } from '@/lib/evangelist-strengths'
 import { z } from 'zod'
-import { Prisma } from '@prisma/client'
+import { archiveEvangelistSchema, buildArchiveData } from '@/lib/evangelist-archive'
+import { normalizeContactFields } from '@/lib/contact-normalize'
+import { checkPhaseTransition, createPhaseTransition } from './phase/utils'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
 const contactMethodEnum = ['FACEBOOK', 'LINE', 'EMAIL', 'PHONE', 'SLACK'] as const
-const strengthEnum = ['HR', 'IT', 'ACCOUNTING', 'ADVERTISING', 'MANAGEMENT', 'SALES', 'MANUFACTURING', 'MEDICAL', 'FINANCE'] as const
-const managementPhaseEnum = [
-  'INQUIRY',
-  'FIRST_MEETING',
-  'REGISTERED',
-  'LIST_PROVIDED',
-  'INNOVATOR_REVIEW',
-  'INTRODUCTION_STARTED',
-  'MEETING_SCHEDULED',
-  'FIRST_RESULT',
-  'CONTINUED_PROPOSAL',
-] as const
-
 const updateEvangelistSchema = z
   .object({
     firstName: z.string().min(1, 'First name is required').optional(),
     lastName: z.string().min(1, 'Last name is required').optional(),
-    email: z.string().email('Invalid email format').optional().nullable(),
+    firstNameKana: z.string().trim().max(100).optional().nullable(),
+    lastNameKana: z.string().trim().max(100).optional().nullable(),
+    // 連絡先は lib/contact-normalize で正規化と形式の確認を行う
+    email: z.string().max(320).optional().nullable(),
+    phoneNumber: z.string().max(50).optional().nullable(),
+    facebookUrl: z.string().max(500).optional().nullable(),
     contactMethod: z.enum(contactMethodEnum).optional().nullable(),
-    strength: z.enum(strengthEnum).optional().nullable(),
-    managementPhase: z.enum(managementPhaseEnum).optional().nullable(),
+    strengths: strengthEntriesSchema.optional(),
+    managementPhase: z.enum(EVANGELIST_PHASE_VALUES).optional().nullable(),
     notes: z.string().optional().nullable(),
     tier: z.enum(['TIER1', 'TIER2']).optional(),
     assignedCsId: z.string().min(1, 'Assigned CS is required').optional().nullable(),
@@ -46,8 +55,12 @@ const updateEvangelistSchema = z
       .datetime({ message: 'Invalid date format' })
       .optional()
       .nullable(),
+    customFields: z.record(z.string(), z.unknown()).optional(),
+    tagIds: z.array(z.string().min(1)).max(100).optional(),
+    // ルール外のフェーズ変更（ADMIN のみ）
+    force: z.boolean().optional(),
   })
-  .refine((data) => Object.keys(data).length > 0, {
+  .refine((data) => Object.keys(data).some((key) => key !== 'force'), {
     message: 'No update fields provided',
   })
 
@@ -77,7 +90,9 @@ export async function GET(_request: Request, context: unknown) {
       return NextResponse.json({ error: 'Evangelist not found' }, { status: 404 })
     }
 
-    return NextResponse.json(normalizeEvangelistResult(evangelist))
+    const normalized = normalizeEvangelistResult(evangelist)
+    const weights = await loadCompletenessWeights(prisma)
+    return NextResponse.json({ ...normalized, completeness: computeCompleteness(normalized, weights) })
   } catch (error) {
     const err = error as { code?: string; message?: string }
     console.error('[evangelists:detail:get]', err?.code ?? 'UNKNOWN', err)
@@ -118,15 +133,50 @@ export async function PUT(request: Request, context: unknown) {
       includeCount: true,
     })
 
-    const existingEvangelist = await prisma.evangelist.findUnique({
+    // 変更履歴の差分を取るため更新前の値をまとめて取得
+    const existingEvangelist = (await prisma.evangelist.findUnique({
       where: { id },
-      select: { id: true },
-    })
+      select,
+    })) as Record<string, unknown> | null
 
     if (!existingEvangelist) {
       return NextResponse.json({ error: 'Evangelist not found' }, { status: 404 })
     }
 
+    // アーカイブ中は編集させない（復元してから編集する）
+    if (existingEvangelist.archivedAt) {
+      return NextResponse.json({ error: 'Evangelist is archived' }, { status: 409 })
+    }
+
+    if (evangelistData.force && session.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // フェーズ変更は遷移ルールを確認（ルール外は ADMIN が force を指定したときだけ）
+    const currentPhase = (existingEvangelist.managementPhase as string | null | undefined) ?? null
+    const nextPhase = evangelistData.managementPhase
+    const phaseChanged = nextPhase !== undefined && nextPhase !== currentPhase
+    const phaseCheck =
+      phaseChanged && nextPhase
+        ? checkPhaseTransition(
+            currentPhase,
+            nextPhase,
+            await loadPhaseTransitionRules(prisma),
+            evangelistData.force,
+          )
+        : null
+
+    if (phaseCheck && !phaseCheck.ok) {
+      return NextResponse.json(
+        { error: 'Invalid phase transition', from: phaseCheck.from, to: nextPhase, allowed: phaseCheck.allowed },
+        { status: 409 }
+      )
+    }
+
+    if (phaseChanged && !nextPhase && session.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
     // EVA情報を更新
     const updateData: Record<string, unknown> = { updatedAt: new Date() }
 
@@ -138,16 +188,26 @@ export async function PUT(request: Request, context: unknown) {
       updateData.lastName = evangelistData.lastName
     }
 
-    if (evangelistData.email !== undefined) {
-      updateData.email = evangelistData.email
+    if (evangelistData.firstNameKana !== undefined) {
+      updateData.firstNameKana = evangelistData.firstNameKana || null
     }
 
-    if (evangelistData.contactMethod !== undefined) {
-      updateData.contactMethod = evangelistData.contactMethod ?? null
+    if (evangelistData.lastNameKana !== undefined) {
+      updateData.lastNameKana = evangelistData.lastNameKana || null
     }
 
-    if (evangelistData.strength !== undefined) {
-      updateData.strength = evangelistData.strength ?? null
+    const contacts = normalizeContactFields({
+      email: evangelistData.email,
+      phoneNumber: evangelistData.phoneNumber,
+      facebookUrl: evangelistData.facebookUrl,
+    })
+    if (contacts.invalid.length > 0) {
+      return NextResponse.json({ error: 'Invalid contact fields', fields: contacts.invalid }, { status: 400 })
+    }
+    Object.assign(updateData, contacts.values)
+
+    if (evangelistData.contactMethod !== undefined) {
+      updateData.contactMethod = evangelistData.contactMethod ?? null
     }
 
     if (evangelistData.managementPhase !== undefined) {
@@ -180,15 +240,90 @@ export async function PUT(request: Request, context: unknown) {
         : null
     }
 
+    // カスタム項目は定義に沿って検証し、既存の値にマージする
+    if (evangelistData.customFields !== undefined) {
+      const definitions = await loadCustomFieldDefinitions(prisma)
+      const { values, errors } = applyCustomFieldInput(
+        definitions,
+        existingEvangelist.customFields,
+        evangelistData.customFields
+      )
+      if (errors.length > 0) {
+        return NextResponse.json({ error: 'Invalid custom field values', errors }, { status: 400 })
+      }
+      updateData.customFields = values
+    }
+
+    // タグは ID で置き換える（存在しないタグが含まれていればエラー）
+    const tagIds = evangelistData.tagIds ? Array.from(new Set(evangelistData.tagIds)) : undefined
+    const nextTags = tagIds
+      ? await prisma.tag.findMany({ where: { id: { in: tagIds } }, select: { name: true } })
+      : []
+    if (tagIds && nextTags.length !== tagIds.length) {
+      return NextResponse.json({ error: 'Unknown tags' }, { status: 400 })
+    }
+
+    // 強みは分野ごとに 1 件（習熟度つき）で置き換える
+    const nextStrengths = evangelistData.strengths ? uniqueStrengths(evangelistData.strengths) : undefined
+
     const filteredUpdate = filterEvangelistData(updateData, columns)
+    const { customFields: nextCustomFields, ...scalarUpdate } = filteredUpdate
 
-    const updatedEvangelist = await prisma.evangelist.update({
-      where: { id },
-      data: filteredUpdate,
-      select,
+    const updatedEvangelist = await prisma.$transaction(async (tx) => {
+      if (tagIds) {
+        await setEvangelistTags(tx, id, tagIds)
+      }
+      if (nextStrengths) {
+        await setEvangelistStrengths(tx, id, nextStrengths)
+      }
+
+      const updated = await tx.evangelist.update({
+        where: { id },
+        data: filteredUpdate,
+        select,
+      })
+
+      if (phaseCheck?.ok && nextPhase) {
+        await createPhaseTransition(tx, {
+          evangelistId: id,
+          from: phaseCheck.from,
+          to: nextPhase,
+          changedById: session.userId ?? null,
+          forced: phaseCheck.forced,
+        })
+      }
+
+      await recordEvangelistActivity(tx, {
+        evangelistId: id,
+        actorId: session.userId ?? null,
+        source: resolveActivitySource(request),
+        action: 'UPDATED',
+        changes: {
+          ...diffActivityFields(existingEvangelist, scalarUpdate),
+          ...(nextCustomFields
+            ? diffCustomFieldValues(existingEvangelist.customFields, nextCustomFields as CustomFieldValues)
+            : {}),
+          ...(tagIds
+            ? diffActivityFields(
+                { tags: formatTagNames(existingEvangelist.tags) },
+                { tags: joinTagNames(nextTags.map((tag) => tag.name)) }
+              )
+            : {}),
+          ...(nextStrengths
+            ? diffActivityFields(
+                { strength: formatStrengths(existingEvangelist.strengths) },
+                { strength: formatStrengths(nextStrengths) }
+              )
+            : {}),
+        },
+      })
+
+      return updated
     })
 
-    return NextResponse.json(normalizeEvangelistResult(updatedEvangelist))
+    const normalized = normalizeEvangelistResult(updatedEvangelist)
+    const weights = await loadCompletenessWeights(prisma)
+    return NextResponse.json({ ...normalized, completeness: computeCompleteness(normalized, weights) })
   } catch (error) {
     const err = error as { code?: string; message?: string }
     console.error('[evangelists:detail:put]', err?.code ?? 'UNKNOWN', err)
@@ -199,8 +334,8 @@ export async function PUT(request: Request, context: unknown) {
   }
 }
 
-// DELETE /api/evangelists/[id] - EVA削除
-export async function DELETE(_request: Request, context: unknown) {
+// DELETE /api/evangelists/[id] - EVAをアーカイブ（理由つきの論理削除。完全削除は管理者の purge）
+export async function DELETE(request: Request, context: unknown) {
   const { id } = (context as { params: { id: string } }).params
 
   try {
@@ -214,48 +349,45 @@ export async function DELETE(_request: Request, context: unknown) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    // EVAが存在するかチェック
+    const parsed = archiveEvangelistSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
     const existingEvangelist = await prisma.evangelist.findUnique({
       where: { id },
-      select: { id: true },
+      select: { id: true, archivedAt: true },
     })
 
     if (!existingEvangelist) {
       return NextResponse.json({ error: 'Evangelist not found' }, { status: 404 })
     }
 
-    // 関連する面談記録も削除
-    await prisma.meeting.deleteMany({
-      where: { evangelistId: id },
-    })
+    if (existingEvangelist.archivedAt) {
+      return NextResponse.json({ error: 'Already archived' }, { status: 409 })
+    }
 
-    // EVAを削除
-    await prisma.evangelist.delete({
-      where: { id },
+    const data = buildArchiveData(session.userId, parsed.data.reason)
+    await prisma.$transaction(async (tx) => {
+      await tx.evangelist.update({ where: { id }, data })
+      await recordEvangelistActivity(tx, {
+        evangelistId: id,
+        actorId: session.userId ?? null,
+        source: resolveActivitySource(request),
+        action: 'ARCHIVED',
+        changes: diffActivityFields(existingEvangelist, data),
+      })
     })
 
-    return NextResponse.json({ ok: true })
+    return NextResponse.json({ ok: true, archivedAt: data.archivedAt.toISOString() })
   } catch (error) {
-    if (error instanceof Prisma.PrismaClientKnownRequestError) {
-      if (error.code === 'P2025') {
-        return NextResponse.json({ ok: false, error: 'Not found' }, { status: 404 })
-      }
-      if (error.code === 'P2022') {
-        try {
-          await prisma.$executeRaw`DELETE FROM "evangelists" WHERE "id" = ${id}`
-          return NextResponse.json({ ok: true, fallback: 'raw' })
-        } catch (fallbackError) {
-          console.error('[evangelists:detail:delete:fallback]', fallbackError)
-          return NextResponse.json(
-            { ok: false, error: 'DELETE_FAILED', code: 'P2022_FALLBACK_FAILED' },
-            { status: 500 },
-          )
-        }
-      }
-    }
-    console.error('[evangelists:detail:delete]', error)
+    const err = error as { code?: string; message?: string }
+    console.error('[evangelists:detail:delete]', err?.code ?? 'UNKNOWN', error)
     return NextResponse.json(
-      { ok: false, error: 'Internal server error' },
+      { ok: false, error: 'Internal server error', code: err?.code },
       { status: 500 },
     )
   }
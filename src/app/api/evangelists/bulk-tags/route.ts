@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/session';
+import { diffActivityFields, recordEvangelistActivities, resolveActivitySource } from '@/lib/evangelist-activity';
+import { applyEvangelistTagChanges, bulkTagSchema } from '@/lib/tags';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// POST /api/evangelists/bulk-tags - 選択した EVA にタグを一括で追加・削除
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.role !== 'ADMIN' && session.role !== 'CS') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const parsed = bulkTagSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { ids, add = [], remove = [] } = parsed.data;
+    const tagIds = Array.from(new Set([...add, ...remove]));
+    const found = await prisma.tag.count({ where: { id: { in: tagIds } } });
+    if (found !== tagIds.length) {
+      return NextResponse.json({ error: 'Unknown tags' }, { status: 400 });
+    }
+
+    const source = resolveActivitySource(req);
+    const changes = await prisma.$transaction(
+      async (tx) => {
+        const results = await applyEvangelistTagChanges(tx, { evangelistIds: ids, add, remove });
+        await recordEvangelistActivities(
+          tx,
+          results.map((result) => ({
+            evangelistId: result.evangelistId,
+            actorId: session.userId ?? null,
+            source,
+            action: 'UPDATED',
+            changes: diffActivityFields({ tags: result.before }, { tags: result.after }),
+          })),
+        );
+        return results;
+      },
+      { timeout: 60_000 },
+    );
+
+    return NextResponse.json({
+      ok: true,
+      updated: changes.filter((change) => change.before !== change.after).length,
+      notFound: ids.length - changes.length,
+    });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:bulk-tags]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
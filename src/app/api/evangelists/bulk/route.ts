@@ -0,0 +1,215 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/session';
+import { getEvangelistColumnSet } from '@/lib/evangelist-columns';
+import {
+  diffActivityFields,
+  recordEvangelistActivities,
+  resolveActivitySource,
+  type ActivityEntry,
+} from '@/lib/evangelist-activity';
+import {
+  bulkUpdateSchema,
+  summarizeBulkResults,
+  type BulkAction,
+  type BulkRecordResult,
+} from '@/lib/evangelist-bulk';
+import { buildArchiveData } from '@/lib/evangelist-archive';
+import { loadPhaseTransitionRules } from '@/lib/evangelist-phase';
+import { applyEvangelistTagChanges } from '@/lib/tags';
+import { checkPhaseTransition, createPhaseTransition } from '../[id]/phase/utils';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const formatName = (row: { lastName: string | null; firstName: string | null }) =>
+  [row.lastName, row.firstName].filter(Boolean).join(' ') || null;
+
+/** タグ以外の操作で 1 件に書き込む値（アーカイブ済みを再度アーカイブする場合は空） */
+function buildUpdateData(
+  action: BulkAction,
+  row: { archivedAt?: Date | null },
+  actorId: string,
+): Record<string, unknown> {
+  switch (action.type) {
+    case 'assignCs':
+      return { assignedCsId: action.assignedCsId };
+    case 'setTier':
+      return { tier: action.tier };
+    case 'setPhase':
+      return { managementPhase: action.managementPhase };
+    case 'setNextAction':
+      return {
+        nextAction: action.nextAction || null,
+        nextActionDueOn: action.nextActionDueOn ? new Date(action.nextActionDueOn) : null,
+      };
+    case 'archive':
+      return row.archivedAt ? {} : buildArchiveData(actorId, action.reason);
+    default:
+      return {};
+  }
+}
+
+// POST /api/evangelists/bulk - 選択した EVA に一括操作を 1 トランザクションで適用し、レコードごとの結果を返す
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.role !== 'ADMIN' && session.role !== 'CS') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const parsed = bulkUpdateSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { action } = parsed.data;
+    const ids = Array.from(new Set(parsed.data.ids));
+    const columns = await getEvangelistColumnSet();
+    const hasArchive = columns.has('archivedAt');
+
+    if (action.type === 'archive' && !hasArchive) {
+      return NextResponse.json({ error: 'Archive is not available' }, { status: 400 });
+    }
+    if (action.type === 'assignCs' && action.assignedCsId) {
+      const assignee = await prisma.user.findUnique({
+        where: { id: action.assignedCsId },
+        select: { id: true },
+      });
+      if (!assignee) {
+        return NextResponse.json({ error: 'Unknown user' }, { status: 400 });
+      }
+    }
+    if (action.type === 'setPhase' && action.force && session.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (action.type === 'tags') {
+      const tagIds = Array.from(new Set([...action.add, ...action.remove]));
+      const found = await prisma.tag.count({ where: { id: { in: tagIds } } });
+      if (found !== tagIds.length) {
+        return NextResponse.json({ error: 'Unknown tags' }, { status: 400 });
+      }
+    }
+
+    const actorId = session.userId;
+    const phaseRules = action.type === 'setPhase' ? await loadPhaseTransitionRules(prisma) : null;
+    const source = resolveActivitySource(req);
+
+    const results = await prisma.$transaction(
+      async (tx) => {
+        const rows = await tx.evangelist.findMany({
+          where: { id: { in: ids } },
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            assignedCsId: true,
+            tier: true,
+            managementPhase: true,
+            nextAction: true,
+            nextActionDueOn: true,
+            ...(hasArchive ? { archivedAt: true } : {}),
+          },
+        });
+        const rowById = new Map(rows.map((row) => [row.id, row]));
+        const results: BulkRecordResult[] = [];
+        const activities: ActivityEntry[] = [];
+        const targets: typeof rows = [];
+
+        // 見つからない・アーカイブ済み（アーカイブ操作以外）は対象外
+        ids.forEach((id) => {
+          const row = rowById.get(id);
+          if (!row) {
+            results.push({ id, name: null, status: 'notFound' });
+          } else if (row.archivedAt && action.type !== 'archive') {
+            results.push({ id, name: formatName(row), status: 'skipped', reason: 'Archived' });
+          } else {
+            targets.push(row);
+          }
+        });
+
+        if (action.type === 'tags') {
+          const changes = await applyEvangelistTagChanges(tx, {
+            evangelistIds: targets.map((row) => row.id),
+            add: action.add,
+            remove: action.remove,
+          });
+          const changeById = new Map(changes.map((change) => [change.evangelistId, change]));
+          targets.forEach((row) => {
+            const change = changeById.get(row.id);
+            const updated = Boolean(change && change.before !== change.after);
+            results.push({ id: row.id, name: formatName(row), status: updated ? 'updated' : 'unchanged' });
+            if (change && updated) {
+              activities.push({
+                evangelistId: row.id,
+                actorId,
+                source,
+                action: 'UPDATED',
+                changes: diffActivityFields({ tags: change.before }, { tags: change.after }),
+              });
+            }
+          });
+        }
+
+        for (const row of action.type === 'tags' ? [] : targets) {
+          const name = formatName(row);
+          const data = buildUpdateData(action, row, actorId);
+          const changes = diffActivityFields(row, data);
+          if (Object.keys(changes).length === 0) {
+            results.push({ id: row.id, name, status: 'unchanged' });
+            continue;
+          }
+
+          // フェーズは 1 件ずつ遷移ルールを確認（ルール外は ADMIN が force を指定したときだけ）
+          if (action.type === 'setPhase' && phaseRules) {
+            const check = checkPhaseTransition(row.managementPhase, action.managementPhase, phaseRules, action.force);
+            if (!check.ok) {
+              results.push({ id: row.id, name, status: 'skipped', reason: 'Invalid phase transition' });
+              continue;
+            }
+            await createPhaseTransition(tx, {
+              evangelistId: row.id,
+              from: check.from,
+              to: action.managementPhase,
+              changedById: actorId,
+              forced: check.forced,
+            });
+          }
+
+          await tx.evangelist.update({ where: { id: row.id }, data });
+          results.push({ id: row.id, name, status: 'updated' });
+          activities.push({
+            evangelistId: row.id,
+            actorId,
+            source,
+            action: action.type === 'archive' ? 'ARCHIVED' : 'UPDATED',
+            changes,
+          });
+        }
+
+        await recordEvangelistActivities(tx, activities);
+
+        // 選択した順に並べ直す
+        const order = new Map(ids.map((id, index) => [id, index]));
+        return results.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+      },
+      { timeout: 60_000 },
+    );
+
+    return NextResponse.json({ ok: true, results, summary: summarizeBulkResults(results) });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:bulk]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/session';
+import { loadCustomFieldDefinitions } from '@/lib/custom-fields';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/evangelists/custom-fields - 入力・取り込み・絞り込みに使うカスタム項目（有効なもののみ）
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const items = await loadCustomFieldDefinitions(prisma);
+    return NextResponse.json({ items });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:custom-fields]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/session';
+import {
+  buildEvangelistSelect,
+  getEvangelistColumnSet,
+  normalizeEvangelistResult,
+} from '@/lib/evangelist-columns';
+import { buildEvangelistListWhere, searchTokensOf } from '@/lib/evangelist-filters';
+import { withEvangelistSearch } from '@/lib/evangelist-search';
+import {
+  buildExportTable,
+  buildExportXlsx,
+  resolveExportColumns,
+  type ExportSource,
+} from '@/lib/evangelist-export';
+import { toCsvWithBom } from '@/lib/csv';
+import { loadCustomFieldDefinitions } from '@/lib/custom-fields';
+import { BULK_MAX_IDS } from '@/lib/evangelist-bulk';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_EXPORT_ROWS = 10000;
+
+const selectionExportSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(BULK_MAX_IDS),
+  format: z.enum(['csv', 'xlsx']).optional(),
+  columns: z.array(z.string().min(1)).optional(),
+});
+
+/** 絞り込み条件（ids を含む）に一致するエヴァを CSV / XLSX にする。CS は自分の担当分のみ */
+async function exportEvangelists(searchParams: URLSearchParams, session: { userId: string; role?: string }) {
+  if (session.role === 'CS') {
+    searchParams.set('assignedCsId', session.userId);
+  }
+
+  const format = searchParams.get('format') === 'xlsx' ? 'xlsx' : 'csv';
+  const columns = await getEvangelistColumnSet();
+  const customDefinitions = columns.has('customFields') ? await loadCustomFieldDefinitions(prisma) : [];
+  const exportColumns = resolveExportColumns(
+    (searchParams.get('columns') || '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean),
+    customDefinitions,
+  );
+
+  const where = await buildEvangelistListWhere(searchParams, columns);
+
+  const exported = await withEvangelistSearch(searchTokensOf(searchParams, columns), async (client) => {
+    const total = await client.evangelist.count({ where });
+    if (total > MAX_EXPORT_ROWS) return { total, rows: null };
+
+    const [evangelists, lastMeetings] = await Promise.all([
+      client.evangelist.findMany({
+        where,
+        orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+        select: {
+          ...buildEvangelistSelect(columns, { includeAssignedCs: true, includeCount: true }),
+          ...(columns.has('referredById')
+            ? {
+                referredBy: { select: { firstName: true, lastName: true } },
+                // 紹介したEVAはアーカイブ済みを数えない
+                _count: { select: { meetings: true, referrals: { where: { archivedAt: null } } } },
+              }
+            : {}),
+        },
+      }),
+      client.meeting.groupBy({
+        by: ['evangelistId'],
+        where: { evangelist: where },
+        _max: { date: true },
+      }),
+    ]);
+
+    const lastMeetingById = new Map(lastMeetings.map((meeting) => [meeting.evangelistId, meeting._max.date]));
+    const rows: ExportSource[] = evangelists.map((evangelist) => {
+      const normalized = normalizeEvangelistResult(evangelist as Record<string, unknown>);
+      return { ...normalized, lastMeetingDate: lastMeetingById.get(normalized.id as string) ?? null };
+    });
+    return { total, rows };
+  }, { timeout: 60_000 });
+
+  if (!exported.rows) {
+    return NextResponse.json(
+      { error: 'Too many rows to export', total: exported.total, max: MAX_EXPORT_ROWS },
+      { status: 413 },
+    );
+  }
+
+  const { header, body } = buildExportTable(exported.rows, exportColumns);
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+  if (format === 'xlsx') {
+    const buffer = await buildExportXlsx(header, body);
+    return new NextResponse(buffer, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="evangelists-${timestamp}.xlsx"`,
+      },
+    });
+  }
+
+  return new NextResponse(toCsvWithBom(header, body), {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="evangelists-${timestamp}.csv"`,
+    },
+  });
+}
+
+// GET /api/evangelists/export - 一覧と同じ絞り込み条件で CSV / XLSX を出力
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.role !== 'ADMIN' && session.role !== 'CS') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    return await exportEvangelists(new URLSearchParams(req.nextUrl.searchParams), {
+      userId: session.userId,
+      role: session.role,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid query') {
+      return NextResponse.json({ error: 'Invalid query' }, { status: 400 });
+    }
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:export]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/evangelists/export - 一覧で選択したエヴァだけを出力（ID が多く URL に載らないため POST）
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.role !== 'ADMIN' && session.role !== 'CS') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const parsed = selectionExportSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: parsed.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const searchParams = new URLSearchParams({
+      ids: parsed.data.ids.join(','),
+      format: parsed.data.format ?? 'csv',
+      columns: (parsed.data.columns ?? []).join(','),
+    });
+    return await exportEvangelists(searchParams, { userId: session.userId, role: session.role });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:export:selection]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
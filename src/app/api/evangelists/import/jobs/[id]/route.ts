@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const finishJobSchema = z.object({
+  status: z.enum(['COMPLETED', 'FAILED']),
+});
+
+// PATCH /api/evangelists/import/jobs/[id] - インポートジョブを終了
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const json = await req.json().catch(() => null);
+    const result = finishJobSchema.safeParse(json);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: result.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const job = await prisma.importJob.findUnique({
+      where: { id },
+      select: { id: true, uploadedById: true, status: true },
+    });
+    if (!job) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 });
+    }
+    if (job.uploadedById !== session.userId && session.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    if (job.status !== 'RUNNING') {
+      return NextResponse.json({ error: 'Import job already finished' }, { status: 409 });
+    }
+
+    const updated = await prisma.importJob.update({
+      where: { id },
+      data: { status: result.data.status, finishedAt: new Date() },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:import:jobs:finish]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
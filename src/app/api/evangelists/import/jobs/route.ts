@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/session';
+import { IMPORT_SKIP_REASON_NO_NAME, recordImportRows } from '@/lib/import-jobs';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const createJobSchema = z.object({
+  fileName: z.string().trim().min(1).max(255),
+  mapping: z.record(z.string(), z.union([z.string(), z.array(z.string())])).optional(),
+  totalRows: z.number().int().min(0),
+  // クライアント側で送信対象から外した行（姓・名なし、値なし）
+  skippedRows: z
+    .array(
+      z.object({
+        rowNumber: z.number().int().min(1),
+        reason: z.string().max(200).optional(),
+        data: z.record(z.string(), z.unknown()).optional(),
+      }),
+    )
+    .optional(),
+});
+
+// POST /api/evangelists/import/jobs - インポートジョブを開始
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.role !== 'ADMIN' && session.role !== 'CS') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const json = await req.json().catch(() => null);
+    const result = createJobSchema.safeParse(json);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: result.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { fileName, mapping, totalRows, skippedRows = [] } = result.data;
+
+    const job = await prisma.$transaction(async (tx) => {
+      const created = await tx.importJob.create({
+        data: {
+          fileName,
+          uploadedById: session.userId,
+          mapping: mapping ? (mapping as Prisma.InputJsonValue) : undefined,
+          totalRows,
+        },
+        select: { id: true },
+      });
+
+      await recordImportRows(
+        tx,
+        created.id,
+        skippedRows.map((row) => ({
+          rowNumber: row.rowNumber,
+          status: 'SKIPPED',
+          reason: row.reason ?? IMPORT_SKIP_REASON_NO_NAME,
+          data: row.data ?? null,
+        })),
+      );
+
+      return created;
+    });
+
+    return NextResponse.json({ id: job.id }, { status: 201 });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:import:jobs:create]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -3,9 +3,46 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getSession, type SessionData } from '@/lib/session';
 import {
+  buildEvangelistSelect,
   filterEvangelistData,
   getEvangelistColumnSet,
 } from '@/lib/evangelist-columns';
+import {
+  diffActivityFields,
+  recordEvangelistActivities,
+  type ActivityChanges,
+  type ActivityEntry,
+} from '@/lib/evangelist-activity';
+import {
+  IMPORT_SKIP_REASON_ARCHIVED,
+  IMPORT_SKIP_REASON_NO_NAME,
+  recordImportRows,
+  type ImportPreviewItem,
+  type ImportRowResult,
+} from '@/lib/import-jobs';
+import { loadCsResolver } from '@/lib/cs-resolver';
+import {
+  applyCustomFieldInput,
+  diffCustomFieldValues,
+  loadCustomFieldDefinitions,
+  type CustomFieldValues,
+} from '@/lib/custom-fields';
+import {
+  applyPicklists,
+  describeUnknownPicklistValues,
+  loadPicklistResolver,
+  PICKLIST_FIELDS,
+} from '@/lib/picklists';
+import { formatStrengths, parseStrengths, type StrengthEntry } from '@/lib/evangelist-strengths';
+import { describeInvalidContactFields, normalizeContactFields } from '@/lib/contact-normalize';
+import {
+  ensureTags,
+  flattenEvangelistTags,
+  joinTagNames,
+  normalizeTagName,
+  parseTagNames,
+  type TagSummary,
+} from '@/lib/tags';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -34,6 +71,8 @@ type ImportRow = {
   // プロフィール/状態系
   firstName?: string;
   lastName?: string;
+  firstNameKana?: string;
+  lastNameKana?: string;
   contactMethod?: string;
   supportPriority?: string;
   pattern?: string;
@@ -48,10 +87,11 @@ type ImportRow = {
   contactOwner?: string;
   marketingContactStatus?: string;
   sourceCreatedAt?: string; // CSVは文字列で来る想定
-  strength?: string;
+  strength?: string;        // "IT, 人事" や "IT:3 / 営業(実務)" のように複数・習熟度つきも可
   notes?: string;
   tier?: string;            // "TIER1" | "TIER2" 以外は無視
-  tags?: string[] | string; // UIで配列/文字列どちらでも
+  tags?: string[] | string; // UIで配列/文字列どちらでも（タグ名。カンマ区切り・JSON配列も可）
+  customFields?: Record<string, unknown>; // カスタム項目 key → CSV の文字列
 };
 
 function parseSourceCreatedAt(value?: string | null): Date | null {
@@ -70,11 +110,48 @@ function normalizeTier(input?: string | null): 'TIER1' | 'TIER2' | null {
 
 const BATCH_SIZE = 150;
 
+function displayNameOf(row: ImportRow) {
+  return [row.lastName, row.firstName].filter(Boolean).join(' ') || row.email || row.recordId || '';
+}
+
+// カスタム項目は JSON 全体ではなく cf.<key> 単位の差分にする
+function diffImportChanges(existing: Record<string, unknown> | null | undefined, data: Record<string, unknown>) {
+  const { customFields, ...scalars } = data;
+  return {
+    ...diffActivityFields(existing, scalars),
+    ...(customFields !== undefined
+      ? diffCustomFieldValues(existing?.customFields, customFields as CustomFieldValues)
+      : {}),
+  };
+}
+
+/** インポートのタグは既存のタグに追加する（外すことはしない） */
+function diffImportTags(existing: Record<string, unknown> | null | undefined, tagNames: string[]): ActivityChanges {
+  const current = flattenEvangelistTags(existing?.tags).map((tag) => tag.name);
+  const currentKeys = new Set(current.map(normalizeTagName));
+  const added = tagNames.filter((name) => !currentKeys.has(normalizeTagName(name)));
+  if (added.length === 0) return {};
+  return { tags: { before: joinTagNames(current), after: joinTagNames([...current, ...added]) } };
+}
+
+/** CSV に強みがあれば置き換える（空欄なら既存の強みを残す） */
+function diffImportStrengths(
+  existing: Record<string, unknown> | null | undefined,
+  entries: StrengthEntry[],
+): ActivityChanges {
+  if (entries.length === 0) return {};
+  return diffActivityFields({ strength: formatStrengths(existing?.strengths) }, { strength: formatStrengths(entries) });
+}
+
 export async function POST(req: NextRequest) {
   try {
     const user = await getSessionUserOrThrow();
     requireRole(user, ['ADMIN', 'CS']);
 
+    // dryRun=true の場合は DB に書き込まず、行ごとの登録/更新/スキップ判定と差分だけを返す
+    const dryRunParam = req.nextUrl.searchParams.get('dryRun')?.trim().toLowerCase();
+    const dryRun = dryRunParam === '1' || dryRunParam === 'true';
+
     const body = await req.json();
     const rows: unknown = (body ?? {}).rows;
     if (!Array.isArray(rows)) {
@@ -83,6 +160,32 @@ export async function POST(req: NextRequest) {
 
     const records = rows as ImportRow[];
 
+    // ジョブ付きで送られた場合は行ごとの結果を保存する
+    const jobId: string | null = typeof body.jobId === 'string' && body.jobId ? body.jobId : null;
+    const rowNumbers: unknown[] = Array.isArray(body.rowNumbers) ? body.rowNumbers : [];
+    const rowNumberOf = (index: number) => {
+      const value = rowNumbers[index];
+      return typeof value === 'number' && Number.isInteger(value) ? value : index + 1;
+    };
+
+    if (jobId && !dryRun) {
+      const job = await prisma.importJob.findUnique({
+        where: { id: jobId },
+        select: { uploadedById: true, status: true },
+      });
+      if (!job) {
+        return NextResponse.json({ error: 'Import job not found' }, { status: 404 });
+      }
+      if (job.uploadedById !== user.userId && user.role !== 'ADMIN') {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      if (job.status !== 'RUNNING') {
+        return NextResponse.json({ error: 'Import job already finished' }, { status: 409 });
+      }
+    }
+
+    const skippedResults: ImportRowResult[] = [];
+
     const sanitized = records.reduce<{
       row: ImportRow;
       index: number;
@@ -91,6 +194,12 @@ export async function POST(req: NextRequest) {
       const lastName = r.lastName?.trim() ?? '';
 
       if (!firstName && !lastName) {
+        skippedResults.push({
+          rowNumber: rowNumberOf(index),
+          status: 'SKIPPED',
+          reason: IMPORT_SKIP_REASON_NO_NAME,
+          data: r as Record<string, unknown>,
+        });
         return acc;
       }
 
@@ -109,12 +218,122 @@ export async function POST(req: NextRequest) {
       return acc;
     }, []);
 
+    // 連絡先は正規化した表記で照合・保存する。形式が正しくない値は取り込まずに行の注記にする
+    const contactIssues = new Map<number, string>();
+    sanitized.forEach((entry) => {
+      // スプレッドシート由来の数値セルも文字列として扱う
+      const textOf = (value: unknown) => (value == null ? undefined : String(value));
+      const input = {
+        email: textOf(entry.row.email),
+        phoneNumber: textOf(entry.row.phoneNumber),
+        facebookUrl: textOf(entry.row.facebookUrl),
+      };
+      const { values, invalid } = normalizeContactFields(input);
+      entry.row = {
+        ...entry.row,
+        email: values.email ?? undefined,
+        phoneNumber: values.phoneNumber ?? undefined,
+        facebookUrl: values.facebookUrl ?? undefined,
+      };
+      const issue = describeInvalidContactFields(input, invalid);
+      if (issue) contactIssues.set(rowNumberOf(entry.index), issue);
+    });
+
     const columns = await getEvangelistColumnSet();
 
-    const buildCreateData = (r: ImportRow) => ({
+    // ステータス系項目は管理画面の選択肢（同義語を含む）の表記に寄せる。未登録の値はそのまま取り込む
+    const picklistResolver = sanitized.some(({ row }) => PICKLIST_FIELDS.some((field) => row[field]?.trim()))
+      ? await loadPicklistResolver(prisma)
+      : null;
+    const picklistIssues = new Map<number, string>();
+    if (picklistResolver) {
+      sanitized.forEach((entry) => {
+        const { row, unknown } = applyPicklists(picklistResolver, entry.row);
+        entry.row = row;
+        const issue = describeUnknownPicklistValues(unknown);
+        if (issue) picklistIssues.set(rowNumberOf(entry.index), issue);
+      });
+    }
+
+    // 強みは mapBusinessDomain で分野に寄せる。判別できない表記は取り込まずに行の注記にする
+    const strengthsByIndex = new Map<number, StrengthEntry[]>();
+    const strengthIssues = new Map<number, string>();
+    sanitized.forEach(({ row, index }) => {
+      const { entries, unknown } = parseStrengths(row.strength);
+      if (entries.length > 0) strengthsByIndex.set(index, entries);
+      if (unknown.length > 0) {
+        strengthIssues.set(rowNumberOf(index), `強み「${unknown.join('、')}」は分野を判別できないため取り込みません`);
+      }
+    });
+    const buildStrengthWrite = (index: number, replace: boolean) => {
+      const entries = strengthsByIndex.get(index);
+      if (!entries) return {};
+      return { strengths: replace ? { deleteMany: {}, create: entries } : { create: entries } };
+    };
+
+    // contactOwner は CS の氏名・別名と照合し、管理者のインポートでは担当CSに割り当てる
+    const csResolver = sanitized.some(({ row }) => row.contactOwner?.trim()) ? await loadCsResolver(prisma) : null;
+    const ownerIssues: { rowNumber: number; contactOwner: string; reason: string }[] = [];
+    const resolveContactOwner = (row: ImportRow, rowNumber: number) => {
+      const contactOwner = row.contactOwner?.trim();
+      if (!csResolver || !contactOwner) return undefined;
+      const resolution = csResolver.resolve(contactOwner);
+      if (resolution.status === 'AMBIGUOUS') {
+        ownerIssues.push({
+          rowNumber,
+          contactOwner,
+          reason: `コンタクト担当者「${contactOwner}」に該当するCSが複数います（${resolution.candidates
+            .map((candidate) => candidate.name)
+            .join(', ')}）`,
+        });
+      }
+      return resolution.status === 'RESOLVED' ? resolution.user.id : undefined;
+    };
+
+    // カスタム項目は取り込み時には必須チェックをせず、型・選択肢・範囲のみ検証する
+    const hasCustomFields = sanitized.some(({ row }) => row.customFields && Object.keys(row.customFields).length > 0);
+    const customDefinitions =
+      hasCustomFields && columns.has('customFields') ? await loadCustomFieldDefinitions(prisma) : [];
+    const resolveCustomFields = (row: ImportRow, existing?: Record<string, unknown>) => {
+      if (!hasCustomFields || !row.customFields || Object.keys(row.customFields).length === 0) {
+        return { values: undefined, error: null };
+      }
+      const { values, errors } = applyCustomFieldInput(customDefinitions, existing?.customFields, row.customFields, {
+        enforceRequired: false,
+      });
+      return errors.length > 0
+        ? { values: undefined, error: errors.map((item) => item.message).join(' / ') }
+        : { values, error: null };
+    };
+
+    // タグは名前で照合し、未登録のタグは取り込み時に作成する（プレビューでは作成しない）
+    const tagNamesByIndex = new Map<number, string[]>();
+    sanitized.forEach(({ row, index }) => {
+      const names = parseTagNames(row.tags);
+      if (names.length > 0) tagNamesByIndex.set(index, names);
+    });
+    const tagsByKey =
+      !dryRun && tagNamesByIndex.size > 0
+        ? await ensureTags(prisma, Array.from(tagNamesByIndex.values()).flat())
+        : new Map<string, TagSummary>();
+    const tagNamesOf = (index: number) =>
+      (tagNamesByIndex.get(index) ?? []).map((name) => tagsByKey.get(normalizeTagName(name))?.name ?? name);
+    // 既存のタグは外さず、CSV のタグを追加する
+    const buildTagWrite = (index: number) => {
+      const tagIds = (tagNamesByIndex.get(index) ?? [])
+        .map((name) => tagsByKey.get(normalizeTagName(name))?.id)
+        .filter((id): id is string => Boolean(id));
+      return tagIds.length > 0
+        ? { tags: { createMany: { data: tagIds.map((tagId) => ({ tagId })), skipDuplicates: true } } }
+        : {};
+    };
+
+    const buildCreateData = (r: ImportRow, ownerId?: string, customFields?: CustomFieldValues) => ({
       recordId: r.recordId || null,
       firstName: r.firstName || null,
       lastName: r.lastName || null,
+      firstNameKana: r.firstNameKana || null,
+      lastNameKana: r.lastNameKana || null,
       email: r.email || null,
       contactMethod: r.contactMethod || null,
       supportPriority: r.supportPriority || null,
@@ -131,21 +350,19 @@ export async function POST(req: NextRequest) {
       contactOwner: r.contactOwner || null,
       marketingContactStatus: r.marketingContactStatus || null,
       sourceCreatedAt: parseSourceCreatedAt(r.sourceCreatedAt) || null,
-      strength: r.strength || null,
       notes: r.notes || null,
       tier: normalizeTier(r.tier) ?? 'TIER2',
-      tags: Array.isArray(r.tags)
-        ? JSON.stringify(r.tags)
-        : r.tags
-          ? JSON.stringify([r.tags])
-          : null,
-      assignedCsId: user.role === 'CS' ? user.userId : null,
+      assignedCsId: user.role === 'CS' ? user.userId : user.role === 'ADMIN' && ownerId ? ownerId : null,
+      customFields,
     });
 
-    const buildUpdateData = (r: ImportRow) => ({
+    // 既存レコードの担当CSは、未割り当ての場合にだけ contactOwner から補完する
+    const buildUpdateData = (r: ImportRow, ownerId?: string, customFields?: CustomFieldValues) => ({
       recordId: r.recordId || undefined,
       firstName: r.firstName || undefined,
       lastName: r.lastName || undefined,
+      firstNameKana: r.firstNameKana || undefined,
+      lastNameKana: r.lastNameKana || undefined,
       email: r.email || undefined,
       contactMethod: r.contactMethod || undefined,
       supportPriority: r.supportPriority || undefined,
@@ -161,32 +378,181 @@ export async function POST(req: NextRequest) {
       contactOwner: r.contactOwner || undefined,
       marketingContactStatus: r.marketingContactStatus || undefined,
       sourceCreatedAt: parseSourceCreatedAt(r.sourceCreatedAt) || undefined,
-      strength: r.strength || undefined,
       notes: r.notes || undefined,
       tier: normalizeTier(r.tier) || undefined,
-      tags: Array.isArray(r.tags)
-        ? JSON.stringify(r.tags)
-        : r.tags
-          ? JSON.stringify([r.tags])
-          : undefined,
-      assignedCsId: undefined,
+      assignedCsId: ownerId,
+      customFields,
     });
 
+    // 行の注記（担当CSの照合・連絡先の形式・未登録の選択肢・判別できない強み）。プレビューと取り込み結果の両方に残す
+    const rowNoteOf = (rowNumber: number) =>
+      [
+        ownerIssues.find((issue) => issue.rowNumber === rowNumber)?.reason,
+        contactIssues.get(rowNumber),
+        picklistIssues.get(rowNumber),
+        strengthIssues.get(rowNumber),
+      ]
+        .filter(Boolean)
+        .join(' / ') || null;
+
     let success = 0;
-    const failures: { index: number; reason: string }[] = [];
+    let archivedSkips = 0;
+    const failures: { index: number; rowNumber: number; reason: string }[] = [];
+
+    const previewItems: ImportPreviewItem[] = skippedResults.map((result) => ({
+      rowNumber: result.rowNumber,
+      action: 'INVALID',
+      name: displayNameOf((result.data ?? {}) as ImportRow),
+      reason: result.reason,
+    }));
+
+    if (jobId && !dryRun && skippedResults.length > 0) {
+      await recordImportRows(prisma, jobId, skippedResults);
+    }
 
     for (let i = 0; i < sanitized.length; i += BATCH_SIZE) {
       const chunk = sanitized.slice(i, i + BATCH_SIZE);
 
-      const operations = chunk.map(({ row }) => {
-        const createData = filterEvangelistData(buildCreateData(row), columns);
-        const updateData = filterEvangelistData(buildUpdateData(row), columns);
+      // 変更履歴用に既存レコードの現在値を取得
+      const recordIds = chunk.map(({ row }) => row.recordId).filter((v): v is string => Boolean(v));
+      // recordId 付きの行もメールの衝突を検出できるよう、メールはすべて引いておく
+      const emails = chunk.map(({ row }) => row.email).filter((v): v is string => Boolean(v));
+      const existingRows =
+        recordIds.length > 0 || emails.length > 0
+          ? ((await prisma.evangelist.findMany({
+              where: {
+                OR: [
+                  ...(recordIds.length > 0 ? [{ recordId: { in: recordIds } }] : []),
+                  ...(emails.length > 0 ? [{ email: { in: emails } }] : []),
+                ],
+              },
+              select: buildEvangelistSelect(columns),
+            })) as Record<string, unknown>[])
+          : [];
+      const existingByRecordId = new Map<string, Record<string, unknown>>();
+      const existingByEmail = new Map<string, Record<string, unknown>>();
+      existingRows.forEach((existing) => {
+        if (typeof existing.recordId === 'string') existingByRecordId.set(existing.recordId, existing);
+        if (typeof existing.email === 'string') existingByEmail.set(existing.email, existing);
+      });
+
+      const payloads = chunk.map(({ row, index }) => {
+        const existing = row.recordId
+          ? existingByRecordId.get(row.recordId)
+          : row.email
+            ? existingByEmail.get(row.email)
+            : undefined;
+        // アーカイブ済みのエヴァは上書きせず、メールアドレスで一致した場合も新規作成しないでスキップする
+        const emailOwner = row.email ? existingByEmail.get(row.email) : undefined;
+        const archived = [existing, emailOwner].find((candidate) => candidate?.archivedAt);
+        const ownerId = resolveContactOwner(row, rowNumberOf(index));
+        const fillOwner = user.role === 'ADMIN' && Boolean(existing) && !existing?.assignedCsId;
+        const custom = resolveCustomFields(row, existing);
+        return {
+          existing,
+          archived,
+          customError: custom.error,
+          tagNames: tagNamesOf(index),
+          strengths: strengthsByIndex.get(index) ?? [],
+          createRelations: { ...buildTagWrite(index), ...buildStrengthWrite(index, false) },
+          updateRelations: { ...buildTagWrite(index), ...buildStrengthWrite(index, true) },
+          createData: filterEvangelistData(buildCreateData(row, ownerId, custom.values), columns),
+          updateData: filterEvangelistData(
+            buildUpdateData(row, fillOwner ? ownerId : undefined, custom.values),
+            columns,
+          ),
+        };
+      });
+
+      if (dryRun) {
+        chunk.forEach(({ row, index }, idx) => {
+          const { existing, archived, customError, tagNames, strengths, createData, updateData } = payloads[idx];
+          const rowNumber = rowNumberOf(index);
+          const name = displayNameOf(row);
+          const rowNote = rowNoteOf(rowNumber);
+
+          if (archived) {
+            previewItems.push({
+              rowNumber,
+              action: 'INVALID',
+              evangelistId: archived.id as string,
+              name,
+              reason: IMPORT_SKIP_REASON_ARCHIVED,
+            });
+            return;
+          }
+
+          if (customError) {
+            previewItems.push({
+              rowNumber,
+              action: 'INVALID',
+              evangelistId: existing?.id as string | undefined,
+              name,
+              reason: customError,
+            });
+            return;
+          }
+
+          if (!existing) {
+            const emailOwner = row.email ? existingByEmail.get(row.email) : undefined;
+            if (emailOwner) {
+              // recordId で新規作成しようとしたが、メールアドレスが別レコードで使われている
+              previewItems.push({
+                rowNumber,
+                action: 'INVALID',
+                evangelistId: emailOwner.id as string,
+                name,
+                reason: 'メールアドレスが別のレコードIDのEVAで使用されています',
+              });
+              return;
+            }
+            previewItems.push({
+              rowNumber,
+              action: 'CREATE',
+              name,
+              changes: {
+                ...diffImportChanges(null, createData),
+                ...diffImportTags(null, tagNames),
+                ...diffImportStrengths(null, strengths),
+              },
+              reason: rowNote,
+            });
+            return;
+          }
+
+          const changes = {
+            ...diffImportChanges(existing, updateData),
+            ...diffImportTags(existing, tagNames),
+            ...diffImportStrengths(existing, strengths),
+          };
+          previewItems.push({
+            rowNumber,
+            action: Object.keys(changes).length > 0 ? 'UPDATE' : 'UNCHANGED',
+            evangelistId: existing.id as string,
+            name,
+            changes,
+            reason: rowNote,
+          });
+        });
+        continue;
+      }
+
+      const operations = chunk.map(({ row }, idx) => {
+        const { archived, customError, createRelations, updateRelations, createData, updateData } = payloads[idx];
+
+        if (archived) {
+          return Promise.resolve(null);
+        }
+
+        if (customError) {
+          return Promise.reject(new Error(customError));
+        }
 
         if (row.recordId) {
           return prisma.evangelist.upsert({
             where: { recordId: row.recordId },
-            create: createData,
-            update: updateData,
+            create: { ...createData, ...createRelations },
+            update: { ...updateData, ...updateRelations },
             select: { id: true },
           });
         }
@@ -194,20 +560,56 @@ export async function POST(req: NextRequest) {
         if (row.email) {
           return prisma.evangelist.upsert({
             where: { email: row.email },
-            create: createData,
-            update: updateData,
+            create: { ...createData, ...createRelations },
+            update: { ...updateData, ...updateRelations },
             select: { id: true },
           });
         }
 
-        return prisma.evangelist.create({ data: createData, select: { id: true } });
+        return prisma.evangelist.create({ data: { ...createData, ...createRelations }, select: { id: true } });
       });
 
       const results = await Promise.allSettled(operations);
+      const activities: ActivityEntry[] = [];
+      const rowResults: ImportRowResult[] = [];
 
       results.forEach((result, idx) => {
         if (result.status === 'fulfilled') {
+          if (!result.value) {
+            archivedSkips += 1;
+            rowResults.push({
+              rowNumber: rowNumberOf(chunk[idx].index),
+              status: 'SKIPPED',
+              evangelistId: payloads[idx].archived?.id as string | undefined,
+              reason: IMPORT_SKIP_REASON_ARCHIVED,
+              data: chunk[idx].row as Record<string, unknown>,
+            });
+            return;
+          }
+
           success += 1;
+          const { existing, tagNames, strengths, createData, updateData } = payloads[idx];
+          const rowNumber = rowNumberOf(chunk[idx].index);
+          const rowNote = rowNoteOf(rowNumber);
+          rowResults.push({
+            rowNumber,
+            status: existing ? 'UPDATED' : 'CREATED',
+            evangelistId: result.value.id,
+            reason: rowNote,
+            // 注記のある行は履歴画面で対象が分かるよう元の値も残す
+            data: rowNote ? (chunk[idx].row as Record<string, unknown>) : null,
+          });
+          activities.push({
+            evangelistId: result.value.id,
+            actorId: user.userId ?? null,
+            source: 'IMPORT',
+            action: existing ? 'UPDATED' : 'CREATED',
+            changes: {
+              ...(existing ? diffImportChanges(existing, updateData) : diffImportChanges(null, createData)),
+              ...diffImportTags(existing, tagNames),
+              ...diffImportStrengths(existing, strengths),
+            },
+          });
           return;
         }
 
@@ -228,11 +630,39 @@ export async function POST(req: NextRequest) {
           console.error('[evangelists:import:item]', code, reasonSource);
         }
 
+        const reason = code ? `${message} (${code})` : message;
         failures.push({
           index: chunk[idx].index,
-          reason: code ? `${message} (${code})` : message,
+          rowNumber: rowNumberOf(chunk[idx].index),
+          reason,
+        });
+        rowResults.push({
+          rowNumber: rowNumberOf(chunk[idx].index),
+          status: 'FAILED',
+          reason,
+          data: chunk[idx].row as Record<string, unknown>,
         });
       });
+
+      if (jobId) {
+        await recordImportRows(prisma, jobId, rowResults);
+      }
+
+      try {
+        await recordEvangelistActivities(prisma, activities);
+      } catch (activityError) {
+        // 履歴の記録失敗でインポート自体は失敗させない
+        console.error('[evangelists:import:activity]', activityError);
+      }
+    }
+
+    if (dryRun) {
+      return NextResponse.json({
+        ok: true,
+        dryRun: true,
+        total: records.length,
+        items: previewItems.sort((a, b) => a.rowNumber - b.rowNumber),
+      });
     }
 
     const failed = failures.length;
@@ -243,8 +673,11 @@ export async function POST(req: NextRequest) {
       accepted: sanitized.length,
       success,
       failed,
-      failures: failures.slice(0, 5),
+      skipped: skippedResults.length + archivedSkips,
+      failures,
+      ownerIssues,
       count: success,
+      jobId,
     });
   } catch (error) {
     const err = error as { code?: string; message?: string };
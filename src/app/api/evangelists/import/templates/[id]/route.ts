@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { prisma } from '@/lib/prisma';
+import { getSession, type SessionData } from '@/lib/session';
+import { mappingTemplateColumnsSchema } from '@/lib/import-fields';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const updateTemplateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    shared: z.boolean().optional(),
+    mapping: mappingTemplateColumnsSchema.optional(),
+    headers: z.array(z.string().max(200)).max(500).optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, { message: 'No fields to update' });
+
+function canManageTemplate(session: SessionData, template: { ownerId: string | null }) {
+  if (session.role === 'ADMIN') return true;
+  return template.ownerId !== null && template.ownerId === session.userId;
+}
+
+async function loadManageableTemplate(id: string) {
+  const session = await getSession();
+  if (!session.isLoggedIn || !session.userId) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const template = await prisma.csvMappingTemplate.findUnique({ where: { id }, select: { id: true, ownerId: true } });
+  if (!template) {
+    return { response: NextResponse.json({ error: 'Template not found' }, { status: 404 }) };
+  }
+  if (!canManageTemplate(session, template)) {
+    return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+  return { template };
+}
+
+// PATCH /api/evangelists/import/templates/[id] - テンプレートの更新（作成者または管理者）
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { response } = await loadManageableTemplate(id);
+    if (response) return response;
+
+    const json = await req.json().catch(() => null);
+    const result = updateTemplateSchema.safeParse(json);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: result.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const updated = await prisma.csvMappingTemplate.update({
+      where: { id },
+      data: result.data,
+      include: { owner: { select: { id: true, name: true } } },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:import:templates:update]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/evangelists/import/templates/[id] - テンプレートの削除（作成者または管理者）
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { response } = await loadManageableTemplate(id);
+    if (response) return response;
+
+    await prisma.csvMappingTemplate.delete({ where: { id } });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:import:templates:delete]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/session';
+import { mappingTemplateColumnsSchema } from '@/lib/import-fields';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const createTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  shared: z.boolean().optional(),
+  mapping: mappingTemplateColumnsSchema,
+  headers: z.array(z.string().max(200)).max(500).optional(),
+});
+
+// GET /api/evangelists/import/templates - 自分のテンプレートと共有テンプレート
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const items = await prisma.csvMappingTemplate.findMany({
+      where: { OR: [{ ownerId: session.userId }, { shared: true }] },
+      orderBy: [{ updatedAt: 'desc' }],
+      include: { owner: { select: { id: true, name: true } } },
+    });
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:import:templates:list]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/evangelists/import/templates - 現在のマッピングをテンプレートとして保存
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.role !== 'ADMIN' && session.role !== 'CS') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const json = await req.json().catch(() => null);
+    const result = createTemplateSchema.safeParse(json);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: result.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { name, shared, mapping, headers } = result.data;
+    const template = await prisma.csvMappingTemplate.create({
+      data: {
+        name,
+        shared: shared ?? false,
+        ownerId: session.userId,
+        mapping,
+        headers: headers ?? undefined,
+      },
+      include: { owner: { select: { id: true, name: true } } },
+    });
+
+    return NextResponse.json(template, { status: 201 });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:import:templates:create]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
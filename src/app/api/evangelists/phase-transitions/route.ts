@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/session';
+import { loadPhaseTransitionRules } from '@/lib/evangelist-phase';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/evangelists/phase-transitions - ボードでドロップできる列の表示に使う遷移ルール
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rules = await loadPhaseTransitionRules(prisma);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:phase-transitions]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/session';
+import { loadPicklistOptions } from '@/lib/picklists';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/evangelists/picklists - 一覧の絞り込みに使うステータス系項目の選択肢（有効なもののみ）
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const items = await loadPicklistOptions(prisma);
+    return NextResponse.json({ items: items.map(({ id, field, value }) => ({ id, field, value })) });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:picklists]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
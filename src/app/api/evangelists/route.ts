@@ -10,6 +10,16 @@ import {
   getEvangelistColumnSet,
   normalizeEvangelistResult,
 } from '@/lib/evangelist-columns'
+import {
+  diffActivityFields,
+  recordEvangelistActivity,
+  resolveActivitySource,
+} from '@/lib/evangelist-activity'
+import { computeCompleteness, loadCompletenessWeights } from '@/lib/evangelist-completeness'
+import { EMPTY_CONTACT_SUMMARY, loadContactSummaries } from '@/lib/contact-attempts'
+import { normalizeContactFields } from '@/lib/contact-normalize'
+import { buildEvangelistListWhere, searchTokensOf } from '@/lib/evangelist-filters'
+import { loadSearchSnippets, withEvangelistSearch } from '@/lib/evangelist-search'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -23,6 +33,8 @@ const SORTABLE_FIELDS: Record<string, true> = {
   tier: true,
 }
 
+const BOARD_MAX_LIMIT = 500
+
 async function getSessionUserOrThrow(): Promise<SessionData> {
   const session = await getSession()
   if (!session.isLoggedIn || !session.userId) throw new Error('Unauthorized')
@@ -45,135 +57,41 @@ export async function GET(request: NextRequest) {
     // クエリパラメータの取得
     const { searchParams } = new URL(request.url)
     const page = Math.max(1, Number.parseInt(searchParams.get('page') || '1'))
+    // ボード表示はフェーズ別に全件を並べるため上限を広げる
+    const maxLimit = searchParams.get('view') === 'board' ? BOARD_MAX_LIMIT : 100
     const limit = Math.min(
-      100,
+      maxLimit,
       Math.max(1, Number.parseInt(searchParams.get('limit') || '10')),
     )
-    const rawSearch = searchParams.get('search') || ''
-    const search = rawSearch.trim()
-    const tier = searchParams.get('tier') || 'ALL'
-    const requestedSortBy = searchParams.get('sortBy') || 'createdAt'
+    const search = (searchParams.get('search') || '').trim()
+    // 検索語があるときは並び順の指定がなければ関連度順
+    const requestedSortBy = searchParams.get('sortBy') || (search ? 'relevance' : 'createdAt')
     const sortOrder = searchParams.get('sortOrder') === 'asc' ? 'asc' : 'desc'
-    const status = searchParams.get('status') || ''
-    const stale = searchParams.get('stale') // M3: stale=7 for meetings older than 7 days
-    const tag = searchParams.get('tag') // M3: tag filtering
-    const assignedCsId = searchParams.get('assignedCsId') // 担当CSフィルタ
 
     const skip = (page - 1) * limit
 
     const columns = await getEvangelistColumnSet()
 
-    const filters: Prisma.EvangelistWhereInput[] = []
-
-    if (search) {
-      const searchConditions: Prisma.EvangelistWhereInput[] = []
-      let displayNameIdFilter: Prisma.EvangelistWhereInput | null = null
-
-      if (columns.has('firstName')) {
-        searchConditions.push({
-          firstName: { contains: search, mode: 'insensitive' },
-        })
-      }
-
-      if (columns.has('lastName')) {
-        searchConditions.push({
-          lastName: { contains: search, mode: 'insensitive' },
-        })
-      }
-
-      if (columns.has('email')) {
-        searchConditions.push({
-          email: { contains: search, mode: 'insensitive' },
-        })
-      }
-
-      const displayNameColumn = Array.from(columns).find((column) => {
-        const lowered = column.toLowerCase()
-        return lowered === 'displayname' || lowered === 'display_name'
-      })
-
-      if (displayNameColumn) {
-        const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`
-        const matches = await prisma.$queryRaw<{ id: string }[]>`
-          SELECT "id"
-          FROM "evangelists"
-          WHERE ${Prisma.raw(quoteIdentifier(displayNameColumn))} ILIKE ${
-            `%${search}%`
-          }
-        `
-
-        if (matches.length > 0) {
-          displayNameIdFilter = {
-            id: { in: matches.map((match) => match.id) },
-          }
-        }
-      }
-
-      if (displayNameIdFilter) {
-        searchConditions.push(displayNameIdFilter)
-      }
-
-      if (searchConditions.length > 0) {
-        filters.push({ OR: searchConditions })
-      }
-    }
-
-    if (status && status !== 'ALL') {
-      // status 列は現行スキーマに存在しないため利用しない
-    }
-
-    if (tier && tier !== 'ALL') {
-      filters.push({ tier: tier as 'TIER1' | 'TIER2' })
-    }
-
-    if (tag && columns.has('tags')) {
-      filters.push({
-        tags: {
-          contains: tag,
-        },
-      })
-    }
-
-    if (assignedCsId && columns.has('assignedCsId')) {
-      filters.push({ assignedCsId })
-    }
-
-    if (stale) {
-      const staleDays = Number.parseInt(stale)
-      if (!Number.isNaN(staleDays) && staleDays > 0) {
-        const staleDate = new Date()
-        staleDate.setDate(staleDate.getDate() - staleDays)
-        filters.push({
-          OR: [
-            { meetings: { none: {} } },
-            {
-              meetings: {
-                every: {
-                  date: {
-                    lt: staleDate,
-                  },
-                },
-              },
-            },
-          ],
-        })
-      }
-    }
-
-    const where: Prisma.EvangelistWhereInput =
-      filters.length > 0 ? { AND: filters } : {}
+    const searchTokens = searchTokensOf(searchParams, columns)
+    const where = await buildEvangelistListWhere(searchParams, columns)
 
     const canSortByName = columns.has('firstName') && columns.has('lastName')
 
+    // 関連度順は検索語があるときだけ
     const sortBy =
-      requestedSortBy === 'name' && canSortByName
-        ? 'name'
-        : SORTABLE_FIELDS[requestedSortBy] && columns.has(requestedSortBy)
-          ? requestedSortBy
-          : 'createdAt'
+      requestedSortBy === 'relevance' && searchTokens.length > 0
+        ? 'relevance'
+        : requestedSortBy === 'name' && canSortByName
+          ? 'name'
+          : SORTABLE_FIELDS[requestedSortBy] && columns.has(requestedSortBy)
+            ? requestedSortBy
+            : 'createdAt'
 
     let orderBy: Prisma.EvangelistOrderByWithRelationInput | Prisma.EvangelistOrderByWithRelationInput[]
-    if (sortBy === 'name') {
+    if (sortBy === 'relevance') {
+      // 関連度は evangelist_search_matches ビュー（検索語は withEvangelistSearch で設定）
+      orderBy = [{ searchMatch: { rank: 'desc' } }, { updatedAt: 'desc' }]
+    } else if (sortBy === 'name') {
       orderBy = [
         { firstName: sortOrder },
         { lastName: sortOrder },
@@ -188,29 +106,49 @@ export async function GET(request: NextRequest) {
       includeCount: true,
     })
 
-    const [evangelists, total] = await Promise.all([
-      prisma.evangelist.findMany({
-        where,
-        orderBy,
-        skip,
-        take: limit,
-        select,
-      }),
-      prisma.evangelist.count({ where }),
-    ])
-
-    const normalized = evangelists.map((evangelist) =>
-      normalizeEvangelistResult(evangelist),
+    // 検索の一致・関連度順・ページ分割はすべて SQL の中で行う
+    const [evangelists, total] = await withEvangelistSearch(searchTokens, (client) =>
+      Promise.all([
+        client.evangelist.findMany({
+          where,
+          orderBy,
+          skip,
+          take: limit,
+          select,
+        }),
+        client.evangelist.count({ where }),
+      ]),
     )
 
+    const [weights, contactSummaries] = await Promise.all([
+      loadCompletenessWeights(prisma),
+      loadContactSummaries(prisma, evangelists.map((evangelist) => evangelist.id)),
+    ])
+    const normalized = evangelists.map((evangelist) => {
+      const item = normalizeEvangelistResult(evangelist)
+      return {
+        ...item,
+        completeness: computeCompleteness(item, weights),
+        contactSummary: contactSummaries.get(item.id) ?? EMPTY_CONTACT_SUMMARY,
+      }
+    })
+    const snippets = searchTokens.length > 0
+      ? await loadSearchSnippets(normalized, searchTokens)
+      : new Map()
+
     return NextResponse.json({
       ok: true,
-      items: normalized,
+      items: searchTokens.length > 0
+        ? normalized.map((item) => ({ ...item, searchSnippets: snippets.get(item.id) ?? [] }))
+        : normalized,
       total,
       page,
       limit,
     })
   } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid query') {
+      return NextResponse.json({ ok: false, error: 'Invalid query' }, { status: 400 })
+    }
     const err = error as { code?: string; message?: string }
     console.error('[evangelists:list]', err?.code ?? 'UNKNOWN', err)
     return NextResponse.json(
@@ -241,8 +179,17 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const emailRaw = typeof payload.email === 'string' ? payload.email.trim() : ''
-    const email = emailRaw.length > 0 ? emailRaw : null
+    const contacts = normalizeContactFields({
+      email: typeof payload.email === 'string' ? payload.email : null,
+      phoneNumber: typeof payload.phoneNumber === 'string' ? payload.phoneNumber : undefined,
+      facebookUrl: typeof payload.facebookUrl === 'string' ? payload.facebookUrl : undefined,
+    })
+    if (contacts.invalid.length > 0) {
+      return NextResponse.json(
+        { ok: false, error: 'Invalid contact fields', fields: contacts.invalid },
+        { status: 400 },
+      )
+    }
 
     const assignedCsIdRaw =
       typeof payload.assignedCsId === 'string' ? payload.assignedCsId.trim() : ''
@@ -254,7 +201,7 @@ export async function POST(request: NextRequest) {
         firstName,
         lastName,
         displayName: `${lastName} ${firstName}`.trim(),
-        email,
+        ...contacts.values,
         assignedCsId: assignedCsId ?? undefined,
       },
       columns,
@@ -268,6 +215,14 @@ export async function POST(request: NextRequest) {
       }),
     })
 
+    await recordEvangelistActivity(prisma, {
+      evangelistId: created.id,
+      actorId: session.userId ?? null,
+      source: resolveActivitySource(request),
+      action: 'CREATED',
+      changes: diffActivityFields(null, data),
+    })
+
     return NextResponse.json(
       { ok: true, item: normalizeEvangelistResult(created) },
       { status: 201 },
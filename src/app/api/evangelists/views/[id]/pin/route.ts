@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// PUT /api/evangelists/views/[id]/pin - 保存ビューをナビゲーションに固定
+export async function PUT(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const view = await prisma.savedView.findUnique({ where: { id }, select: { ownerId: true, shared: true } });
+    if (!view || (!view.shared && view.ownerId !== session.userId)) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+
+    await prisma.savedViewPin.upsert({
+      where: { userId_viewId: { userId: session.userId, viewId: id } },
+      create: { userId: session.userId, viewId: id },
+      update: {},
+    });
+
+    return NextResponse.json({ ok: true, pinned: true });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:views:pin]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/evangelists/views/[id]/pin - ナビゲーションへの固定を解除
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    await prisma.savedViewPin.deleteMany({ where: { userId: session.userId, viewId: id } });
+
+    return NextResponse.json({ ok: true, pinned: false });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:views:unpin]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
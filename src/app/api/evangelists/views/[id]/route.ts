@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/session';
+import {
+  canManageSavedView,
+  savedViewInclude,
+  toSavedViewItem,
+  updateSavedViewSchema,
+} from '@/lib/saved-views';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function loadManageableView(id: string) {
+  const session = await getSession();
+  if (!session.isLoggedIn || !session.userId) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const view = await prisma.savedView.findUnique({ where: { id }, select: { id: true, ownerId: true } });
+  if (!view) {
+    return { response: NextResponse.json({ error: 'View not found' }, { status: 404 }) };
+  }
+  if (!canManageSavedView(session, view)) {
+    return { response: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+  return { session: { ...session, userId: session.userId } };
+}
+
+// GET /api/evangelists/views/[id] - 保存ビューの取得（URL で共有されたビューを開くため）
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const row = await prisma.savedView.findUnique({ where: { id }, include: savedViewInclude(session.userId) });
+    // 他人の非共有ビューは存在しないものとして扱う
+    if (!row || (!row.shared && row.ownerId !== session.userId)) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(toSavedViewItem(row, session));
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:views:get]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
+
+// PATCH /api/evangelists/views/[id] - 保存ビューの更新（作成者または管理者）
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { response, session } = await loadManageableView(id);
+    if (response) return response;
+
+    const json = await req.json().catch(() => null);
+    const result = updateSavedViewSchema.safeParse(json);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: result.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const row = await prisma.savedView.update({
+      where: { id },
+      data: result.data,
+      include: savedViewInclude(session.userId),
+    });
+
+    return NextResponse.json(toSavedViewItem(row, session));
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:views:update]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/evangelists/views/[id] - 保存ビューの削除（作成者または管理者）
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const { response } = await loadManageableView(id);
+    if (response) return response;
+
+    await prisma.savedView.delete({ where: { id } });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:views:delete]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
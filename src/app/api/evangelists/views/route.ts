@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { prisma } from '@/lib/prisma';
+import { getSession } from '@/lib/session';
+import { createSavedViewSchema, savedViewInclude, toSavedViewItem } from '@/lib/saved-views';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/evangelists/views - 自分の保存ビューと共有ビュー
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rows = await prisma.savedView.findMany({
+      where: { OR: [{ ownerId: session.userId }, { shared: true }] },
+      orderBy: [{ name: 'asc' }],
+      include: savedViewInclude(session.userId),
+    });
+
+    return NextResponse.json({ items: rows.map((row) => toSavedViewItem(row, session)) });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:views:list]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/evangelists/views - 現在の詳細フィルタを保存ビューとして保存
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const json = await req.json().catch(() => null);
+    const result = createSavedViewSchema.safeParse(json);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: result.error.issues },
+        { status: 400 },
+      );
+    }
+
+    const { name, shared, query } = result.data;
+    const row = await prisma.savedView.create({
+      data: { name, shared: shared ?? false, query, ownerId: session.userId },
+      include: savedViewInclude(session.userId),
+    });
+
+    return NextResponse.json(toSavedViewItem(row, session), { status: 201 });
+  } catch (error) {
+    const err = error as { code?: string; message?: string };
+    console.error('[evangelists:views:create]', err?.code ?? 'UNKNOWN', error);
+    return NextResponse.json(
+      { error: 'Internal server error', code: err?.code },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import type { SessionData } from '@/lib/session'
+import { INTRODUCTION_STATUS_VALUES, introductionTimestampsFor } from '@/lib/introduction-status'
+import {
+  introductionInclude,
+  mapIntroduction,
+  parseOptionalDate,
+  type IntroductionWithRelations,
+} from '../utils'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const updateIntroductionSchema = z
+  .object({
+    innovatorId: z.number().int().nonnegative().optional(),
+    status: z.enum(INTRODUCTION_STATUS_VALUES).optional(),
+    introducedById: z.string().min(1).optional().nullable(),
+    proposedAt: z.string().optional(),
+    sentAt: z.string().optional().nullable(),
+    respondedAt: z.string().optional().nullable(),
+    closedAt: z.string().optional().nullable(),
+    notes: z.string().optional().nullable(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'No update fields provided',
+  })
+
+const DATE_FIELDS = ['proposedAt', 'sentAt', 'respondedAt', 'closedAt'] as const
+
+async function getSessionUserOrThrow(): Promise<SessionData> {
+  const session = await getSession()
+  if (!session.isLoggedIn || !session.userId) throw new Error('Unauthorized')
+  if (session.role !== 'ADMIN' && session.role !== 'CS') throw new Error('Forbidden')
+  return session
+}
+
+function handleError(label: string, error: unknown) {
+  if (error instanceof Error) {
+    if (error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (error.message === 'Forbidden') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+  }
+  const err = error as { code?: string }
+  if (err?.code === 'P2025') {
+    return NextResponse.json({ error: 'Introduction not found' }, { status: 404 })
+  }
+  console.error(label, err?.code ?? 'UNKNOWN', error)
+  return NextResponse.json({ error: 'Internal server error', code: err?.code }, { status: 500 })
+}
+
+// GET /api/introductions/[id] - 紹介実績の詳細
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await getSessionUserOrThrow()
+    const { id } = await params
+
+    const introduction = (await prisma.introduction.findUnique({
+      where: { id },
+      include: introductionInclude,
+    })) as IntroductionWithRelations | null
+
+    if (!introduction) {
+      return NextResponse.json({ error: 'Introduction not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(mapIntroduction(introduction))
+  } catch (error) {
+    return handleError('[introductions:detail:get]', error)
+  }
+}
+
+// PATCH /api/introductions/[id] - ステータス・メモ等の更新
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getSessionUserOrThrow()
+    const { id } = await params
+
+    const json = await request.json().catch(() => null)
+    const result = updateIntroductionSchema.safeParse(json)
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: result.error.issues },
+        { status: 400 },
+      )
+    }
+
+    const data = result.data
+    const existing = await prisma.introduction.findUnique({
+      where: { id },
+      select: { id: true, sentAt: true, respondedAt: true, closedAt: true },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: 'Introduction not found' }, { status: 404 })
+    }
+
+    const updateData: Record<string, unknown> = {}
+
+    if (data.innovatorId !== undefined) {
+      const innovator = await prisma.innovator.findUnique({
+        where: { id: data.innovatorId },
+        select: { id: true },
+      })
+      if (!innovator) {
+        return NextResponse.json({ error: 'Innovator not found' }, { status: 404 })
+      }
+      updateData.innovatorId = data.innovatorId
+    }
+
+    if (data.introducedById !== undefined && session.role === 'ADMIN') {
+      updateData.introducedById = data.introducedById
+    }
+
+    if (data.notes !== undefined) {
+      updateData.notes = data.notes?.trim() || null
+    }
+
+    for (const field of DATE_FIELDS) {
+      if (data[field] === undefined) continue
+      const parsed = parseOptionalDate(data[field])
+      if (parsed === undefined || (field === 'proposedAt' && parsed === null)) {
+        return NextResponse.json({ error: `Invalid ${field}` }, { status: 400 })
+      }
+      updateData[field] = parsed
+    }
+
+    if (data.status !== undefined) {
+      updateData.status = data.status
+      const stamps = introductionTimestampsFor(data.status, existing)
+      for (const [field, value] of Object.entries(stamps)) {
+        if (!(field in updateData)) {
+          updateData[field] = value
+        }
+      }
+    }
+
+    const updated = (await prisma.introduction.update({
+      where: { id },
+      data: updateData,
+      include: introductionInclude,
+    })) as IntroductionWithRelations
+
+    return NextResponse.json(mapIntroduction(updated))
+  } catch (error) {
+    return handleError('[introductions:detail:patch]', error)
+  }
+}
+
+// DELETE /api/introductions/[id] - 紹介実績の削除
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    await getSessionUserOrThrow()
+    const { id } = await params
+
+    await prisma.introduction.delete({ where: { id } })
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    return handleError('[introductions:detail:delete]', error)
+  }
+}
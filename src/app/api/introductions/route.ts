@@ -0,0 +1,156 @@
+import type { Prisma } from '@prisma/client'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import type { SessionData } from '@/lib/session'
+import {
+  INTRODUCTION_STATUS_VALUES,
+  introductionTimestampsFor,
+  isIntroductionStatus,
+} from '@/lib/introduction-status'
+import {
+  introductionInclude,
+  mapIntroduction,
+  parseOptionalDate,
+  type IntroductionWithRelations,
+} from './utils'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const createIntroductionSchema = z.object({
+  evangelistId: z.string().min(1, 'evangelistId is required'),
+  innovatorId: z.number().int().nonnegative(),
+  status: z.enum(INTRODUCTION_STATUS_VALUES).optional(),
+  introducedById: z.string().min(1).optional().nullable(),
+  proposedAt: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+})
+
+async function getSessionUserOrThrow(): Promise<SessionData> {
+  const session = await getSession()
+  if (!session.isLoggedIn || !session.userId) throw new Error('Unauthorized')
+  if (session.role !== 'ADMIN' && session.role !== 'CS') throw new Error('Forbidden')
+  return session
+}
+
+// GET /api/introductions - 紹介実績一覧
+export async function GET(request: NextRequest) {
+  try {
+    await getSessionUserOrThrow()
+
+    const { searchParams } = new URL(request.url)
+    const evangelistId = searchParams.get('evangelistId')
+    const innovatorIdParam = searchParams.get('innovatorId')
+    const status = searchParams.get('status')
+    const take = Math.min(200, Math.max(1, Number.parseInt(searchParams.get('take') || '100')))
+
+    const where: Prisma.IntroductionWhereInput = {}
+    if (evangelistId) {
+      where.evangelistId = evangelistId
+    }
+    if (innovatorIdParam) {
+      const innovatorId = Number.parseInt(innovatorIdParam)
+      if (Number.isNaN(innovatorId)) {
+        return NextResponse.json({ error: 'Invalid innovatorId' }, { status: 400 })
+      }
+      where.innovatorId = innovatorId
+    }
+    if (status && status !== 'ALL') {
+      if (!isIntroductionStatus(status)) {
+        return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+      }
+      where.status = status
+    }
+
+    const introductions = (await prisma.introduction.findMany({
+      where,
+      orderBy: [{ proposedAt: 'desc' }, { createdAt: 'desc' }],
+      take,
+      include: introductionInclude,
+    })) as IntroductionWithRelations[]
+
+    return NextResponse.json({ items: introductions.map(mapIntroduction) })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Unauthorized') {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+      if (error.message === 'Forbidden') {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+      }
+    }
+    console.error('[introductions:list]', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST /api/introductions - 紹介実績の登録
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSessionUserOrThrow()
+
+    const json = await request.json().catch(() => null)
+    const result = createIntroductionSchema.safeParse(json)
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', issues: result.error.issues },
+        { status: 400 },
+      )
+    }
+
+    const data = result.data
+    const proposedAt = parseOptionalDate(data.proposedAt)
+    if (proposedAt === undefined && data.proposedAt) {
+      return NextResponse.json({ error: 'Invalid proposedAt' }, { status: 400 })
+    }
+
+    const [evangelist, innovator] = await Promise.all([
+      prisma.evangelist.findUnique({ where: { id: data.evangelistId }, select: { id: true } }),
+      prisma.innovator.findUnique({ where: { id: data.innovatorId }, select: { id: true } }),
+    ])
+    if (!evangelist) {
+      return NextResponse.json({ error: 'Evangelist not found' }, { status: 404 })
+    }
+    if (!innovator) {
+      return NextResponse.json({ error: 'Innovator not found' }, { status: 404 })
+    }
+
+    const status = data.status ?? 'PROPOSED'
+    const notes = data.notes?.trim() || null
+    // CS は自分名義でのみ登録できる
+    const introducedById =
+      session.role === 'ADMIN' && data.introducedById !== undefined
+        ? data.introducedById
+        : session.userId!
+
+    const created = (await prisma.introduction.create({
+      data: {
+        evangelistId: data.evangelistId,
+        innovatorId: data.innovatorId,
+        introducedById,
+        status,
+        proposedAt: proposedAt ?? new Date(),
+        notes,
+        ...introductionTimestampsFor(status, { sentAt: null, respondedAt: null, closedAt: null }),
+      },
+      include: introductionInclude,
+    })) as IntroductionWithRelations
+
+    return NextResponse.json(mapIntroduction(created), { status: 201 })
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Unauthorized') {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+      if (error.message === 'Forbidden') {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+      }
+    }
+    const err = error as { code?: string }
+    console.error('[introductions:create]', err?.code ?? 'UNKNOWN', error)
+    return NextResponse.json({ error: 'Internal server error', code: err?.code }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import type { Evangelist, Innovator, Introduction, User } from '@prisma/client'
+
+export const introductionInclude = {
+  evangelist: { select: { id: true, firstName: true, lastName: true } },
+  innovator: { select: { id: true, name: true, url: true } },
+  introducedBy: { select: { id: true, name: true } },
+} as const
+
+export type IntroductionWithRelations = Introduction & {
+  evangelist: Pick<Evangelist, 'id' | 'firstName' | 'lastName'>
+  innovator: Pick<Innovator, 'id' | 'name' | 'url'>
+  introducedBy: Pick<User, 'id' | 'name'> | null
+}
+
+const toIso = (value: Date | null) => (value ? value.toISOString() : null)
+
+export const parseOptionalDate = (value: unknown): Date | null | undefined => {
+  if (value === undefined) return undefined
+  if (value === null || value === '') return null
+  if (typeof value !== 'string') return undefined
+  const trimmed = value.trim()
+  const normalized = /^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T00:00:00.000Z` : trimmed
+  const parsed = new Date(normalized)
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed
+}
+
+export const mapIntroduction = (introduction: IntroductionWithRelations) => ({
+  id: introduction.id,
+  evangelistId: introduction.evangelistId,
+  innovatorId: introduction.innovatorId,
+  introducedById: introduction.introducedById,
+  status: introduction.status,
+  proposedAt: introduction.proposedAt.toISOString(),
+  sentAt: toIso(introduction.sentAt),
+  respondedAt: toIso(introduction.respondedAt),
+  closedAt: toIso(introduction.closedAt),
+  notes: introduction.notes,
+  createdAt: introduction.createdAt.toISOString(),
+  updatedAt: introduction.updatedAt.toISOString(),
+  evangelist: {
+    id: introduction.evangelist.id,
+    firstName: introduction.evangelist.firstName,
+    lastName: introduction.evangelist.lastName,
+  },
+  innovator: {
+    id: introduction.innovator.id,
+    name: introduction.innovator.name,
+    url: introduction.innovator.url,
+  },
+  introducedBy: introduction.introducedBy
+    ? { id: introduction.introducedBy.id, name: introduction.introducedBy.name }
+    : null,
+})
@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { prisma } from '@/lib/prisma'
+import { getSession } from '@/lib/session'
+import { getEvangelistColumnSet } from '@/lib/evangelist-columns'
+import { searchEvangelists } from '@/lib/evangelist-search'
+import {
+  canSeePaletteResult,
+  type PaletteResult,
+  type PaletteResultType,
+} from '@/lib/command-palette'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// 種類ごとに返す件数
+const RESULTS_PER_TYPE = 5
+
+const dateFormatter = new Intl.DateTimeFormat('ja-JP', {
+  timeZone: 'Asia/Tokyo',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+})
+
+const formatName = (row: { lastName: string | null; firstName: string | null }) =>
+  [row.lastName, row.firstName].filter(Boolean).join(' ') || '（氏名未設定）'
+
+async function searchEvangelistResults(q: string): Promise<PaletteResult[]> {
+  const columns = await getEvangelistColumnSet()
+  const select = { id: true, firstName: true, lastName: true, email: true, tier: true }
+  // アーカイブ済みは出さない
+  const active = columns.has('archivedAt') ? { archivedAt: null } : {}
+
+  let rows
+  if (columns.has('searchText')) {
+    const result = await searchEvangelists(q, {
+      limit: RESULTS_PER_TYPE,
+      activeOnly: columns.has('archivedAt'),
+    })
+    const ids = (result?.matches ?? []).map((match) => match.id)
+    const found = await prisma.evangelist.findMany({ where: { id: { in: ids }, ...active }, select })
+    const byId = new Map(found.map((row) => [row.id, row]))
+    rows = ids.flatMap((id) => byId.get(id) ?? [])
+  } else {
+    rows = await prisma.evangelist.findMany({
+      where: {
+        ...active,
+        OR: [
+          { lastName: { contains: q, mode: 'insensitive' } },
+          { firstName: { contains: q, mode: 'insensitive' } },
+          { email: { contains: q, mode: 'insensitive' } },
+        ],
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: RESULTS_PER_TYPE,
+      select,
+    })
+  }
+
+  return rows.map((row) => ({
+    type: 'evangelist',
+    id: row.id,
+    title: formatName(row),
+    subtitle: [row.tier, row.email].filter(Boolean).join(' / '),
+    href: `/evangelists/${row.id}`,
+  }))
+}
+
+async function searchInnovatorResults(q: string): Promise<PaletteResult[]> {
+  const rows = await prisma.innovator.findMany({
+    where: {
+      OR: [
+        { name: { contains: q, mode: 'insensitive' } },
+        { company: { contains: q, mode: 'insensitive' } },
+        { introPoint: { contains: q, mode: 'insensitive' } },
+      ],
+    },
+    orderBy: { updatedAt: 'desc' },
+    take: RESULTS_PER_TYPE,
+    select: { id: true, name: true, company: true },
+  })
+  return rows.map((row) => ({
+    type: 'innovator',
+    id: String(row.id),
+    title: row.name,
+    subtitle: row.company,
+    href: `/admin/innovators?search=${encodeURIComponent(row.name)}`,
+  }))
+}
+
+// ToDo は管理者以外は自分が担当・作成したものだけ
+async function searchTodoResults(q: string, session: { userId: string; role?: string }): Promise<PaletteResult[]> {
+  const rows = await prisma.todo.findMany({
+    where: {
+      AND: [
+        {
+          OR: [
+            { title: { contains: q, mode: 'insensitive' } },
+            { notes: { contains: q, mode: 'insensitive' } },
+          ],
+        },
+        session.role === 'ADMIN'
+          ? {}
+          : { OR: [{ assigneeId: session.userId }, { createdById: session.userId }] },
+      ],
+    },
+    orderBy: [{ status: 'desc' }, { updatedAt: 'desc' }],
+    take: RESULTS_PER_TYPE,
+    select: { id: true, title: true, status: true, dueOn: true, assignee: { select: { name: true } } },
+  })
+  return rows.map((row) => ({
+    type: 'todo',
+    id: row.id,
+    title: row.title,
+    subtitle: [
+      row.status === 'DONE' ? '完了' : '未完了',
+      row.dueOn ? `期限 ${dateFormatter.format(row.dueOn)}` : null,
+      row.assignee.name,
+    ]
+      .filter(Boolean)
+      .join(' / '),
+    href: '/todos',
+  }))
+}
+
+async function searchUserResults(q: string): Promise<PaletteResult[]> {
+  const rows = await prisma.user.findMany({
+    where: {
+      OR: [
+        { name: { contains: q, mode: 'insensitive' } },
+        { email: { contains: q, mode: 'insensitive' } },
+      ],
+    },
+    orderBy: { name: 'asc' },
+    take: RESULTS_PER_TYPE,
+    select: { id: true, name: true, email: true, role: true },
+  })
+  return rows.map((row) => ({
+    type: 'user',
+    id: row.id,
+    title: row.name,
+    subtitle: `${row.role} / ${row.email}`,
+    href: '/admin/users',
+  }))
+}
+
+async function searchRequiredIntroductionResults(q: string): Promise<PaletteResult[]> {
+  const rows = await prisma.requiredIntroductionRule.findMany({
+    where: { innovator: { name: { contains: q, mode: 'insensitive' } } },
+    orderBy: { startDate: 'desc' },
+    take: RESULTS_PER_TYPE,
+    select: { id: true, startDate: true, endDate: true, innovator: { select: { name: true } } },
+  })
+  return rows.map((row) => ({
+    type: 'requiredIntroduction',
+    id: row.id,
+    title: row.innovator.name,
+    subtitle: `${dateFormatter.format(row.startDate)} 〜 ${dateFormatter.format(row.endDate)}`,
+    href: '/admin/introductions/required',
+  }))
+}
+
+/** コマンドパレットの横断検索（ロールで見られない種類は検索しない） */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session.isLoggedIn || !session.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const q = (new URL(request.url).searchParams.get('q') || '').trim().slice(0, 100)
+    if (!q) {
+      return NextResponse.json({ results: [] })
+    }
+
+    const userId = session.userId
+    const searches: Record<PaletteResultType, () => Promise<PaletteResult[]>> = {
+      evangelist: () => searchEvangelistResults(q),
+      innovator: () => searchInnovatorResults(q),
+      todo: () => searchTodoResults(q, { userId, role: session.role }),
+      user: () => searchUserResults(q),
+      requiredIntroduction: () => searchRequiredIntroductionResults(q),
+    }
+
+    const visible = (Object.keys(searches) as PaletteResultType[]).filter((type) =>
+      canSeePaletteResult(type, session.role),
+    )
+    const groups = await Promise.all(visible.map((type) => searches[type]()))
+
+    return NextResponse.json({ results: groups.flat() })
+  } catch (error) {
+    const err = error as { code?: string }
+    console.error('[search:GET]', err?.code ?? 'UNKNOWN', error)
+    return NextResponse.json({ error: 'Internal server error', code: err?.code }, { status: 500 })
+  }
+}
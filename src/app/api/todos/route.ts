@@ -189,6 +189,7 @@ export async function POST(req: NextRequest) {
         notes?: string | null
         dueOn?: string | null
         assigneeId?: string | null
+        evangelistId?: string | null
       }
     | null
 
@@ -205,6 +206,12 @@ export async function POST(req: NextRequest) {
     assigneeId = session.userId!
   }
 
+  // エヴァの画面から作成した ToDo は関連を持たせる（完全削除のときに匿名化する対象になる）
+  const evangelistId = body?.evangelistId?.trim() || null
+  const evangelist = evangelistId
+    ? await prisma.evangelist.findUnique({ where: { id: evangelistId }, select: { id: true } })
+    : null
+
   const created = await prisma.todo.create({
     data: {
       title,
@@ -213,6 +220,7 @@ export async function POST(req: NextRequest) {
       status: 'OPEN',
       assigneeId,
       createdById: session.userId!,
+      evangelistId: evangelist?.id ?? null,
     },
     select: {
       id: true,
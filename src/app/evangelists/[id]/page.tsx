@@ -1,7 +1,7 @@
 'use client'
 
 import React, { useState, useEffect, useCallback } from 'react'
-import { useParams, useRouter } from 'next/navigation'
+import { useParams, useRouter, useSearchParams } from 'next/navigation'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -16,11 +16,10 @@ import {
   Mail,
   Phone,
   Building,
-  Calendar,
   Edit,
   Save,
   X,
-  MessageSquare
+  ArchiveRestore,
 } from 'lucide-react'
 import {
   Sheet,
@@ -34,14 +33,38 @@ import MeetingForm, {
   type MeetingRecord,
   type MeetingSaveResult,
 } from '@/components/evangelists/meeting-form'
+import { IntroductionsSection } from '@/components/evangelists/introductions-section'
+import { PhaseHistorySection } from '@/components/evangelists/phase-history-section'
+import { ActivityTimeline } from '@/components/evangelists/activity-timeline'
+import {
+  CustomFieldInputs,
+  toCustomFieldFormValues,
+  toCustomFieldPayload,
+  useCustomFieldDefinitions,
+  type CustomFieldFormValues,
+} from '@/components/evangelists/custom-field-inputs'
+import { TagList, TagPicker, useTagOptions } from '@/components/evangelists/tag-inputs'
+import { StrengthList, StrengthPicker } from '@/components/evangelists/strength-inputs'
+import { restoreEvangelist } from '@/components/evangelists/archive-inputs'
+import { CompletenessBadge } from '@/components/evangelists/completeness-badge'
+import { ContactAttemptsSection } from '@/components/evangelists/contact-attempts'
+import { ReferralsSection } from '@/components/evangelists/referrals-section'
+import { EVANGELIST_PHASE_LABELS, EVANGELIST_PHASE_VALUES } from '@/lib/evangelist-phase'
+import { formatCustomFieldValue, toCustomFieldValues } from '@/lib/custom-fields'
+import type { TagSummary } from '@/lib/tags'
+import type { StrengthEntry } from '@/lib/evangelist-strengths'
+import type { CompletenessResult } from '@/lib/evangelist-completeness'
+import { CONTACT_FIELD_LABELS, type ContactFieldKey } from '@/lib/contact-normalize'
 
 interface Evangelist {
   id: string
   firstName?: string | null
   lastName?: string | null
+  firstNameKana?: string | null
+  lastNameKana?: string | null
   email?: string | null
   contactMethod?: string | null
-  strength?: string | null
+  strengths?: StrengthEntry[]
   notes?: string | null
   tier: 'TIER1' | 'TIER2'
   assignedCsId?: string | null
@@ -53,6 +76,11 @@ interface Evangelist {
   listProvided?: boolean | null
   nextAction?: string | null
   nextActionDueOn?: string | null
+  customFields?: Record<string, unknown> | null
+  tags?: TagSummary[]
+  archivedAt?: string | null
+  archiveReason?: string | null
+  completeness?: CompletenessResult
   createdAt: string
   updatedAt: string
 }
@@ -66,9 +94,11 @@ interface User {
 type EditFormState = {
   firstName: string
   lastName: string
+  firstNameKana: string
+  lastNameKana: string
   email: string
   contactMethod?: string | null
-  strength?: string | null
+  strengths: StrengthEntry[]
   managementPhase?: string | null
   notes: string
   tier: 'TIER1' | 'TIER2'
@@ -78,18 +108,6 @@ type EditFormState = {
   nextActionDueOn: string
 }
 
-const STRENGTH_OPTIONS = [
-  { value: 'HR', label: '人事' },
-  { value: 'IT', label: 'IT' },
-  { value: 'ACCOUNTING', label: '会計' },
-  { value: 'ADVERTISING', label: '広告' },
-  { value: 'MANAGEMENT', label: '経営' },
-  { value: 'SALES', label: '営業' },
-  { value: 'MANUFACTURING', label: '製造' },
-  { value: 'MEDICAL', label: '医療' },
-  { value: 'FINANCE', label: '金融' },
-] as const
-
 const CONTACT_OPTIONS = [
   { value: 'FACEBOOK', label: 'Facebook' },
   { value: 'LINE', label: 'LINE' },
@@ -98,17 +116,10 @@ const CONTACT_OPTIONS = [
   { value: 'SLACK', label: 'Slack' },
 ] as const
 
-const PHASE_OPTIONS = [
-  { value: 'INQUIRY', label: '問い合わせ' },
-  { value: 'FIRST_MEETING', label: '初回面談' },
-  { value: 'REGISTERED', label: '登録' },
-  { value: 'LIST_PROVIDED', label: 'リスト提供/突合' },
-  { value: 'INNOVATOR_REVIEW', label: 'イノベータ確認' },
-  { value: 'INTRODUCTION_STARTED', label: '紹介開始' },
-  { value: 'MEETING_SCHEDULED', label: '商談設定' },
-  { value: 'FIRST_RESULT', label: '初回実績' },
-  { value: 'CONTINUED_PROPOSAL', label: '継続提案' },
-] as const
+const PHASE_OPTIONS = EVANGELIST_PHASE_VALUES.map((value) => ({
+  value,
+  label: EVANGELIST_PHASE_LABELS[value],
+}))
 
 const SELECT_CLEAR_VALUE = '__UNSET__'
 const CS_CLEAR_VALUE = '__UNASSIGNED__'
@@ -128,6 +139,7 @@ const formatDate = (value?: string | null) => {
 export default function EvangelistDetailPage() {
   const params = useParams()
   const router = useRouter()
+  const searchParams = useSearchParams()
   const [evangelist, setEvangelist] = useState<Evangelist | null>(null)
   const [meetings, setMeetings] = useState<MeetingRecord[]>([])
   const [openForm, setOpenForm] = useState(false)
@@ -138,9 +150,11 @@ export default function EvangelistDetailPage() {
   const [editForm, setEditForm] = useState<EditFormState>({
     firstName: '',
     lastName: '',
+    firstNameKana: '',
+    lastNameKana: '',
     email: '',
     contactMethod: undefined,
-    strength: undefined,
+    strengths: [],
     managementPhase: undefined,
     notes: '',
     tier: 'TIER2',
@@ -149,6 +163,17 @@ export default function EvangelistDetailPage() {
     nextAction: '',
     nextActionDueOn: '',
   })
+  const customFieldDefinitions = useCustomFieldDefinitions()
+  const [customFieldForm, setCustomFieldForm] = useState<CustomFieldFormValues>({})
+  const tagOptions = useTagOptions()
+  const [tagForm, setTagForm] = useState<string[]>([])
+
+  // 編集中以外は保存済みの値に揃える（キャンセル時の巻き戻しも兼ねる）
+  useEffect(() => {
+    if (isEditing || !evangelist) return
+    setCustomFieldForm(toCustomFieldFormValues(customFieldDefinitions, evangelist.customFields))
+    setTagForm((evangelist.tags ?? []).map((tag) => tag.id))
+  }, [customFieldDefinitions, evangelist, isEditing])
 
   const fetchUsers = useCallback(async () => {
     try {
@@ -181,9 +206,11 @@ export default function EvangelistDetailPage() {
       setEditForm({
         firstName: evangelistData.firstName ?? '',
         lastName: evangelistData.lastName ?? '',
+        firstNameKana: evangelistData.firstNameKana ?? '',
+        lastNameKana: evangelistData.lastNameKana ?? '',
         email: evangelistData.email ?? '',
         contactMethod: evangelistData.contactMethod ?? undefined,
-        strength: evangelistData.strength ?? undefined,
+        strengths: evangelistData.strengths ?? [],
         managementPhase: evangelistData.managementPhase ?? undefined,
         notes: evangelistData.notes ?? '',
         tier: evangelistData.tier,
@@ -217,14 +244,23 @@ export default function EvangelistDetailPage() {
     }
   }, [params.id, fetchEvangelistData, fetchUsers])
 
+  // コマンドパレットの「面談を記録」（?logMeeting=1）から面談記録フォームを開く
+  useEffect(() => {
+    if (searchParams.get('logMeeting') !== '1') return
+    setOpenForm(true)
+    router.replace(`/evangelists/${params.id}`)
+  }, [params.id, router, searchParams])
+
   const handleSave = async () => {
     try {
       const payload = {
         firstName: editForm.firstName,
         lastName: editForm.lastName,
+        firstNameKana: editForm.firstNameKana || null,
+        lastNameKana: editForm.lastNameKana || null,
         email: editForm.email,
         contactMethod: editForm.contactMethod ?? null,
-        strength: editForm.strength ?? null,
+        strengths: editForm.strengths,
         managementPhase: editForm.managementPhase ?? null,
         notes: editForm.notes,
         tier: editForm.tier,
@@ -234,6 +270,10 @@ export default function EvangelistDetailPage() {
         nextActionDueOn: editForm.nextActionDueOn
           ? new Date(editForm.nextActionDueOn).toISOString()
           : null,
+        ...(customFieldDefinitions.length > 0
+          ? { customFields: toCustomFieldPayload(customFieldDefinitions, customFieldForm) }
+          : {}),
+        tagIds: tagForm,
       }
 
       const response = await fetch(`/api/evangelists/${params.id}`, {
@@ -245,6 +285,21 @@ export default function EvangelistDetailPage() {
         body: JSON.stringify(payload),
       })
 
+      if (response.status === 409) {
+        throw new Error('このフェーズへは直接移動できません')
+      }
+
+      if (response.status === 400) {
+        const data = await response.json().catch(() => null)
+        if (Array.isArray(data?.errors) && data.errors.length > 0) {
+          throw new Error((data.errors as { message: string }[]).map((item) => item.message).join(' / '))
+        }
+        if (Array.isArray(data?.fields) && data.fields.length > 0) {
+          const labels = (data.fields as ContactFieldKey[]).map((field) => CONTACT_FIELD_LABELS[field] ?? field)
+          throw new Error(`${labels.join('・')}の形式が正しくありません`)
+        }
+      }
+
       if (!response.ok) {
         throw new Error('更新に失敗しました')
       }
@@ -254,9 +309,11 @@ export default function EvangelistDetailPage() {
       setEditForm({
         firstName: updatedData.firstName ?? '',
         lastName: updatedData.lastName ?? '',
+        firstNameKana: updatedData.firstNameKana ?? '',
+        lastNameKana: updatedData.lastNameKana ?? '',
         email: updatedData.email ?? '',
         contactMethod: updatedData.contactMethod ?? undefined,
-        strength: updatedData.strength ?? undefined,
+        strengths: updatedData.strengths ?? [],
         managementPhase: updatedData.managementPhase ?? undefined,
         notes: updatedData.notes ?? '',
         tier: updatedData.tier,
@@ -348,10 +405,23 @@ export default function EvangelistDetailPage() {
             </div>
         </div>
         <div className="flex items-center gap-2">
+          <CompletenessBadge completeness={evangelist.completeness} />
           <Badge className={TIER_COLORS[evangelist.tier]}>
             {evangelist.tier}
           </Badge>
-          {!isEditing ? (
+          {evangelist.archivedAt ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={async () => {
+                if (await restoreEvangelist(evangelist.id)) void fetchEvangelistData()
+              }}
+              className="flex items-center gap-2"
+            >
+              <ArchiveRestore className="h-4 w-4" />
+              復元
+            </Button>
+          ) : !isEditing ? (
             <Button
               variant="outline"
               size="sm"
@@ -372,9 +442,11 @@ export default function EvangelistDetailPage() {
                     setEditForm({
                       firstName: evangelist.firstName ?? '',
                       lastName: evangelist.lastName ?? '',
+                      firstNameKana: evangelist.firstNameKana ?? '',
+                      lastNameKana: evangelist.lastNameKana ?? '',
                       email: evangelist.email ?? '',
                       contactMethod: evangelist.contactMethod ?? undefined,
-                      strength: evangelist.strength ?? undefined,
+                      strengths: evangelist.strengths ?? [],
                       managementPhase: evangelist.managementPhase ?? undefined,
                       notes: evangelist.notes ?? '',
                       tier: evangelist.tier,
@@ -405,6 +477,15 @@ export default function EvangelistDetailPage() {
         </div>
       </div>
 
+      {evangelist.archivedAt && (
+        <Alert>
+          <AlertDescription>
+            {new Date(evangelist.archivedAt).toLocaleDateString('ja-JP', { timeZone: 'Asia/Tokyo' })} にアーカイブされています
+            {evangelist.archiveReason && `（理由: ${evangelist.archiveReason}）`}。編集するには復元してください。
+          </AlertDescription>
+        </Alert>
+      )}
+
       <section className="space-y-6">
         <Card>
             <CardHeader>
@@ -437,6 +518,28 @@ export default function EvangelistDetailPage() {
                   )}
                 </div>
 
+                <div className="space-y-2">
+                  <Label>ふりがな</Label>
+                  {isEditing ? (
+                    <div className="flex gap-2">
+                      <Input
+                        value={editForm.lastNameKana}
+                        onChange={(e) => setEditForm(prev => ({ ...prev, lastNameKana: e.target.value }))}
+                        placeholder="せい"
+                      />
+                      <Input
+                        value={editForm.firstNameKana}
+                        onChange={(e) => setEditForm(prev => ({ ...prev, firstNameKana: e.target.value }))}
+                        placeholder="めい"
+                      />
+                    </div>
+                  ) : (
+                    <p className="text-sm">
+                      {[evangelist.lastNameKana, evangelist.firstNameKana].filter(Boolean).join(' ') || '未設定'}
+                    </p>
+                  )}
+                </div>
+
                 <div className="space-y-2">
                   <Label className="flex items-center gap-2">
                     <Mail className="h-4 w-4" />
@@ -515,31 +618,14 @@ export default function EvangelistDetailPage() {
               <div className="space-y-2">
                 <Label>強み・専門分野</Label>
                 {isEditing ? (
-                  <Select
-                    value={editForm.strength ?? SELECT_CLEAR_VALUE}
-                    onValueChange={(value) =>
-                      setEditForm(prev => ({
-                        ...prev,
-                        strength: value === SELECT_CLEAR_VALUE ? null : value,
-                      }))
-                    }
-                  >
-                    <SelectTrigger className="bg-white text-slate-900 border-slate-300 placeholder:text-slate-400">
-                      <SelectValue placeholder="強みを選択" />
-                    </SelectTrigger>
-                    <SelectContent className="bg-white text-slate-900 border-slate-300 placeholder:text-slate-400">
-                      <SelectItem value={SELECT_CLEAR_VALUE}>未設定</SelectItem>
-                      {STRENGTH_OPTIONS.map((option) => (
-                        <SelectItem key={option.value} value={option.value}>
-                          {option.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <StrengthPicker
+                    value={editForm.strengths}
+                    onChange={(strengths) => setEditForm(prev => ({ ...prev, strengths }))}
+                  />
+                ) : evangelist.strengths && evangelist.strengths.length > 0 ? (
+                  <StrengthList strengths={evangelist.strengths} />
                 ) : (
-                  <p className="text-sm whitespace-pre-wrap">
-                    {STRENGTH_OPTIONS.find(option => option.value === evangelist.strength)?.label || '未設定'}
-                  </p>
+                  <p className="text-sm whitespace-pre-wrap">未設定</p>
                 )}
               </div>
 
@@ -642,6 +728,54 @@ export default function EvangelistDetailPage() {
             </CardContent>
           </Card>
 
+          {/* カスタム項目 */}
+          {customFieldDefinitions.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>カスタム項目</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isEditing ? (
+                  <CustomFieldInputs
+                    definitions={customFieldDefinitions}
+                    values={customFieldForm}
+                    onChange={(key, value) => setCustomFieldForm(prev => ({ ...prev, [key]: value }))}
+                  />
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {customFieldDefinitions.map((definition) => (
+                      <div key={definition.key} className="space-y-2">
+                        <Label>{definition.label}</Label>
+                        <p className="text-sm whitespace-pre-wrap">
+                          {formatCustomFieldValue(
+                            definition,
+                            toCustomFieldValues(evangelist.customFields)[definition.key],
+                          ) || '未設定'}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* タグ */}
+          <Card>
+            <CardHeader>
+              <CardTitle>タグ</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isEditing ? (
+                <TagPicker tags={tagOptions} selected={tagForm} onChange={setTagForm} />
+              ) : evangelist.tags && evangelist.tags.length > 0 ? (
+                <TagList tags={evangelist.tags} />
+              ) : (
+                <p className="text-sm">未設定</p>
+              )}
+            </CardContent>
+          </Card>
+
           {/* 担当CS情報 */}
           <Card>
             <CardHeader>
@@ -683,59 +817,57 @@ export default function EvangelistDetailPage() {
               )}
             </CardContent>
           </Card>
+
+          {/* フェーズ推移 */}
+          <PhaseHistorySection
+            evangelistId={evangelist.id}
+            currentPhase={evangelist.managementPhase}
+            onPhaseChange={(phase) =>
+              setEvangelist(prev =>
+                prev ? { ...prev, managementPhase: phase, updatedAt: new Date().toISOString() } : prev,
+              )
+            }
+          />
+
+          {/* 連絡記録 */}
+          <ContactAttemptsSection
+            evangelist={{
+              id: evangelist.id,
+              name: [evangelist.lastName, evangelist.firstName].filter(Boolean).join(' '),
+              contactMethod: evangelist.contactMethod,
+            }}
+            readOnly={Boolean(evangelist.archivedAt)}
+            refreshKey={evangelist.updatedAt}
+          />
+
+          {/* 紹介関係（EVA同士） */}
+          <ReferralsSection
+            evangelistId={evangelist.id}
+            readOnly={Boolean(evangelist.archivedAt)}
+            onChange={() =>
+              setEvangelist(prev => (prev ? { ...prev, updatedAt: new Date().toISOString() } : prev))
+            }
+          />
+
+          {/* 紹介実績 */}
+          <IntroductionsSection evangelistId={evangelist.id} />
       </section>
 
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
         <section className="card p-4">
           <div className="flex items-center justify-between">
-            <h2 className="text-lg font-semibold">面談履歴</h2>
+            <h2 className="text-lg font-semibold">面談・変更履歴</h2>
             <Button className="lg:hidden" onClick={() => setOpenForm(true)} size="sm">
               + 面談記録を追加
             </Button>
           </div>
           <div className="mt-4">
             <div className="space-y-4">
-            {meetings.length === 0 ? (
-              <Card>
-                <CardContent className="py-8 text-center text-muted-foreground">
-                  <MessageSquare className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                  <p>まだ面談記録がありません</p>
-                </CardContent>
-              </Card>
-            ) : (
-              meetings.map((meeting) => (
-                <Card key={meeting.id}>
-                  <CardHeader>
-                    <div className="flex items-center justify-between">
-                      <CardTitle className="text-base flex items-center gap-2">
-                        <Calendar className="h-4 w-4" />
-                        {new Date(meeting.date).toLocaleDateString('ja-JP')}
-                        {meeting.isFirst && (
-                          <Badge variant="secondary" className="text-xs">初回</Badge>
-                        )}
-                      </CardTitle>
-                      <p className="text-sm text-muted-foreground">
-                        {meeting.contactMethod}
-                      </p>
-                    </div>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    {meeting.summary && (
-                      <div>
-                        <h4 className="font-medium mb-2">面談サマリー</h4>
-                        <p className="text-sm whitespace-pre-wrap">{meeting.summary}</p>
-                      </div>
-                    )}
-                    {meeting.nextActions && (
-                      <div>
-                        <h4 className="font-medium mb-2">次回アクション</h4>
-                        <p className="text-sm whitespace-pre-wrap">{meeting.nextActions}</p>
-                      </div>
-                    )}
-                  </CardContent>
-                </Card>
-              ))
-            )}
+            <ActivityTimeline
+              evangelistId={evangelist.id}
+              meetings={meetings}
+              refreshKey={evangelist.updatedAt}
+            />
           </div>
           </div>
         </section>
@@ -0,0 +1,409 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { Filter, Link2, Pin, PinOff, Save, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { QueryBuilder, type QueryValueOptions } from '@/components/evangelists/query-builder'
+import { countQueryConditions, createEmptyQuery, validateQuery, type QueryGroup } from '@/lib/evangelist-query'
+import type { SavedViewItem } from '@/lib/saved-views'
+
+type AdvancedFilterPanelProps = {
+  appliedQuery: QueryGroup | null
+  options: QueryValueOptions
+  onApply: (query: QueryGroup | null) => void
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  'View not found': '保存ビューが見つかりません（削除されたか、共有されていません）',
+  Forbidden: 'このビューを変更する権限がありません',
+  'Invalid request data': '条件または名前に誤りがあります',
+}
+
+export default function AdvancedFilterPanel({ appliedQuery, options, onApply }: AdvancedFilterPanelProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const viewId = searchParams.get('view')
+
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<QueryGroup>(appliedQuery ?? createEmptyQuery())
+  const [views, setViews] = useState<SavedViewItem[]>([])
+  const [activeView, setActiveView] = useState<SavedViewItem | null>(null)
+  const [isSaveOpen, setIsSaveOpen] = useState(false)
+  const [saveName, setSaveName] = useState('')
+  const [saveShared, setSaveShared] = useState(false)
+  const [busy, setBusy] = useState(false)
+
+  const errors = useMemo(() => validateQuery(draft), [draft])
+  const appliedCount = appliedQuery ? countQueryConditions(appliedQuery) : 0
+
+  useEffect(() => {
+    setDraft(appliedQuery ?? createEmptyQuery())
+  }, [appliedQuery])
+
+  const loadViews = useCallback(async () => {
+    try {
+      const response = await fetch('/api/evangelists/views', { credentials: 'include', cache: 'no-store' })
+      if (!response.ok) return
+      const data = (await response.json()) as { items?: SavedViewItem[] }
+      setViews(Array.isArray(data.items) ? data.items : [])
+    } catch (error) {
+      console.warn('Failed to load saved views:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    void loadViews()
+  }, [loadViews])
+
+  // URL の ?view= で指定された保存ビューを開く（ナビゲーションの固定リンク・共有リンク）
+  useEffect(() => {
+    if (!viewId) {
+      setActiveView(null)
+      return
+    }
+
+    const controller = new AbortController()
+    const run = async () => {
+      try {
+        const response = await fetch(`/api/evangelists/views/${viewId}`, {
+          credentials: 'include',
+          cache: 'no-store',
+          signal: controller.signal,
+        })
+        const data = await response.json().catch(() => null)
+        if (!response.ok) {
+          throw new Error(ERROR_MESSAGES[data?.error] ?? '保存ビューの取得に失敗しました')
+        }
+        const view = data as SavedViewItem
+        setActiveView(view)
+        setOpen(true)
+        onApply(view.query)
+      } catch (error) {
+        if ((error as { name?: string })?.name === 'AbortError') return
+        console.error('Failed to load saved view:', error)
+        toast.error(error instanceof Error ? error.message : '保存ビューの取得に失敗しました')
+      }
+    }
+    void run()
+
+    return () => controller.abort()
+  }, [onApply, viewId])
+
+  const navigateToView = (id: string | null) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (id) {
+      params.set('view', id)
+    } else {
+      params.delete('view')
+    }
+    const query = params.toString()
+    router.push(query ? `${pathname}?${query}` : pathname)
+  }
+
+  const handleApply = () => {
+    if (errors.length > 0) {
+      toast.error(errors[0])
+      return
+    }
+    onApply(countQueryConditions(draft) > 0 ? draft : null)
+  }
+
+  const handleClear = () => {
+    setDraft(createEmptyQuery())
+    onApply(null)
+    if (viewId) navigateToView(null)
+  }
+
+  const requestView = async (url: string, init: RequestInit, fallback: string) => {
+    const response = await fetch(url, { credentials: 'include', ...init })
+    const data = await response.json().catch(() => null)
+    if (!response.ok) {
+      throw new Error(ERROR_MESSAGES[data?.error] ?? fallback)
+    }
+    return data
+  }
+
+  const handleCreate = async () => {
+    try {
+      setBusy(true)
+      const created = (await requestView(
+        '/api/evangelists/views',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: saveName.trim(), shared: saveShared, query: draft }),
+        },
+        '保存ビューの作成に失敗しました',
+      )) as SavedViewItem
+      toast.success(`「${created.name}」を保存しました`)
+      setIsSaveOpen(false)
+      await loadViews()
+      navigateToView(created.id)
+    } catch (error) {
+      console.error('Failed to create saved view:', error)
+      toast.error(error instanceof Error ? error.message : '保存ビューの作成に失敗しました')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleOverwrite = async () => {
+    if (!activeView) return
+    try {
+      setBusy(true)
+      const updated = (await requestView(
+        `/api/evangelists/views/${activeView.id}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ query: draft }),
+        },
+        '保存ビューの更新に失敗しました',
+      )) as SavedViewItem
+      setActiveView(updated)
+      onApply(updated.query)
+      await loadViews()
+      toast.success(`「${updated.name}」を更新しました`)
+    } catch (error) {
+      console.error('Failed to update saved view:', error)
+      toast.error(error instanceof Error ? error.message : '保存ビューの更新に失敗しました')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleToggleShared = async () => {
+    if (!activeView) return
+    try {
+      setBusy(true)
+      const updated = (await requestView(
+        `/api/evangelists/views/${activeView.id}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ shared: !activeView.shared }),
+        },
+        '保存ビューの更新に失敗しました',
+      )) as SavedViewItem
+      setActiveView(updated)
+      await loadViews()
+      toast.success(updated.shared ? 'チームに共有しました' : '自分だけのビューにしました')
+    } catch (error) {
+      console.error('Failed to update saved view:', error)
+      toast.error(error instanceof Error ? error.message : '保存ビューの更新に失敗しました')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleTogglePin = async () => {
+    if (!activeView) return
+    try {
+      setBusy(true)
+      await requestView(
+        `/api/evangelists/views/${activeView.id}/pin`,
+        { method: activeView.pinned ? 'DELETE' : 'PUT' },
+        'ナビゲーションへの固定に失敗しました',
+      )
+      setActiveView({ ...activeView, pinned: !activeView.pinned })
+      await loadViews()
+      // ナビゲーション（サーバーコンポーネント）の固定リンクを更新する
+      router.refresh()
+      toast.success(activeView.pinned ? 'ナビゲーションから外しました' : 'ナビゲーションに固定しました')
+    } catch (error) {
+      console.error('Failed to toggle pin:', error)
+      toast.error(error instanceof Error ? error.message : 'ナビゲーションへの固定に失敗しました')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!activeView) return
+    if (!window.confirm(`保存ビュー「${activeView.name}」を削除します。よろしいですか？`)) return
+    try {
+      setBusy(true)
+      await requestView(`/api/evangelists/views/${activeView.id}`, { method: 'DELETE' }, '保存ビューの削除に失敗しました')
+      toast.success(`「${activeView.name}」を削除しました`)
+      await loadViews()
+      router.refresh()
+      navigateToView(null)
+    } catch (error) {
+      console.error('Failed to delete saved view:', error)
+      toast.error(error instanceof Error ? error.message : '保存ビューの削除に失敗しました')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCopyLink = async () => {
+    if (!activeView) return
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${pathname}?view=${activeView.id}`)
+      toast.success('リンクをコピーしました')
+    } catch (error) {
+      console.error('Failed to copy link:', error)
+      toast.error('リンクのコピーに失敗しました')
+    }
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-200 bg-white p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => setOpen((prev) => !prev)}>
+          <Filter className="mr-1 h-4 w-4" />
+          詳細フィルタ
+          {appliedCount > 0 && <Badge className="ml-2 bg-brand text-white">{appliedCount}</Badge>}
+        </Button>
+        <select
+          value={activeView?.id ?? ''}
+          onChange={(event) => {
+            const nextId = event.target.value || null
+            // ビューの選択を外したら、そのビューの条件も外す
+            if (!nextId) onApply(null)
+            navigateToView(nextId)
+          }}
+          className="rounded-md border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900"
+          aria-label="保存ビュー"
+        >
+          <option value="">保存ビューを選択</option>
+          {views.map((view) => (
+            <option key={view.id} value={view.id}>
+              {view.name}
+              {view.shared ? `（共有・${view.owner.name}）` : ''}
+            </option>
+          ))}
+        </select>
+        {activeView && (
+          <>
+            <Button type="button" variant="ghost" size="sm" onClick={handleTogglePin} disabled={busy}>
+              {activeView.pinned ? <PinOff className="mr-1 h-4 w-4" /> : <Pin className="mr-1 h-4 w-4" />}
+              {activeView.pinned ? '固定を解除' : 'ナビに固定'}
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={handleCopyLink}>
+              <Link2 className="mr-1 h-4 w-4" />
+              リンクをコピー
+            </Button>
+            {activeView.canManage && (
+              <>
+                <label className="flex items-center gap-1 text-sm text-slate-600">
+                  <input type="checkbox" checked={activeView.shared} onChange={handleToggleShared} disabled={busy} />
+                  チームに共有
+                </label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-rose-600"
+                  onClick={handleDelete}
+                  disabled={busy}
+                >
+                  <Trash2 className="mr-1 h-4 w-4" />
+                  削除
+                </Button>
+              </>
+            )}
+          </>
+        )}
+      </div>
+
+      {open && (
+        <div className="space-y-3">
+          <QueryBuilder value={draft} options={options} onChange={setDraft} />
+          {errors.length > 0 && countQueryConditions(draft) > 0 && (
+            <ul className="list-disc pl-5 text-xs text-rose-600">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={handleClear}>
+              クリア
+            </Button>
+            {activeView?.canManage && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleOverwrite}
+                disabled={busy || errors.length > 0 || countQueryConditions(draft) === 0}
+              >
+                <Save className="mr-1 h-4 w-4" />
+                ビューを上書き保存
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setSaveName('')
+                setSaveShared(false)
+                setIsSaveOpen(true)
+              }}
+              disabled={errors.length > 0 || countQueryConditions(draft) === 0}
+            >
+              <Save className="mr-1 h-4 w-4" />
+              新しいビューとして保存
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              onClick={handleApply}
+              disabled={errors.length > 0}
+              className="bg-brand text-white hover:bg-brand-600"
+            >
+              適用
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="max-w-md bg-white">
+          <DialogHeader>
+            <DialogTitle>保存ビューの作成</DialogTitle>
+            <DialogDescription>現在の詳細フィルタの条件に名前を付けて保存します。</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-view-name">名前</Label>
+              <Input
+                id="saved-view-name"
+                value={saveName}
+                onChange={(event) => setSaveName(event.target.value)}
+                placeholder="例: 今月NA期日のTIER1"
+                maxLength={100}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input type="checkbox" checked={saveShared} onChange={(event) => setSaveShared(event.target.checked)} />
+              チームに共有する（全員が利用できます）
+            </label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsSaveOpen(false)} disabled={busy}>
+              キャンセル
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={busy || !saveName.trim()}
+              className="bg-brand text-white hover:bg-brand-600"
+            >
+              {busy ? '保存中...' : '保存'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
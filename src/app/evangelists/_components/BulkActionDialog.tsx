@@ -0,0 +1,337 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { TagPicker, type TagOption } from '@/components/evangelists/tag-inputs'
+import { ArchiveReasonInput } from '@/components/evangelists/archive-inputs'
+import { EVANGELIST_PHASE_LABELS, EVANGELIST_PHASE_VALUES, type EvangelistPhaseValue } from '@/lib/evangelist-phase'
+import {
+  BULK_ACTION_LABELS,
+  BULK_SKIP_REASON_LABELS,
+  BULK_STATUS_LABELS,
+  type BulkAction,
+  type BulkActionType,
+  type BulkRecordResult,
+  type BulkUpdateResponse,
+} from '@/lib/evangelist-bulk'
+
+type BulkActionDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  actionType: BulkActionType | null
+  evangelistIds: string[]
+  users: { id: string; name: string; role: 'ADMIN' | 'CS' }[]
+  tags: TagOption[]
+  /** 管理者ならフェーズの強制変更を選べる */
+  isAdmin?: boolean
+  onApplied: () => void
+}
+
+const UNASSIGNED_VALUE = '__UNASSIGNED__'
+
+const STATUS_CLASS_NAMES: Record<BulkRecordResult['status'], string> = {
+  updated: 'text-emerald-700',
+  unchanged: 'text-slate-500',
+  skipped: 'text-amber-700',
+  notFound: 'text-red-600',
+}
+
+/** 選択したEVAへの一括操作（操作ごとに入力を切り替え、適用後はレコードごとの結果を表示する） */
+export default function BulkActionDialog({
+  open,
+  onOpenChange,
+  actionType,
+  evangelistIds,
+  users,
+  tags,
+  isAdmin = false,
+  onApplied,
+}: BulkActionDialogProps) {
+  const [assignedCsId, setAssignedCsId] = useState(UNASSIGNED_VALUE)
+  const [tier, setTier] = useState<'TIER1' | 'TIER2'>('TIER1')
+  const [addTags, setAddTags] = useState<string[]>([])
+  const [removeTags, setRemoveTags] = useState<string[]>([])
+  const [phase, setPhase] = useState<EvangelistPhaseValue | ''>('')
+  const [forcePhase, setForcePhase] = useState(false)
+  const [nextAction, setNextAction] = useState('')
+  const [nextActionDueOn, setNextActionDueOn] = useState('')
+  const [archiveReason, setArchiveReason] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [results, setResults] = useState<BulkRecordResult[] | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setAssignedCsId(UNASSIGNED_VALUE)
+    setTier('TIER1')
+    setAddTags([])
+    setRemoveTags([])
+    setPhase('')
+    setForcePhase(false)
+    setNextAction('')
+    setNextActionDueOn('')
+    setArchiveReason('')
+    setResults(null)
+  }, [open, actionType])
+
+  const buildAction = (): BulkAction | null => {
+    switch (actionType) {
+      case 'assignCs':
+        return { type: 'assignCs', assignedCsId: assignedCsId === UNASSIGNED_VALUE ? null : assignedCsId }
+      case 'setTier':
+        return { type: 'setTier', tier }
+      case 'tags':
+        if (addTags.length === 0 && removeTags.length === 0) {
+          toast.error('追加または削除するタグを選択してください')
+          return null
+        }
+        return { type: 'tags', add: addTags, remove: removeTags }
+      case 'setPhase':
+        if (!phase) {
+          toast.error('フェーズを選択してください')
+          return null
+        }
+        return { type: 'setPhase', managementPhase: phase, ...(isAdmin && forcePhase ? { force: true } : {}) }
+      case 'setNextAction':
+        return {
+          type: 'setNextAction',
+          nextAction: nextAction.trim() || null,
+          nextActionDueOn: nextActionDueOn ? new Date(nextActionDueOn).toISOString() : null,
+        }
+      case 'archive':
+        if (!archiveReason.trim()) {
+          toast.error('アーカイブの理由を入力してください')
+          return null
+        }
+        return { type: 'archive', reason: archiveReason.trim() }
+      default:
+        return null
+    }
+  }
+
+  const handleSubmit = async () => {
+    const action = buildAction()
+    if (!action) return
+
+    try {
+      setSubmitting(true)
+      const response = await fetch('/api/evangelists/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ ids: evangelistIds, action }),
+      })
+      const data = (await response.json().catch(() => null)) as BulkUpdateResponse | { error?: string } | null
+      if (!response.ok || !data || !('results' in data)) {
+        const error = data && 'error' in data ? data.error : undefined
+        throw new Error(
+          error === 'Unknown tags'
+            ? '削除されたタグが含まれています。再読み込みしてください'
+            : error === 'Unknown user'
+              ? '担当CSが見つかりません。再読み込みしてください'
+              : '一括更新に失敗しました',
+        )
+      }
+
+      const { summary } = data
+      toast.success(`${summary.updated}件を更新しました（変更なし ${summary.unchanged}件）`)
+      onApplied()
+      // スキップ・未検出があれば内訳を残す
+      if (summary.skipped + summary.notFound > 0) {
+        setResults(data.results)
+      } else {
+        onOpenChange(false)
+      }
+    } catch (error) {
+      console.error('Failed to apply bulk action:', error)
+      toast.error(error instanceof Error ? error.message : '一括更新に失敗しました')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const renderFields = () => {
+    switch (actionType) {
+      case 'assignCs':
+        return (
+          <div className="space-y-2">
+            <Label>担当CS</Label>
+            <Select value={assignedCsId} onValueChange={setAssignedCsId}>
+              <SelectTrigger className="border border-slate-300 bg-white text-slate-900">
+                <SelectValue placeholder="未割り当て" />
+              </SelectTrigger>
+              <SelectContent className="border border-slate-300 bg-white text-slate-900">
+                <SelectItem value={UNASSIGNED_VALUE}>未割り当て</SelectItem>
+                {users.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.name}（{user.role === 'ADMIN' ? '管理者' : 'CS'}）
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )
+      case 'setTier':
+        return (
+          <div className="space-y-2">
+            <Label>Tier</Label>
+            <Select value={tier} onValueChange={(value) => setTier(value as 'TIER1' | 'TIER2')}>
+              <SelectTrigger className="border border-slate-300 bg-white text-slate-900">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="border border-slate-300 bg-white text-slate-900">
+                <SelectItem value="TIER1">TIER1</SelectItem>
+                <SelectItem value="TIER2">TIER2</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )
+      case 'tags':
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <p className="text-sm font-semibold text-slate-700">追加するタグ</p>
+              <TagPicker
+                tags={tags}
+                selected={addTags}
+                onChange={(ids) => {
+                  setAddTags(ids)
+                  setRemoveTags((prev) => prev.filter((id) => !ids.includes(id)))
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-semibold text-slate-700">外すタグ</p>
+              <TagPicker
+                tags={tags}
+                selected={removeTags}
+                onChange={(ids) => {
+                  setRemoveTags(ids)
+                  setAddTags((prev) => prev.filter((id) => !ids.includes(id)))
+                }}
+              />
+            </div>
+          </div>
+        )
+      case 'setPhase':
+        return (
+          <div className="space-y-2">
+            <Label>管理フェーズ</Label>
+            <Select value={phase} onValueChange={(value) => setPhase(value as EvangelistPhaseValue)}>
+              <SelectTrigger className="border border-slate-300 bg-white text-slate-900">
+                <SelectValue placeholder="選択してください" />
+              </SelectTrigger>
+              <SelectContent className="border border-slate-300 bg-white text-slate-900">
+                {EVANGELIST_PHASE_VALUES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {EVANGELIST_PHASE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-slate-500">遷移ルール外のEVAはスキップされます。</p>
+            {isAdmin && (
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input type="checkbox" checked={forcePhase} onChange={(event) => setForcePhase(event.target.checked)} />
+                遷移ルール外のEVAも強制的に変更する
+              </label>
+            )}
+          </div>
+        )
+      case 'setNextAction':
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>ネクストアクション</Label>
+              <Textarea
+                value={nextAction}
+                onChange={(event) => setNextAction(event.target.value)}
+                placeholder="空欄にするとクリアします"
+                className="border border-slate-300 bg-white text-slate-900"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>NA期日</Label>
+              <Input
+                type="date"
+                value={nextActionDueOn}
+                onChange={(event) => setNextActionDueOn(event.target.value)}
+                className="border border-slate-300 bg-white text-slate-900"
+              />
+            </div>
+          </div>
+        )
+      case 'archive':
+        return (
+          <div className="space-y-3">
+            <p className="text-sm text-slate-700">
+              アーカイブしたEVAは一覧・集計・エクスポートに表示されなくなります。アーカイブ一覧から復元できます。
+            </p>
+            <ArchiveReasonInput value={archiveReason} onChange={setArchiveReason} />
+          </div>
+        )
+      default:
+        return null
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl bg-white">
+        <DialogHeader>
+          <DialogTitle>{actionType ? BULK_ACTION_LABELS[actionType] : '一括操作'}</DialogTitle>
+          <DialogDescription>
+            {results
+              ? `${results.length} 件の処理結果です。スキップ・見つからなかったEVAは変更されていません。`
+              : `選択中の ${evangelistIds.length} 件のEVAにまとめて適用します。`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {results ? (
+          <div className="max-h-80 overflow-y-auto rounded-md border border-slate-200">
+            <table className="w-full text-sm">
+              <tbody>
+                {results.map((result) => (
+                  <tr key={result.id} className="border-b border-slate-100 last:border-0">
+                    <td className="px-3 py-1.5 text-slate-800">{result.name ?? result.id}</td>
+                    <td className={`px-3 py-1.5 ${STATUS_CLASS_NAMES[result.status]}`}>
+                      {BULK_STATUS_LABELS[result.status]}
+                      {result.reason && `（${BULK_SKIP_REASON_LABELS[result.reason] ?? result.reason}）`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          renderFields()
+        )}
+
+        <DialogFooter>
+          {results ? (
+            <Button onClick={() => onOpenChange(false)}>閉じる</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                キャンセル
+              </Button>
+              <Button
+                onClick={handleSubmit}
+                disabled={submitting || evangelistIds.length === 0}
+                className={actionType === 'archive' ? 'bg-red-600 text-white hover:bg-red-700' : 'bg-brand text-white hover:bg-brand-600'}
+              >
+                {submitting ? '更新中...' : '適用'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
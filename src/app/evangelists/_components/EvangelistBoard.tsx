@@ -0,0 +1,296 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { DragEvent } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { appendCustomFieldParams } from '@/components/evangelists/custom-field-inputs'
+import { appendPicklistParams } from '@/components/evangelists/picklist-filter'
+import { appendTagParams, type TagFilterValue } from '@/components/evangelists/tag-inputs'
+import { appendQueryParams } from '@/components/evangelists/query-builder'
+import {
+  DEFAULT_PHASE_TRANSITIONS,
+  EVANGELIST_PHASE_LABELS,
+  EVANGELIST_PHASE_VALUES,
+  getAllowedPhaseTransitions,
+  mapEvangelistPhase,
+  type EvangelistPhaseValue,
+  type PhaseTransitionRules,
+} from '@/lib/evangelist-phase'
+import type { PicklistField } from '@/lib/picklists'
+import type { QueryGroup } from '@/lib/evangelist-query'
+
+export interface BoardEvangelist {
+  id: string
+  firstName?: string | null
+  lastName?: string | null
+  managementPhase?: string | null
+  nextActionDueOn?: string | null
+  tier: 'TIER1' | 'TIER2'
+  assignedCs?: {
+    id: string
+    name: string
+  } | null
+}
+
+export interface EvangelistBoardFilters {
+  search: string
+  tier: 'ALL' | 'TIER1' | 'TIER2'
+  assignedCsId: string
+  stale: string
+  custom?: Record<string, string>
+  picklists?: Partial<Record<PicklistField, string>>
+  tags?: TagFilterValue
+  query?: QueryGroup | null
+}
+
+type Props = {
+  filters: EvangelistBoardFilters
+}
+
+const BOARD_LIMIT = 500
+const UNSET_COLUMN = '__UNSET__'
+type ColumnKey = EvangelistPhaseValue | typeof UNSET_COLUMN
+
+const TIER_COLORS = {
+  TIER1: 'bg-blue-100 text-blue-800',
+  TIER2: 'bg-gray-100 text-gray-800',
+} as const
+
+const formatDueDate = (value: string) => new Date(value).toLocaleDateString('ja-JP')
+
+const isOverdue = (value: string) => {
+  const due = new Date(value)
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  return due.getTime() < today.getTime()
+}
+
+export default function EvangelistBoard({ filters }: Props) {
+  const [items, setItems] = useState<BoardEvangelist[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [dragging, setDragging] = useState<BoardEvangelist | null>(null)
+  const [dropTarget, setDropTarget] = useState<ColumnKey | null>(null)
+  const [phaseRules, setPhaseRules] = useState<PhaseTransitionRules>(DEFAULT_PHASE_TRANSITIONS)
+
+  const { search, tier, assignedCsId, stale, custom, picklists, tags, query } = filters
+
+  // 管理画面で変更された遷移ルール（取得できなければ既定値のまま。移動の可否はサーバー側でも確認する）
+  useEffect(() => {
+    const controller = new AbortController()
+    fetch('/api/evangelists/phase-transitions', { credentials: 'include', signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data?.rules) setPhaseRules(data.rules as PhaseTransitionRules)
+      })
+      .catch((error) => {
+        if ((error as { name?: string })?.name === 'AbortError') return
+        console.error('Failed to fetch phase transition rules:', error)
+      })
+    return () => controller.abort()
+  }, [])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setLoading(true)
+
+    const params = new URLSearchParams({
+      view: 'board',
+      page: '1',
+      limit: String(BOARD_LIMIT),
+      sortBy: 'updatedAt',
+      sortOrder: 'desc',
+    })
+    if (search.trim()) params.set('search', search.trim())
+    if (tier !== 'ALL') params.set('tier', tier)
+    if (assignedCsId) params.set('assignedCsId', assignedCsId)
+    if (stale) params.set('stale', stale)
+    appendCustomFieldParams(params, custom)
+    appendPicklistParams(params, picklists)
+    appendTagParams(params, tags)
+    appendQueryParams(params, query)
+
+    const run = async () => {
+      try {
+        const response = await fetch(`/api/evangelists?${params.toString()}`, {
+          credentials: 'include',
+          signal: controller.signal,
+        })
+        if (response.status === 401) {
+          window.location.href = '/login'
+          return
+        }
+        const data = await response.json().catch(() => null)
+        if (!response.ok || !data?.ok || !Array.isArray(data.items)) {
+          throw new Error('ボードの取得に失敗しました')
+        }
+        setItems(data.items as BoardEvangelist[])
+        setTotal(typeof data.total === 'number' ? data.total : data.items.length)
+      } catch (error) {
+        if ((error as { name?: string })?.name === 'AbortError') return
+        console.error('Failed to fetch board evangelists:', error)
+        toast.error('ボードの取得に失敗しました')
+        setItems([])
+        setTotal(0)
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false)
+        }
+      }
+    }
+
+    void run()
+
+    return () => {
+      controller.abort()
+    }
+  }, [assignedCsId, custom, picklists, query, search, stale, tags, tier])
+
+  const columns = useMemo(() => {
+    const grouped = new Map<ColumnKey, BoardEvangelist[]>()
+    grouped.set(UNSET_COLUMN, [])
+    EVANGELIST_PHASE_VALUES.forEach((phase) => grouped.set(phase, []))
+    items.forEach((item) => {
+      const phase = mapEvangelistPhase(item.managementPhase) ?? UNSET_COLUMN
+      grouped.get(phase)?.push(item)
+    })
+    return grouped
+  }, [items])
+
+  const allowedTargets = useMemo(() => {
+    if (!dragging) return new Set<ColumnKey>()
+    return new Set<ColumnKey>(getAllowedPhaseTransitions(mapEvangelistPhase(dragging.managementPhase), phaseRules))
+  }, [dragging, phaseRules])
+
+  const moveCard = async (evangelist: BoardEvangelist, phase: EvangelistPhaseValue) => {
+    const previousPhase = evangelist.managementPhase ?? null
+    setItems((prev) =>
+      prev.map((item) => (item.id === evangelist.id ? { ...item, managementPhase: phase } : item)),
+    )
+
+    try {
+      const response = await fetch(`/api/evangelists/${evangelist.id}/phase`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ phase }),
+      })
+      if (response.status === 409) {
+        throw new Error('このフェーズへは直接移動できません')
+      }
+      if (!response.ok) {
+        throw new Error('フェーズの更新に失敗しました')
+      }
+      toast.success(`フェーズを「${EVANGELIST_PHASE_LABELS[phase]}」に更新しました`)
+    } catch (error) {
+      console.error('Failed to move evangelist phase:', error)
+      setItems((prev) =>
+        prev.map((item) =>
+          item.id === evangelist.id ? { ...item, managementPhase: previousPhase } : item,
+        ),
+      )
+      toast.error(error instanceof Error ? error.message : 'フェーズの更新に失敗しました')
+    }
+  }
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>, column: ColumnKey) => {
+    event.preventDefault()
+    const evangelist = dragging
+    setDragging(null)
+    setDropTarget(null)
+    if (!evangelist || column === UNSET_COLUMN) return
+    if (mapEvangelistPhase(evangelist.managementPhase) === column) return
+    if (!allowedTargets.has(column)) {
+      toast.error('このフェーズへは直接移動できません')
+      return
+    }
+    void moveCard(evangelist, column)
+  }
+
+  if (loading) {
+    return <div className="py-8 text-center text-slate-600">読み込み中...</div>
+  }
+
+  return (
+    <div className="space-y-2">
+      {total > items.length && (
+        <p className="text-xs text-amber-700">
+          {total}件中 {items.length}件を表示しています。フィルタで絞り込んでください。
+        </p>
+      )}
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {Array.from(columns.entries()).map(([column, cards]) => {
+          const isAllowed = allowedTargets.has(column)
+          const isOver = dropTarget === column
+          return (
+            <div
+              key={column}
+              onDragOver={(event) => {
+                if (!dragging || column === UNSET_COLUMN) return
+                event.preventDefault()
+                setDropTarget(column)
+              }}
+              onDragLeave={() => setDropTarget((prev) => (prev === column ? null : prev))}
+              onDrop={(event) => handleDrop(event, column)}
+              className={`flex w-64 shrink-0 flex-col rounded-lg border bg-slate-50 ${
+                isOver && isAllowed
+                  ? 'border-brand bg-purple-50'
+                  : dragging && isAllowed
+                    ? 'border-dashed border-brand/60'
+                    : 'border-slate-200'
+              }`}
+            >
+              <div className="flex items-center justify-between border-b border-slate-200 px-3 py-2">
+                <span className="text-sm font-semibold text-slate-700">
+                  {column === UNSET_COLUMN ? '未設定' : EVANGELIST_PHASE_LABELS[column]}
+                </span>
+                <span className="text-xs text-slate-500">{cards.length}</span>
+              </div>
+              <div className="flex min-h-[120px] flex-col gap-2 p-2">
+                {cards.map((evangelist) => (
+                  <div
+                    key={evangelist.id}
+                    draggable
+                    onDragStart={(event) => {
+                      event.dataTransfer.effectAllowed = 'move'
+                      setDragging(evangelist)
+                    }}
+                    onDragEnd={() => {
+                      setDragging(null)
+                      setDropTarget(null)
+                    }}
+                    className="cursor-grab rounded-md border border-slate-200 bg-white p-2 text-sm shadow-xs active:cursor-grabbing"
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <Link
+                        href={`/evangelists/${evangelist.id}`}
+                        className="font-medium text-slate-800 hover:underline"
+                      >
+                        {[evangelist.lastName, evangelist.firstName].filter(Boolean).join(' ') || '—'}
+                      </Link>
+                      <Badge className={TIER_COLORS[evangelist.tier]}>{evangelist.tier}</Badge>
+                    </div>
+                    <div className="mt-1 text-xs text-slate-500">
+                      担当: {evangelist.assignedCs?.name ?? '未割り当て'}
+                    </div>
+                    <div
+                      className={`text-xs ${
+                        evangelist.nextActionDueOn && isOverdue(evangelist.nextActionDueOn)
+                          ? 'font-semibold text-rose-600'
+                          : 'text-slate-500'
+                      }`}
+                    >
+                      NA期日: {evangelist.nextActionDueOn ? formatDueDate(evangelist.nextActionDueOn) : '—'}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,8 @@
 'use client'
 
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import Link from 'next/link'
-import { useSearchParams } from 'next/navigation'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
@@ -12,22 +12,67 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
-import { Search, ArrowUpDown, X, Pencil, Trash2, UserPlus } from 'lucide-react'
+import {
+  Search,
+  ArrowUpDown,
+  X,
+  Pencil,
+  Trash2,
+  UserPlus,
+  LayoutGrid,
+  List,
+  Download,
+  Tags,
+  UserCog,
+  Layers,
+  Flag,
+  CalendarClock,
+  Archive,
+  ArchiveRestore,
+  PhoneOutgoing,
+} from 'lucide-react'
 import { toast } from 'sonner'
 import OverlaySheet from '@/components/ui/overlay-sheet'
 import PageSizeSelect from './PageSizeSelect'
-
-const STRENGTH_LABELS = {
-  HR: '人事',
-  IT: 'IT',
-  ACCOUNTING: '会計',
-  ADVERTISING: '広告',
-  MANAGEMENT: '経営',
-  SALES: '営業',
-  MANUFACTURING: '製造',
-  MEDICAL: '医療',
-  FINANCE: '金融',
-} as const
+import EvangelistBoard from './EvangelistBoard'
+import ExportDialog from './ExportDialog'
+import BulkActionDialog from './BulkActionDialog'
+import AdvancedFilterPanel from './AdvancedFilterPanel'
+import { EVANGELIST_PHASE_LABELS, type EvangelistPhaseValue } from '@/lib/evangelist-phase'
+import type { PicklistField } from '@/lib/picklists'
+import type { TagSummary } from '@/lib/tags'
+import type { StrengthEntry } from '@/lib/evangelist-strengths'
+import { parseEvangelistQuery, type QueryGroup } from '@/lib/evangelist-query'
+import type { SearchSnippet } from '@/lib/evangelist-search'
+import type { BulkActionType } from '@/lib/evangelist-bulk'
+import type { CompletenessResult } from '@/lib/evangelist-completeness'
+import type { ContactSummary } from '@/lib/contact-attempts'
+import { ARCHIVED_ONLY_PARAM } from '@/lib/evangelist-archive'
+import { BUSINESS_DOMAIN_LABELS } from '@/lib/business-domain'
+import {
+  appendCustomFieldParams,
+  CustomFieldFilter,
+  CustomFieldInputs,
+  toCustomFieldFormValues,
+  toCustomFieldPayload,
+  useCustomFieldDefinitions,
+  type CustomFieldFormValues,
+} from '@/components/evangelists/custom-field-inputs'
+import { StrengthList, StrengthPicker } from '@/components/evangelists/strength-inputs'
+import { appendPicklistParams, PicklistFilter, usePicklistOptions } from '@/components/evangelists/picklist-filter'
+import { appendQueryParams, type QueryValueOptions } from '@/components/evangelists/query-builder'
+import { SearchSnippets } from '@/components/evangelists/search-snippets'
+import { CompletenessBadge } from '@/components/evangelists/completeness-badge'
+import { ArchiveEvangelistDialog, purgeEvangelist, restoreEvangelist } from '@/components/evangelists/archive-inputs'
+import { ContactAttemptDialog, UnansweredBadge } from '@/components/evangelists/contact-attempts'
+import {
+  appendTagParams,
+  TagFilter,
+  TagList,
+  TagPicker,
+  useTagOptions,
+  type TagFilterValue,
+} from '@/components/evangelists/tag-inputs'
 
 const CONTACT_LABELS = {
   FACEBOOK: 'Facebook',
@@ -37,34 +82,27 @@ const CONTACT_LABELS = {
   SLACK: 'Slack',
 } as const
 
-const MANAGEMENT_PHASE_LABELS = {
-  INQUIRY: '問い合わせ',
-  FIRST_MEETING: '初回面談',
-  REGISTERED: '登録',
-  LIST_PROVIDED: 'リスト提供/突合',
-  INNOVATOR_REVIEW: 'イノベータ確認',
-  INTRODUCTION_STARTED: '紹介開始',
-  MEETING_SCHEDULED: '商談設定',
-  FIRST_RESULT: '初回実績',
-  CONTINUED_PROPOSAL: '継続提案',
-} as const
+const MANAGEMENT_PHASE_LABELS = EVANGELIST_PHASE_LABELS
 
-type StrengthKey = keyof typeof STRENGTH_LABELS
 type ContactKey = keyof typeof CONTACT_LABELS
-type ManagementPhaseKey = keyof typeof MANAGEMENT_PHASE_LABELS
+type ManagementPhaseKey = EvangelistPhaseValue
 
 interface Evangelist {
   id: string
   firstName?: string | null
   lastName?: string | null
+  firstNameKana?: string | null
+  lastNameKana?: string | null
   email?: string | null
-  strength?: StrengthKey | null
+  strengths?: StrengthEntry[]
   contactMethod?: ContactKey | null
   managementPhase?: ManagementPhaseKey | null
   listProvided?: boolean | null
   nextAction?: string | null
   nextActionDueOn?: string | null
   notes?: string | null
+  customFields?: Record<string, unknown> | null
+  tags?: TagSummary[]
   tier: 'TIER1' | 'TIER2'
   assignedCsId?: string | null
   assignedCs?: {
@@ -75,6 +113,11 @@ interface Evangelist {
   _count: {
     meetings: number
   }
+  searchSnippets?: SearchSnippet[]
+  archivedAt?: string | null
+  archiveReason?: string | null
+  completeness?: CompletenessResult
+  contactSummary?: ContactSummary
 }
 
 interface User {
@@ -150,12 +193,14 @@ const extractErrorMessage = (value: unknown, fallback: string): string => {
 
 type EditFormState = {
   contactMethod: ContactKey | ''
-  strength: StrengthKey | ''
+  strengths: StrengthEntry[]
   managementPhase: ManagementPhaseKey | ''
   listProvided: 'true' | 'false'
   nextAction: string
   nextActionDueOn: string
   notes: string
+  customFields: CustomFieldFormValues
+  tagIds: string[]
 }
 
 const SELECT_CLEAR_VALUE = '__UNSET__'
@@ -173,34 +218,59 @@ const normalizePageSize = (value: string | null): PageSizeOption => {
 
 interface EvangelistsPageClientProps {
   initialPageSize: PageSizeOption
+  role?: 'ADMIN' | 'CS'
 }
 
-export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPageClientProps) {
+export default function EvangelistsPageClient({ initialPageSize, role }: EvangelistsPageClientProps) {
+  const router = useRouter()
+  const pathname = usePathname()
   const searchParams = useSearchParams()
   const [evangelists, setEvangelists] = useState<Evangelist[]>([])
   const [users, setUsers] = useState<User[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
-  const [sortBy, setSortBy] = useState<'name' | 'createdAt'>('createdAt')
+  const [sortBy, setSortBy] = useState<'name' | 'createdAt' | 'relevance'>('createdAt')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
   const [tierFilter, setTierFilter] = useState<'ALL' | 'TIER1' | 'TIER2'>('ALL')
   const [assignedCsFilter, setAssignedCsFilter] = useState('')
   const [staleFilter, setStaleFilter] = useState('')
+  const [customFilterKey, setCustomFilterKey] = useState('')
+  const [customFilterValue, setCustomFilterValue] = useState('')
+  const [picklistFilterField, setPicklistFilterField] = useState<PicklistField | ''>('')
+  const [picklistFilterValue, setPicklistFilterValue] = useState('')
+  const [tagFilter, setTagFilter] = useState<TagFilterValue>({ ids: [], mode: 'any' })
+  // ダッシュボードなどからは q パラメータで条件つきの一覧を開く
+  const [appliedQuery, setAppliedQuery] = useState<QueryGroup | null>(
+    () => parseEvangelistQuery(searchParams.get('q')).query,
+  )
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [bulkAction, setBulkAction] = useState<BulkActionType | null>(null)
+  const [isSelectionExportOpen, setIsSelectionExportOpen] = useState(false)
+  const [showArchived, setShowArchived] = useState(false)
+  const [archiveTarget, setArchiveTarget] = useState<{ id: string; name: string } | null>(null)
+  const [contactTarget, setContactTarget] = useState<{ id: string; name: string; contactMethod?: string | null } | null>(
+    null,
+  )
+  const [reloadKey, setReloadKey] = useState(0)
+  const [viewMode, setViewMode] = useState<'table' | 'board'>('table')
   const [currentPage, setCurrentPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
   const [itemsPerPage, setItemsPerPage] = useState<PageSizeOption>(initialPageSize)
   const [isEditOpen, setIsEditOpen] = useState(false)
   const [selectedEvangelist, setSelectedEvangelist] = useState<Evangelist | null>(null)
   const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [isExportOpen, setIsExportOpen] = useState(false)
   const [editSubmitting, setEditSubmitting] = useState(false)
   const [editForm, setEditForm] = useState<EditFormState>({
     contactMethod: '',
-    strength: '',
+    strengths: [],
     managementPhase: '',
     listProvided: 'false',
     nextAction: '',
     nextActionDueOn: '',
     notes: '',
+    customFields: {},
+    tagIds: [],
   })
   const [createForm, setCreateForm] = useState({
     firstName: '',
@@ -210,6 +280,36 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
   })
 
   const debouncedSearchTerm = useDebouncedValue(searchTerm, 300)
+  const debouncedCustomFilterValue = useDebouncedValue(customFilterValue, 300)
+  const customFieldDefinitions = useCustomFieldDefinitions()
+  const customFilters = useMemo(
+    () => (customFilterKey ? { [customFilterKey]: debouncedCustomFilterValue } : {}),
+    [customFilterKey, debouncedCustomFilterValue],
+  )
+  const picklistOptions = usePicklistOptions()
+  const tagOptions = useTagOptions()
+  const picklistFilters = useMemo(
+    () => (picklistFilterField && picklistFilterValue ? { [picklistFilterField]: picklistFilterValue } : {}),
+    [picklistFilterField, picklistFilterValue],
+  )
+  const queryValueOptions = useMemo<QueryValueOptions>(
+    () => ({
+      tier: [
+        { value: 'TIER1', label: 'TIER1' },
+        { value: 'TIER2', label: 'TIER2' },
+      ],
+      managementPhase: Object.entries(MANAGEMENT_PHASE_LABELS).map(([value, label]) => ({ value, label })),
+      strength: Object.entries(BUSINESS_DOMAIN_LABELS).map(([value, label]) => ({ value, label })),
+      contactMethod: Object.entries(CONTACT_LABELS).map(([value, label]) => ({ value, label })),
+      assignedCsId: users.map((user) => ({ value: user.id, label: user.name })),
+      tags: tagOptions.map((tag) => ({ value: tag.id, label: tag.name })),
+    }),
+    [tagOptions, users],
+  )
+  const applyQuery = useCallback((query: QueryGroup | null) => {
+    setAppliedQuery(query)
+    setCurrentPage(1)
+  }, [])
   const activeRequestIdRef = useRef(0)
   const abortControllerRef = useRef<AbortController | null>(null)
 
@@ -243,6 +343,9 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
   }, [fetchUsers])
 
   useEffect(() => {
+    // ボード表示中は EvangelistBoard 側で取得する
+    if (viewMode === 'board') return
+
     const controller = new AbortController()
     abortControllerRef.current?.abort()
     abortControllerRef.current = controller
@@ -270,6 +373,13 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
     if (staleFilter) {
       params.set('stale', staleFilter)
     }
+    appendCustomFieldParams(params, customFilters)
+    appendPicklistParams(params, picklistFilters)
+    appendTagParams(params, tagFilter)
+    appendQueryParams(params, appliedQuery)
+    if (showArchived) {
+      params.set('archived', ARCHIVED_ONLY_PARAM)
+    }
 
     const run = async () => {
       try {
@@ -340,14 +450,21 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
       controller.abort()
     }
   }, [
+    appliedQuery,
     assignedCsFilter,
     currentPage,
+    customFilters,
     debouncedSearchTerm,
     itemsPerPage,
+    picklistFilters,
+    reloadKey,
+    showArchived,
     sortBy,
     sortOrder,
     staleFilter,
+    tagFilter,
     tierFilter,
+    viewMode,
   ])
 
   useEffect(() => {
@@ -355,7 +472,7 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
 
     setEditForm({
       contactMethod: selectedEvangelist.contactMethod ?? '',
-      strength: selectedEvangelist.strength ?? '',
+      strengths: selectedEvangelist.strengths ?? [],
       managementPhase: selectedEvangelist.managementPhase ?? '',
       listProvided: selectedEvangelist.listProvided ? 'true' : 'false',
       nextAction: selectedEvangelist.nextAction ?? '',
@@ -363,8 +480,10 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
         ? selectedEvangelist.nextActionDueOn.slice(0, 10)
         : '',
       notes: selectedEvangelist.notes ?? '',
+      customFields: toCustomFieldFormValues(customFieldDefinitions, selectedEvangelist.customFields),
+      tagIds: (selectedEvangelist.tags ?? []).map((tag) => tag.id),
     })
-  }, [selectedEvangelist])
+  }, [customFieldDefinitions, selectedEvangelist])
 
   const handleSort = (field: 'name' | 'createdAt') => {
     if (sortBy === field) {
@@ -493,6 +612,10 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
         return
       }
 
+      if (res.status === 400 && extractErrorMessage(parsed, '') === 'Invalid contact fields') {
+        throw new Error('メールアドレスの形式が正しくありません')
+      }
+
       if (!res.ok || !isEvangelistCreateSuccessResponse(parsed)) {
         const message = extractErrorMessage(parsed, raw || '作成に失敗しました')
         throw new Error(message)
@@ -516,55 +639,54 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
     }
   }
 
-  const handleDelete = async (id: string) => {
-    if (!window.confirm('このエバンジェリストを削除します。よろしいですか？')) return
-
-    try {
-      const res = await fetch(`/api/evangelists/${id}`, {
-        method: 'DELETE',
-        credentials: 'include',
-      })
-
-      const contentType = res.headers.get('content-type') || ''
-      const raw = await res.text()
-      let parsed: unknown = null
-      if (contentType.includes('application/json') && raw) {
-        try {
-          parsed = JSON.parse(raw)
-        } catch (error) {
-          console.error('Failed to parse evangelist delete response JSON', error)
-        }
-      }
-
-      if (res.status === 401) {
-        window.location.href = '/login'
-        return
-      }
-
-      if (!res.ok) {
-        const message = extractErrorMessage(parsed, raw || '削除に失敗しました')
-        throw new Error(message)
-      }
-
+  const handleRestore = async (id: string) => {
+    if (await restoreEvangelist(id)) {
       setEvangelists((prev) => prev.filter((e) => e.id !== id))
-      toast.success('削除しました')
-    } catch (error) {
-      console.error(error)
-      const message =
-        error instanceof Error ? `削除に失敗しました：${error.message}` : '削除に失敗しました'
-      toast.error(message)
     }
   }
 
+  const handlePurge = async (evangelist: Evangelist) => {
+    const name = [evangelist.lastName, evangelist.firstName].filter(Boolean).join(' ') || 'このエヴァ'
+    if (await purgeEvangelist(evangelist.id, name)) {
+      setEvangelists((prev) => prev.filter((e) => e.id !== evangelist.id))
+    }
+  }
+
+
   const clearFilters = () => {
     setSearchTerm('')
+    if (sortBy === 'relevance') {
+      setSortBy('createdAt')
+      setSortOrder('desc')
+    }
     setTierFilter('ALL')
     setAssignedCsFilter('')
     setStaleFilter('')
+    setCustomFilterKey('')
+    setCustomFilterValue('')
+    setPicklistFilterField('')
+    setPicklistFilterValue('')
+    setTagFilter({ ids: [], mode: 'any' })
+    setAppliedQuery(null)
     setCurrentPage(1)
+    if (searchParams.get('view') || searchParams.get('q')) {
+      const params = new URLSearchParams(searchParams.toString())
+      params.delete('view')
+      params.delete('q')
+      const query = params.toString()
+      router.push(query ? `${pathname}?${query}` : pathname)
+    }
   }
 
-  const hasActiveFilters = searchTerm || tierFilter !== 'ALL' || assignedCsFilter || staleFilter
+  const hasActiveFilters =
+    searchTerm ||
+    tierFilter !== 'ALL' ||
+    assignedCsFilter ||
+    staleFilter ||
+    (customFilterKey && customFilterValue) ||
+    (picklistFilterField && picklistFilterValue) ||
+    tagFilter.ids.length > 0 ||
+    appliedQuery !== null
 
   const handleEditSubmit = async (event?: React.FormEvent<HTMLFormElement>) => {
     if (event) {
@@ -576,7 +698,7 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
       setEditSubmitting(true)
       const payload = {
         contactMethod: editForm.contactMethod || null,
-        strength: editForm.strength || null,
+        strengths: editForm.strengths,
         managementPhase: editForm.managementPhase || null,
         listProvided: editForm.listProvided === 'true',
         nextAction: editForm.nextAction ? editForm.nextAction : null,
@@ -584,16 +706,46 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
           ? new Date(editForm.nextActionDueOn).toISOString()
           : null,
         notes: editForm.notes ? editForm.notes : null,
+        ...(customFieldDefinitions.length > 0
+          ? { customFields: toCustomFieldPayload(customFieldDefinitions, editForm.customFields) }
+          : {}),
+        tagIds: editForm.tagIds,
       }
 
-      const response = await fetch(`/api/evangelists/${selectedEvangelist.id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify(payload),
-      })
+      const sendUpdate = (force: boolean) =>
+        fetch(`/api/evangelists/${selectedEvangelist.id}`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          credentials: 'include',
+          body: JSON.stringify(force ? { ...payload, force: true } : payload),
+        })
+
+      let response = await sendUpdate(false)
+
+      // 遷移ルール外のフェーズは、管理者が確認したときだけ強制的に変更する
+      if (response.status === 409 && role === 'ADMIN') {
+        const conflict = await response.clone().json().catch(() => null)
+        if (
+          conflict?.error === 'Invalid phase transition' &&
+          window.confirm('遷移ルール外のフェーズです。強制的に変更しますか？')
+        ) {
+          response = await sendUpdate(true)
+        }
+      }
+
+      if (response.status === 409) {
+        throw new Error('このフェーズへは直接移動できません')
+      }
+
+      if (response.status === 400) {
+        const data = await response.json().catch(() => null)
+        const messages = Array.isArray(data?.errors)
+          ? (data.errors as { message: string }[]).map((item) => item.message)
+          : []
+        if (messages.length > 0) throw new Error(messages.join(' / '))
+      }
 
       if (!response.ok) {
         throw new Error('更新に失敗しました')
@@ -615,7 +767,11 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
       toast.success('EVA情報を更新しました')
     } catch (error) {
       console.error('Failed to update evangelist:', error)
-      toast.error('EVA情報の更新に失敗しました')
+      toast.error(
+        error instanceof Error && error.message !== '更新に失敗しました'
+          ? `EVA情報の更新に失敗しました：${error.message}`
+          : 'EVA情報の更新に失敗しました',
+      )
     } finally {
       setEditSubmitting(false)
     }
@@ -628,7 +784,11 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
           <h1 className="text-3xl font-bold text-slate-900">エバンジェリスト管理</h1>
           <p className="text-slate-500">エバンジェリストの一覧と管理</p>
         </div>
-        <div className="flex items-center justify-start sm:justify-end">
+        <div className="flex items-center justify-start gap-2 sm:justify-end">
+          <Button variant="outline" onClick={() => setIsExportOpen(true)}>
+            <Download className="mr-2 h-4 w-4" />
+            エクスポート
+          </Button>
           <Button
             onClick={openCreateDialog}
             variant="default"
@@ -649,17 +809,54 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
         </CardHeader>
         <CardContent>
           <div className="mb-4 flex flex-wrap items-center justify-end gap-2 text-sm text-slate-600">
-            <div className="flex items-center gap-2">
-              <span className="text-sm text-slate-600">表示件数</span>
-              <PageSizeSelect
-                value={itemsPerPage}
-                onChange={(value) => {
-                  const normalized = normalizePageSize(String(value))
-                  setItemsPerPage(normalized)
+            <div className="flex items-center gap-1">
+              <Button
+                variant={viewMode === 'table' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setViewMode('table')}
+                className={viewMode === 'table' ? 'bg-brand text-white hover:bg-brand-600' : 'border-slate-300 bg-white text-slate-700'}
+              >
+                <List className="mr-1 h-4 w-4" />
+                一覧
+              </Button>
+              <Button
+                variant={viewMode === 'board' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setViewMode('board')}
+                disabled={showArchived}
+                className={viewMode === 'board' ? 'bg-brand text-white hover:bg-brand-600' : 'border-slate-300 bg-white text-slate-700'}
+              >
+                <LayoutGrid className="mr-1 h-4 w-4" />
+                ボード
+              </Button>
+              <Button
+                variant={showArchived ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => {
+                  setShowArchived((prev) => !prev)
+                  setViewMode('table')
+                  setSelectedIds([])
                   setCurrentPage(1)
                 }}
-              />
+                className={showArchived ? 'bg-slate-700 text-white hover:bg-slate-800' : 'border-slate-300 bg-white text-slate-700'}
+              >
+                <Archive className="mr-1 h-4 w-4" />
+                アーカイブ済み
+              </Button>
             </div>
+            {viewMode === 'table' && (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-slate-600">表示件数</span>
+                <PageSizeSelect
+                  value={itemsPerPage}
+                  onChange={(value) => {
+                    const normalized = normalizePageSize(String(value))
+                    setItemsPerPage(normalized)
+                    setCurrentPage(1)
+                  }}
+                />
+              </div>
+            )}
           </div>
           {/* 検索・フィルタ */}
           <div className="mb-6 space-y-4">
@@ -667,15 +864,37 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
               <div className="relative flex-1">
                 <Search className="absolute left-3 top-3 h-4 w-4 text-slate-500" />
                 <Input
-                  placeholder="名前、メールアドレスで検索..."
+                  placeholder="名前・ふりがな・連絡先・メモ・強みなどで検索..."
                   value={searchTerm}
                   onChange={(e) => {
+                    const next = e.target.value
                     setCurrentPage(1)
-                    setSearchTerm(e.target.value)
+                    // 検索を始めたら関連度順、検索をやめたら登録日順に戻す
+                    if (!searchTerm.trim() && next.trim()) {
+                      setSortBy('relevance')
+                      setSortOrder('desc')
+                    } else if (!next.trim() && sortBy === 'relevance') {
+                      setSortBy('createdAt')
+                      setSortOrder('desc')
+                    }
+                    setSearchTerm(next)
                   }}
                   className="border border-slate-300 bg-white pl-10 text-slate-900 placeholder:text-slate-400"
                 />
               </div>
+              {searchTerm.trim() && sortBy !== 'relevance' && (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setSortBy('relevance')
+                    setSortOrder('desc')
+                    setCurrentPage(1)
+                  }}
+                  className="border border-slate-300 bg-white text-slate-700 hover:bg-slate-50"
+                >
+                  関連度順に戻す
+                </Button>
+              )}
               {hasActiveFilters && (
                 <Button
                   variant="outline"
@@ -723,16 +942,133 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
                 <option value="30">30日以上未フォロー</option>
               </select>
             </div>
+
+            <CustomFieldFilter
+              definitions={customFieldDefinitions}
+              fieldKey={customFilterKey}
+              value={customFilterValue}
+              onFieldChange={(key) => {
+                setCustomFilterKey(key)
+                setCustomFilterValue('')
+                setCurrentPage(1)
+              }}
+              onValueChange={(value) => {
+                setCustomFilterValue(value)
+                setCurrentPage(1)
+              }}
+            />
+
+            <PicklistFilter
+              options={picklistOptions}
+              field={picklistFilterField}
+              value={picklistFilterValue}
+              onFieldChange={(field) => {
+                setPicklistFilterField(field)
+                setPicklistFilterValue('')
+                setCurrentPage(1)
+              }}
+              onValueChange={(value) => {
+                setPicklistFilterValue(value)
+                setCurrentPage(1)
+              }}
+            />
+
+            <TagFilter
+              tags={tagOptions}
+              value={tagFilter}
+              onChange={(value) => {
+                setTagFilter(value)
+                setCurrentPage(1)
+              }}
+            />
           </div>
 
-          {/* テーブル */}
-          {loading ? (
+          <div className="mb-4">
+            <AdvancedFilterPanel appliedQuery={appliedQuery} options={queryValueOptions} onApply={applyQuery} />
+          </div>
+
+          {/* テーブル / ボード */}
+          {viewMode === 'board' ? (
+            <EvangelistBoard
+              filters={{
+                search: debouncedSearchTerm,
+                tier: tierFilter,
+                assignedCsId: assignedCsFilter,
+                stale: staleFilter,
+                custom: customFilters,
+                picklists: picklistFilters,
+                tags: tagFilter,
+                query: appliedQuery,
+              }}
+            />
+          ) : loading ? (
             <div className="py-8 text-center text-slate-600">読み込み中...</div>
           ) : (
             <>
+              {showArchived && (
+                <p className="mb-3 rounded-md border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-600">
+                  アーカイブ済みのEVAを表示しています。復元すると通常の一覧・集計に戻ります。
+                </p>
+              )}
+              {selectedIds.length > 0 && !showArchived && (
+                <div className="mb-3 flex flex-wrap items-center gap-2 rounded-md border border-brand/30 bg-purple-50 px-3 py-2 text-sm text-slate-700">
+                  <span>{selectedIds.length}件を選択中</span>
+                  <Button size="sm" variant="outline" onClick={() => setBulkAction('assignCs')}>
+                    <UserCog className="mr-1 h-3.5 w-3.5" />
+                    担当CS
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setBulkAction('setTier')}>
+                    <Layers className="mr-1 h-3.5 w-3.5" />
+                    Tier
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setBulkAction('tags')}>
+                    <Tags className="mr-1 h-3.5 w-3.5" />
+                    タグ
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setBulkAction('setPhase')}>
+                    <Flag className="mr-1 h-3.5 w-3.5" />
+                    フェーズ
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setBulkAction('setNextAction')}>
+                    <CalendarClock className="mr-1 h-3.5 w-3.5" />
+                    NA・期日
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setIsSelectionExportOpen(true)}>
+                    <Download className="mr-1 h-3.5 w-3.5" />
+                    エクスポート
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setBulkAction('archive')}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Archive className="mr-1 h-3.5 w-3.5" />
+                    アーカイブ
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setSelectedIds([])}>
+                    選択解除
+                  </Button>
+                </div>
+              )}
               <Table>
                 <TableHeader className="bg-slate-50">
                   <TableRow>
+                    <TableHead className="w-10">
+                      <input
+                        type="checkbox"
+                        aria-label="このページをすべて選択"
+                        checked={evangelists.length > 0 && evangelists.every((evangelist) => selectedIds.includes(evangelist.id))}
+                        onChange={(event) => {
+                          const pageIds = evangelists.map((evangelist) => evangelist.id)
+                          setSelectedIds((prev) =>
+                            event.target.checked
+                              ? Array.from(new Set([...prev, ...pageIds]))
+                              : prev.filter((id) => !pageIds.includes(id)),
+                          )
+                        }}
+                      />
+                    </TableHead>
                     <TableHead className="text-slate-700">
                       <Button
                         variant="ghost"
@@ -767,12 +1103,32 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
                 <TableBody>
                   {evangelists.map((evangelist) => (
                     <TableRow key={evangelist.id} className="even:bg-slate-50/50">
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          aria-label="選択"
+                          checked={selectedIds.includes(evangelist.id)}
+                          onChange={(event) =>
+                            setSelectedIds((prev) =>
+                              event.target.checked ? [...prev, evangelist.id] : prev.filter((id) => id !== evangelist.id),
+                            )
+                          }
+                        />
+                      </TableCell>
                       <TableCell className="font-medium text-slate-800">
-                        {[evangelist.lastName, evangelist.firstName].filter(Boolean).join(' ') || '—'}
+                        <div className="space-y-1">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span>{[evangelist.lastName, evangelist.firstName].filter(Boolean).join(' ') || '—'}</span>
+                            <CompletenessBadge completeness={evangelist.completeness} />
+                            <UnansweredBadge summary={evangelist.contactSummary} />
+                          </div>
+                          <TagList tags={evangelist.tags} />
+                          <SearchSnippets snippets={evangelist.searchSnippets} />
+                        </div>
                       </TableCell>
                       <TableCell className="text-slate-700">{evangelist.email ?? '—'}</TableCell>
                       <TableCell className="text-slate-700">
-                        {evangelist.strength ? STRENGTH_LABELS[evangelist.strength] : '—'}
+                        <StrengthList strengths={evangelist.strengths} />
                       </TableCell>
                       <TableCell className="text-slate-700">
                         {evangelist.contactMethod ? CONTACT_LABELS[evangelist.contactMethod] : '—'}
@@ -835,36 +1191,77 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
                       </TableCell>
                       <TableCell className="text-slate-700">{formatDate(evangelist.createdAt)}</TableCell>
                       <TableCell>
-                        <div className="flex gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => openEditDialog(evangelist)}
-                            className="btn btn--ghost"
-                          >
-                            <Pencil className="mr-1 h-3.5 w-3.5" />
-                            編集
-                          </Button>
-                          <Link href={`/evangelists/${evangelist.id}`}>
+                        {showArchived ? (
+                          <div className="space-y-1">
+                            <div className="flex gap-2">
+                              <Button variant="outline" size="sm" onClick={() => handleRestore(evangelist.id)}>
+                                <ArchiveRestore className="mr-1 h-3.5 w-3.5" />
+                                復元
+                              </Button>
+                              {role === 'ADMIN' && (
+                                <Button variant="destructive" size="sm" className="btn" onClick={() => handlePurge(evangelist)}>
+                                  <Trash2 className="mr-1 h-3.5 w-3.5" />
+                                  完全削除
+                                </Button>
+                              )}
+                            </div>
+                            <p className="max-w-xs truncate text-xs text-slate-500">
+                              {evangelist.archivedAt && `${formatDate(evangelist.archivedAt)} `}
+                              {evangelist.archiveReason}
+                            </p>
+                          </div>
+                        ) : (
+                          <div className="flex gap-2">
                             <Button
                               variant="outline"
                               size="sm"
+                              onClick={() => openEditDialog(evangelist)}
                               className="btn btn--ghost"
-                              aria-label="面談記録"
                             >
-                              面談記録
+                              <Pencil className="mr-1 h-3.5 w-3.5" />
+                              編集
                             </Button>
-                          </Link>
-                          <Button
-                            variant="destructive"
-                            size="sm"
-                            className="btn"
-                            onClick={() => handleDelete(evangelist.id)}
-                          >
-                            <Trash2 className="mr-1 h-3.5 w-3.5" />
-                            削除
-                          </Button>
-                        </div>
+                            <Link href={`/evangelists/${evangelist.id}`}>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="btn btn--ghost"
+                                aria-label="面談記録"
+                              >
+                                面談記録
+                              </Button>
+                            </Link>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="btn btn--ghost"
+                              onClick={() =>
+                                setContactTarget({
+                                  id: evangelist.id,
+                                  name: [evangelist.lastName, evangelist.firstName].filter(Boolean).join(' ') || 'このエヴァ',
+                                  contactMethod: evangelist.contactMethod,
+                                })
+                              }
+                            >
+                              <PhoneOutgoing className="mr-1 h-3.5 w-3.5" />
+                              連絡
+                            </Button>
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              className="btn"
+                              onClick={() =>
+                                setArchiveTarget({
+                                  id: evangelist.id,
+                                  name: [evangelist.lastName, evangelist.firstName].filter(Boolean).join(' ') || 'このエヴァ',
+                                })
+                              }
+                            >
+                              <Archive className="mr-1 h-3.5 w-3.5" />
+                              アーカイブ
+                            </Button>
+                          </div>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -1038,29 +1435,12 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
                 </Select>
               </div>
 
-              <div className="space-y-2">
-                <Label>強み</Label>
-                <Select
-                  value={editForm.strength ? editForm.strength : SELECT_CLEAR_VALUE}
-                  onValueChange={(value) =>
-                    setEditForm((prev) => ({
-                      ...prev,
-                      strength: value === SELECT_CLEAR_VALUE ? '' : (value as StrengthKey),
-                    }))
-                  }
-                >
-                  <SelectTrigger className="border-slate-300 bg-white text-slate-900 placeholder:text-slate-400">
-                    <SelectValue placeholder="未設定" />
-                  </SelectTrigger>
-                  <SelectContent className="border-slate-300 bg-white text-slate-900 placeholder:text-slate-400">
-                    <SelectItem value={SELECT_CLEAR_VALUE}>未設定</SelectItem>
-                    {Object.entries(STRENGTH_LABELS).map(([key, label]) => (
-                      <SelectItem key={key} value={key}>
-                        {label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+              <div className="space-y-2 sm:col-span-2">
+                <Label>強み（複数可）</Label>
+                <StrengthPicker
+                  value={editForm.strengths}
+                  onChange={(strengths) => setEditForm((prev) => ({ ...prev, strengths }))}
+                />
               </div>
 
               <div className="space-y-2">
@@ -1136,6 +1516,22 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
                   rows={3}
                 />
               </div>
+              <CustomFieldInputs
+                definitions={customFieldDefinitions}
+                values={editForm.customFields}
+                idPrefix="edit-custom-field"
+                onChange={(key, value) =>
+                  setEditForm((prev) => ({ ...prev, customFields: { ...prev.customFields, [key]: value } }))
+                }
+              />
+              <div className="space-y-2">
+                <Label>タグ</Label>
+                <TagPicker
+                  tags={tagOptions}
+                  selected={editForm.tagIds}
+                  onChange={(tagIds) => setEditForm((prev) => ({ ...prev, tagIds }))}
+                />
+              </div>
             </div>
 
             <div className="sticky bottom-0 mt-auto flex items-center justify-end gap-2 border-t bg-white p-3">
@@ -1155,6 +1551,71 @@ export default function EvangelistsPageClient({ initialPageSize }: EvangelistsPa
           <p className="text-sm text-slate-600">編集対象が選択されていません。</p>
         )}
       </OverlaySheet>
+
+      <ArchiveEvangelistDialog
+        evangelist={archiveTarget}
+        onOpenChange={(open) => {
+          if (!open) setArchiveTarget(null)
+        }}
+        onArchived={(id) => {
+          setEvangelists((prev) => prev.filter((e) => e.id !== id))
+          setSelectedIds((prev) => prev.filter((selectedId) => selectedId !== id))
+        }}
+      />
+      <ContactAttemptDialog
+        evangelist={contactTarget}
+        onOpenChange={(open) => {
+          if (!open) setContactTarget(null)
+        }}
+        onLogged={(_attempt, summary) => {
+          const id = contactTarget?.id
+          setEvangelists((prev) => prev.map((e) => (e.id === id ? { ...e, contactSummary: summary } : e)))
+        }}
+      />
+      <BulkActionDialog
+        open={bulkAction !== null}
+        onOpenChange={(open) => {
+          if (!open) setBulkAction(null)
+        }}
+        actionType={bulkAction}
+        evangelistIds={selectedIds}
+        users={users}
+        tags={tagOptions}
+        isAdmin={role === 'ADMIN'}
+        onApplied={() => {
+          setSelectedIds([])
+          setReloadKey((prev) => prev + 1)
+        }}
+      />
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        filters={{
+          search: debouncedSearchTerm,
+          tier: tierFilter,
+          assignedCsId: assignedCsFilter,
+          stale: staleFilter,
+          custom: customFilters,
+          picklists: picklistFilters,
+          tags: tagFilter,
+          query: appliedQuery,
+        }}
+      />
+      <ExportDialog
+        open={isSelectionExportOpen}
+        onOpenChange={setIsSelectionExportOpen}
+        filters={{
+          search: debouncedSearchTerm,
+          tier: tierFilter,
+          assignedCsId: assignedCsFilter,
+          stale: staleFilter,
+          custom: customFilters,
+          picklists: picklistFilters,
+          tags: tagFilter,
+          query: appliedQuery,
+        }}
+        selectedIds={selectedIds}
+      />
     </div>
   )
 }
@@ -0,0 +1,182 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { Download } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import {
+  appendCustomFieldParams,
+  useCustomFieldDefinitions,
+} from '@/components/evangelists/custom-field-inputs'
+import { appendPicklistParams } from '@/components/evangelists/picklist-filter'
+import { appendTagParams } from '@/components/evangelists/tag-inputs'
+import { appendQueryParams } from '@/components/evangelists/query-builder'
+import {
+  buildCustomExportColumns,
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  type ExportFormat,
+} from '@/lib/evangelist-export'
+import type { EvangelistBoardFilters } from './EvangelistBoard'
+
+type ExportDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  filters: EvangelistBoardFilters
+  // 指定があれば絞り込み条件ではなく選択したEVAだけを出力する
+  selectedIds?: string[]
+}
+
+const STORAGE_KEY = 'evangelists.export.columns'
+
+function loadSavedColumns() {
+  if (typeof window === 'undefined') return DEFAULT_EXPORT_COLUMNS
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null')
+    return Array.isArray(saved) && saved.length > 0 ? (saved as string[]) : DEFAULT_EXPORT_COLUMNS
+  } catch {
+    return DEFAULT_EXPORT_COLUMNS
+  }
+}
+
+function filenameFromDisposition(header: string | null, fallback: string) {
+  const match = header?.match(/filename="([^"]+)"/)
+  return match?.[1] ?? fallback
+}
+
+export default function ExportDialog({ open, onOpenChange, filters, selectedIds }: ExportDialogProps) {
+  const [selected, setSelected] = useState<string[]>(loadSavedColumns)
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [exporting, setExporting] = useState(false)
+  const customFieldDefinitions = useCustomFieldDefinitions()
+  const columns = useMemo(
+    () => [...EXPORT_COLUMNS, ...buildCustomExportColumns(customFieldDefinitions)],
+    [customFieldDefinitions],
+  )
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, key] : prev.filter((value) => value !== key)))
+  }
+
+  const handleExport = async () => {
+    if (selected.length === 0) {
+      toast.error('出力する列を選択してください')
+      return
+    }
+
+    const params = new URLSearchParams({ format, columns: selected.join(',') })
+    const search = filters.search.trim()
+    if (search) params.set('search', search)
+    if (filters.tier && filters.tier !== 'ALL') params.set('tier', filters.tier)
+    if (filters.assignedCsId) params.set('assignedCsId', filters.assignedCsId)
+    if (filters.stale) params.set('stale', filters.stale)
+    appendCustomFieldParams(params, filters.custom)
+    appendPicklistParams(params, filters.picklists)
+    appendTagParams(params, filters.tags)
+    appendQueryParams(params, filters.query)
+
+    try {
+      setExporting(true)
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(selected))
+      const response = selectedIds
+        ? await fetch('/api/evangelists/export', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ ids: selectedIds, format, columns: selected }),
+          })
+        : await fetch(`/api/evangelists/export?${params.toString()}`, { credentials: 'include' })
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        if (response.status === 413) {
+          throw new Error(`出力件数が多すぎます（${data?.total ?? '-'}件 / 上限 ${data?.max ?? '-'}件）。絞り込んでください`)
+        }
+        throw new Error('エクスポートに失敗しました')
+      }
+
+      const blob = await response.blob()
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filenameFromDisposition(response.headers.get('content-disposition'), `evangelists.${format}`)
+      document.body.appendChild(link)
+      link.click()
+      link.remove()
+      URL.revokeObjectURL(url)
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to export evangelists:', error)
+      toast.error(error instanceof Error ? error.message : 'エクスポートに失敗しました')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl bg-white">
+        <DialogHeader>
+          <DialogTitle>エクスポート</DialogTitle>
+          <DialogDescription>
+            {selectedIds
+              ? `選択中の ${selectedIds.length} 件のEVAを出力します。`
+              : '現在の検索・絞り込み条件に一致するEVAを出力します。'}
+            CS アカウントでは自分の担当分のみが出力されます。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-4 text-sm text-slate-700">
+            <span className="font-semibold">形式</span>
+            <label className="flex items-center gap-1">
+              <input type="radio" name="export-format" checked={format === 'csv'} onChange={() => setFormat('csv')} />
+              CSV（Excel 対応 UTF-8）
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="radio" name="export-format" checked={format === 'xlsx'} onChange={() => setFormat('xlsx')} />
+              Excel (.xlsx)
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-semibold text-slate-700">出力する列</span>
+              <div className="flex gap-2">
+                <Button size="sm" variant="ghost" onClick={() => setSelected(columns.map((column) => column.key))}>
+                  すべて
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setSelected(DEFAULT_EXPORT_COLUMNS)}>
+                  既定に戻す
+                </Button>
+              </div>
+            </div>
+            <div className="grid max-h-72 grid-cols-2 gap-2 overflow-y-auto rounded-md border border-slate-200 p-3 sm:grid-cols-3">
+              {columns.map((column) => (
+                <label key={column.key} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(column.key)}
+                    onChange={(event) => toggleColumn(column.key, event.target.checked)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={exporting}>
+            キャンセル
+          </Button>
+          <Button onClick={handleExport} disabled={exporting} className="bg-brand text-white hover:bg-brand-600">
+            <Download className="mr-2 h-4 w-4" />
+            {exporting ? '出力中...' : 'ダウンロード'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
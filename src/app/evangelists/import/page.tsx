@@ -32,7 +32,7 @@ export default function EvangelistImportPage() {
           </CardHeader>
           <CardContent>
             <ol className="list-decimal list-inside space-y-2 text-sm">
-              <li>CSVファイルを選択してアップロード</li>
+              <li>CSV / Excel (.xlsx) ファイルを選択してアップロード</li>
               <li>CSVの列とデータベースフィールドをマッピング</li>
               <li>プレビューでデータを確認</li>
               <li>インポートを実行</li>
@@ -44,6 +44,7 @@ export default function EvangelistImportPage() {
                 <li>• 最大200行まで一度にインポート可能です</li>
                 <li>• 必須フィールド：名、姓</li>
                 <li>• タグは複数の列から選択可能です</li>
+                <li>• 取り込めなかった行は理由とともにインポート履歴に記録されます</li>
               </ul>
             </div>
           </CardContent>
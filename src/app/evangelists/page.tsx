@@ -1,4 +1,5 @@
 import { Suspense } from 'react'
+import { getSession } from '@/lib/session'
 import EvangelistsPageClient from './_components/EvangelistsPageClient'
 
 export const dynamic = 'force-dynamic'
@@ -14,6 +15,7 @@ export default async function Page({
   searchParams: Promise<Record<string, string | string[] | undefined>>
 }) {
   const sp = await searchParams
+  const session = await getSession()
 
   const raw = Array.isArray(sp.pageSize) ? sp.pageSize[0] : sp.pageSize
   const n = Number(raw)
@@ -24,7 +26,7 @@ export default async function Page({
 
   return (
     <Suspense fallback={<div className="p-4 text-sm text-slate-600">読み込み中…</div>}>
-      <EvangelistsPageClient initialPageSize={initialPageSize} />
+      <EvangelistsPageClient initialPageSize={initialPageSize} role={session.role} />
     </Suspense>
   )
 }
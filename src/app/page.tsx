@@ -6,7 +6,10 @@ import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Users, UserCheck, Calendar, AlertCircle, Clock, Tag } from 'lucide-react';
+import { Users, UserCheck, UserPlus, Calendar, AlertCircle, Clock, Tag, Gauge } from 'lucide-react';
+import { COMPLETENESS_INCOMPLETE_BELOW } from '@/lib/evangelist-completeness';
+import type { QueryGroup } from '@/lib/evangelist-query';
+import type { TopReferrer } from '@/lib/evangelist-referrals';
 
 interface DashboardStats {
   totalEvangelists: number;
@@ -15,6 +18,14 @@ interface DashboardStats {
   requiredInnovators: number;
   staleEvangelists: number;
   itTagEvangelists: number;
+  referredEvangelists: number;
+}
+
+interface IncompleteByCs {
+  id: string;
+  name: string;
+  incomplete: number;
+  total: number;
 }
 
 interface User {
@@ -27,6 +38,8 @@ interface User {
 export default function DashboardPage() {
   const [user, setUser] = useState<User | null>(null);
   const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [incompleteByCs, setIncompleteByCs] = useState<{ threshold: number; items: IncompleteByCs[] } | null>(null);
+  const [topReferrers, setTopReferrers] = useState<{ recentDays: number; items: TopReferrer[] } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const router = useRouter();
 
@@ -66,8 +79,27 @@ export default function DashboardPage() {
             requiredInnovators: 0,
             staleEvangelists: 0,
             itTagEvangelists: 0,
+            referredEvangelists: 0,
           });
         }
+
+        // 入力不足のEVAが多いCS
+        const completenessResponse = await fetch('/api/dashboard/completeness', {
+          credentials: 'include',
+          cache: 'no-store',
+        });
+        if (completenessResponse.ok) {
+          setIncompleteByCs(await completenessResponse.json());
+        }
+
+        // 紹介したEVAの多いEVA
+        const referrersResponse = await fetch('/api/dashboard/referrers', {
+          credentials: 'include',
+          cache: 'no-store',
+        });
+        if (referrersResponse.ok) {
+          setTopReferrers(await referrersResponse.json());
+        }
       } catch (error) {
         console.error('Failed to fetch data:', error);
         router.push('/login');
@@ -79,6 +111,27 @@ export default function DashboardPage() {
     fetchUserAndStats();
   }, [router]);
 
+  // 担当CSと充足度の条件でEVA一覧を開く
+  const incompleteListHref = (csId: string, threshold: number) => {
+    const query: QueryGroup = {
+      combinator: 'and',
+      rules: [
+        { field: 'assignedCsId', op: 'in', values: [csId] },
+        { field: 'completeness', op: 'lt', value: String(threshold) },
+      ],
+    };
+    return `/evangelists?q=${encodeURIComponent(JSON.stringify(query))}`;
+  };
+
+  // 他のEVAを紹介したことのあるEVAの一覧
+  const referrersListHref = () => {
+    const query: QueryGroup = {
+      combinator: 'and',
+      rules: [{ field: 'referralCount', op: 'gte', value: '1' }],
+    };
+    return `/evangelists?q=${encodeURIComponent(JSON.stringify(query))}`;
+  };
+
   if (isLoading) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -279,6 +332,89 @@ export default function DashboardPage() {
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="h-4 w-4" />
+              入力不足のEVAが多いCS
+            </CardTitle>
+            <CardDescription>
+              充足度が{incompleteByCs?.threshold ?? COMPLETENESS_INCOMPLETE_BELOW}%未満の担当EVAの件数
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!incompleteByCs || incompleteByCs.items.length === 0 ? (
+              <div className="text-sm text-gray-500">
+                入力不足のEVAはありません
+              </div>
+            ) : (
+              <ul className="space-y-2">
+                {incompleteByCs.items.map((item) => (
+                  <li key={item.id}>
+                    <Link
+                      href={incompleteListHref(item.id, incompleteByCs.threshold)}
+                      className="flex items-center justify-between rounded-md px-2 py-1 text-sm hover:bg-gray-100"
+                    >
+                      <span className="text-gray-800">{item.name}</span>
+                      <span className="text-gray-600">
+                        <span className="font-semibold text-red-600">{item.incomplete}</span> / {item.total}件
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserPlus className="h-4 w-4" />
+              紹介者ランキング
+            </CardTitle>
+            <CardDescription>
+              他のEVAを紹介してくれたEVA（紹介経由の登録 {stats?.referredEvangelists || 0}件）
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!topReferrers || topReferrers.items.length === 0 ? (
+              <div className="text-sm text-gray-500">
+                紹介の記録はまだありません
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <ul className="space-y-2">
+                  {topReferrers.items.map((item, index) => (
+                    <li key={item.id}>
+                      <Link
+                        href={`/evangelists/${item.id}`}
+                        className="flex items-center justify-between rounded-md px-2 py-1 text-sm hover:bg-gray-100"
+                      >
+                        <span className="text-gray-800">
+                          <span className="mr-2 text-gray-500">{index + 1}.</span>
+                          {item.name}
+                        </span>
+                        <span className="text-gray-600">
+                          <span className="font-semibold text-emerald-700">{item.referrals}</span>件
+                          {item.recentReferrals > 0 && (
+                            <span className="ml-2 text-xs text-gray-500">
+                              直近{topReferrers.recentDays}日 {item.recentReferrals}件
+                            </span>
+                          )}
+                        </span>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+                <Link href={referrersListHref()} className="block text-right text-sm text-gray-600 hover:underline">
+                  紹介したEVAを一覧で見る
+                </Link>
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
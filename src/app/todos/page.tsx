@@ -1,6 +1,7 @@
 'use client'
 
-import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Suspense, useCallback, useEffect, useMemo, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -55,7 +56,9 @@ type UserSummary = {
   role: 'ADMIN' | 'CS'
 }
 
-export default function TodosPage() {
+function TodosPageContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
   const [currentUser, setCurrentUser] = useState<UserSummary | null>(null)
   const [loadingUser, setLoadingUser] = useState(true)
   const [assignees, setAssignees] = useState<UserSummary[]>([])
@@ -68,6 +71,7 @@ export default function TodosPage() {
     notes: '',
     dueOn: '',
     assigneeId: SELF_ASSIGNEE,
+    evangelistId: '',
   })
 
   const isAdmin = currentUser?.role === 'ADMIN'
@@ -176,6 +180,19 @@ export default function TodosPage() {
     }
   }, [isAdmin, selectedTomorrowCs])
 
+  // コマンドパレットの「ToDoを追加」（?new=1&title=&notes=&evangelistId=）から作成ダイアログを開く
+  useEffect(() => {
+    if (searchParams.get('new') !== '1') return
+    setCreateForm((prev) => ({
+      ...prev,
+      title: searchParams.get('title') ?? '',
+      notes: searchParams.get('notes') ?? '',
+      evangelistId: searchParams.get('evangelistId') ?? '',
+    }))
+    setCreateOpen(true)
+    router.replace('/todos')
+  }, [router, searchParams])
+
   useEffect(() => {
     if (!todosError) return
     console.error('[todos:list]', todosError)
@@ -242,6 +259,9 @@ export default function TodosPage() {
       if (isAdmin) {
         body.assigneeId = assigneeForCreate
       }
+      if (createForm.evangelistId) {
+        body.evangelistId = createForm.evangelistId
+      }
       const response = await fetch('/api/todos', {
         method: 'POST',
         credentials: 'include',
@@ -264,7 +284,7 @@ export default function TodosPage() {
       )
       toast.success('ToDoを作成しました')
       setCreateOpen(false)
-      setCreateForm({ title: '', notes: '', dueOn: '', assigneeId: SELF_ASSIGNEE })
+      setCreateForm({ title: '', notes: '', dueOn: '', assigneeId: SELF_ASSIGNEE, evangelistId: '' })
       void mutateTodos()
       void mutateDueTomorrow()
     } catch (error) {
@@ -650,3 +670,11 @@ export default function TodosPage() {
     </div>
   )
 }
+
+export default function TodosPage() {
+  return (
+    <Suspense fallback={<div className="p-4 text-sm text-slate-600">読み込み中…</div>}>
+      <TodosPageContent />
+    </Suspense>
+  )
+}
@@ -1,5 +1,4 @@
 'use client';
-import Papa from 'papaparse';
 import { useState, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -7,43 +6,20 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import Link from 'next/link';
 import { toast } from 'sonner';
-import { UploadCloud, ListChecks, Table as TableIcon, Info, ShieldAlert } from 'lucide-react';
-
-type DbField = {
-  key: string;
-  label: string;
-  isEssential?: boolean;
-};
-
-const DB_FIELDS = [
-  { key: 'recordId', label: 'レコードID' },
-  { key: 'firstName', label: '名', isEssential: true },
-  { key: 'lastName', label: '姓', isEssential: true },
-  { key: 'supportPriority', label: 'サポート優先度' },
-  { key: 'email', label: 'メールアドレス' },
-  { key: 'pattern', label: 'パターン' },
-  { key: 'contactMethod', label: '連絡手段' },
-  { key: 'meetingStatus', label: '面談状況' },
-  { key: 'registrationStatus', label: '登録状況' },
-  { key: 'lineRegistered', label: 'LINE登録' },
-  { key: 'phoneNumber', label: '電話番号' },
-  { key: 'acquisitionSource', label: '流入経路' },
-  { key: 'facebookUrl', label: 'Facebook URL' },
-  { key: 'listAcquired', label: 'リスト取得' },
-  { key: 'matchingListUrl', label: 'マッチングリストURL' },
-  { key: 'contactOwner', label: 'コンタクト担当者' },
-  { key: 'sourceCreatedAt', label: '作成日 (YYYY-MM-DD HH:mm)' },
-  { key: 'marketingContactStatus', label: 'マーケティングコンタクトステータス' },
-  { key: 'strength', label: '強み' },
-  { key: 'notes', label: 'メモ' },
-  { key: 'tier', label: 'Tier (TIER1/TIER2)' },
-  { key: 'tags', label: 'タグ(カンマ区切り可)' },
-] as const satisfies readonly DbField[];
-
-const MULTI_VALUE_FIELDS = new Set(['tags']);
-
-type FieldKey = (typeof DB_FIELDS)[number]['key'];
+import { UploadCloud, ListChecks, Table as TableIcon, Info, ShieldAlert, Eye, AlertTriangle } from 'lucide-react';
+import { MappingTemplateBar, type ColumnMap, type CustomColumnMap } from '@/components/csv/mapping-template-bar';
+import { useCustomFieldDefinitions } from '@/components/evangelists/custom-field-inputs';
+import { ACTIVITY_FIELD_LABELS } from '@/lib/evangelist-activity';
+import { CUSTOM_FIELD_PREFIX } from '@/lib/custom-fields';
+import { DB_FIELDS, MULTI_VALUE_FIELDS, type FieldKey, type MappingTemplateColumns } from '@/lib/import-fields';
+import { readSpreadsheetBytes, readXlsxRows } from '@/lib/spreadsheet';
+import {
+  IMPORT_PREVIEW_ACTION_LABELS,
+  type ImportPreviewAction,
+  type ImportPreviewItem,
+} from '@/lib/import-jobs';
 
 type HeaderInfo = {
   id: string;     // 内部ID（col_0 等）
@@ -55,15 +31,68 @@ type HeaderInfo = {
 type CsvRow = string[];
 const BATCH_SIZE = 100;
 
+type ImportFailure = {
+  rowNumber: number;
+  reason: string;
+};
+
 type ImportBatchResponse = {
   ok?: boolean;
   count?: number;
   success?: number;
   failed?: number;
+  skipped?: number;
+  failures?: ImportFailure[];
+  ownerIssues?: ImportFailure[];
   error?: string;
   message?: string;
 };
 
+type ImportResult = {
+  processed: number;
+  skipped: number;
+  failures: ImportFailure[];
+  ownerIssues: ImportFailure[];
+  jobId: string | null;
+};
+
+type PayloadEntry = {
+  rowNumber: number; // CSV 上の行番号（ヘッダが 1 行目）
+  data: Record<string, unknown>;
+};
+
+const FAILURE_PREVIEW_LIMIT = 20;
+const PREVIEW_DISPLAY_LIMIT = 200;
+const EXCLUDED_REASON = 'プレビューで除外';
+
+type PreparedRows = {
+  validRows: PayloadEntry[];
+  skippedRows: PayloadEntry[];
+  skipReasons: Map<number, string>;
+};
+
+type ImportPreview = {
+  items: ImportPreviewItem[];
+  excluded: Set<number>;
+  // プレビュー時点のマッピング・データ（参照が変わったらプレビューは無効）
+  map: Record<FieldKey, string | string[] | undefined>;
+  customMap: CustomColumnMap;
+  rows: CsvRow[];
+};
+
+const PREVIEW_ACTION_BADGE_CLASS: Record<ImportPreviewAction, string> = {
+  CREATE: 'border-emerald-300 bg-emerald-50 text-emerald-700',
+  UPDATE: 'border-sky-300 bg-sky-50 text-sky-700',
+  UNCHANGED: 'border-slate-300 text-slate-500',
+  INVALID: 'border-rose-300 bg-rose-50 text-rose-700',
+};
+
+const isEmptyValue = (value: unknown) => value === null || value === undefined || value === '';
+
+/** 既存の値を別の値で上書きする変更を含むか */
+const overwritesExisting = (item: ImportPreviewItem) =>
+  item.action === 'UPDATE' && Object.values(item.changes ?? {}).some((change) => !isEmptyValue(change.before));
+
 const createEmptyMap = () =>
   DB_FIELDS.reduce<Record<FieldKey, string | string[] | undefined>>((acc, field) => {
     acc[field.key] = undefined;
@@ -75,8 +104,17 @@ export default function CSVMapper() {
   const [rows, setRows] = useState<CsvRow[]>([]);
   const [allRows, setAllRows] = useState<CsvRow[]>([]);
   const [map, setMap] = useState<Record<FieldKey, string | string[] | undefined>>(() => createEmptyMap());
+  const [customMap, setCustomMap] = useState<CustomColumnMap>({});
+  const customFieldDefinitions = useCustomFieldDefinitions();
+  const [fileName, setFileName] = useState('');
+  const [sourceInfo, setSourceInfo] = useState<string | null>(null);
+  const [xlsxBytes, setXlsxBytes] = useState<Uint8Array | null>(null);
+  const [sheets, setSheets] = useState<string[]>([]);
+  const [sheet, setSheet] = useState('');
   const [isImporting, setIsImporting] = useState(false);
-  const [lastImportCount, setLastImportCount] = useState<number | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [lastImport, setLastImport] = useState<ImportResult | null>(null);
 
   const headerLookup = useMemo(
     () =>
@@ -87,81 +125,92 @@ export default function CSVMapper() {
     [headers],
   );
 
-  const onFile = useCallback((file: File) => {
+  // CSV / Excel から読み込んだ行（先頭行がヘッダ）をマッピング用の状態に展開する
+  const loadParsedRows = useCallback((parsedRows: string[][], name: string, sourceLabel: string) => {
+    if (parsedRows.length === 0) {
+      toast.error('ファイルにヘッダ行が見つかりません');
+      return;
+    }
+
+    const rawHeaderRow = parsedRows[0] ?? [];
+    const dataRows = parsedRows.slice(1);
+    if (dataRows.length === 0) {
+      toast.error('ファイルにデータ行がありません');
+      return;
+    }
+
+    // ヘッダ整形（空は「列n」）
+    const initialHeaders: HeaderInfo[] = rawHeaderRow.map((value, index) => {
+      const rawValue = value ?? '';
+      const trimmed = rawValue.trim();
+      const label = trimmed || `列${index + 1}`;
+      return { id: `col_${index}`, label, raw: rawValue, index };
+    });
+
+    // データ側列が多い場合はヘッダを追加
+    const maxColumns = dataRows.reduce(
+      (max, row) => Math.max(max, row.length),
+      initialHeaders.length,
+    );
+    const headerInfos = [...initialHeaders];
+    for (let i = initialHeaders.length; i < maxColumns; i += 1) {
+      headerInfos.push({ id: `col_${i}`, label: `列${i + 1}`, raw: '', index: i });
+    }
+
+    // 行をトリム・正規化
+    const normalizedRows = dataRows.map((row) =>
+      headerInfos.map((_, index) => (row[index] ?? '').trim()),
+    );
+
+    setHeaders(headerInfos);
+    setRows(normalizedRows.slice(0, 200)); // プレビュー用
+    setAllRows(normalizedRows);
+    setMap(createEmptyMap());
+    setCustomMap({});
+    setFileName(name);
+    setLastImport(null);
+    setPreview(null);
+
+    toast.success(`${sourceLabel}を読み込みました（${normalizedRows.length}行）`);
+  }, []);
+
+  const onFile = useCallback(async (file: File) => {
     try {
-      const canUseWorker = typeof window !== 'undefined' && typeof Worker !== 'undefined';
-
-      Papa.parse<(string | number | boolean | null)[]>(file, {
-        header: false,
-        worker: canUseWorker, // 可能ならWebWorkerでパース
-        skipEmptyLines: 'greedy',
-        complete: (res) => {
-          try {
-            const parsedRows = (res.data ?? []).filter(
-              (row): row is (string | number | boolean | null)[] => Array.isArray(row),
-            );
-            if (parsedRows.length === 0) {
-              toast.error('CSV にヘッダ行が見つかりません');
-              return;
-            }
-
-            const rawHeaderRow = parsedRows[0] ?? [];
-            const dataRows = parsedRows.slice(1);
-            if (dataRows.length === 0) {
-              toast.error('CSV にデータ行がありません');
-              return;
-            }
-
-            // ヘッダ整形（空は「列n」）
-            const initialHeaders: HeaderInfo[] = rawHeaderRow.map((value, index) => {
-              const rawValue = value == null ? '' : String(value);
-              const trimmed = rawValue.trim();
-              const label = trimmed || `列${index + 1}`;
-              return { id: `col_${index}`, label, raw: rawValue, index };
-            });
-
-            // データ側列が多い場合はヘッダを追加
-            const maxColumns = dataRows.reduce(
-              (max, row) => Math.max(max, row.length),
-              initialHeaders.length,
-            );
-            const headerInfos = [...initialHeaders];
-            for (let i = initialHeaders.length; i < maxColumns; i += 1) {
-              headerInfos.push({ id: `col_${i}`, label: `列${i + 1}`, raw: '', index: i });
-            }
-
-            // 行をトリム・正規化
-            const normalizedRows = dataRows.map((row) =>
-              headerInfos.map((_, index) => {
-                const cell = row[index];
-                if (cell == null) return '';
-                if (typeof cell === 'string') return cell.trim();
-                return String(cell).trim();
-              }),
-            );
-
-            setHeaders(headerInfos);
-            setRows(normalizedRows.slice(0, 200)); // プレビュー用
-            setAllRows(normalizedRows);
-            setMap(createEmptyMap());
-            setLastImportCount(null);
-
-            toast.success(`CSVファイルを読み込みました（${normalizedRows.length}行）`);
-          } catch (e: unknown) {
-            toast.error(`CSV データ処理で例外: ${e instanceof Error ? e.message : String(e)}`);
-          }
-        },
-        error: (err) => {
-          toast.error(`CSV 解析に失敗しました: ${err?.message ?? String(err)}`);
-        },
-      });
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const result = await readSpreadsheetBytes(bytes);
+
+      if (result.format === 'xlsx') {
+        setXlsxBytes(bytes);
+        setSheets(result.sheets ?? []);
+        setSheet(result.sheet ?? '');
+        setSourceInfo('Excel (.xlsx)');
+        loadParsedRows(result.rows, file.name, `シート「${result.sheet}」`);
+        return;
+      }
+
+      setXlsxBytes(null);
+      setSheets([]);
+      setSheet('');
+      setSourceInfo(`CSV（文字コード: ${result.encoding}）`);
+      loadParsedRows(result.rows, file.name, 'CSVファイル');
     } catch (e: unknown) {
-      toast.error(`CSV 読み込みで例外: ${e instanceof Error ? e.message : String(e)}`);
+      toast.error(`ファイル読み込みで例外: ${e instanceof Error ? e.message : String(e)}`);
     }
-  }, []);
+  }, [loadParsedRows]);
+
+  const onSheetChange = async (nextSheet: string) => {
+    if (!xlsxBytes) return;
+    try {
+      const result = await readXlsxRows(xlsxBytes, nextSheet);
+      setSheet(result.sheet);
+      loadParsedRows(result.rows, fileName, `シート「${result.sheet}」`);
+    } catch (e: unknown) {
+      toast.error(`シート読み込みで例外: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
 
-  const buildPayload = useCallback(() => {
-    return allRows.map((row) => {
+  const buildPayload = useCallback((): PayloadEntry[] => {
+    return allRows.map((row, rowIndex) => {
       const obj: Record<string, unknown> = {};
 
       DB_FIELDS.forEach((f) => {
@@ -209,15 +258,116 @@ export default function CSVMapper() {
         }
       });
 
-      return obj;
+      // カスタム項目は文字列のまま送り、型変換・検証はサーバ側で行う
+      const customFields: Record<string, string> = {};
+      Object.entries(customMap).forEach(([key, id]) => {
+        const header = id ? headerLookup[id] : undefined;
+        const value = header ? String(row[header.index] ?? '').trim() : '';
+        if (value) customFields[key] = value;
+      });
+      if (Object.keys(customFields).length > 0) obj.customFields = customFields;
+
+      return { rowNumber: rowIndex + 2, data: obj };
+    });
+  }, [allRows, customMap, headerLookup, map]);
+
+  // ジョブ・テンプレートに保存するマッピング（フィールド → CSV 列名）
+  const mappingSnapshot = useMemo(() => {
+    const snapshot = DB_FIELDS.reduce<MappingTemplateColumns>((acc, field) => {
+      const mapping = map[field.key];
+      if (Array.isArray(mapping)) {
+        if (mapping.length > 0) acc[field.key] = mapping.map((id) => headerLookup[id]?.label ?? id);
+      } else if (mapping) {
+        acc[field.key] = headerLookup[mapping]?.label ?? mapping;
+      }
+      return acc;
+    }, {});
+    Object.entries(customMap).forEach(([key, id]) => {
+      if (id) snapshot[`${CUSTOM_FIELD_PREFIX}${key}`] = headerLookup[id]?.label ?? id;
+    });
+    return snapshot;
+  }, [customMap, headerLookup, map]);
+
+  async function createImportJob(skippedRows: PayloadEntry[], reasonByRow: Map<number, string>) {
+    const res = await fetch('/api/evangelists/import/jobs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      cache: 'no-store',
+      credentials: 'include',
+      body: JSON.stringify({
+        fileName: fileName || 'import.csv',
+        mapping: mappingSnapshot,
+        totalRows: allRows.length,
+        skippedRows: skippedRows.map((entry) => ({
+          rowNumber: entry.rowNumber,
+          reason: reasonByRow.get(entry.rowNumber),
+          data: entry.data,
+        })),
+      }),
     });
-  }, [allRows, headerLookup, map]);
+
+    if (res.status === 401) throw new Error('AUTH');
+    if (res.status === 403) throw new Error('FORBIDDEN');
+    const data = (await res.json().catch(() => null)) as { id?: string; error?: string } | null;
+    if (!res.ok || !data?.id) {
+      throw new Error(`インポートジョブを作成できませんでした: ${data?.error ?? `HTTP ${res.status}`}`);
+    }
+    return data.id;
+  }
+
+  async function finishImportJob(jobId: string, status: 'COMPLETED' | 'FAILED') {
+    try {
+      await fetch(`/api/evangelists/import/jobs/${jobId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        cache: 'no-store',
+        credentials: 'include',
+        body: JSON.stringify({ status }),
+      });
+    } catch (error) {
+      console.warn('Failed to finish import job:', error);
+    }
+  }
+
+  async function previewInBatches(payload: PayloadEntry[]): Promise<ImportPreviewItem[]> {
+    const items: ImportPreviewItem[] = [];
+
+    for (let i = 0; i < payload.length; i += BATCH_SIZE) {
+      const chunk = payload.slice(i, i + BATCH_SIZE);
+      const res = await fetch('/api/evangelists/import?dryRun=true', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        cache: 'no-store',
+        credentials: 'include',
+        body: JSON.stringify({
+          rows: chunk.map((entry) => entry.data),
+          rowNumbers: chunk.map((entry) => entry.rowNumber),
+        }),
+      });
+
+      if (res.status === 401) throw new Error('AUTH');
+      if (res.status === 403) throw new Error('FORBIDDEN');
+
+      const data = (await res.json().catch(() => null)) as
+        | { items?: ImportPreviewItem[]; error?: string }
+        | null;
+      if (!res.ok || !Array.isArray(data?.items)) {
+        throw new Error(`バッチ ${i / BATCH_SIZE + 1} のプレビューに失敗: ${data?.error ?? `HTTP ${res.status}`}`);
+      }
+      items.push(...data.items);
+    }
+
+    return items;
+  }
 
   async function importInBatches(
-    payload: Record<string, unknown>[],
-  ): Promise<{ processed: number; skipped: number }> {
+    payload: PayloadEntry[],
+    jobId: string,
+  ): Promise<{ processed: number; skipped: number; failures: ImportFailure[]; ownerIssues: ImportFailure[] }> {
     let processed = 0;
     let skipped = 0;
+    const failures: ImportFailure[] = [];
+    const ownerIssues: ImportFailure[] = [];
 
     for (let i = 0; i < payload.length; i += BATCH_SIZE) {
       const chunk = payload.slice(i, i + BATCH_SIZE);
@@ -226,7 +376,11 @@ export default function CSVMapper() {
         headers: { 'Content-Type': 'application/json' },
         cache: 'no-store',
         credentials: 'include', // 401回避（Cookie送信）
-        body: JSON.stringify({ rows: chunk }),
+        body: JSON.stringify({
+          jobId,
+          rows: chunk.map((entry) => entry.data),
+          rowNumbers: chunk.map((entry) => entry.rowNumber),
+        }),
       });
 
       const text = await res.text();
@@ -241,7 +395,8 @@ export default function CSVMapper() {
       if (res.status === 401) throw new Error('AUTH');
       if (res.status === 403) throw new Error('FORBIDDEN');
 
-      const isSuccess = res.ok && data?.ok === true;
+      // 行単位の失敗はジョブに記録されるので、バッチ自体が通れば続行する
+      const isSuccess = res.ok && (data?.ok === true || typeof data?.failed === 'number');
       if (!isSuccess) {
         const reason =
           (data && (data.error || data.message)) ||
@@ -257,96 +412,211 @@ export default function CSVMapper() {
           : typeof data?.success === 'number'
             ? data.success
             : chunk.length;
-      const skippedInBatch = typeof data?.failed === 'number' ? data.failed : 0;
+      const skippedInBatch = typeof data?.skipped === 'number' ? data.skipped : 0;
 
       processed += processedInBatch;
       skipped += skippedInBatch;
+      if (Array.isArray(data?.failures)) failures.push(...data.failures);
+      if (Array.isArray(data?.ownerIssues)) ownerIssues.push(...data.ownerIssues);
     }
 
-    return { processed, skipped };
+    return { processed, skipped, failures, ownerIssues };
   }
 
-  const handleImport = async () => {
-    try {
-      if (!allRows.length) return toast.error('CSV データが空です');
+  const showImportError = (e: unknown, prefix: string) => {
+    if (e instanceof Error) {
+      if (e.message === 'AUTH') return toast.error('セッションの有効期限が切れています。再度ログインしてください。');
+      if (e.message === 'FORBIDDEN') return toast.error('CSVインポートは管理者またはCS権限のみ利用できます。');
+      return toast.error(`${prefix}: ${e.message}`);
+    }
+    toast.error(`${prefix}: ${String(e)}`);
+  };
 
-      if (!map.firstName || !map.lastName) {
-        return toast.error('名と姓の列は必須です');
-      }
+  /** 送信対象の行と、クライアント側でスキップする行を振り分ける（問題があれば toast を出して null） */
+  const prepareRows = (): PreparedRows | null => {
+    if (!allRows.length) {
+      toast.error('CSV データが空です');
+      return null;
+    }
 
-      const hasMapping = Object.values(map).some((v) =>
-        Array.isArray(v) ? v.length > 0 : Boolean(v && v.length > 0),
-      );
-      if (!hasMapping) return toast.error('取り込み先の列が選択されていません');
+    if (!map.firstName || !map.lastName) {
+      toast.error('名と姓の列は必須です');
+      return null;
+    }
+
+    const hasMapping =
+      Object.values(map).some((v) => (Array.isArray(v) ? v.length > 0 : Boolean(v && v.length > 0))) ||
+      Object.values(customMap).some(Boolean);
+    if (!hasMapping) {
+      toast.error('取り込み先の列が選択されていません');
+      return null;
+    }
 
-      const payload = buildPayload();
-      const meaningfulRows = payload.filter((row) =>
-        Object.values(row).some((value) => {
+    const payload = buildPayload();
+    const skipReasons = new Map<number, string>();
+    const { validRows, skippedRows } = payload.reduce<{
+      validRows: PayloadEntry[];
+      skippedRows: PayloadEntry[];
+    }>(
+      (acc, entry) => {
+        const hasValue = Object.values(entry.data).some((value) => {
           if (Array.isArray(value)) return value.length > 0;
           if (value === null || value === undefined) return false;
           return String(value).trim().length > 0;
-        }),
-      );
-      if (meaningfulRows.length === 0) return toast.error('選択した列に値が見つかりませんでした');
-
-      type PayloadRow = Record<string, unknown> & {
-        firstName?: unknown;
-        lastName?: unknown;
-      };
-
-      const { validRows, skippedRows } = (meaningfulRows as PayloadRow[]).reduce<{
-        validRows: Record<string, unknown>[];
-        skippedRows: number;
-      }>((acc, row) => {
-          const firstName = typeof row.firstName === 'string' ? row.firstName.trim() : '';
-          const lastName = typeof row.lastName === 'string' ? row.lastName.trim() : '';
-
-          if (!firstName || !lastName) {
-            acc.skippedRows += 1;
-            return acc;
-          }
+        });
+        if (!hasValue) {
+          skipReasons.set(entry.rowNumber, '選択した列に値なし');
+          acc.skippedRows.push(entry);
+          return acc;
+        }
+
+        const firstName = typeof entry.data.firstName === 'string' ? entry.data.firstName.trim() : '';
+        const lastName = typeof entry.data.lastName === 'string' ? entry.data.lastName.trim() : '';
 
-          acc.validRows.push({ ...row, firstName, lastName });
+        if (!firstName || !lastName) {
+          acc.skippedRows.push(entry);
           return acc;
-        },
-        { validRows: [] as Record<string, unknown>[], skippedRows: 0 },
-      );
+        }
+
+        acc.validRows.push({ rowNumber: entry.rowNumber, data: { ...entry.data, firstName, lastName } });
+        return acc;
+      },
+      { validRows: [], skippedRows: [] },
+    );
+
+    if (skipReasons.size === payload.length) {
+      toast.error('選択した列に値が見つかりませんでした');
+      return null;
+    }
+    if (validRows.length === 0) {
+      toast.error('名と姓が入力されていないため、インポート可能な行がありません');
+      return null;
+    }
+
+    return { validRows, skippedRows, skipReasons };
+  };
+
+  const previewIsCurrent =
+    preview !== null && preview.map === map && preview.customMap === customMap && preview.rows === allRows;
+
+  const handlePreview = async () => {
+    const prepared = prepareRows();
+    if (!prepared) return;
+
+    try {
+      setIsPreviewing(true);
+      const serverItems = await previewInBatches(prepared.validRows);
+      const clientItems: ImportPreviewItem[] = prepared.skippedRows.map((entry) => ({
+        rowNumber: entry.rowNumber,
+        action: 'INVALID',
+        name: [entry.data.lastName, entry.data.firstName].filter(Boolean).join(' '),
+        reason: prepared.skipReasons.get(entry.rowNumber) ?? '姓・名が未入力',
+      }));
+
+      setPreview({
+        items: [...serverItems, ...clientItems].sort((a, b) => a.rowNumber - b.rowNumber),
+        excluded: new Set(),
+        map,
+        customMap,
+        rows: allRows,
+      });
+    } catch (e: unknown) {
+      showImportError(e, 'プレビューエラー');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview || !previewIsCurrent) {
+      toast.error('インポート前に変更内容をプレビューしてください');
+      return;
+    }
+
+    const prepared = prepareRows();
+    if (!prepared) return;
+
+    try {
+      // プレビューで除外した行は送信せず、スキップとしてジョブに記録する
+      const { skipReasons } = prepared;
+      const excludedRows = prepared.validRows.filter((entry) => preview.excluded.has(entry.rowNumber));
+      excludedRows.forEach((entry) => skipReasons.set(entry.rowNumber, EXCLUDED_REASON));
+      const validRows = prepared.validRows.filter((entry) => !preview.excluded.has(entry.rowNumber));
+      const skippedRows = [...prepared.skippedRows, ...excludedRows];
 
       if (validRows.length === 0) {
-        return toast.error('名と姓が入力されていないため、インポート可能な行がありません');
+        toast.error('インポート対象の行がありません');
+        return;
       }
 
       setIsImporting(true);
-      const { processed, skipped } = await importInBatches(validRows);
-      const totalSkipped = skippedRows + skipped;
+      const jobId = await createImportJob(skippedRows, skipReasons);
+
+      let batchResult: Awaited<ReturnType<typeof importInBatches>>;
+      try {
+        batchResult = await importInBatches(validRows, jobId);
+      } catch (error) {
+        await finishImportJob(jobId, 'FAILED');
+        throw error;
+      }
+      await finishImportJob(jobId, 'COMPLETED');
+
+      const { processed, skipped, failures, ownerIssues } = batchResult;
+      const totalSkipped = skippedRows.length + skipped;
 
-      if (totalSkipped > 0) {
+      if (failures.length > 0) {
+        toast.warning(`${processed} 件をインポートしました（${failures.length} 件が失敗、${totalSkipped} 件をスキップ）`);
+      } else if (totalSkipped > 0) {
         toast.success(`${processed} 件のインポートが完了しました（${totalSkipped} 件をスキップ）`);
       } else {
         toast.success(`${processed} 件のインポートが完了しました`);
       }
-      setLastImportCount(processed);
+      setLastImport({ processed, skipped: totalSkipped, failures, ownerIssues, jobId });
 
       // リセット
       setHeaders([]);
       setRows([]);
       setAllRows([]);
       setMap(createEmptyMap());
+      setCustomMap({});
+      setPreview(null);
     } catch (e: unknown) {
-      if (e instanceof Error) {
-        if (e.message === 'AUTH') return toast.error('セッションの有効期限が切れています。再度ログインしてください。');
-        if (e.message === 'FORBIDDEN') return toast.error('CSVインポートは管理者またはCS権限のみ利用できます。');
-        return toast.error(`インポートエラー: ${e.message}`);
-      }
-      toast.error(`インポートエラー: ${String(e)}`);
+      showImportError(e, 'インポートエラー');
     } finally {
       setIsImporting(false);
     }
   };
 
+  const toggleExcluded = (rowNumbers: number[], exclude: boolean) => {
+    setPreview((prev) => {
+      if (!prev) return prev;
+      const excluded = new Set(prev.excluded);
+      rowNumbers.forEach((rowNumber) => (exclude ? excluded.add(rowNumber) : excluded.delete(rowNumber)));
+      return { ...prev, excluded };
+    });
+  };
+
   const mappedFields = DB_FIELDS.filter(
     (f) => map[f.key] && (!Array.isArray(map[f.key]) || (map[f.key] as string[]).length > 0),
   );
+  const mappedCustomFields = customFieldDefinitions.filter((definition) => customMap[definition.key]);
+
+  const applyTemplate = (nextMap: ColumnMap, nextCustomMap: CustomColumnMap) => {
+    setMap(nextMap);
+    setCustomMap(nextCustomMap);
+  };
+
+  const fieldLabels = useMemo(
+    () =>
+      customFieldDefinitions.reduce<Record<string, string>>(
+        (acc, definition) => {
+          acc[`${CUSTOM_FIELD_PREFIX}${definition.key}`] = definition.label;
+          return acc;
+        },
+        { ...ACTIVITY_FIELD_LABELS },
+      ),
+    [customFieldDefinitions],
+  );
 
   return (
     <div className="space-y-8">
@@ -356,32 +626,53 @@ export default function CSVMapper() {
           <div className="space-y-2">
             <div className="flex items-center gap-2">
               <Badge variant="secondary" className="bg-purple-100 text-purple-700">STEP 1</Badge>
-              <CardTitle>CSVファイルをアップロード</CardTitle>
+              <CardTitle>CSV / Excel ファイルをアップロード</CardTitle>
             </div>
             <CardDescription className="leading-relaxed text-slate-600">
-              UTF-8 の CSV / TSV を読み込み、最初の行をヘッダーとして認識します。列名が空でも自動で列番号が割り当てられます。
+              CSV / TSV（UTF-8・Shift_JIS は自動判定）または Excel (.xlsx) を読み込み、最初の行をヘッダーとして認識します。列名が空でも自動で列番号が割り当てられます。
             </CardDescription>
           </div>
           <UploadCloud className="h-6 w-6 text-purple-600" />
         </CardHeader>
         <CardContent className="space-y-4">
           <div>
-            <Label htmlFor="csv-file" className="text-sm font-semibold text-slate-700">CSVファイルを選択</Label>
+            <Label htmlFor="csv-file" className="text-sm font-semibold text-slate-700">CSV / Excel ファイルを選択</Label>
             <Input
               id="csv-file"
               type="file"
-              accept=".csv,.tsv"
-              onChange={(e) => e.target.files && onFile(e.target.files[0])}
+              accept=".csv,.tsv,.xlsx"
+              onChange={(e) => e.target.files?.[0] && void onFile(e.target.files[0])}
               className="mt-2 bg-white"
             />
+            {sourceInfo && <p className="mt-1 text-xs text-slate-500">{sourceInfo}</p>}
           </div>
 
+          {xlsxBytes && sheets.length > 1 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold text-slate-700">シートを選択</Label>
+              <Select value={sheet} onValueChange={(value) => void onSheetChange(value)}>
+                <SelectTrigger className="w-full bg-white text-slate-900 border-slate-300 sm:w-72">
+                  <SelectValue placeholder="シートを選択" />
+                </SelectTrigger>
+                <SelectContent className="bg-white text-slate-900 border-slate-300">
+                  {sheets.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {allRows.length > 0 && (
             <div className="flex items-center gap-2 rounded-md border border-purple-100 bg-purple-50 px-3 py-2 text-sm text-purple-800">
               <Info className="h-4 w-4" />
               <span>{allRows.length} 行のデータが読み込まれました（最初の 200 行をプレビューします）</span>
             </div>
           )}
+
+          {lastImport && <ImportResultSummary result={lastImport} />}
         </CardContent>
       </Card>
 
@@ -401,6 +692,8 @@ export default function CSVMapper() {
             <ListChecks className="h-6 w-6 text-purple-600" />
           </CardHeader>
           <CardContent className="space-y-6">
+            <MappingTemplateBar key={`${fileName}:${sheet}`} headers={headers} mapping={mappingSnapshot} onApply={applyTemplate} />
+
             <div className="grid gap-4 lg:grid-cols-2">
               {DB_FIELDS.map((field) => {
                 const selected = map[field.key];
@@ -505,6 +798,60 @@ export default function CSVMapper() {
                 );
               })}
             </div>
+
+            {customFieldDefinitions.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-sm font-semibold text-slate-700">カスタム項目</p>
+                <div className="grid gap-4 lg:grid-cols-2">
+                  {customFieldDefinitions.map((definition) => {
+                    const selected = customMap[definition.key];
+                    return (
+                      <div
+                        key={definition.key}
+                        className="flex flex-col gap-3 rounded-xl border border-slate-200 bg-slate-50 p-4 shadow-sm"
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="flex flex-col">
+                            <span className="text-sm font-semibold text-slate-700">{definition.label}</span>
+                            <span className="text-xs text-slate-500">
+                              {selected ? headerLookup[selected]?.label ?? '（不明な列）' : '未選択'}
+                            </span>
+                          </div>
+                          {selected ? (
+                            <Badge variant="outline" className="border-green-300 bg-green-50 text-xs text-green-700">選択済み</Badge>
+                          ) : (
+                            <Badge variant="outline" className="border-slate-300 text-xs text-slate-500">未設定</Badge>
+                          )}
+                        </div>
+                        <Select
+                          value={selected}
+                          onValueChange={(value) => {
+                            setCustomMap((prev) => {
+                              const next = { ...prev };
+                              if (value === '__CLEAR__') delete next[definition.key];
+                              else next[definition.key] = value;
+                              return next;
+                            });
+                          }}
+                        >
+                          <SelectTrigger className="w-full bg-white text-slate-900 border-slate-300 placeholder:text-slate-400">
+                            <SelectValue placeholder="（単一列を選択）" />
+                          </SelectTrigger>
+                          <SelectContent className="bg-white text-slate-900 border-slate-300 placeholder:text-slate-400">
+                            <SelectItem value="__CLEAR__">（選択解除）</SelectItem>
+                            {headers.map((header) => (
+                              <SelectItem key={header.id} value={header.id}>
+                                {header.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -530,6 +877,9 @@ export default function CSVMapper() {
                     {mappedFields.map((f) => (
                       <th key={f.key} className="border border-slate-200 px-3 py-2">{f.label}</th>
                     ))}
+                    {mappedCustomFields.map((definition) => (
+                      <th key={definition.key} className="border border-slate-200 px-3 py-2">{definition.label}</th>
+                    ))}
                   </tr>
                 </thead>
                 <tbody>
@@ -558,6 +908,14 @@ export default function CSVMapper() {
                           </td>
                         );
                       })}
+                      {mappedCustomFields.map((definition) => {
+                        const header = headerLookup[customMap[definition.key] ?? ''];
+                        return (
+                          <td key={definition.key} className="border border-slate-200 px-3 py-2 text-sm text-slate-700">
+                            {header ? row[header.index] ?? '' : ''}
+                          </td>
+                        );
+                      })}
                     </tr>
                   ))}
                 </tbody>
@@ -575,18 +933,38 @@ export default function CSVMapper() {
             <div className="space-y-1">
               <div className="flex items-center gap-2">
                 <Badge variant="secondary" className="bg-purple-100 text-purple-700">STEP 4</Badge>
-                <CardTitle>インポートを実行</CardTitle>
+                <CardTitle>変更内容を確認してインポート</CardTitle>
               </div>
               <CardDescription className="text-slate-600">
-                インポートには管理者または CS 権限のアカウントが必要です。
+                先にプレビューで各行の登録 / 更新内容を確認してください。インポートには管理者または CS 権限のアカウントが必要です。
               </CardDescription>
             </div>
             <ShieldAlert className="h-6 w-6 text-purple-600" />
           </CardHeader>
           <CardContent className="space-y-4">
+            <Button
+              variant="outline"
+              onClick={handlePreview}
+              disabled={allRows.length === 0 || isPreviewing || isImporting}
+              className="w-full"
+            >
+              <Eye className="mr-2 h-4 w-4" />
+              {isPreviewing ? 'プレビュー作成中...' : previewIsCurrent ? 'プレビューを更新' : '変更内容をプレビュー'}
+            </Button>
+
+            {preview && !previewIsCurrent && (
+              <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                マッピングが変更されました。もう一度プレビューしてください。
+              </div>
+            )}
+
+            {preview && previewIsCurrent && (
+              <ImportPreviewPanel preview={preview} fieldLabels={fieldLabels} onToggleExcluded={toggleExcluded} />
+            )}
+
             <Button
               onClick={handleImport}
-              disabled={allRows.length === 0 || isImporting}
+              disabled={allRows.length === 0 || isImporting || isPreviewing || !previewIsCurrent}
               className="w-full bg-purple-600 hover:bg-purple-700"
             >
               {isImporting ? (
@@ -594,19 +972,220 @@ export default function CSVMapper() {
               ) : (
                 <span className="flex items-center justify-center">
                   <UploadCloud className="mr-2 h-4 w-4" />
-                  {allRows.length}件をインポート
+                  {previewIsCurrent && preview
+                    ? `${
+                        preview.items.filter(
+                          (item) => item.action !== 'INVALID' && !preview.excluded.has(item.rowNumber),
+                        ).length
+                      }件をインポート`
+                    : `${allRows.length}件をインポート`}
                 </span>
               )}
             </Button>
-
-            {lastImportCount !== null && (
-              <div className="rounded-md border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-700">
-                {lastImportCount} 件のレコードを登録 / 更新しました。
-              </div>
-            )}
           </CardContent>
         </Card>
       )}
     </div>
   );
 }
+
+function ImportResultSummary({ result }: { result: ImportResult }) {
+  const hasIssues = result.failures.length > 0 || result.skipped > 0;
+
+  return (
+    <div
+      className={`space-y-2 rounded-md border px-4 py-3 text-sm ${
+        result.failures.length > 0
+          ? 'border-amber-200 bg-amber-50 text-amber-800'
+          : 'border-green-200 bg-green-50 text-green-700'
+      }`}
+    >
+      <p>
+        {result.processed} 件のレコードを登録 / 更新しました。
+        {result.failures.length > 0 && ` ${result.failures.length} 件が失敗しました。`}
+        {result.skipped > 0 && ` ${result.skipped} 件をスキップしました。`}
+      </p>
+      {result.failures.length > 0 && (
+        <ul className="max-h-48 space-y-1 overflow-y-auto text-xs">
+          {result.failures.slice(0, FAILURE_PREVIEW_LIMIT).map((failure) => (
+            <li key={failure.rowNumber}>
+              {failure.rowNumber} 行目: {failure.reason}
+            </li>
+          ))}
+          {result.failures.length > FAILURE_PREVIEW_LIMIT && (
+            <li>...他 {result.failures.length - FAILURE_PREVIEW_LIMIT} 件</li>
+          )}
+        </ul>
+      )}
+      {result.ownerIssues.length > 0 && (
+        <div className="space-y-1 text-xs">
+          <p>
+            コンタクト担当者を担当CSに割り当てられなかった行が {result.ownerIssues.length} 件あります。
+            ユーザー管理で別名を整理してください。
+          </p>
+          <ul className="max-h-32 space-y-1 overflow-y-auto">
+            {result.ownerIssues.slice(0, FAILURE_PREVIEW_LIMIT).map((issue) => (
+              <li key={issue.rowNumber}>
+                {issue.rowNumber} 行目: {issue.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {hasIssues && result.jobId && (
+        <p className="text-xs">
+          失敗・スキップした行の一覧は
+          <Link href={`/admin/imports?job=${result.jobId}`} className="mx-1 underline">
+            インポート履歴
+          </Link>
+          から理由付きの CSV でダウンロードできます（管理者のみ）。
+        </p>
+      )}
+    </div>
+  );
+}
+
+const formatPreviewValue = (value: unknown) => {
+  if (isEmptyValue(value)) return '（空）';
+  if (typeof value === 'boolean') return value ? 'はい' : 'いいえ';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+function ImportPreviewPanel({
+  preview,
+  fieldLabels,
+  onToggleExcluded,
+}: {
+  preview: ImportPreview;
+  fieldLabels: Record<string, string>;
+  onToggleExcluded: (rowNumbers: number[], exclude: boolean) => void;
+}) {
+  const [filter, setFilter] = useState<ImportPreviewAction | 'ALL'>('ALL');
+
+  const counts = preview.items.reduce<Record<ImportPreviewAction, number>>(
+    (acc, item) => {
+      acc[item.action] += 1;
+      return acc;
+    },
+    { CREATE: 0, UPDATE: 0, UNCHANGED: 0, INVALID: 0 },
+  );
+  const overwriteRows = preview.items.filter(overwritesExisting).map((item) => item.rowNumber);
+  const visibleItems = preview.items.filter((item) => filter === 'ALL' || item.action === filter);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-200 bg-white p-4">
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant={filter === 'ALL' ? 'default' : 'outline'} onClick={() => setFilter('ALL')}>
+          すべて {preview.items.length}
+        </Button>
+        {(Object.keys(IMPORT_PREVIEW_ACTION_LABELS) as ImportPreviewAction[]).map((action) => (
+          <Button
+            key={action}
+            size="sm"
+            variant={filter === action ? 'default' : 'outline'}
+            onClick={() => setFilter(action)}
+          >
+            {IMPORT_PREVIEW_ACTION_LABELS[action]} {counts[action]}
+          </Button>
+        ))}
+      </div>
+
+      {overwriteRows.length > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          <span className="flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" />
+            既存の値を上書きする行が {overwriteRows.length} 件あります（黄色の項目）。
+          </span>
+          <Button size="sm" variant="outline" onClick={() => onToggleExcluded(overwriteRows, true)}>
+            上書きを含む行をすべて除外
+          </Button>
+        </div>
+      )}
+
+      <div className="max-h-[480px] overflow-auto">
+        <table className="w-full border-collapse text-sm">
+          <thead className="sticky top-0 bg-slate-100 text-left text-xs text-slate-600">
+            <tr>
+              <th className="px-3 py-2">取込</th>
+              <th className="px-3 py-2">行</th>
+              <th className="px-3 py-2">判定</th>
+              <th className="px-3 py-2">氏名</th>
+              <th className="px-3 py-2">変更内容</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleItems.slice(0, PREVIEW_DISPLAY_LIMIT).map((item) => {
+              const selectable = item.action !== 'INVALID';
+              const included = selectable && !preview.excluded.has(item.rowNumber);
+              const changes = Object.entries(item.changes ?? {});
+
+              return (
+                <tr
+                  key={item.rowNumber}
+                  className={`border-t border-slate-100 align-top ${included || !selectable ? '' : 'opacity-50'}`}
+                >
+                  <td className="px-3 py-2">
+                    {selectable && (
+                      <input
+                        type="checkbox"
+                        checked={included}
+                        onChange={(event) => onToggleExcluded([item.rowNumber], !event.target.checked)}
+                        aria-label={`${item.rowNumber}行目を取り込む`}
+                      />
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-slate-500">{item.rowNumber}</td>
+                  <td className="whitespace-nowrap px-3 py-2">
+                    <Badge variant="outline" className={`text-xs ${PREVIEW_ACTION_BADGE_CLASS[item.action]}`}>
+                      {IMPORT_PREVIEW_ACTION_LABELS[item.action]}
+                    </Badge>
+                  </td>
+                  <td className="px-3 py-2">
+                    {item.evangelistId ? (
+                      <Link href={`/evangelists/${item.evangelistId}`} target="_blank" className="hover:underline">
+                        {item.name || '（氏名なし）'}
+                      </Link>
+                    ) : (
+                      item.name || '（氏名なし）'
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-slate-600">
+                    {item.action === 'INVALID' ? (
+                      <span className="text-rose-700">{item.reason}</span>
+                    ) : item.action === 'CREATE' ? (
+                      <span>{changes.length} 項目を登録</span>
+                    ) : changes.length === 0 ? (
+                      <span>—</span>
+                    ) : (
+                      <ul className="space-y-1">
+                        {changes.map(([field, change]) => (
+                          <li
+                            key={field}
+                            className={isEmptyValue(change.before) ? '' : 'rounded bg-amber-50 px-1 text-amber-900'}
+                          >
+                            <span className="font-medium">{fieldLabels[field] ?? field}</span>:{' '}
+                            <span className="line-through">{formatPreviewValue(change.before)}</span> →{' '}
+                            <span>{formatPreviewValue(change.after)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {item.action !== 'INVALID' && item.reason && (
+                      <p className="mt-1 text-amber-700">{item.reason}</p>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {visibleItems.length > PREVIEW_DISPLAY_LIMIT && (
+        <p className="text-xs text-slate-500">
+          表示は先頭 {PREVIEW_DISPLAY_LIMIT} 行までです（他 {visibleItems.length - PREVIEW_DISPLAY_LIMIT} 行）。
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { CornerDownLeft, Loader2, Search } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import {
+  buildEvangelistActions,
+  filterPaletteActions,
+  PALETTE_RESULT_LABELS,
+  PALETTE_RESULT_TYPES,
+  type PaletteResult,
+  type PaletteRole,
+  type PaletteSearchResponse,
+} from '@/lib/command-palette';
+
+type PaletteEntry = {
+  key: string;
+  group: string;
+  label: string;
+  sublabel?: string | null;
+  href: string;
+};
+
+const EVANGELIST_PATH = /^\/evangelists\/([^/]+)$/;
+
+/** Ctrl+K（Mac は ⌘K）で開く横断検索・アクションのパレット */
+export default function CommandPalette({ role }: { role?: PaletteRole }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<PaletteResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [currentEvangelist, setCurrentEvangelist] = useState<{ id: string; name: string } | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!open) {
+      setQuery('');
+      setResults([]);
+      setActiveIndex(0);
+    }
+  }, [open]);
+
+  // エヴァ詳細で開いたときは、そのエヴァへのアクションを先頭に出す
+  const currentEvangelistId = pathname?.match(EVANGELIST_PATH)?.[1] ?? null;
+  useEffect(() => {
+    if (!open || !currentEvangelistId) {
+      setCurrentEvangelist(null);
+      return;
+    }
+    const controller = new AbortController();
+    const run = async () => {
+      try {
+        const response = await fetch(`/api/evangelists/${currentEvangelistId}`, {
+          credentials: 'include',
+          signal: controller.signal,
+        });
+        if (!response.ok) return;
+        const data = (await response.json()) as { id: string; lastName?: string | null; firstName?: string | null };
+        const name = [data.lastName, data.firstName].filter(Boolean).join(' ') || 'このエヴァ';
+        setCurrentEvangelist({ id: data.id, name });
+      } catch (error) {
+        if ((error as { name?: string })?.name === 'AbortError') return;
+        console.warn('Failed to load current evangelist:', error);
+      }
+    };
+    void run();
+    return () => controller.abort();
+  }, [currentEvangelistId, open]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!open || !trimmed) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(trimmed)}`, {
+          credentials: 'include',
+          signal: controller.signal,
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data = (await response.json()) as PaletteSearchResponse;
+        setResults(Array.isArray(data.results) ? data.results : []);
+      } catch (error) {
+        if ((error as { name?: string })?.name === 'AbortError') return;
+        console.error('Failed to search:', error);
+        setResults([]);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, 200);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [open, query]);
+
+  const entries = useMemo<PaletteEntry[]>(() => {
+    const list: PaletteEntry[] = [];
+
+    if (currentEvangelist) {
+      buildEvangelistActions(currentEvangelist).forEach((action) =>
+        list.push({ key: action.id, group: 'このエヴァ', label: action.label, href: action.href }),
+      );
+    }
+
+    filterPaletteActions(query, role).forEach((action) =>
+      list.push({ key: action.id, group: 'アクション', label: action.label, href: action.href }),
+    );
+
+    PALETTE_RESULT_TYPES.forEach((type) => {
+      const items = results.filter((result) => result.type === type);
+      items.forEach((result) =>
+        list.push({
+          key: `${type}-${result.id}`,
+          group: PALETTE_RESULT_LABELS[type],
+          label: result.title,
+          sublabel: result.subtitle,
+          href: result.href,
+        }),
+      );
+      // 一番上のエヴァには面談記録・ToDo 作成を出す
+      if (type === 'evangelist' && items[0] && items[0].id !== currentEvangelist?.id) {
+        buildEvangelistActions({ id: items[0].id, name: items[0].title }).forEach((action) =>
+          list.push({ key: action.id, group: PALETTE_RESULT_LABELS[type], label: action.label, href: action.href }),
+        );
+      }
+    });
+
+    return list;
+  }, [currentEvangelist, query, results, role]);
+
+  useEffect(() => {
+    setActiveIndex((prev) => (prev < entries.length ? prev : 0));
+  }, [entries.length]);
+
+  useEffect(() => {
+    listRef.current?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runEntry = (entry: PaletteEntry | undefined) => {
+    if (!entry) return;
+    setOpen(false);
+    router.push(entry.href);
+  };
+
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (entries.length === 0) return;
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex((prev) => (prev + 1) % entries.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex((prev) => (prev - 1 + entries.length) % entries.length);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      runEntry(entries[activeIndex]);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="border border-white/20 bg-white/10 text-white shadow-xs hover:bg-white/20"
+      >
+        <Search className="mr-2 h-4 w-4" />
+        検索
+        <kbd className="ml-2 rounded border border-white/30 px-1 text-[10px] text-white/80">Ctrl K</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="top-[20%] max-w-xl translate-y-0 gap-0 bg-white p-0" showCloseButton={false}>
+          <DialogTitle className="sr-only">コマンドパレット</DialogTitle>
+          <DialogDescription className="sr-only">エヴァ・イノベータ・ToDo などの検索と、画面の移動・作成ができます。</DialogDescription>
+          <div className="flex items-center gap-2 border-b border-slate-200 px-3">
+            <Search className="h-4 w-4 text-slate-400" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(event) => {
+                setQuery(event.target.value);
+                setActiveIndex(0);
+              }}
+              onKeyDown={handleInputKeyDown}
+              placeholder="エヴァ・イノベータ・ToDo を検索、または操作を入力..."
+              className="h-12 flex-1 bg-transparent text-sm text-slate-900 outline-none placeholder:text-slate-400"
+              aria-label="検索"
+            />
+            {loading && <Loader2 className="h-4 w-4 animate-spin text-slate-400" />}
+          </div>
+
+          <ul ref={listRef} className="max-h-96 overflow-y-auto py-2" role="listbox">
+            {entries.length === 0 ? (
+              <li className="px-4 py-6 text-center text-sm text-slate-500">
+                {loading ? '検索中...' : '該当するものがありません'}
+              </li>
+            ) : (
+              entries.map((entry, index) => (
+                <li key={entry.key} role="option" aria-selected={index === activeIndex}>
+                  {(index === 0 || entries[index - 1].group !== entry.group) && (
+                    <div className="px-4 pb-1 pt-2 text-xs font-medium text-slate-400">{entry.group}</div>
+                  )}
+                  <button
+                    type="button"
+                    data-index={index}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => runEntry(entry)}
+                    className={`flex w-full items-center justify-between gap-3 px-4 py-2 text-left text-sm ${
+                      index === activeIndex ? 'bg-purple-50 text-brand' : 'text-slate-700'
+                    }`}
+                  >
+                    <span className="min-w-0">
+                      <span className="block truncate">{entry.label}</span>
+                      {entry.sublabel && <span className="block truncate text-xs text-slate-500">{entry.sublabel}</span>}
+                    </span>
+                    {index === activeIndex && <CornerDownLeft className="h-3.5 w-3.5 shrink-0" />}
+                  </button>
+                </li>
+              ))
+            )}
+          </ul>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,7 +1,10 @@
 import { getSession } from '@/lib/session';
+import { prisma } from '@/lib/prisma';
+import { loadPinnedViews } from '@/lib/saved-views';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { CheckSquare, ClipboardList, Sparkles, Upload, Users, UserCheck } from 'lucide-react';
+import CommandPalette from '@/components/CommandPalette';
+import { Bookmark, CheckSquare, ClipboardList, Gauge, GitBranch, GitMerge, History, ListChecks, SlidersHorizontal, Sparkles, Tags, Upload, Users, UserCheck } from 'lucide-react';
 
 export default async function MainNav() {
   const session = await getSession();
@@ -11,6 +14,7 @@ export default async function MainNav() {
   }
 
   const userRole = session.role;
+  const pinnedViews = session.userId ? await loadPinnedViews(prisma, session.userId) : [];
 
   return (
     <nav className="w-full bg-brand text-white shadow-xs">
@@ -21,6 +25,8 @@ export default async function MainNav() {
         </Link>
 
         <div className="flex flex-wrap items-center justify-end gap-2">
+          <CommandPalette role={userRole} />
+
           <Link href="/evangelists">
             <Button
               variant="ghost"
@@ -32,6 +38,19 @@ export default async function MainNav() {
             </Button>
           </Link>
 
+          {pinnedViews.map((view) => (
+            <Link key={view.id} href={`/evangelists?view=${view.id}`}>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="border border-white/20 bg-white/10 text-white shadow-xs hover:bg-white/20"
+              >
+                <Bookmark className="mr-2 h-4 w-4" />
+                {view.name}
+              </Button>
+            </Link>
+          ))}
+
           <Link href="/todos">
             <Button
               variant="ghost"
@@ -68,6 +87,26 @@ export default async function MainNav() {
                       CSV一括反映
                     </Button>
                   </Link>
+                  <Link href="/admin/imports">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="border border-white/20 bg-white/10 text-white shadow-xs hover:bg-white/20"
+                    >
+                      <History className="mr-2 h-4 w-4" />
+                      インポート履歴
+                    </Button>
+                  </Link>
+                  <Link href="/admin/evangelists/duplicates">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="border border-white/20 bg-white/10 text-white shadow-xs hover:bg-white/20"
+                    >
+                      <GitMerge className="mr-2 h-4 w-4" />
+                      重複チェック
+                    </Button>
+                  </Link>
                   <Link href="/admin/introductions/required">
                     <Button
                       variant="ghost"
@@ -78,6 +117,56 @@ export default async function MainNav() {
                       紹介必須ルール
                     </Button>
                   </Link>
+                  <Link href="/admin/custom-fields">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="border border-white/20 bg-white/10 text-white shadow-xs hover:bg-white/20"
+                    >
+                      <SlidersHorizontal className="mr-2 h-4 w-4" />
+                      カスタム項目
+                    </Button>
+                  </Link>
+                  <Link href="/admin/picklists">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="border border-white/20 bg-white/10 text-white shadow-xs hover:bg-white/20"
+                    >
+                      <ListChecks className="mr-2 h-4 w-4" />
+                      選択肢管理
+                    </Button>
+                  </Link>
+                  <Link href="/admin/tags">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="border border-white/20 bg-white/10 text-white shadow-xs hover:bg-white/20"
+                    >
+                      <Tags className="mr-2 h-4 w-4" />
+                      タグ管理
+                    </Button>
+                  </Link>
+                  <Link href="/admin/completeness">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="border border-white/20 bg-white/10 text-white shadow-xs hover:bg-white/20"
+                    >
+                      <Gauge className="mr-2 h-4 w-4" />
+                      充足度設定
+                    </Button>
+                  </Link>
+                  <Link href="/admin/phase-transitions">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="border border-white/20 bg-white/10 text-white shadow-xs hover:bg-white/20"
+                    >
+                      <GitBranch className="mr-2 h-4 w-4" />
+                      遷移ルール
+                    </Button>
+                  </Link>
                   <Link href="/admin/users">
                     <Button
                       variant="ghost"
@@ -0,0 +1,246 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { BookmarkPlus, Sparkles } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  DB_FIELDS,
+  MULTI_VALUE_FIELDS,
+  normalizeHeaderName,
+  scoreTemplateMatch,
+  type FieldKey,
+  type MappingTemplateColumns,
+} from '@/lib/import-fields'
+import { CUSTOM_FIELD_PREFIX } from '@/lib/custom-fields'
+
+export type MappingTemplate = {
+  id: string
+  name: string
+  shared: boolean
+  mapping: MappingTemplateColumns
+  headers: string[] | null
+  ownerId: string | null
+  owner: { id: string; name: string } | null
+  updatedAt: string
+}
+
+type HeaderRef = { id: string; label: string }
+
+export type ColumnMap = Record<FieldKey, string | string[] | undefined>
+
+// カスタム項目の key → CSV の列 ID
+export type CustomColumnMap = Record<string, string | undefined>
+
+type MappingTemplateBarProps = {
+  headers: HeaderRef[]
+  mapping: MappingTemplateColumns
+  onApply: (map: ColumnMap, customMap: CustomColumnMap) => void
+}
+
+// 参照列がすべてヘッダに存在するテンプレートだけを自動提案する
+const SUGGEST_MIN_SCORE = 1
+
+/** テンプレート（列名ベース）を現在の CSV の列 ID に置き換える */
+function resolveTemplate(template: MappingTemplate, headers: HeaderRef[]) {
+  const idByName = new Map<string, string>()
+  headers.forEach((header) => {
+    const key = normalizeHeaderName(header.label)
+    if (!idByName.has(key)) idByName.set(key, header.id)
+  })
+
+  const missing: string[] = []
+  const next = DB_FIELDS.reduce<ColumnMap>((acc, field) => {
+    acc[field.key] = undefined
+    return acc
+  }, {} as ColumnMap)
+
+  DB_FIELDS.forEach((field) => {
+    const value = template.mapping[field.key]
+    if (!value) return
+    const names = Array.isArray(value) ? value : [value]
+    const ids = names
+      .map((name) => {
+        const id = idByName.get(normalizeHeaderName(name))
+        if (!id) missing.push(name)
+        return id
+      })
+      .filter((id): id is string => Boolean(id))
+    if (ids.length === 0) return
+    next[field.key] = Array.isArray(value) && MULTI_VALUE_FIELDS.has(field.key) ? ids : ids[0]
+  })
+
+  const customMap: CustomColumnMap = {}
+  Object.entries(template.mapping).forEach(([target, value]) => {
+    if (!target.startsWith(CUSTOM_FIELD_PREFIX) || typeof value !== 'string') return
+    const id = idByName.get(normalizeHeaderName(value))
+    if (id) customMap[target.slice(CUSTOM_FIELD_PREFIX.length)] = id
+    else missing.push(value)
+  })
+
+  return { map: next, customMap, missing }
+}
+
+export function MappingTemplateBar({ headers, mapping, onApply }: MappingTemplateBarProps) {
+  const [templates, setTemplates] = useState<MappingTemplate[]>([])
+  const [selectedId, setSelectedId] = useState<string | undefined>(undefined)
+  const [appliedId, setAppliedId] = useState<string | null>(null)
+  const [dismissedId, setDismissedId] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [shared, setShared] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const res = await fetch('/api/evangelists/import/templates', { credentials: 'include', cache: 'no-store' })
+      if (!res.ok) return
+      const data = (await res.json()) as { items?: MappingTemplate[] }
+      setTemplates(Array.isArray(data.items) ? data.items : [])
+    } catch (error) {
+      console.warn('Failed to load mapping templates:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    void loadTemplates()
+  }, [loadTemplates])
+
+  const headerNames = useMemo(() => headers.map((header) => header.label), [headers])
+
+  const ranked = useMemo(
+    () =>
+      templates
+        .map((template) => ({ template, score: scoreTemplateMatch(template.mapping, headerNames) }))
+        .sort((a, b) => b.score - a.score),
+    [templates, headerNames],
+  )
+
+  const suggestion = ranked.find(
+    ({ template, score }) =>
+      score >= SUGGEST_MIN_SCORE && template.id !== appliedId && template.id !== dismissedId,
+  )?.template
+
+  const applyTemplate = (template: MappingTemplate) => {
+    const { map, customMap, missing } = resolveTemplate(template, headers)
+    onApply(map, customMap)
+    setAppliedId(template.id)
+    setSelectedId(template.id)
+    if (missing.length > 0) {
+      toast.warning(`テンプレート「${template.name}」を適用しました（見つからない列: ${missing.join(', ')}）`)
+    } else {
+      toast.success(`テンプレート「${template.name}」を適用しました`)
+    }
+  }
+
+  const handleSave = async () => {
+    const trimmed = name.trim()
+    if (!trimmed) {
+      toast.error('テンプレート名を入力してください')
+      return
+    }
+    if (Object.keys(mapping).length === 0) {
+      toast.error('保存するマッピングがありません')
+      return
+    }
+
+    try {
+      setSaving(true)
+      const res = await fetch('/api/evangelists/import/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ name: trimmed, shared, mapping, headers: headerNames }),
+      })
+      const data = await res.json().catch(() => null)
+      if (!res.ok) {
+        throw new Error(typeof data?.error === 'string' ? data.error : 'テンプレートの保存に失敗しました')
+      }
+      const created = data as MappingTemplate
+      setTemplates((prev) => [created, ...prev])
+      setAppliedId(created.id)
+      setSelectedId(created.id)
+      setName('')
+      toast.success(`テンプレート「${created.name}」を保存しました`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'テンプレートの保存に失敗しました')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const selectedTemplate = templates.find((template) => template.id === selectedId)
+
+  return (
+    <div className="space-y-3 rounded-xl border border-purple-100 bg-purple-50/60 p-4">
+      {suggestion && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-purple-200 bg-white px-3 py-2 text-sm text-purple-800">
+          <span className="flex items-center gap-2">
+            <Sparkles className="h-4 w-4" />
+            テンプレート「{suggestion.name}」がこの CSV のヘッダと一致します
+          </span>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => applyTemplate(suggestion)} className="bg-purple-600 hover:bg-purple-700">
+              適用する
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setDismissedId(suggestion.id)}>
+              閉じる
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-3 lg:flex-row lg:items-end">
+        <div className="flex flex-1 flex-col gap-1">
+          <span className="text-xs font-semibold text-slate-600">保存済みテンプレート</span>
+          <div className="flex gap-2">
+            <Select value={selectedId} onValueChange={setSelectedId}>
+              <SelectTrigger className="w-full bg-white">
+                <SelectValue placeholder={templates.length > 0 ? 'テンプレートを選択' : 'テンプレートはまだありません'} />
+              </SelectTrigger>
+              <SelectContent className="bg-white">
+                {ranked.map(({ template, score }) => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.name}
+                    {template.shared ? '（共有）' : ''}
+                    {` 一致 ${Math.round(score * 100)}%`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              disabled={!selectedTemplate}
+              onClick={() => selectedTemplate && applyTemplate(selectedTemplate)}
+            >
+              適用
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 flex-col gap-1">
+          <span className="text-xs font-semibold text-slate-600">現在のマッピングを保存</span>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="例: CRMエクスポート標準"
+              className="min-w-[12rem] flex-1 bg-white"
+              maxLength={100}
+            />
+            <label className="flex items-center gap-1 text-xs text-slate-600">
+              <input type="checkbox" checked={shared} onChange={(event) => setShared(event.target.checked)} />
+              チームで共有
+            </label>
+            <Button variant="outline" onClick={handleSave} disabled={saving}>
+              <BookmarkPlus className="mr-1 h-4 w-4" />
+              {saving ? '保存中...' : '保存'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
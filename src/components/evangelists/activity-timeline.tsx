@@ -0,0 +1,185 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Calendar, History, MessageSquare } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import type { MeetingRecord } from "@/components/evangelists/meeting-form"
+import { useCustomFieldDefinitions } from "@/components/evangelists/custom-field-inputs"
+import { CUSTOM_FIELD_PREFIX } from "@/lib/custom-fields"
+import {
+  ACTIVITY_ACTION_LABELS,
+  ACTIVITY_FIELD_LABELS,
+  ACTIVITY_SOURCE_LABELS,
+  type ActivityChanges,
+  type ActivitySourceValue,
+} from "@/lib/evangelist-activity"
+import { mapEvangelistPhase, EVANGELIST_PHASE_LABELS } from "@/lib/evangelist-phase"
+
+type ActivityRecord = {
+  id: string
+  source: ActivitySourceValue
+  action: string
+  changes: ActivityChanges
+  createdAt: string
+  actor: { id: string; name: string } | null
+}
+
+type TimelineItem =
+  | { kind: "meeting"; at: number; meeting: MeetingRecord }
+  | { kind: "activity"; at: number; activity: ActivityRecord }
+
+type ActivityTimelineProps = {
+  evangelistId: string
+  meetings: MeetingRecord[]
+  /** 親側で更新があったときに再取得するためのキー */
+  refreshKey?: string | null
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T/
+
+export function ActivityTimeline({ evangelistId, meetings, refreshKey }: ActivityTimelineProps) {
+  const [activities, setActivities] = useState<ActivityRecord[]>([])
+  const [userNames, setUserNames] = useState<Record<string, string>>({})
+  const customFieldDefinitions = useCustomFieldDefinitions()
+  const fieldLabels = useMemo(
+    () =>
+      customFieldDefinitions.reduce<Record<string, string>>(
+        (acc, definition) => {
+          acc[`${CUSTOM_FIELD_PREFIX}${definition.key}`] = definition.label
+          return acc
+        },
+        { ...ACTIVITY_FIELD_LABELS },
+      ),
+    [customFieldDefinitions],
+  )
+
+  const loadActivities = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/evangelists/${evangelistId}/activities`, { credentials: "include" })
+      if (!response.ok) return
+      const data = (await response.json().catch(() => null)) as {
+        items?: ActivityRecord[]
+        userNames?: Record<string, string>
+      } | null
+      setActivities(Array.isArray(data?.items) ? data.items : [])
+      setUserNames(data?.userNames ?? {})
+    } catch (error) {
+      console.error("Failed to load activities", error)
+    }
+  }, [evangelistId])
+
+  useEffect(() => {
+    void loadActivities()
+  }, [loadActivities, refreshKey, meetings.length])
+
+  const items = useMemo<TimelineItem[]>(() => {
+    const merged: TimelineItem[] = [
+      ...meetings.map((meeting) => ({
+        kind: "meeting" as const,
+        at: new Date(meeting.date).getTime(),
+        meeting,
+      })),
+      // 差分の無い面談記録の履歴は面談カードと重複するため除外
+      ...activities
+        .filter((activity) => activity.action !== "MEETING_CREATED" || Object.keys(activity.changes).length > 0)
+        .map((activity) => ({
+          kind: "activity" as const,
+          at: new Date(activity.createdAt).getTime(),
+          activity,
+        })),
+    ]
+    return merged.sort((a, b) => b.at - a.at)
+  }, [activities, meetings])
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === "") return "未設定"
+    if (field === "assignedCsId" && typeof value === "string") return userNames[value] ?? value
+    if (field === "managementPhase") {
+      const phase = mapEvangelistPhase(value)
+      return phase ? EVANGELIST_PHASE_LABELS[phase] : String(value)
+    }
+    if (typeof value === "boolean") return value ? "済" : "未"
+    if (typeof value === "string" && ISO_DATE_PATTERN.test(value)) {
+      return new Date(value).toLocaleDateString("ja-JP")
+    }
+    return String(value)
+  }
+
+  if (items.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          <MessageSquare className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>まだ面談記録がありません</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {items.map((item) =>
+        item.kind === "meeting" ? (
+          <Card key={`meeting-${item.meeting.id}`}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Calendar className="h-4 w-4" />
+                  {new Date(item.meeting.date).toLocaleDateString("ja-JP")}
+                  {item.meeting.isFirst && (
+                    <Badge variant="secondary" className="text-xs">初回</Badge>
+                  )}
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">{item.meeting.contactMethod}</p>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {item.meeting.summary && (
+                <div>
+                  <h4 className="font-medium mb-2">面談サマリー</h4>
+                  <p className="text-sm whitespace-pre-wrap">{item.meeting.summary}</p>
+                </div>
+              )}
+              {item.meeting.nextActions && (
+                <div>
+                  <h4 className="font-medium mb-2">次回アクション</h4>
+                  <p className="text-sm whitespace-pre-wrap">{item.meeting.nextActions}</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div
+            key={`activity-${item.activity.id}`}
+            className="rounded-lg border border-dashed border-slate-200 bg-slate-50 px-3 py-2 text-sm"
+          >
+            <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+              <History className="h-3.5 w-3.5" />
+              <span>{new Date(item.activity.createdAt).toLocaleString("ja-JP")}</span>
+              <Badge variant="outline" className="text-[10px]">
+                {ACTIVITY_ACTION_LABELS[item.activity.action] ?? item.activity.action}
+              </Badge>
+              <span>{ACTIVITY_SOURCE_LABELS[item.activity.source] ?? item.activity.source}</span>
+              <span>{item.activity.actor?.name ?? "—"}</span>
+            </div>
+            {Object.keys(item.activity.changes).length > 0 && (
+              <ul className="mt-1 space-y-0.5 text-slate-700">
+                {Object.entries(item.activity.changes).map(([field, change]) => (
+                  <li key={field}>
+                    <span className="font-medium">{fieldLabels[field] ?? field}</span>:{" "}
+                    <span className="text-slate-500">{formatValue(field, change.before)}</span> →{" "}
+                    {formatValue(field, change.after)}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ),
+      )}
+    </div>
+  )
+}
+
+export default ActivityTimeline
@@ -0,0 +1,144 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { ARCHIVE_REASON_PRESETS } from "@/lib/evangelist-archive"
+
+/** アーカイブ理由の入力（候補ボタン＋自由入力） */
+export function ArchiveReasonInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <div className="space-y-2">
+      <Label>アーカイブの理由</Label>
+      <div className="flex flex-wrap gap-2">
+        {ARCHIVE_REASON_PRESETS.map((preset) => (
+          <Button
+            key={preset}
+            type="button"
+            size="sm"
+            variant={value === preset ? "default" : "outline"}
+            onClick={() => onChange(preset)}
+          >
+            {preset}
+          </Button>
+        ))}
+      </div>
+      <Textarea
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        placeholder="理由を入力してください"
+        maxLength={500}
+        className="border border-slate-300 bg-white text-slate-900"
+      />
+    </div>
+  )
+}
+
+type ArchiveEvangelistDialogProps = {
+  evangelist: { id: string; name: string } | null
+  onOpenChange: (open: boolean) => void
+  onArchived: (id: string) => void
+}
+
+/** 1 件のEVAを理由つきでアーカイブする */
+export function ArchiveEvangelistDialog({ evangelist, onOpenChange, onArchived }: ArchiveEvangelistDialogProps) {
+  const [reason, setReason] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (evangelist) setReason("")
+  }, [evangelist])
+
+  const handleSubmit = async () => {
+    if (!evangelist) return
+    if (!reason.trim()) {
+      toast.error("アーカイブの理由を入力してください")
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const res = await fetch(`/api/evangelists/${evangelist.id}`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ reason: reason.trim() }),
+      })
+      if (res.status === 401) {
+        window.location.href = "/login"
+        return
+      }
+      if (!res.ok) {
+        const data = await res.json().catch(() => null)
+        throw new Error(data?.error === "Already archived" ? "すでにアーカイブされています" : "アーカイブに失敗しました")
+      }
+      toast.success("アーカイブしました")
+      onOpenChange(false)
+      onArchived(evangelist.id)
+    } catch (error) {
+      console.error("Failed to archive evangelist:", error)
+      toast.error(error instanceof Error ? error.message : "アーカイブに失敗しました")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={evangelist !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg bg-white">
+        <DialogHeader>
+          <DialogTitle>アーカイブ</DialogTitle>
+          <DialogDescription>
+            {evangelist?.name} を一覧・集計から外します。面談などの履歴は残り、アーカイブ一覧からいつでも復元できます。
+          </DialogDescription>
+        </DialogHeader>
+
+        <ArchiveReasonInput value={reason} onChange={setReason} />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            キャンセル
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting} className="bg-red-600 text-white hover:bg-red-700">
+            {submitting ? "処理中..." : "アーカイブ"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+/** アーカイブ済みのEVAを復元する。成功したら true */
+export async function restoreEvangelist(id: string) {
+  try {
+    const res = await fetch(`/api/evangelists/${id}/restore`, { method: "POST", credentials: "include" })
+    if (!res.ok) throw new Error(`HTTP ${res.status}`)
+    toast.success("復元しました")
+    return true
+  } catch (error) {
+    console.error("Failed to restore evangelist:", error)
+    toast.error("復元に失敗しました")
+    return false
+  }
+}
+
+/** アーカイブ済みのEVAを完全に削除する（管理者のみ）。成功したら true */
+export async function purgeEvangelist(id: string, name: string) {
+  if (!window.confirm(`${name} を完全に削除します。面談・紹介実績も削除され、元に戻せません。よろしいですか？`)) {
+    return false
+  }
+  try {
+    const res = await fetch(`/api/admin/evangelists/${id}/purge`, { method: "DELETE", credentials: "include" })
+    if (!res.ok) throw new Error(`HTTP ${res.status}`)
+    toast.success("完全に削除しました")
+    return true
+  } catch (error) {
+    console.error("Failed to purge evangelist:", error)
+    toast.error("完全削除に失敗しました")
+    return false
+  }
+}
@@ -0,0 +1,28 @@
+import { Badge } from "@/components/ui/badge"
+import {
+  COMPLETENESS_FIELD_LABELS,
+  COMPLETENESS_INCOMPLETE_BELOW,
+  type CompletenessResult,
+} from "@/lib/evangelist-completeness"
+
+function badgeClassName(score: number) {
+  if (score >= 80) return "border-emerald-200 bg-emerald-50 text-emerald-700"
+  if (score >= COMPLETENESS_INCOMPLETE_BELOW) return "border-amber-200 bg-amber-50 text-amber-800"
+  return "border-red-200 bg-red-50 text-red-700"
+}
+
+/** 入力充足度のバッジ（ホバーで未入力の項目を表示） */
+export function CompletenessBadge({ completeness }: { completeness?: CompletenessResult | null }) {
+  if (!completeness) return null
+  const missing = completeness.missing.map((field) => COMPLETENESS_FIELD_LABELS[field]).join("、")
+
+  return (
+    <Badge
+      variant="outline"
+      className={badgeClassName(completeness.score)}
+      title={missing ? `未入力: ${missing}` : "必要な項目はすべて入力済みです"}
+    >
+      充足度 {completeness.score}%
+    </Badge>
+  )
+}
@@ -0,0 +1,271 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { PhoneOutgoing } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  CONTACT_ATTEMPT_OUTCOME_LABELS,
+  CONTACT_ATTEMPT_OUTCOME_VALUES,
+  CONTACT_CHANNEL_LABELS,
+  CONTACT_CHANNEL_VALUES,
+  UNANSWERED_ATTEMPT_LIMIT,
+  type ContactAttemptItem,
+  type ContactAttemptOutcomeValue,
+  type ContactChannelValue,
+  type ContactSummary,
+} from "@/lib/contact-attempts"
+
+const isContactChannel = (value?: string | null): value is ContactChannelValue =>
+  (CONTACT_CHANNEL_VALUES as readonly string[]).includes(value ?? "")
+
+/** 未返信が続いているEVAの印（上限に達したものだけ表示） */
+export function UnansweredBadge({ summary }: { summary?: ContactSummary | null }) {
+  if (!summary?.flagged) return null
+  return (
+    <Badge
+      variant="outline"
+      className="border-red-200 bg-red-50 text-red-700"
+      title={`最後の返信・面談から${summary.unanswered}回連続で返信がありません`}
+    >
+      未返信 {summary.unanswered}回
+    </Badge>
+  )
+}
+
+type ContactAttemptDialogProps = {
+  evangelist: { id: string; name: string; contactMethod?: string | null } | null
+  onOpenChange: (open: boolean) => void
+  onLogged: (attempt: ContactAttemptItem, summary: ContactSummary) => void
+}
+
+/** 連絡の記録（手段と結果を選ぶだけで登録できる） */
+export function ContactAttemptDialog({ evangelist, onOpenChange, onLogged }: ContactAttemptDialogProps) {
+  const [channel, setChannel] = useState<ContactChannelValue>("LINE")
+  const [outcome, setOutcome] = useState<ContactAttemptOutcomeValue>("NO_RESPONSE")
+  const [attemptedAt, setAttemptedAt] = useState("")
+  const [note, setNote] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  const targetId = evangelist?.id
+  const preferredChannel = evangelist?.contactMethod
+
+  useEffect(() => {
+    if (!targetId) return
+    // 希望の連絡手段があればそれを初期値にする
+    setChannel(isContactChannel(preferredChannel) ? preferredChannel : "LINE")
+    setOutcome("NO_RESPONSE")
+    setAttemptedAt("")
+    setNote("")
+  }, [targetId, preferredChannel])
+
+  const handleSubmit = async () => {
+    if (!evangelist) return
+    try {
+      setSubmitting(true)
+      const res = await fetch(`/api/evangelists/${evangelist.id}/contact-attempts`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          channel,
+          outcome,
+          attemptedAt: attemptedAt ? new Date(attemptedAt).toISOString() : undefined,
+          note: note.trim() || null,
+        }),
+      })
+      if (res.status === 401) {
+        window.location.href = "/login"
+        return
+      }
+      const data = await res.json().catch(() => null)
+      if (!res.ok) {
+        throw new Error(data?.error === "Evangelist is archived" ? "アーカイブ済みのEVAです" : "連絡の記録に失敗しました")
+      }
+      const { attempt, summary } = data as { attempt: ContactAttemptItem; summary: ContactSummary }
+      toast.success(
+        summary.flagged
+          ? `記録しました（${summary.unanswered}回連続で返信がありません）`
+          : "連絡を記録しました",
+      )
+      onOpenChange(false)
+      onLogged(attempt, summary)
+    } catch (error) {
+      console.error("Failed to log contact attempt:", error)
+      toast.error(error instanceof Error ? error.message : "連絡の記録に失敗しました")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={evangelist !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg bg-white">
+        <DialogHeader>
+          <DialogTitle>連絡を記録</DialogTitle>
+          <DialogDescription>
+            {evangelist?.name} への連絡を記録します。会話できた場合は面談記録に残してください。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>連絡手段</Label>
+            <div className="flex flex-wrap gap-2">
+              {CONTACT_CHANNEL_VALUES.map((value) => (
+                <Button
+                  key={value}
+                  type="button"
+                  size="sm"
+                  variant={channel === value ? "default" : "outline"}
+                  onClick={() => setChannel(value)}
+                >
+                  {CONTACT_CHANNEL_LABELS[value]}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>結果</Label>
+            <div className="flex flex-wrap gap-2">
+              {CONTACT_ATTEMPT_OUTCOME_VALUES.map((value) => (
+                <Button
+                  key={value}
+                  type="button"
+                  size="sm"
+                  variant={outcome === value ? "default" : "outline"}
+                  onClick={() => setOutcome(value)}
+                >
+                  {CONTACT_ATTEMPT_OUTCOME_LABELS[value]}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>日時（空欄なら現在）</Label>
+            <Input
+              type="datetime-local"
+              value={attemptedAt}
+              onChange={(event) => setAttemptedAt(event.target.value)}
+              className="border border-slate-300 bg-white text-slate-900"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>メモ</Label>
+            <Textarea
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              maxLength={500}
+              rows={2}
+              className="border border-slate-300 bg-white text-slate-900"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            キャンセル
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting} className="bg-brand text-white hover:bg-brand-600">
+            {submitting ? "記録中..." : "記録"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+type ContactAttemptsSectionProps = {
+  evangelist: { id: string; name: string; contactMethod?: string | null }
+  /** アーカイブ済みなど記録できないとき */
+  readOnly?: boolean
+  /** 面談の記録などで未返信の数え直しが必要になったときに変えるキー */
+  refreshKey?: string
+}
+
+/** 詳細画面の連絡記録（未返信が続いていれば警告を出す） */
+export function ContactAttemptsSection({ evangelist, readOnly = false, refreshKey }: ContactAttemptsSectionProps) {
+  const [items, setItems] = useState<ContactAttemptItem[] | null>(null)
+  const [summary, setSummary] = useState<ContactSummary | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+
+  const loadAttempts = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/evangelists/${evangelist.id}/contact-attempts`, { credentials: "include" })
+      if (!response.ok) {
+        throw new Error("連絡記録の取得に失敗しました")
+      }
+      const data = (await response.json()) as { items: ContactAttemptItem[]; summary: ContactSummary }
+      setItems(data.items)
+      setSummary(data.summary)
+    } catch (error) {
+      console.error("Failed to load contact attempts", error)
+      toast.error(error instanceof Error ? error.message : "連絡記録の取得に失敗しました")
+    }
+  }, [evangelist.id])
+
+  useEffect(() => {
+    void loadAttempts()
+  }, [loadAttempts, refreshKey])
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <PhoneOutgoing className="h-5 w-5" />
+          連絡記録
+          <UnansweredBadge summary={summary} />
+        </CardTitle>
+        {!readOnly && (
+          <Button size="sm" variant="outline" onClick={() => setDialogOpen(true)}>
+            + 連絡を記録
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {summary?.flagged && (
+          <p className="rounded-md bg-red-50 px-3 py-2 text-sm text-red-700">
+            {summary.unanswered}回連続で返信がありません（{UNANSWERED_ATTEMPT_LIMIT}回で表示）。追客を続けるか見直してください。
+          </p>
+        )}
+        {!items ? (
+          <p className="text-sm text-muted-foreground">読み込み中...</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">連絡記録はまだありません</p>
+        ) : (
+          <ul className="space-y-2 text-sm">
+            {items.map((item) => (
+              <li key={item.id} className="flex flex-wrap items-center gap-2 border-b border-slate-100 pb-2">
+                <span className="text-xs text-slate-500">{new Date(item.attemptedAt).toLocaleString("ja-JP")}</span>
+                <Badge variant="outline">{CONTACT_CHANNEL_LABELS[item.channel]}</Badge>
+                <span className={item.outcome === "REPLIED" ? "text-emerald-700" : "text-slate-700"}>
+                  {CONTACT_ATTEMPT_OUTCOME_LABELS[item.outcome]}
+                </span>
+                <span className="text-xs text-slate-500">{item.createdBy?.name ?? "—"}</span>
+                {item.note && <span className="w-full text-xs text-slate-600">{item.note}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <ContactAttemptDialog
+        evangelist={dialogOpen ? evangelist : null}
+        onOpenChange={setDialogOpen}
+        onLogged={(attempt, nextSummary) => {
+          setItems((prev) =>
+            [attempt, ...(prev ?? [])].sort((a, b) => b.attemptedAt.localeCompare(a.attemptedAt)),
+          )
+          setSummary(nextSummary)
+        }}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,237 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  CUSTOM_FIELD_PREFIX,
+  toCustomFieldValues,
+  type CustomFieldDefinition,
+} from "@/lib/custom-fields"
+
+// フォーム上は文字列（複数選択は配列）で持ち、送信時に API 側で型変換・検証する
+export type CustomFieldFormValues = Record<string, string | string[]>
+
+export function useCustomFieldDefinitions() {
+  const [definitions, setDefinitions] = useState<CustomFieldDefinition[]>([])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const load = async () => {
+      try {
+        const res = await fetch("/api/evangelists/custom-fields", {
+          credentials: "include",
+          cache: "no-store",
+          signal: controller.signal,
+        })
+        if (!res.ok) return
+        const data = (await res.json()) as { items?: CustomFieldDefinition[] }
+        setDefinitions(Array.isArray(data.items) ? data.items : [])
+      } catch (error) {
+        if ((error as { name?: string })?.name === "AbortError") return
+        console.warn("Failed to load custom fields:", error)
+      }
+    }
+    void load()
+    return () => controller.abort()
+  }, [])
+
+  return definitions
+}
+
+export function toCustomFieldFormValues(definitions: CustomFieldDefinition[], stored: unknown) {
+  const values = toCustomFieldValues(stored)
+  return definitions.reduce<CustomFieldFormValues>((acc, definition) => {
+    const value = values[definition.key]
+    if (value === undefined) {
+      acc[definition.key] = definition.type === "MULTI_SELECT" ? [] : ""
+    } else if (Array.isArray(value)) {
+      acc[definition.key] = value
+    } else {
+      acc[definition.key] = String(value)
+    }
+    return acc
+  }, {})
+}
+
+/** PUT /api/evangelists/[id] の customFields に渡す形（空は null = 削除） */
+export function toCustomFieldPayload(definitions: CustomFieldDefinition[], values: CustomFieldFormValues) {
+  return definitions.reduce<Record<string, string | string[] | null>>((acc, definition) => {
+    const value = values[definition.key]
+    if (value === undefined) return acc
+    acc[definition.key] = Array.isArray(value) ? value : value.trim() ? value : null
+    return acc
+  }, {})
+}
+
+/** 一覧・ボード・エクスポートの検索パラメータにカスタム項目の絞り込みを追加する */
+export function appendCustomFieldParams(params: URLSearchParams, filters?: Record<string, string>) {
+  Object.entries(filters ?? {}).forEach(([key, value]) => {
+    if (value.trim()) params.set(`${CUSTOM_FIELD_PREFIX}${key}`, value.trim())
+  })
+}
+
+const selectClassName = "w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900"
+
+type CustomFieldInputsProps = {
+  definitions: CustomFieldDefinition[]
+  values: CustomFieldFormValues
+  onChange: (key: string, value: string | string[]) => void
+  idPrefix?: string
+}
+
+export function CustomFieldInputs({ definitions, values, onChange, idPrefix = "custom-field" }: CustomFieldInputsProps) {
+  if (definitions.length === 0) return null
+
+  return (
+    <div className="space-y-4">
+      {definitions.map((definition) => {
+        const id = `${idPrefix}-${definition.key}`
+        const value = values[definition.key]
+        const text = typeof value === "string" ? value : ""
+        const label = (
+          <Label htmlFor={id}>
+            {definition.label}
+            {definition.required && <span className="ml-1 text-red-500">*</span>}
+          </Label>
+        )
+
+        switch (definition.type) {
+          case "MULTI_SELECT": {
+            const selected = Array.isArray(value) ? value : []
+            return (
+              <div key={definition.key} className="space-y-2">
+                {label}
+                <div id={id} className="flex flex-wrap gap-3">
+                  {definition.options.map((option) => (
+                    <label key={option} className="flex items-center gap-1 text-sm text-slate-700">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(option)}
+                        onChange={(event) =>
+                          onChange(
+                            definition.key,
+                            event.target.checked
+                              ? [...selected, option]
+                              : selected.filter((item) => item !== option),
+                          )
+                        }
+                      />
+                      {option}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )
+          }
+          case "SINGLE_SELECT":
+            return (
+              <div key={definition.key} className="space-y-2">
+                {label}
+                <select
+                  id={id}
+                  value={text}
+                  onChange={(event) => onChange(definition.key, event.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">未設定</option>
+                  {definition.options.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )
+          case "BOOLEAN":
+            return (
+              <div key={definition.key} className="space-y-2">
+                {label}
+                <select
+                  id={id}
+                  value={text}
+                  onChange={(event) => onChange(definition.key, event.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">未設定</option>
+                  <option value="true">はい</option>
+                  <option value="false">いいえ</option>
+                </select>
+              </div>
+            )
+          default:
+            return (
+              <div key={definition.key} className="space-y-2">
+                {label}
+                <Input
+                  id={id}
+                  type={definition.type === "NUMBER" ? "number" : definition.type === "DATE" ? "date" : "text"}
+                  value={text}
+                  min={definition.minValue ?? undefined}
+                  max={definition.maxValue ?? undefined}
+                  maxLength={definition.maxLength ?? undefined}
+                  onChange={(event) => onChange(definition.key, event.target.value)}
+                />
+              </div>
+            )
+        }
+      })}
+    </div>
+  )
+}
+
+type CustomFieldFilterProps = {
+  definitions: CustomFieldDefinition[]
+  fieldKey: string
+  value: string
+  onFieldChange: (key: string) => void
+  onValueChange: (value: string) => void
+}
+
+/** 一覧のカスタム項目フィルタ（項目を 1 つ選んで値を指定する） */
+export function CustomFieldFilter({ definitions, fieldKey, value, onFieldChange, onValueChange }: CustomFieldFilterProps) {
+  if (definitions.length === 0) return null
+  const definition = definitions.find((candidate) => candidate.key === fieldKey)
+  const selectBase = "rounded-md border border-slate-300 bg-white px-3 py-2 text-slate-900"
+
+  return (
+    <div className="flex flex-col gap-2 md:flex-row">
+      <select value={fieldKey} onChange={(event) => onFieldChange(event.target.value)} className={selectBase}>
+        <option value="">カスタム項目で絞り込み</option>
+        {definitions.map((candidate) => (
+          <option key={candidate.key} value={candidate.key}>
+            {candidate.label}
+          </option>
+        ))}
+      </select>
+      {definition &&
+        (definition.type === "SINGLE_SELECT" || definition.type === "MULTI_SELECT" || definition.type === "BOOLEAN" ? (
+          <select value={value} onChange={(event) => onValueChange(event.target.value)} className={`flex-1 ${selectBase}`}>
+            <option value="">すべて</option>
+            {definition.type === "BOOLEAN" ? (
+              <>
+                <option value="true">はい</option>
+                <option value="false">いいえ</option>
+              </>
+            ) : (
+              definition.options.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))
+            )}
+          </select>
+        ) : (
+          <Input
+            value={value}
+            onChange={(event) => onValueChange(event.target.value)}
+            placeholder={
+              definition.type === "NUMBER" || definition.type === "DATE" ? "値 または 最小..最大" : "含む文字列"
+            }
+            className="flex-1 border border-slate-300 bg-white text-slate-900"
+          />
+        ))}
+    </div>
+  )
+}
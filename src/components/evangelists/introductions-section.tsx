@@ -0,0 +1,308 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Handshake, Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  INTRODUCTION_STATUS_LABELS,
+  INTRODUCTION_STATUS_VALUES,
+  type IntroductionStatusValue,
+} from "@/lib/introduction-status"
+
+export type IntroductionRecord = {
+  id: string
+  evangelistId: string
+  innovatorId: number
+  introducedById: string | null
+  status: IntroductionStatusValue
+  proposedAt: string
+  sentAt: string | null
+  respondedAt: string | null
+  closedAt: string | null
+  notes: string | null
+  createdAt: string
+  updatedAt: string
+  innovator: { id: number; name: string; url: string | null }
+  introducedBy: { id: string; name: string } | null
+}
+
+type InnovatorOption = {
+  id: number
+  name: string
+}
+
+const STATUS_COLORS: Record<IntroductionStatusValue, string> = {
+  PROPOSED: "bg-slate-100 text-slate-700",
+  SENT: "bg-blue-100 text-blue-800",
+  ACCEPTED: "bg-emerald-100 text-emerald-700",
+  DECLINED: "bg-rose-100 text-rose-700",
+  CLOSED: "bg-gray-200 text-gray-700",
+}
+
+const defaultFormState = {
+  innovatorId: "",
+  status: "PROPOSED" as IntroductionStatusValue,
+  notes: "",
+}
+
+const formatDate = (value: string | null) => {
+  if (!value) return null
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return null
+  return date.toLocaleDateString("ja-JP")
+}
+
+type IntroductionsSectionProps = {
+  evangelistId: string
+}
+
+export function IntroductionsSection({ evangelistId }: IntroductionsSectionProps) {
+  const [introductions, setIntroductions] = useState<IntroductionRecord[]>([])
+  const [innovators, setInnovators] = useState<InnovatorOption[]>([])
+  const [form, setForm] = useState(defaultFormState)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+
+  const loadIntroductions = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/introductions?evangelistId=${encodeURIComponent(evangelistId)}`, {
+        credentials: "include",
+      })
+      if (!response.ok) {
+        throw new Error("紹介実績の取得に失敗しました")
+      }
+      const data = (await response.json().catch(() => null)) as { items?: unknown }
+      setIntroductions(Array.isArray(data?.items) ? (data.items as IntroductionRecord[]) : [])
+    } catch (error) {
+      console.error("Failed to load introductions", error)
+      toast.error(error instanceof Error ? error.message : "紹介実績の取得に失敗しました")
+    } finally {
+      setLoading(false)
+    }
+  }, [evangelistId])
+
+  const loadInnovators = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/innovators?limit=100", { credentials: "include" })
+      if (!response.ok) return
+      const data = (await response.json().catch(() => null)) as { items?: unknown }
+      const items = Array.isArray(data?.items) ? (data.items as Record<string, unknown>[]) : []
+      const options = items.flatMap((item) => {
+        const id = Number(item.id)
+        const name = typeof item.company === "string" ? item.company : typeof item.name === "string" ? item.name : ""
+        return Number.isFinite(id) && name ? [{ id, name }] : []
+      })
+      setInnovators(options.sort((a, b) => a.name.localeCompare(b.name)))
+    } catch (error) {
+      console.error("Failed to load innovators", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    void loadIntroductions()
+    void loadInnovators()
+  }, [loadIntroductions, loadInnovators])
+
+  const handleCreate = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!form.innovatorId) {
+      toast.error("イノベータを選択してください")
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const response = await fetch("/api/introductions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          evangelistId,
+          innovatorId: Number(form.innovatorId),
+          status: form.status,
+          notes: form.notes.trim() || null,
+        }),
+      })
+      const data = await response.json().catch(() => null)
+      if (!response.ok) {
+        throw new Error(typeof data?.error === "string" ? data.error : "紹介実績の登録に失敗しました")
+      }
+      setIntroductions((prev) => [data as IntroductionRecord, ...prev])
+      setForm(defaultFormState)
+      toast.success("紹介実績を登録しました")
+    } catch (error) {
+      console.error("Failed to create introduction", error)
+      toast.error(error instanceof Error ? error.message : "紹介実績の登録に失敗しました")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleStatusChange = async (introduction: IntroductionRecord, status: IntroductionStatusValue) => {
+    if (introduction.status === status) return
+    try {
+      const response = await fetch(`/api/introductions/${introduction.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ status }),
+      })
+      const data = await response.json().catch(() => null)
+      if (!response.ok) {
+        throw new Error(typeof data?.error === "string" ? data.error : "ステータスの更新に失敗しました")
+      }
+      const updated = data as IntroductionRecord
+      setIntroductions((prev) => prev.map((item) => (item.id === updated.id ? updated : item)))
+      toast.success("ステータスを更新しました")
+    } catch (error) {
+      console.error("Failed to update introduction", error)
+      toast.error(error instanceof Error ? error.message : "ステータスの更新に失敗しました")
+    }
+  }
+
+  const handleDelete = async (introductionId: string) => {
+    if (!window.confirm("この紹介実績を削除しますか？")) return
+    try {
+      const response = await fetch(`/api/introductions/${introductionId}`, {
+        method: "DELETE",
+        credentials: "include",
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(typeof data?.error === "string" ? data.error : "紹介実績の削除に失敗しました")
+      }
+      setIntroductions((prev) => prev.filter((item) => item.id !== introductionId))
+      toast.success("紹介実績を削除しました")
+    } catch (error) {
+      console.error("Failed to delete introduction", error)
+      toast.error(error instanceof Error ? error.message : "紹介実績の削除に失敗しました")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Handshake className="h-5 w-5" />
+          紹介実績
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleCreate} className="grid grid-cols-1 gap-3 rounded-lg border border-slate-200 bg-slate-50 p-3 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="introduction-innovator">イノベータ</Label>
+            <select
+              id="introduction-innovator"
+              value={form.innovatorId}
+              onChange={(event) => setForm((prev) => ({ ...prev, innovatorId: event.target.value }))}
+              className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900"
+            >
+              <option value="">選択してください</option>
+              {innovators.map((innovator) => (
+                <option key={innovator.id} value={innovator.id}>
+                  {innovator.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="introduction-status">ステータス</Label>
+            <select
+              id="introduction-status"
+              value={form.status}
+              onChange={(event) =>
+                setForm((prev) => ({ ...prev, status: event.target.value as IntroductionStatusValue }))
+              }
+              className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900"
+            >
+              {INTRODUCTION_STATUS_VALUES.map((status) => (
+                <option key={status} value={status}>
+                  {INTRODUCTION_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2 md:col-span-3">
+            <Label htmlFor="introduction-notes">メモ</Label>
+            <Textarea
+              id="introduction-notes"
+              value={form.notes}
+              onChange={(event) => setForm((prev) => ({ ...prev, notes: event.target.value }))}
+              rows={2}
+              className="border border-slate-300 bg-white text-slate-900 placeholder:text-slate-400"
+            />
+          </div>
+          <div className="flex justify-end md:col-span-3">
+            <Button type="submit" size="sm" disabled={submitting} className="bg-brand text-white hover:bg-brand-600">
+              {submitting ? "登録中..." : "紹介を記録"}
+            </Button>
+          </div>
+        </form>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">読み込み中...</p>
+        ) : introductions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">まだ紹介実績がありません</p>
+        ) : (
+          <ul className="space-y-3">
+            {introductions.map((introduction) => (
+              <li key={introduction.id} className="rounded-lg border border-slate-200 bg-white p-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-slate-800">{introduction.innovator.name}</span>
+                    <Badge className={STATUS_COLORS[introduction.status]}>
+                      {INTRODUCTION_STATUS_LABELS[introduction.status]}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      aria-label="ステータスを変更"
+                      value={introduction.status}
+                      onChange={(event) =>
+                        handleStatusChange(introduction, event.target.value as IntroductionStatusValue)
+                      }
+                      className="rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-900"
+                    >
+                      {INTRODUCTION_STATUS_VALUES.map((status) => (
+                        <option key={status} value={status}>
+                          {INTRODUCTION_STATUS_LABELS[status]}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      aria-label="紹介実績を削除"
+                      onClick={() => handleDelete(introduction.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500">
+                  <span>提案日: {formatDate(introduction.proposedAt) ?? "—"}</span>
+                  {introduction.sentAt && <span>紹介日: {formatDate(introduction.sentAt)}</span>}
+                  {introduction.respondedAt && <span>回答日: {formatDate(introduction.respondedAt)}</span>}
+                  {introduction.closedAt && <span>クローズ日: {formatDate(introduction.closedAt)}</span>}
+                  <span>担当: {introduction.introducedBy?.name ?? "—"}</span>
+                </div>
+                {introduction.notes && (
+                  <p className="mt-2 whitespace-pre-wrap text-sm text-slate-700">{introduction.notes}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default IntroductionsSection
@@ -0,0 +1,145 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { GitBranch } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { EVANGELIST_PHASE_LABELS, type EvangelistPhaseValue } from "@/lib/evangelist-phase"
+
+type PhaseTransitionRecord = {
+  id: string
+  fromPhase: EvangelistPhaseValue | null
+  toPhase: EvangelistPhaseValue
+  note: string | null
+  forced: boolean
+  createdAt: string
+  changedBy: { id: string; name: string } | null
+}
+
+type PhaseState = {
+  phase: EvangelistPhaseValue | null
+  allowed: EvangelistPhaseValue[]
+  history: PhaseTransitionRecord[]
+  durations: { phase: EvangelistPhaseValue; days: number }[]
+}
+
+type PhaseHistorySectionProps = {
+  evangelistId: string
+  /** 親側でフェーズが変わったときに再取得するためのキー */
+  currentPhase?: string | null
+  onPhaseChange?: (phase: EvangelistPhaseValue) => void
+}
+
+const phaseLabel = (phase: EvangelistPhaseValue | null) =>
+  phase ? EVANGELIST_PHASE_LABELS[phase] ?? phase : "未設定"
+
+export function PhaseHistorySection({ evangelistId, currentPhase, onPhaseChange }: PhaseHistorySectionProps) {
+  const [state, setState] = useState<PhaseState | null>(null)
+  const [moving, setMoving] = useState(false)
+
+  const loadPhase = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/evangelists/${evangelistId}/phase`, { credentials: "include" })
+      if (!response.ok) {
+        throw new Error("フェーズ履歴の取得に失敗しました")
+      }
+      setState((await response.json()) as PhaseState)
+    } catch (error) {
+      console.error("Failed to load phase history", error)
+      toast.error(error instanceof Error ? error.message : "フェーズ履歴の取得に失敗しました")
+    }
+  }, [evangelistId])
+
+  useEffect(() => {
+    void loadPhase()
+  }, [loadPhase, currentPhase])
+
+  const handleMove = async (phase: EvangelistPhaseValue) => {
+    try {
+      setMoving(true)
+      const response = await fetch(`/api/evangelists/${evangelistId}/phase`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ phase }),
+      })
+      if (response.status === 409) {
+        throw new Error("このフェーズへは直接移動できません")
+      }
+      if (!response.ok) {
+        throw new Error("フェーズの更新に失敗しました")
+      }
+      toast.success(`フェーズを「${phaseLabel(phase)}」に更新しました`)
+      onPhaseChange?.(phase)
+      await loadPhase()
+    } catch (error) {
+      console.error("Failed to move phase", error)
+      toast.error(error instanceof Error ? error.message : "フェーズの更新に失敗しました")
+    } finally {
+      setMoving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5" />
+          フェーズ推移
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-slate-600">現在:</span>
+          <Badge className="bg-blue-100 text-blue-800">{phaseLabel(state?.phase ?? null)}</Badge>
+          {state?.allowed.map((phase) => (
+            <Button
+              key={phase}
+              size="sm"
+              variant="outline"
+              disabled={moving}
+              onClick={() => handleMove(phase)}
+            >
+              → {phaseLabel(phase)}
+            </Button>
+          ))}
+        </div>
+
+        {state && state.durations.length > 0 && (
+          <div className="flex flex-wrap gap-2 text-xs text-slate-600">
+            {state.durations.map((item) => (
+              <span key={item.phase} className="rounded bg-slate-100 px-2 py-1">
+                {phaseLabel(item.phase)}: {item.days}日
+              </span>
+            ))}
+          </div>
+        )}
+
+        {!state ? (
+          <p className="text-sm text-muted-foreground">読み込み中...</p>
+        ) : state.history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">フェーズの遷移履歴はまだありません</p>
+        ) : (
+          <ul className="space-y-2 text-sm">
+            {state.history.map((item) => (
+              <li key={item.id} className="flex flex-wrap items-center gap-2 border-b border-slate-100 pb-2">
+                <span className="text-xs text-slate-500">{new Date(item.createdAt).toLocaleString("ja-JP")}</span>
+                <span>
+                  {phaseLabel(item.fromPhase)} → {phaseLabel(item.toPhase)}
+                </span>
+                {item.forced && <Badge className="bg-amber-100 text-amber-800">ルール外</Badge>}
+                <span className="text-xs text-slate-500">{item.changedBy?.name ?? "—"}</span>
+                {item.note && <span className="w-full text-xs text-slate-600">{item.note}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default PhaseHistorySection
@@ -0,0 +1,89 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+
+import { PICKLIST_FIELD_LABELS, PICKLIST_FIELDS, type PicklistField } from "@/lib/picklists"
+
+type PicklistOptionRef = { id: string; field: PicklistField; value: string }
+
+export function usePicklistOptions() {
+  const [options, setOptions] = useState<PicklistOptionRef[]>([])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const load = async () => {
+      try {
+        const res = await fetch("/api/evangelists/picklists", {
+          credentials: "include",
+          cache: "no-store",
+          signal: controller.signal,
+        })
+        if (!res.ok) return
+        const data = (await res.json()) as { items?: PicklistOptionRef[] }
+        setOptions(Array.isArray(data.items) ? data.items : [])
+      } catch (error) {
+        if ((error as { name?: string })?.name === "AbortError") return
+        console.warn("Failed to load picklists:", error)
+      }
+    }
+    void load()
+    return () => controller.abort()
+  }, [])
+
+  return options
+}
+
+/** 一覧・ボード・エクスポートの検索パラメータにステータス系項目の絞り込みを追加する */
+export function appendPicklistParams(params: URLSearchParams, filters?: Partial<Record<PicklistField, string>>) {
+  Object.entries(filters ?? {}).forEach(([field, value]) => {
+    if (value) params.set(field, value)
+  })
+}
+
+type PicklistFilterProps = {
+  options: PicklistOptionRef[]
+  field: PicklistField | ""
+  value: string
+  onFieldChange: (field: PicklistField | "") => void
+  onValueChange: (value: string) => void
+}
+
+/** 選択肢が登録されている項目だけを対象に、項目と値を 1 つずつ選んで絞り込む */
+export function PicklistFilter({ options, field, value, onFieldChange, onValueChange }: PicklistFilterProps) {
+  const managedFields = useMemo(
+    () => PICKLIST_FIELDS.filter((candidate) => options.some((option) => option.field === candidate)),
+    [options],
+  )
+  if (managedFields.length === 0) return null
+
+  const selectBase = "rounded-md border border-slate-300 bg-white px-3 py-2 text-slate-900"
+
+  return (
+    <div className="flex flex-col gap-2 md:flex-row">
+      <select
+        value={field}
+        onChange={(event) => onFieldChange(event.target.value as PicklistField | "")}
+        className={selectBase}
+      >
+        <option value="">ステータスで絞り込み</option>
+        {managedFields.map((candidate) => (
+          <option key={candidate} value={candidate}>
+            {PICKLIST_FIELD_LABELS[candidate]}
+          </option>
+        ))}
+      </select>
+      {field && (
+        <select value={value} onChange={(event) => onValueChange(event.target.value)} className={`flex-1 ${selectBase}`}>
+          <option value="">すべて</option>
+          {options
+            .filter((option) => option.field === field)
+            .map((option) => (
+              <option key={option.id} value={option.value}>
+                {option.value}
+              </option>
+            ))}
+        </select>
+      )}
+    </div>
+  )
+}
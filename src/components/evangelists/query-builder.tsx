@@ -0,0 +1,275 @@
+"use client"
+
+import { Plus, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  countQueryConditions,
+  createCondition,
+  isQueryGroup,
+  operatorsFor,
+  QUERY_FIELD_KEYS,
+  QUERY_FIELDS,
+  QUERY_MAX_DEPTH,
+  QUERY_OPERATOR_LABELS,
+  type QueryCondition,
+  type QueryFieldKey,
+  type QueryGroup,
+  type QueryNode,
+  type QueryOperator,
+} from "@/lib/evangelist-query"
+
+export type QueryValueOption = { value: string; label: string }
+
+/** 選択式の項目（enum）の選択肢。項目ごとに画面側で用意する */
+export type QueryValueOptions = Partial<Record<QueryFieldKey, QueryValueOption[]>>
+
+/** 一覧・ボード・エクスポートの検索パラメータに詳細フィルタを追加する */
+export function appendQueryParams(params: URLSearchParams, query?: QueryGroup | null) {
+  if (!query || countQueryConditions(query) === 0) return
+  params.set("q", JSON.stringify(query))
+}
+
+const INPUT_KIND: Record<QueryOperator, "text" | "values" | "date" | "range" | "number" | "none"> = {
+  contains: "text",
+  equals: "text",
+  in: "values",
+  notIn: "values",
+  onOrAfter: "date",
+  onOrBefore: "date",
+  between: "range",
+  eq: "number",
+  lt: "number",
+  gte: "number",
+  lte: "number",
+  isEmpty: "none",
+  isNotEmpty: "none",
+}
+
+const selectClassName = "rounded-md border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-900"
+
+type ConditionRowProps = {
+  condition: QueryCondition
+  options: QueryValueOptions
+  onChange: (condition: QueryCondition) => void
+  onRemove: () => void
+}
+
+function ConditionRow({ condition, options, onChange, onRemove }: ConditionRowProps) {
+  const kind = INPUT_KIND[condition.op]
+  const valueOptions = options[condition.field] ?? []
+  const selectedValues = condition.values ?? []
+
+  const changeOperator = (op: QueryOperator) => {
+    // 入力の種類が同じ演算子なら値を引き継ぐ
+    if (INPUT_KIND[op] === kind) {
+      onChange({ ...condition, op })
+      return
+    }
+    onChange({ field: condition.field, op })
+  }
+
+  return (
+    <div className="flex flex-wrap items-start gap-2">
+      <select
+        value={condition.field}
+        onChange={(event) => onChange(createCondition(event.target.value as QueryFieldKey))}
+        className={selectClassName}
+        aria-label="項目"
+      >
+        {QUERY_FIELD_KEYS.map((key) => (
+          <option key={key} value={key}>
+            {QUERY_FIELDS[key].label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={condition.op}
+        onChange={(event) => changeOperator(event.target.value as QueryOperator)}
+        className={selectClassName}
+        aria-label="条件"
+      >
+        {operatorsFor(condition.field).map((op) => (
+          <option key={op} value={op}>
+            {QUERY_OPERATOR_LABELS[op]}
+          </option>
+        ))}
+      </select>
+
+      {kind === "text" && (
+        <Input
+          value={condition.value ?? ""}
+          onChange={(event) => onChange({ ...condition, value: event.target.value })}
+          className="h-8 w-48 border-slate-300 bg-white text-sm text-slate-900"
+          placeholder="値"
+        />
+      )}
+      {kind === "number" && (
+        <Input
+          type="number"
+          min={0}
+          value={condition.value ?? ""}
+          onChange={(event) => onChange({ ...condition, value: event.target.value })}
+          className="h-8 w-24 border-slate-300 bg-white text-sm text-slate-900"
+        />
+      )}
+      {kind === "date" && (
+        <Input
+          type="date"
+          value={condition.value ?? ""}
+          onChange={(event) => onChange({ ...condition, value: event.target.value })}
+          className="h-8 w-40 border-slate-300 bg-white text-sm text-slate-900"
+        />
+      )}
+      {kind === "range" && (
+        <div className="flex items-center gap-1 text-sm text-slate-600">
+          <Input
+            type="date"
+            value={condition.from ?? ""}
+            onChange={(event) => onChange({ ...condition, from: event.target.value || undefined })}
+            className="h-8 w-40 border-slate-300 bg-white text-sm text-slate-900"
+            aria-label="開始日"
+          />
+          <span>〜</span>
+          <Input
+            type="date"
+            value={condition.to ?? ""}
+            onChange={(event) => onChange({ ...condition, to: event.target.value || undefined })}
+            className="h-8 w-40 border-slate-300 bg-white text-sm text-slate-900"
+            aria-label="終了日"
+          />
+        </div>
+      )}
+      {kind === "values" && (
+        <div className="flex max-w-xl flex-1 flex-wrap gap-1">
+          {valueOptions.length === 0 ? (
+            <span className="text-sm text-slate-500">選択肢がありません</span>
+          ) : (
+            valueOptions.map((option) => {
+              const active = selectedValues.includes(option.value)
+              return (
+                <button
+                  key={option.value}
+                  type="button"
+                  aria-pressed={active}
+                  onClick={() =>
+                    onChange({
+                      ...condition,
+                      values: active
+                        ? selectedValues.filter((value) => value !== option.value)
+                        : [...selectedValues, option.value],
+                    })
+                  }
+                  className={`rounded-full border px-2 py-0.5 text-xs ${
+                    active ? "border-brand bg-brand text-white" : "border-slate-300 bg-white text-slate-700"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              )
+            })
+          )}
+        </div>
+      )}
+
+      <Button type="button" variant="ghost" size="sm" onClick={onRemove} aria-label="条件を削除">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+type GroupEditorProps = {
+  group: QueryGroup
+  depth: number
+  options: QueryValueOptions
+  onChange: (group: QueryGroup) => void
+  onRemove?: () => void
+}
+
+function GroupEditor({ group, depth, options, onChange, onRemove }: GroupEditorProps) {
+  const updateRule = (index: number, node: QueryNode) =>
+    onChange({ ...group, rules: group.rules.map((rule, ruleIndex) => (ruleIndex === index ? node : rule)) })
+  const removeRule = (index: number) =>
+    onChange({ ...group, rules: group.rules.filter((_, ruleIndex) => ruleIndex !== index) })
+
+  return (
+    <div className={depth > 1 ? "space-y-2 rounded-md border-l-4 border-brand/30 bg-slate-50 p-3" : "space-y-2"}>
+      <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+        <select
+          value={group.combinator}
+          onChange={(event) => onChange({ ...group, combinator: event.target.value as QueryGroup["combinator"] })}
+          className={selectClassName}
+          aria-label="グループの一致条件"
+        >
+          <option value="and">次のすべてに一致（AND）</option>
+          <option value="or">次のいずれかに一致（OR）</option>
+        </select>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...group, rules: [...group.rules, createCondition()] })}
+        >
+          <Plus className="mr-1 h-3.5 w-3.5" />
+          条件
+        </Button>
+        {depth < QUERY_MAX_DEPTH && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              onChange({ ...group, rules: [...group.rules, { combinator: "or", rules: [createCondition()] }] })
+            }
+          >
+            <Plus className="mr-1 h-3.5 w-3.5" />
+            グループ
+          </Button>
+        )}
+        {onRemove && (
+          <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+            グループを削除
+          </Button>
+        )}
+      </div>
+
+      {group.rules.length === 0 ? (
+        <p className="text-sm text-slate-500">条件がありません</p>
+      ) : (
+        group.rules.map((node, index) =>
+          isQueryGroup(node) ? (
+            <GroupEditor
+              key={index}
+              group={node}
+              depth={depth + 1}
+              options={options}
+              onChange={(next) => updateRule(index, next)}
+              onRemove={() => removeRule(index)}
+            />
+          ) : (
+            <ConditionRow
+              key={index}
+              condition={node}
+              options={options}
+              onChange={(next) => updateRule(index, next)}
+              onRemove={() => removeRule(index)}
+            />
+          )
+        )
+      )}
+    </div>
+  )
+}
+
+type QueryBuilderProps = {
+  value: QueryGroup
+  options: QueryValueOptions
+  onChange: (value: QueryGroup) => void
+}
+
+/** 詳細フィルタの条件を組み立てる（AND/OR のグループを入れ子にできる） */
+export function QueryBuilder({ value, options, onChange }: QueryBuilderProps) {
+  return <GroupEditor group={value} depth={1} options={options} onChange={onChange} />
+}
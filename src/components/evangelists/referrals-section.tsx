@@ -0,0 +1,248 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { toast } from "sonner"
+import { UserPlus } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { EVANGELIST_PHASE_LABELS, type EvangelistPhaseValue } from "@/lib/evangelist-phase"
+import type { ReferralPerson } from "@/lib/evangelist-referrals"
+
+type ReferralsResponse = {
+  referredBy: ReferralPerson | null
+  referrals: ReferralPerson[]
+}
+
+type Candidate = { id: string; name: string; email: string | null }
+
+const SEARCH_LIMIT = 8
+
+const REFERRAL_ERROR_MESSAGES: Record<string, string> = {
+  "Referral cycle": "このEVAが紹介したEVA（またはその紹介先）は紹介者にできません",
+  "Referrer is archived": "アーカイブ済みのEVAは紹介者にできません",
+  "Referrer not found": "紹介者が見つかりません",
+  "Evangelist is archived": "アーカイブ済みのEVAです",
+}
+
+const phaseLabel = (phase: string | null) =>
+  phase ? (EVANGELIST_PHASE_LABELS[phase as EvangelistPhaseValue] ?? phase) : null
+
+function ReferralPersonLink({ person }: { person: ReferralPerson }) {
+  return (
+    <span className="flex flex-wrap items-center gap-2">
+      <Link href={`/evangelists/${person.id}`} className="font-medium text-slate-800 hover:underline">
+        {person.name}
+      </Link>
+      {person.tier && <Badge variant="outline">{person.tier}</Badge>}
+      {phaseLabel(person.managementPhase) && (
+        <span className="text-xs text-slate-500">{phaseLabel(person.managementPhase)}</span>
+      )}
+      {person.archived && <Badge className="bg-slate-200 text-slate-600">アーカイブ済み</Badge>}
+    </span>
+  )
+}
+
+type ReferralsSectionProps = {
+  evangelistId: string
+  /** アーカイブ済みなど紹介者を変更できないとき */
+  readOnly?: boolean
+  /** 紹介者を変更したとき（変更履歴の再読み込み用） */
+  onChange?: () => void
+}
+
+/** 詳細画面の紹介関係（このEVAの紹介者と、このEVAが紹介したEVA） */
+export function ReferralsSection({ evangelistId, readOnly = false, onChange }: ReferralsSectionProps) {
+  const [data, setData] = useState<ReferralsResponse | null>(null)
+  const [editing, setEditing] = useState(false)
+  const [query, setQuery] = useState("")
+  const [candidates, setCandidates] = useState<Candidate[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const loadReferrals = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/evangelists/${evangelistId}/referrals`, { credentials: "include" })
+      if (!response.ok) {
+        throw new Error("紹介関係の取得に失敗しました")
+      }
+      setData((await response.json()) as ReferralsResponse)
+    } catch (error) {
+      console.error("Failed to load referrals", error)
+      toast.error(error instanceof Error ? error.message : "紹介関係の取得に失敗しました")
+    }
+  }, [evangelistId])
+
+  useEffect(() => {
+    void loadReferrals()
+  }, [loadReferrals])
+
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (!editing || !trimmed) {
+      setCandidates([])
+      return
+    }
+
+    const controller = new AbortController()
+    const timeout = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ search: trimmed, limit: String(SEARCH_LIMIT) })
+        const response = await fetch(`/api/evangelists?${params}`, {
+          credentials: "include",
+          signal: controller.signal,
+        })
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        const payload = (await response.json()) as { items?: Record<string, unknown>[] }
+        const items = Array.isArray(payload.items) ? payload.items : []
+        setCandidates(
+          items
+            .filter((item) => item.id !== evangelistId)
+            .map((item) => ({
+              id: String(item.id),
+              name: [item.lastName, item.firstName].filter(Boolean).join(" ") || "（氏名未設定）",
+              email: typeof item.email === "string" ? item.email : null,
+            })),
+        )
+      } catch (error) {
+        if ((error as { name?: string })?.name === "AbortError") return
+        console.error("Failed to search referrers", error)
+        setCandidates([])
+      }
+    }, 200)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [editing, query, evangelistId])
+
+  const saveReferrer = async (referredById: string | null) => {
+    try {
+      setSaving(true)
+      const response = await fetch(`/api/evangelists/${evangelistId}/referrals`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ referredById }),
+      })
+      const payload = await response.json().catch(() => null)
+      if (!response.ok) {
+        const message = typeof payload?.error === "string" ? REFERRAL_ERROR_MESSAGES[payload.error] : undefined
+        throw new Error(message ?? "紹介者の更新に失敗しました")
+      }
+      setData(payload as ReferralsResponse)
+      setEditing(false)
+      setQuery("")
+      toast.success(referredById ? "紹介者を設定しました" : "紹介者を解除しました")
+      onChange?.()
+    } catch (error) {
+      console.error("Failed to update referrer", error)
+      toast.error(error instanceof Error ? error.message : "紹介者の更新に失敗しました")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserPlus className="h-5 w-5" />
+          紹介関係
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {!data ? (
+          <p className="text-muted-foreground">読み込み中...</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-slate-600">紹介者</span>
+                {!readOnly && !editing && (
+                  <div className="flex gap-2">
+                    {data.referredBy && (
+                      <Button size="sm" variant="ghost" onClick={() => saveReferrer(null)} disabled={saving}>
+                        解除
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => setEditing(true)} disabled={saving}>
+                      {data.referredBy ? "変更" : "+ 紹介者を設定"}
+                    </Button>
+                  </div>
+                )}
+              </div>
+              {data.referredBy ? (
+                <ReferralPersonLink person={data.referredBy} />
+              ) : (
+                <p className="text-muted-foreground">未設定</p>
+              )}
+              {editing && (
+                <div className="space-y-2 rounded-md border border-slate-200 p-3">
+                  <Input
+                    autoFocus
+                    value={query}
+                    onChange={(event) => setQuery(event.target.value)}
+                    placeholder="名前・メールでEVAを検索"
+                    className="border border-slate-300 bg-white text-slate-900"
+                  />
+                  {candidates.length > 0 && (
+                    <ul className="divide-y divide-slate-100">
+                      {candidates.map((candidate) => (
+                        <li key={candidate.id}>
+                          <button
+                            type="button"
+                            className="flex w-full items-center justify-between gap-2 px-2 py-1.5 text-left hover:bg-slate-50"
+                            onClick={() => saveReferrer(candidate.id)}
+                            disabled={saving}
+                          >
+                            <span className="text-slate-800">{candidate.name}</span>
+                            {candidate.email && <span className="text-xs text-slate-500">{candidate.email}</span>}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setEditing(false)
+                        setQuery("")
+                      }}
+                      disabled={saving}
+                    >
+                      キャンセル
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <span className="text-slate-600">このEVAが紹介したEVA（{data.referrals.length}件）</span>
+              {data.referrals.length === 0 ? (
+                <p className="text-muted-foreground">紹介したEVAはまだいません</p>
+              ) : (
+                <ul className="space-y-2">
+                  {data.referrals.map((person) => (
+                    <li key={person.id} className="flex flex-wrap items-center justify-between gap-2 border-b border-slate-100 pb-2">
+                      <ReferralPersonLink person={person} />
+                      <span className="text-xs text-slate-500">
+                        {new Date(person.createdAt).toLocaleDateString("ja-JP")} 登録
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,25 @@
+import type { SearchSnippet } from "@/lib/evangelist-search"
+
+/** 検索語が一致した箇所（一覧の名前の下に表示する） */
+export function SearchSnippets({ snippets }: { snippets?: SearchSnippet[] }) {
+  if (!snippets || snippets.length === 0) return null
+
+  return (
+    <ul className="space-y-0.5 text-xs font-normal text-slate-500">
+      {snippets.map((snippet) => (
+        <li key={`${snippet.field}-${snippet.label}`} className="max-w-xs truncate">
+          <span className="mr-1 text-slate-400">{snippet.label}:</span>
+          {snippet.segments.map((segment, index) =>
+            segment.match ? (
+              <mark key={index} className="rounded-sm bg-yellow-100 px-0.5 text-slate-800">
+                {segment.text}
+              </mark>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            )
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
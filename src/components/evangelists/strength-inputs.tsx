@@ -0,0 +1,89 @@
+"use client"
+
+import { BUSINESS_DOMAIN_LABELS, BUSINESS_DOMAIN_VALUES } from "@/lib/business-domain"
+import {
+  formatStrengthEntry,
+  STRENGTH_PROFICIENCY_LABELS,
+  STRENGTH_PROFICIENCY_LEVELS,
+  type StrengthEntry,
+} from "@/lib/evangelist-strengths"
+
+export function StrengthList({ strengths }: { strengths?: StrengthEntry[] | null }) {
+  if (!strengths || strengths.length === 0) return <span>—</span>
+  return (
+    <div className="flex flex-wrap gap-1">
+      {strengths.map((entry) => (
+        <span
+          key={entry.domain}
+          className="inline-flex items-center rounded-full border border-brand/30 bg-purple-50 px-2 py-0.5 text-xs text-brand"
+        >
+          {formatStrengthEntry(entry)}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+type StrengthPickerProps = {
+  value: StrengthEntry[]
+  onChange: (value: StrengthEntry[]) => void
+}
+
+/** 分野をクリックで選択/解除し、選択中の分野ごとに習熟度を選ぶ */
+export function StrengthPicker({ value, onChange }: StrengthPickerProps) {
+  const selected = new Map(value.map((entry) => [entry.domain, entry]))
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {BUSINESS_DOMAIN_VALUES.map((domain) => {
+        const entry = selected.get(domain)
+        return (
+          <div
+            key={domain}
+            className={`flex items-center gap-1 rounded-full border px-1 py-0.5 text-sm ${
+              entry ? "border-brand bg-purple-50 text-brand" : "border-slate-300 bg-white text-slate-600"
+            }`}
+          >
+            <button
+              type="button"
+              aria-pressed={Boolean(entry)}
+              className="px-2"
+              onClick={() =>
+                onChange(
+                  entry
+                    ? value.filter((item) => item.domain !== domain)
+                    : [...value, { domain, proficiency: null }]
+                )
+              }
+            >
+              {BUSINESS_DOMAIN_LABELS[domain]}
+            </button>
+            {entry && (
+              <select
+                value={entry.proficiency ?? ""}
+                onChange={(event) =>
+                  onChange(
+                    value.map((item) =>
+                      item.domain === domain
+                        ? { ...item, proficiency: event.target.value ? Number(event.target.value) : null }
+                        : item
+                    )
+                  )
+                }
+                className="rounded-full border border-brand/30 bg-white px-1 text-xs text-slate-900"
+                aria-label={`${BUSINESS_DOMAIN_LABELS[domain]}の習熟度`}
+              >
+                <option value="">習熟度: 未設定</option>
+                {STRENGTH_PROFICIENCY_LEVELS.map((level) => (
+                  <option key={level} value={level}>
+                    {STRENGTH_PROFICIENCY_LABELS[level]}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
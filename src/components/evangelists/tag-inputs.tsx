@@ -0,0 +1,143 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+
+import type { TagMatchMode, TagSummary } from "@/lib/tags"
+
+export type TagOption = TagSummary & { description?: string | null }
+
+export type TagFilterValue = {
+  ids: string[]
+  mode: TagMatchMode
+}
+
+export function useTagOptions() {
+  const [tags, setTags] = useState<TagOption[]>([])
+
+  const reload = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const res = await fetch("/api/evangelists/tags", {
+        credentials: "include",
+        cache: "no-store",
+        signal,
+      })
+      if (!res.ok) return
+      const data = (await res.json()) as { items?: TagOption[] }
+      setTags(Array.isArray(data.items) ? data.items : [])
+    } catch (error) {
+      if ((error as { name?: string })?.name === "AbortError") return
+      console.warn("Failed to load tags:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    void reload(controller.signal)
+    return () => controller.abort()
+  }, [reload])
+
+  return tags
+}
+
+/** 一覧・ボード・エクスポートの検索パラメータにタグの絞り込みを追加する */
+export function appendTagParams(params: URLSearchParams, filter?: TagFilterValue) {
+  if (!filter || filter.ids.length === 0) return
+  params.set("tags", filter.ids.join(","))
+  params.set("tagMode", filter.mode)
+}
+
+/** 背景色に合わせて読みやすい文字色（黒/白）を返す */
+function textColorFor(hex: string) {
+  const value = Number.parseInt(hex.replace("#", ""), 16)
+  if (Number.isNaN(value)) return "#0f172a"
+  const r = (value >> 16) & 0xff
+  const g = (value >> 8) & 0xff
+  const b = value & 0xff
+  return r * 0.299 + g * 0.587 + b * 0.114 > 160 ? "#0f172a" : "#ffffff"
+}
+
+export function TagBadge({ tag, muted = false }: { tag: TagSummary; muted?: boolean }) {
+  return (
+    <span
+      className="inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium"
+      style={
+        muted
+          ? { border: `1px solid ${tag.color}`, color: tag.color }
+          : { backgroundColor: tag.color, color: textColorFor(tag.color) }
+      }
+    >
+      {tag.name}
+    </span>
+  )
+}
+
+export function TagList({ tags }: { tags?: TagSummary[] | null }) {
+  if (!tags || tags.length === 0) return null
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <TagBadge key={tag.id} tag={tag} />
+      ))}
+    </div>
+  )
+}
+
+type TagPickerProps = {
+  tags: TagOption[]
+  selected: string[]
+  onChange: (ids: string[]) => void
+}
+
+/** タグをクリックで選択/解除する（選択中は塗り、未選択は枠線） */
+export function TagPicker({ tags, selected, onChange }: TagPickerProps) {
+  if (tags.length === 0) {
+    return <p className="text-sm text-slate-500">タグがありません（管理画面で追加できます）</p>
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {tags.map((tag) => {
+        const active = selected.includes(tag.id)
+        return (
+          <button
+            key={tag.id}
+            type="button"
+            title={tag.description ?? undefined}
+            aria-pressed={active}
+            onClick={() => onChange(active ? selected.filter((id) => id !== tag.id) : [...selected, tag.id])}
+          >
+            <TagBadge tag={tag} muted={!active} />
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+type TagFilterProps = {
+  tags: TagOption[]
+  value: TagFilterValue
+  onChange: (value: TagFilterValue) => void
+}
+
+/** 一覧のタグフィルタ（複数選択 + いずれか/すべて） */
+export function TagFilter({ tags, value, onChange }: TagFilterProps) {
+  if (tags.length === 0) return null
+
+  return (
+    <div className="flex flex-col gap-2 md:flex-row md:items-center">
+      <select
+        value={value.mode}
+        onChange={(event) => onChange({ ...value, mode: event.target.value as TagMatchMode })}
+        className="rounded-md border border-slate-300 bg-white px-3 py-2 text-slate-900"
+        aria-label="タグの一致条件"
+      >
+        <option value="any">タグ: いずれかを含む</option>
+        <option value="all">タグ: すべてを含む</option>
+      </select>
+      <div className="flex-1">
+        <TagPicker tags={tags} selected={value.ids} onChange={(ids) => onChange({ ...value, ids })} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+import type { BulkAssignRunStatus, Prisma, PrismaClient } from '@prisma/client';
+
+import { recordEvangelistActivity, type ActivityChanges } from '@/lib/evangelist-activity';
+
+export const BULK_ASSIGN_RUN_STATUS_LABELS: Record<BulkAssignRunStatus, string> = {
+  APPLIED: '反映済み',
+  PARTIALLY_REVERTED: '一部取り消し',
+  REVERTED: '取り消し済み',
+};
+
+export type BulkAssignRevertStatus = 'REVERTIBLE' | 'CONFLICT' | 'MISSING' | 'ALREADY_REVERTED';
+
+export const BULK_ASSIGN_REVERT_STATUS_LABELS: Record<BulkAssignRevertStatus, string> = {
+  REVERTIBLE: '取り消し可',
+  CONFLICT: '反映後に編集あり',
+  MISSING: 'レコードなし',
+  ALREADY_REVERTED: '取り消し済み',
+};
+
+// 取り消し計画（ドライラン）の 1 レコード分。changes は一括反映時の変更前後の値
+export type BulkAssignRevertItem = {
+  changeId: string;
+  evangelistId: string;
+  key: string;
+  name: string;
+  status: BulkAssignRevertStatus;
+  changes: ActivityChanges;
+};
+
+// 一括反映で扱う項目（取り消し時はこの項目だけを書き戻す）
+const REVERTIBLE_FIELDS = new Set(['assignedCsId', 'tier']);
+
+function toChanges(value: Prisma.JsonValue): ActivityChanges {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, { before?: unknown; after?: unknown }>)
+      .filter(([field]) => REVERTIBLE_FIELDS.has(field))
+      .map(([field, change]) => [field, { before: change?.before ?? null, after: change?.after ?? null }]),
+  );
+}
+
+/**
+ * 実行履歴の取り消し計画を作る。
+ * 反映直後から updatedAt が変わっているレコードは、その後に編集されたとみなして取り消さない。
+ */
+export async function planBulkAssignRevert(client: PrismaClient, runId: string) {
+  const changes = await client.bulkAssignChange.findMany({
+    where: { runId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const evangelists = await client.evangelist.findMany({
+    where: { id: { in: changes.map((change) => change.evangelistId) } },
+    select: { id: true, firstName: true, lastName: true, updatedAt: true },
+  });
+  const evangelistById = new Map(evangelists.map((evangelist) => [evangelist.id, evangelist]));
+
+  return changes.map<BulkAssignRevertItem>((change) => {
+    const evangelist = evangelistById.get(change.evangelistId);
+
+    let status: BulkAssignRevertStatus = 'REVERTIBLE';
+    if (change.revertedAt) status = 'ALREADY_REVERTED';
+    else if (!evangelist) status = 'MISSING';
+    else if (evangelist.updatedAt.getTime() !== change.appliedUpdatedAt.getTime()) status = 'CONFLICT';
+
+    return {
+      changeId: change.id,
+      evangelistId: change.evangelistId,
+      key: change.key,
+      name: evangelist ? [evangelist.lastName, evangelist.firstName].filter(Boolean).join(' ') : '',
+      status,
+      changes: toChanges(change.changes),
+    };
+  });
+}
+
+/**
+ * 取り消し可能なレコードだけを変更前の値に戻す。
+ * 計画作成後に編集された場合に備えて、updatedAt が反映直後のままの行だけを更新する。
+ */
+export async function executeBulkAssignRevert(
+  client: PrismaClient,
+  runId: string,
+  actorId: string | null,
+  items: BulkAssignRevertItem[],
+) {
+  let reverted = 0;
+  const conflicts: string[] = [];
+
+  for (const item of items) {
+    if (item.status !== 'REVERTIBLE') continue;
+
+    const data = Object.fromEntries(Object.entries(item.changes).map(([field, { before }]) => [field, before]));
+    const reverse = Object.fromEntries(
+      Object.entries(item.changes).map(([field, { before, after }]) => [field, { before: after, after: before }]),
+    );
+    const applied = await client.$transaction(async (tx) => {
+      const change = await tx.bulkAssignChange.findUniqueOrThrow({
+        where: { id: item.changeId },
+        select: { appliedUpdatedAt: true },
+      });
+      const result = await tx.evangelist.updateMany({
+        where: { id: item.evangelistId, updatedAt: change.appliedUpdatedAt },
+        data: data as Prisma.EvangelistUncheckedUpdateManyInput,
+      });
+      if (result.count === 0) return false;
+
+      await tx.bulkAssignChange.update({ where: { id: item.changeId }, data: { revertedAt: new Date() } });
+      await recordEvangelistActivity(tx, {
+        evangelistId: item.evangelistId,
+        actorId,
+        source: 'BULK_ASSIGN',
+        action: 'REVERTED',
+        changes: reverse,
+      });
+      return true;
+    });
+
+    if (applied) reverted++;
+    else conflicts.push(item.changeId);
+  }
+
+  const [total, revertedTotal] = await Promise.all([
+    client.bulkAssignChange.count({ where: { runId } }),
+    client.bulkAssignChange.count({ where: { runId, revertedAt: { not: null } } }),
+  ]);
+
+  if (reverted > 0) {
+    await client.bulkAssignRun.update({
+      where: { id: runId },
+      data: {
+        revertedCount: revertedTotal,
+        status: revertedTotal >= total ? 'REVERTED' : 'PARTIALLY_REVERTED',
+        revertedAt: new Date(),
+        revertedById: actorId,
+      },
+    });
+  }
+
+  return { reverted, conflicts };
+}
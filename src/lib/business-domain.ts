@@ -12,6 +12,18 @@ export const BUSINESS_DOMAIN_VALUES = [
 
 export type BusinessDomainValue = (typeof BUSINESS_DOMAIN_VALUES)[number];
 
+export const BUSINESS_DOMAIN_LABELS: Record<BusinessDomainValue, string> = {
+  HR: '人事',
+  IT: 'IT',
+  ACCOUNTING: '会計',
+  ADVERTISING: '広告',
+  MANAGEMENT: '経営',
+  SALES: '営業',
+  MANUFACTURING: '製造',
+  MEDICAL: '医療',
+  FINANCE: '金融',
+};
+
 const BUSINESS_DOMAIN_SET = new Set<BusinessDomainValue>(BUSINESS_DOMAIN_VALUES);
 
 const DOMAIN_ALIASES: Record<string, BusinessDomainValue> = {
@@ -44,7 +56,8 @@ const DOMAIN_ALIASES: Record<string, BusinessDomainValue> = {
 export function mapBusinessDomain(input: unknown): BusinessDomainValue | undefined {
   if (typeof input !== 'string') return undefined;
 
-  const trimmed = input.trim();
+  // 全角英数字・全角空白（「ＩＴ」など）は NFKC で半角に揃える
+  const trimmed = input.normalize('NFKC').trim();
   if (!trimmed) return undefined;
 
   const upperCased = trimmed.toUpperCase() as BusinessDomainValue;
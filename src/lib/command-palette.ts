@@ -0,0 +1,130 @@
+/**
+ * Ctrl+K のコマンドパレットで使う型と、画面遷移・作成などのアクション定義。
+ * 検索結果（/api/search）もアクションも、ロールに応じて見せるものを絞る。
+ */
+
+export type PaletteRole = 'ADMIN' | 'CS';
+
+export const PALETTE_RESULT_TYPES = ['evangelist', 'innovator', 'todo', 'user', 'requiredIntroduction'] as const;
+
+export type PaletteResultType = (typeof PALETTE_RESULT_TYPES)[number];
+
+export const PALETTE_RESULT_LABELS: Record<PaletteResultType, string> = {
+  evangelist: 'エヴァ',
+  innovator: 'イノベータ',
+  todo: 'ToDo',
+  user: 'ユーザー',
+  requiredIntroduction: '紹介必須ルール',
+};
+
+// 種類ごとに見られるロール（CS には管理者専用のものを返さない）
+export const PALETTE_RESULT_ROLES: Record<PaletteResultType, readonly PaletteRole[]> = {
+  evangelist: ['ADMIN', 'CS'],
+  innovator: ['ADMIN', 'CS'],
+  todo: ['ADMIN', 'CS'],
+  user: ['ADMIN'],
+  requiredIntroduction: ['ADMIN'],
+};
+
+export type PaletteResult = {
+  type: PaletteResultType;
+  id: string;
+  title: string;
+  subtitle?: string | null;
+  href: string;
+};
+
+export type PaletteSearchResponse = {
+  results: PaletteResult[];
+};
+
+export type PaletteAction = {
+  id: string;
+  label: string;
+  keywords: string[];
+  href: string;
+  roles: readonly PaletteRole[];
+};
+
+export const PALETTE_ACTIONS: readonly PaletteAction[] = [
+  { id: 'go-evangelists', label: 'エヴァ一覧を開く', keywords: ['evangelist', 'list', 'エヴァ'], href: '/evangelists', roles: ['ADMIN', 'CS'] },
+  { id: 'go-dashboard', label: 'ダッシュボードを開く', keywords: ['dashboard'], href: '/', roles: ['ADMIN', 'CS'] },
+  { id: 'go-todos', label: 'ToDoを開く', keywords: ['todo', 'タスク'], href: '/todos', roles: ['ADMIN', 'CS'] },
+  { id: 'new-todo', label: 'ToDoを追加', keywords: ['todo', 'new', '作成', 'タスク'], href: '/todos?new=1', roles: ['ADMIN', 'CS'] },
+  { id: 'go-innovators', label: 'イノベータ管理を開く', keywords: ['innovator'], href: '/admin/innovators', roles: ['ADMIN', 'CS'] },
+  {
+    id: 'go-bulk-assign',
+    label: 'CSV一括反映へ移動',
+    keywords: ['bulk', 'assign', 'csv', '担当'],
+    href: '/admin/evangelists/bulk-assign',
+    roles: ['ADMIN'],
+  },
+  { id: 'go-imports', label: 'インポート履歴を開く', keywords: ['import', 'csv'], href: '/admin/imports', roles: ['ADMIN'] },
+  { id: 'go-duplicates', label: '重複チェックを開く', keywords: ['duplicate', 'merge', '統合'], href: '/admin/evangelists/duplicates', roles: ['ADMIN'] },
+  {
+    id: 'go-required-introductions',
+    label: '紹介必須ルールを開く',
+    keywords: ['required', 'introduction', '紹介'],
+    href: '/admin/introductions/required',
+    roles: ['ADMIN'],
+  },
+  { id: 'go-custom-fields', label: 'カスタム項目を開く', keywords: ['custom', 'field'], href: '/admin/custom-fields', roles: ['ADMIN'] },
+  { id: 'go-picklists', label: '選択肢管理を開く', keywords: ['picklist', 'status'], href: '/admin/picklists', roles: ['ADMIN'] },
+  { id: 'go-tags', label: 'タグ管理を開く', keywords: ['tag'], href: '/admin/tags', roles: ['ADMIN'] },
+  {
+    id: 'go-completeness',
+    label: '充足度設定を開く',
+    keywords: ['completeness', 'score', '充足度'],
+    href: '/admin/completeness',
+    roles: ['ADMIN'],
+  },
+  {
+    id: 'go-phase-transitions',
+    label: 'フェーズ遷移ルールを開く',
+    keywords: ['phase', 'transition', 'フェーズ'],
+    href: '/admin/phase-transitions',
+    roles: ['ADMIN'],
+  },
+  { id: 'go-users', label: 'ユーザー管理を開く', keywords: ['user', 'cs'], href: '/admin/users', roles: ['ADMIN'] },
+];
+
+export function canSeePaletteResult(type: PaletteResultType, role?: string) {
+  return (PALETTE_RESULT_ROLES[type] as readonly string[]).includes(role ?? '');
+}
+
+/** ロールで使えるアクションのうち、入力に一致するもの（未入力ならすべて） */
+export function filterPaletteActions(query: string, role?: string): PaletteAction[] {
+  const normalized = query.trim().toLowerCase();
+  return PALETTE_ACTIONS.filter((action) => (action.roles as readonly string[]).includes(role ?? '')).filter(
+    (action) =>
+      !normalized ||
+      action.label.toLowerCase().includes(normalized) ||
+      action.keywords.some((keyword) => keyword.toLowerCase().includes(normalized)),
+  );
+}
+
+/** エヴァ向けのアクション（面談の記録・このエヴァの ToDo 作成） */
+export function buildEvangelistActions(evangelist: { id: string; name: string }): PaletteAction[] {
+  const todoParams = new URLSearchParams({
+    new: '1',
+    title: `【${evangelist.name}】`,
+    notes: `エヴァ詳細: /evangelists/${evangelist.id}`,
+    evangelistId: evangelist.id,
+  });
+  return [
+    {
+      id: `log-meeting-${evangelist.id}`,
+      label: `${evangelist.name} の面談を記録`,
+      keywords: ['meeting', '面談'],
+      href: `/evangelists/${evangelist.id}?logMeeting=1`,
+      roles: ['ADMIN', 'CS'],
+    },
+    {
+      id: `new-todo-${evangelist.id}`,
+      label: `${evangelist.name} のToDoを作成`,
+      keywords: ['todo', 'タスク'],
+      href: `/todos?${todoParams.toString()}`,
+      roles: ['ADMIN', 'CS'],
+    },
+  ];
+}
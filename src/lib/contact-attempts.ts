@@ -0,0 +1,136 @@
+import type { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+/**
+ * 連絡の試み（LINE・Facebook・メール・電話などでの連絡。返信が無かったものも残す）。
+ * 最後の返信・面談より後に未返信が続いた回数を数え、上限に達したEVAに「追客停止の目安」の印を付ける。
+ */
+
+// ContactPreference enum と同じ並び
+export const CONTACT_CHANNEL_VALUES = ['LINE', 'FACEBOOK', 'EMAIL', 'PHONE', 'SLACK'] as const;
+
+export type ContactChannelValue = (typeof CONTACT_CHANNEL_VALUES)[number];
+
+export const CONTACT_CHANNEL_LABELS: Record<ContactChannelValue, string> = {
+  LINE: 'LINE',
+  FACEBOOK: 'Facebook',
+  EMAIL: 'メール',
+  PHONE: '電話',
+  SLACK: 'Slack',
+};
+
+export const CONTACT_ATTEMPT_OUTCOME_VALUES = ['NO_RESPONSE', 'REPLIED', 'UNREACHABLE', 'DECLINED'] as const;
+
+export type ContactAttemptOutcomeValue = (typeof CONTACT_ATTEMPT_OUTCOME_VALUES)[number];
+
+export const CONTACT_ATTEMPT_OUTCOME_LABELS: Record<ContactAttemptOutcomeValue, string> = {
+  NO_RESPONSE: '返信なし',
+  REPLIED: '返信あり',
+  UNREACHABLE: '届かない',
+  DECLINED: '断られた',
+};
+
+// 未返信として数える結果（断られた場合は返信があったものとして扱う）
+const UNANSWERED_OUTCOMES = new Set<string>(['NO_RESPONSE', 'UNREACHABLE']);
+
+// 未返信がこの回数続いたら印を付ける
+export const UNANSWERED_ATTEMPT_LIMIT = 3;
+
+export const createContactAttemptSchema = z.object({
+  channel: z.enum(CONTACT_CHANNEL_VALUES),
+  outcome: z.enum(CONTACT_ATTEMPT_OUTCOME_VALUES).default('NO_RESPONSE'),
+  attemptedAt: z.string().datetime({ message: 'Invalid date format' }).optional(),
+  note: z.string().trim().max(500).optional().nullable(),
+});
+
+export type ContactAttemptItem = {
+  id: string;
+  channel: ContactChannelValue;
+  outcome: ContactAttemptOutcomeValue;
+  attemptedAt: string;
+  note: string | null;
+  createdBy: { id: string; name: string } | null;
+};
+
+export type ContactSummary = {
+  unanswered: number;
+  lastAttemptAt: string | null;
+  flagged: boolean;
+};
+
+export const EMPTY_CONTACT_SUMMARY: ContactSummary = { unanswered: 0, lastAttemptAt: null, flagged: false };
+
+type AttemptLike = { outcome: string; attemptedAt: Date };
+
+/** 最後の返信・面談より後の未返信の回数（attempts は新しい順） */
+export function summarizeContactAttempts(attempts: AttemptLike[], lastMeetingAt: Date | null): ContactSummary {
+  let unanswered = 0;
+  for (const attempt of attempts) {
+    if (lastMeetingAt && attempt.attemptedAt <= lastMeetingAt) break;
+    if (!UNANSWERED_OUTCOMES.has(attempt.outcome)) break;
+    unanswered += 1;
+  }
+  return {
+    unanswered,
+    lastAttemptAt: attempts[0]?.attemptedAt.toISOString() ?? null,
+    flagged: unanswered >= UNANSWERED_ATTEMPT_LIMIT,
+  };
+}
+
+type ContactSummaryClient = {
+  contactAttempt: Pick<Prisma.TransactionClient['contactAttempt'], 'findMany'>;
+  meeting: Pick<Prisma.TransactionClient['meeting'], 'groupBy'>;
+};
+
+/** EVAごとの連絡状況（連絡記録が無いEVAは含まない） */
+export async function loadContactSummaries(
+  client: ContactSummaryClient,
+  evangelistIds: string[],
+): Promise<Map<string, ContactSummary>> {
+  if (evangelistIds.length === 0) return new Map();
+
+  const [attempts, meetings] = await Promise.all([
+    client.contactAttempt.findMany({
+      where: { evangelistId: { in: evangelistIds } },
+      orderBy: { attemptedAt: 'desc' },
+      select: { evangelistId: true, outcome: true, attemptedAt: true },
+    }),
+    client.meeting.groupBy({
+      by: ['evangelistId'],
+      where: { evangelistId: { in: evangelistIds } },
+      _max: { date: true },
+    }),
+  ]);
+
+  const lastMeetingAt = new Map(meetings.map((row) => [row.evangelistId, row._max.date]));
+  const attemptsById = new Map<string, AttemptLike[]>();
+  attempts.forEach((attempt) => {
+    const list = attemptsById.get(attempt.evangelistId) ?? [];
+    list.push(attempt);
+    attemptsById.set(attempt.evangelistId, list);
+  });
+
+  return new Map(
+    [...attemptsById].map(([id, list]) => [id, summarizeContactAttempts(list, lastMeetingAt.get(id) ?? null)]),
+  );
+}
+
+export const contactAttemptSelect = {
+  id: true,
+  channel: true,
+  outcome: true,
+  attemptedAt: true,
+  note: true,
+  createdBy: { select: { id: true, name: true } },
+} as const;
+
+export function mapContactAttempt(attempt: {
+  id: string;
+  channel: ContactChannelValue;
+  outcome: ContactAttemptOutcomeValue;
+  attemptedAt: Date;
+  note: string | null;
+  createdBy: { id: string; name: string } | null;
+}): ContactAttemptItem {
+  return { ...attempt, attemptedAt: attempt.attemptedAt.toISOString() };
+}
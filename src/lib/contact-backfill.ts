@@ -0,0 +1,114 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+
+import { CONTACT_FIELD_KEYS, normalizeContactFields, type ContactFieldKey } from '@/lib/contact-normalize';
+import { recordEvangelistActivity, type ActivityChanges } from '@/lib/evangelist-activity';
+
+// 既存レコードの連絡先の表記揃え（ドライランで確認してから実行する）の 1 レコード分
+export type ContactBackfillItem = {
+  evangelistId: string;
+  name: string;
+  // 正規化で変わる項目（メールが他のEVAと重なる場合は含めない）
+  changes: ActivityChanges;
+  // 形式が正しくないため、そのまま残す項目
+  invalid: ContactFieldKey[];
+  // 正規化すると他のEVAと同じメールアドレスになる（統合で解消する）
+  emailConflict: boolean;
+};
+
+/**
+ * 連絡先の表記揃えの計画を作る。
+ * メールアドレスは一意のため、正規化後の値が既存の値や先に揃えた値と重なるものは変更せず emailConflict として返す。
+ */
+export async function planContactBackfill(client: PrismaClient) {
+  const evangelists = await client.evangelist.findMany({
+    where: { OR: CONTACT_FIELD_KEYS.map((field) => ({ [field]: { not: null } })) },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, firstName: true, lastName: true, email: true, phoneNumber: true, facebookUrl: true },
+  });
+
+  const takenEmails = new Set(evangelists.flatMap((evangelist) => evangelist.email ?? []));
+  const items: ContactBackfillItem[] = [];
+
+  evangelists.forEach((evangelist) => {
+    const { values, invalid } = normalizeContactFields({
+      email: evangelist.email ?? undefined,
+      phoneNumber: evangelist.phoneNumber ?? undefined,
+      facebookUrl: evangelist.facebookUrl ?? undefined,
+    });
+
+    let emailConflict = false;
+    const changes: ActivityChanges = {};
+    CONTACT_FIELD_KEYS.forEach((field) => {
+      const after = values[field];
+      if (after === undefined || after === evangelist[field]) return;
+      if (field === 'email' && after) {
+        if (takenEmails.has(after)) {
+          emailConflict = true;
+          return;
+        }
+        takenEmails.add(after);
+      }
+      changes[field] = { before: evangelist[field], after };
+    });
+
+    if (Object.keys(changes).length === 0 && invalid.length === 0 && !emailConflict) return;
+    items.push({
+      evangelistId: evangelist.id,
+      name: `${evangelist.lastName ?? ''} ${evangelist.firstName ?? ''}`.trim(),
+      changes,
+      invalid,
+      emailConflict,
+    });
+  });
+
+  return items;
+}
+
+/**
+ * 計画どおりに連絡先を書き換える。
+ * 計画後に値が変わっていたレコードは上書きせず skipped に数える。
+ */
+export async function executeContactBackfill(
+  client: PrismaClient,
+  actorId: string | null,
+  items: ContactBackfillItem[],
+) {
+  let updated = 0;
+  const skipped: string[] = [];
+
+  for (const item of items) {
+    const entries = Object.entries(item.changes);
+    if (entries.length === 0) continue;
+
+    const applied = await client
+      .$transaction(async (tx) => {
+        const result = await tx.evangelist.updateMany({
+          where: {
+            id: item.evangelistId,
+            AND: entries.map(([field, { before }]) => ({ [field]: before })),
+          } as Prisma.EvangelistWhereInput,
+          data: Object.fromEntries(entries.map(([field, { after }]) => [field, after])),
+        });
+        if (result.count === 0) return false;
+
+        await recordEvangelistActivity(tx, {
+          evangelistId: item.evangelistId,
+          actorId,
+          source: 'UI',
+          action: 'UPDATED',
+          changes: item.changes,
+        });
+        return true;
+      })
+      .catch((error: { code?: string }) => {
+        // 計画後に同じメールアドレスが登録された
+        if (error?.code === 'P2002') return false;
+        throw error;
+      });
+
+    if (applied) updated++;
+    else skipped.push(item.evangelistId);
+  }
+
+  return { updated, skipped };
+}
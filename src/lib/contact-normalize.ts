@@ -0,0 +1,134 @@
+/**
+ * 連絡先（メール・電話番号・Facebook URL）の正規化。
+ * 画面・API・CSV インポート・一括反映のどこから書き込んでも同じ表記で保存し、重複の検出と検索を安定させる。
+ * いずれの関数も、空なら null、形式が正しくなければ undefined を返す。
+ */
+
+export const CONTACT_FIELD_KEYS = ['email', 'phoneNumber', 'facebookUrl'] as const;
+
+export type ContactFieldKey = (typeof CONTACT_FIELD_KEYS)[number];
+
+export const CONTACT_FIELD_LABELS: Record<ContactFieldKey, string> = {
+  email: 'メールアドレス',
+  phoneNumber: '電話番号',
+  facebookUrl: 'Facebook URL',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// E.164（+ と国番号から始まる 15 桁以内）
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+const JAPAN_COUNTRY_CODE = '81';
+
+/** 全角・前後の空白を除いた小文字のメールアドレス */
+export function normalizeEmail(value?: string | null): string | null | undefined {
+  const trimmed = value?.normalize('NFKC').replace(/\s+/g, '').toLowerCase();
+  if (!trimmed) return null;
+  return EMAIL_PATTERN.test(trimmed) ? trimmed : undefined;
+}
+
+/**
+ * E.164 形式の電話番号。国番号の無い 0 始まりの番号は日本の番号として +81 を付ける。
+ * 先頭の 0 が落ちた 9〜10 桁の番号（表計算ソフトで数値になったものなど）も日本の番号として扱う。
+ * ハイフン・括弧・空白・全角数字などの表記揺れは取り除く。
+ */
+export function normalizePhoneNumber(value?: string | null): string | null | undefined {
+  const trimmed = value?.normalize('NFKC').trim();
+  if (!trimmed) return null;
+
+  const international = trimmed.startsWith('+');
+  let digits = trimmed.replace(/\D/g, '');
+  if (!digits) return undefined;
+
+  if (international) {
+    // +81 090... のように国番号の後に 0 を残した表記
+    if (digits.startsWith(`${JAPAN_COUNTRY_CODE}0`)) {
+      digits = `${JAPAN_COUNTRY_CODE}${digits.slice(3)}`;
+    }
+  } else if (digits.startsWith('010')) {
+    // 日本からの国際電話の発信番号
+    digits = digits.slice(3);
+  } else if (digits.startsWith('0')) {
+    if (digits.length !== 10 && digits.length !== 11) return undefined;
+    digits = `${JAPAN_COUNTRY_CODE}${digits.slice(1)}`;
+  } else if (!digits.startsWith(JAPAN_COUNTRY_CODE) || digits.length < 11) {
+    // + を省いた国番号付きの表記（81 から始まる 11 桁以上）でなければ、先頭の 0 が落ちた国内の番号
+    if (digits.length !== 9 && digits.length !== 10) return undefined;
+    digits = `${JAPAN_COUNTRY_CODE}${digits}`;
+  }
+
+  const e164 = `+${digits}`;
+  return E164_PATTERN.test(e164) ? e164 : undefined;
+}
+
+const FACEBOOK_HOST_PATTERN = /^(?:[a-z0-9-]+\.)?(?:facebook\.com|fb\.com)$/;
+
+/**
+ * https://www.facebook.com/<ユーザー名> の形の URL。
+ * m./web. などのサブドメイン・クエリ・末尾スラッシュを除き、ID 指定のプロフィールは profile.php?id= に揃える。
+ */
+export function normalizeFacebookUrl(value?: string | null): string | null | undefined {
+  const trimmed = value?.normalize('NFKC').trim();
+  if (!trimmed) return null;
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return undefined;
+  }
+  if (!FACEBOOK_HOST_PATTERN.test(url.hostname.toLowerCase())) return undefined;
+
+  const path = url.pathname.replace(/\/+$/, '');
+  const profileId =
+    path.toLowerCase() === '/profile.php'
+      ? url.searchParams.get('id')
+      : /^\/people\/[^/]+\/(\d+)$/i.exec(path)?.[1];
+  if (profileId) {
+    return /^\d+$/.test(profileId) ? `https://www.facebook.com/profile.php?id=${profileId}` : undefined;
+  }
+  if (!path || path.toLowerCase() === '/profile.php') return undefined;
+
+  return `https://www.facebook.com${path.toLowerCase()}`;
+}
+
+const NORMALIZERS: Record<ContactFieldKey, (value?: string | null) => string | null | undefined> = {
+  email: normalizeEmail,
+  phoneNumber: normalizePhoneNumber,
+  facebookUrl: normalizeFacebookUrl,
+};
+
+type ContactFieldInput = Partial<Record<ContactFieldKey, string | null | undefined>>;
+
+/**
+ * 指定された連絡先項目をまとめて正規化する。含まれていない（undefined の）項目は触らない。
+ * 形式が正しくない項目は invalid に入れ、values からは外す。
+ */
+export function normalizeContactFields(input: ContactFieldInput): {
+  values: Partial<Record<ContactFieldKey, string | null>>;
+  invalid: ContactFieldKey[];
+} {
+  const values: Partial<Record<ContactFieldKey, string | null>> = {};
+  const invalid: ContactFieldKey[] = [];
+
+  CONTACT_FIELD_KEYS.forEach((field) => {
+    if (input[field] === undefined) return;
+    const normalized = NORMALIZERS[field](input[field]);
+    if (normalized === undefined) {
+      invalid.push(field);
+    } else {
+      values[field] = normalized;
+    }
+  });
+
+  return { values, invalid };
+}
+
+/** 取り込めなかった項目の説明（インポートの行の注記用） */
+export function describeInvalidContactFields(input: ContactFieldInput, invalid: ContactFieldKey[]) {
+  if (invalid.length === 0) return null;
+  return invalid
+    .map((field) => `${CONTACT_FIELD_LABELS[field]}「${input[field]}」の形式が正しくないため取り込みません`)
+    .join(' / ');
+}
@@ -0,0 +1,54 @@
+import type { Prisma } from '@prisma/client';
+
+import { normalizePersonName } from '@/lib/name-normalize';
+
+export type CsCandidate = { id: string; name: string };
+
+export type CsResolution =
+  | { status: 'RESOLVED'; user: CsCandidate }
+  | { status: 'AMBIGUOUS'; candidates: CsCandidate[] }
+  | { status: 'NOT_FOUND' };
+
+type CsResolverClient = {
+  user: Pick<Prisma.TransactionClient['user'], 'findMany'>;
+};
+
+export function normalizeAlias(value: string) {
+  return normalizePersonName(value);
+}
+
+/**
+ * CS / 管理者の氏名と別名（UserAlias）から、CSV 上の名前を引く照合表を作る。
+ * 同じキーに複数ユーザーが該当する場合は推測せず AMBIGUOUS として返す。
+ */
+export async function loadCsResolver(client: CsResolverClient) {
+  const users = await client.user.findMany({
+    where: { role: { in: ['CS', 'ADMIN'] } },
+    select: { id: true, name: true, aliases: { select: { normalized: true } } },
+  });
+
+  const candidatesByKey = new Map<string, Map<string, CsCandidate>>();
+  const add = (key: string, user: CsCandidate) => {
+    if (!key) return;
+    const bucket = candidatesByKey.get(key) ?? new Map<string, CsCandidate>();
+    bucket.set(user.id, user);
+    candidatesByKey.set(key, bucket);
+  };
+
+  users.forEach(({ id, name, aliases }) => {
+    const user = { id, name };
+    add(normalizePersonName(name), user);
+    aliases.forEach((alias) => add(alias.normalized, user));
+  });
+
+  return {
+    resolve(value?: string | null): CsResolution {
+      const candidates = Array.from(candidatesByKey.get(normalizePersonName(value))?.values() ?? []);
+      if (candidates.length === 1) return { status: 'RESOLVED', user: candidates[0] };
+      if (candidates.length > 1) return { status: 'AMBIGUOUS', candidates };
+      return { status: 'NOT_FOUND' };
+    },
+  };
+}
+
+export type CsResolver = Awaited<ReturnType<typeof loadCsResolver>>;
@@ -0,0 +1,32 @@
+// 表計算ソフトで開いたときに数式として評価される先頭文字
+const FORMULA_PREFIX_PATTERN = /^[=@\t\r]/;
+
+// + / - で始まる値のうち、電話番号（E.164 の +81... など）・負の数のように数式として扱う必要の無い値
+const SIGNED_PREFIX_PATTERN = /^[+-]/;
+const NUMERIC_LIKE_PATTERN = /^[+-]?[\d\s().-]+$/;
+
+/**
+ * 数式として評価されないよう、先頭が = @ タブ 改行 や、+ / - の後に数字以外が続く文字列は ' を付けて文字列として扱わせる。
+ * 電話番号・数値の文字列はそのまま出す。
+ */
+function neutralizeFormula(value: string) {
+  if (FORMULA_PREFIX_PATTERN.test(value)) return `'${value}`;
+  if (SIGNED_PREFIX_PATTERN.test(value) && !NUMERIC_LIKE_PATTERN.test(value)) return `'${value}`;
+  return value;
+}
+
+export function escapeCsvValue(value: unknown) {
+  if (value == null) return '';
+  if (typeof value === 'number') return String(value);
+  const stringValue = neutralizeFormula(Array.isArray(value) ? value.join(', ') : String(value));
+  if (/[",\r\n]/.test(stringValue)) {
+    return `"${stringValue.replace(/"/g, '""')}"`;
+  }
+  return stringValue;
+}
+
+/** Excel で文字化けしないよう BOM 付きの CSV 文字列を作る */
+export function toCsvWithBom(header: string[], rows: unknown[][]) {
+  const lines = [header, ...rows].map((row) => row.map(escapeCsvValue).join(','));
+  return '\uFEFF' + lines.join('\n') + '\n';
+}
@@ -0,0 +1,320 @@
+import { z } from 'zod';
+import type { CustomFieldType, Prisma } from '@prisma/client';
+
+export const CUSTOM_FIELD_TYPE_VALUES = [
+  'TEXT',
+  'NUMBER',
+  'DATE',
+  'SINGLE_SELECT',
+  'MULTI_SELECT',
+  'BOOLEAN',
+] as const satisfies readonly CustomFieldType[];
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  TEXT: 'テキスト',
+  NUMBER: '数値',
+  DATE: '日付',
+  SINGLE_SELECT: '単一選択',
+  MULTI_SELECT: '複数選択',
+  BOOLEAN: 'はい / いいえ',
+};
+
+// CSV マッピング・エクスポート列・一覧フィルタのパラメータでは `cf.<key>` で標準項目と区別する
+export const CUSTOM_FIELD_PREFIX = 'cf.';
+
+export type CustomFieldTargetKey = `cf.${string}`;
+
+export const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+export type CustomFieldDefinition = {
+  id: string;
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[];
+  required: boolean;
+  minValue: number | null;
+  maxValue: number | null;
+  maxLength: number | null;
+  pattern: string | null;
+  sortOrder: number;
+  archived: boolean;
+};
+
+export type CustomFieldValue = string | number | boolean | string[];
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+const isValidPattern = (pattern?: string | null) => {
+  if (!pattern) return true;
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const customFieldSettingsSchema = z.object({
+  label: z.string().trim().min(1).max(100),
+  options: z.array(z.string().trim().min(1).max(100)).max(100).optional(),
+  required: z.boolean().optional(),
+  minValue: z.number().finite().nullable().optional(),
+  maxValue: z.number().finite().nullable().optional(),
+  maxLength: z.number().int().positive().nullable().optional(),
+  pattern: z.string().max(200).refine(isValidPattern, 'Invalid pattern').nullable().optional(),
+  sortOrder: z.number().int().optional(),
+  archived: z.boolean().optional(),
+});
+
+export const createCustomFieldSchema = customFieldSettingsSchema
+  .extend({
+    key: z.string().trim().regex(CUSTOM_FIELD_KEY_PATTERN, 'Key must be lowercase letters, digits or _'),
+    type: z.enum(CUSTOM_FIELD_TYPE_VALUES),
+  })
+  .refine(
+    (data) => (data.type !== 'SINGLE_SELECT' && data.type !== 'MULTI_SELECT') || (data.options?.length ?? 0) > 0,
+    { message: 'Select fields require options', path: ['options'] },
+  );
+
+// key と型は保存済みの値と整合しなくなるため変更不可
+export const updateCustomFieldSchema = customFieldSettingsSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, { message: 'No update fields provided' });
+
+type CustomFieldDefinitionRow = Omit<CustomFieldDefinition, 'options'> & { options: Prisma.JsonValue | null };
+
+export function toCustomFieldDefinition(row: CustomFieldDefinitionRow): CustomFieldDefinition {
+  const { id, key, label, type, required, minValue, maxValue, maxLength, pattern, sortOrder, archived } = row;
+  return {
+    id,
+    key,
+    label,
+    type,
+    options: Array.isArray(row.options) ? row.options.filter((option): option is string => typeof option === 'string') : [],
+    required,
+    minValue,
+    maxValue,
+    maxLength,
+    pattern,
+    sortOrder,
+    archived,
+  };
+}
+
+type CustomFieldClient = {
+  customFieldDefinition: Pick<Prisma.TransactionClient['customFieldDefinition'], 'findMany'>;
+};
+
+export async function loadCustomFieldDefinitions(
+  client: CustomFieldClient,
+  options: { includeArchived?: boolean } = {},
+) {
+  const rows = await client.customFieldDefinition.findMany({
+    where: options.includeArchived ? undefined : { archived: false },
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+  });
+  return rows.map(toCustomFieldDefinition);
+}
+
+/** DB の JSON 値を key → 値の形に揃える（不正な値は捨てる） */
+export function toCustomFieldValues(value: unknown): CustomFieldValues {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).filter(
+      ([, fieldValue]) =>
+        typeof fieldValue === 'string' ||
+        typeof fieldValue === 'number' ||
+        typeof fieldValue === 'boolean' ||
+        (Array.isArray(fieldValue) && fieldValue.every((item) => typeof item === 'string')),
+    ),
+  ) as CustomFieldValues;
+}
+
+const TRUE_TEXTS = new Set(['true', '1', 'yes', 'y', 'on', 'はい', '有', 'あり', '済', '○', '◯']);
+const FALSE_TEXTS = new Set(['false', '0', 'no', 'n', 'off', 'いいえ', '無', 'なし', '未', '×']);
+
+export function parseBooleanText(value: string): boolean | null {
+  const normalized = value.normalize('NFKC').trim().toLowerCase();
+  if (TRUE_TEXTS.has(normalized)) return true;
+  if (FALSE_TEXTS.has(normalized)) return false;
+  return null;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function parseDateText(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCMonth() !== Number(month) - 1) return null;
+  return `${year}-${pad(Number(month))}-${pad(Number(day))}`;
+}
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '') || (Array.isArray(value) && value.length === 0);
+
+export type CustomFieldCheck = { ok: true; value: CustomFieldValue | null } | { ok: false; error: string };
+
+/**
+ * 入力値（フォーム・CSV の文字列を含む）を定義の型に変換して検証する。
+ * 空値は null（未入力）として扱い、必須チェックは呼び出し側の指定に従う。
+ */
+export function checkCustomFieldValue(
+  definition: CustomFieldDefinition,
+  raw: unknown,
+  { enforceRequired = true }: { enforceRequired?: boolean } = {},
+): CustomFieldCheck {
+  if (isBlank(raw)) {
+    return enforceRequired && definition.required
+      ? { ok: false, error: `${definition.label}は必須です` }
+      : { ok: true, value: null };
+  }
+
+  switch (definition.type) {
+    case 'TEXT': {
+      const value = String(raw).trim();
+      if (definition.maxLength && value.length > definition.maxLength) {
+        return { ok: false, error: `${definition.label}は${definition.maxLength}文字以内で入力してください` };
+      }
+      if (definition.pattern && !new RegExp(definition.pattern).test(value)) {
+        return { ok: false, error: `${definition.label}の形式が正しくありません` };
+      }
+      return { ok: true, value };
+    }
+    case 'NUMBER': {
+      const value = typeof raw === 'number' ? raw : Number(String(raw).normalize('NFKC').replace(/,/g, '').trim());
+      if (!Number.isFinite(value)) return { ok: false, error: `${definition.label}は数値で入力してください` };
+      if (definition.minValue !== null && value < definition.minValue) {
+        return { ok: false, error: `${definition.label}は${definition.minValue}以上で入力してください` };
+      }
+      if (definition.maxValue !== null && value > definition.maxValue) {
+        return { ok: false, error: `${definition.label}は${definition.maxValue}以下で入力してください` };
+      }
+      return { ok: true, value };
+    }
+    case 'DATE': {
+      const value = parseDateText(String(raw));
+      return value ? { ok: true, value } : { ok: false, error: `${definition.label}は YYYY-MM-DD 形式で入力してください` };
+    }
+    case 'BOOLEAN': {
+      const value = typeof raw === 'boolean' ? raw : parseBooleanText(String(raw));
+      return value === null ? { ok: false, error: `${definition.label}ははい / いいえで入力してください` } : { ok: true, value };
+    }
+    case 'SINGLE_SELECT': {
+      const value = String(raw).trim();
+      return definition.options.includes(value)
+        ? { ok: true, value }
+        : { ok: false, error: `${definition.label}の選択肢にない値です: ${value}` };
+    }
+    case 'MULTI_SELECT': {
+      const values = (Array.isArray(raw) ? raw.map(String) : String(raw).split(/[,、]/))
+        .map((value) => value.trim())
+        .filter(Boolean);
+      const unknown = values.filter((value) => !definition.options.includes(value));
+      if (unknown.length > 0) {
+        return { ok: false, error: `${definition.label}の選択肢にない値です: ${unknown.join(', ')}` };
+      }
+      return { ok: true, value: Array.from(new Set(values)) };
+    }
+  }
+}
+
+export type CustomFieldError = { key: string; label: string; message: string };
+
+/**
+ * 送られてきた key → 値を検証し、既存値にマージした結果を返す。
+ * null（空）は値の削除。未定義・アーカイブ済みの key はエラーにする。
+ */
+export function applyCustomFieldInput(
+  definitions: CustomFieldDefinition[],
+  existing: unknown,
+  input: Record<string, unknown>,
+  options: { enforceRequired?: boolean } = {},
+) {
+  const byKey = new Map(definitions.map((definition) => [definition.key, definition]));
+  const values = toCustomFieldValues(existing);
+  const errors: CustomFieldError[] = [];
+
+  for (const [key, raw] of Object.entries(input)) {
+    const definition = byKey.get(key);
+    if (!definition) {
+      errors.push({ key, label: key, message: `未定義のカスタム項目です: ${key}` });
+      continue;
+    }
+    const result = checkCustomFieldValue(definition, raw, options);
+    if (!result.ok) {
+      errors.push({ key, label: definition.label, message: result.error });
+      continue;
+    }
+    if (result.value === null) delete values[key];
+    else values[key] = result.value;
+  }
+
+  return { values, errors };
+}
+
+export function formatCustomFieldValue(definition: Pick<CustomFieldDefinition, 'type'>, value: unknown) {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (definition.type === 'BOOLEAN') return value ? 'はい' : 'いいえ';
+  return String(value);
+}
+
+/** 変更履歴用に、カスタム項目を `cf.<key>` 単位の差分に展開する */
+export function diffCustomFieldValues(before: unknown, after: CustomFieldValues) {
+  const previous = toCustomFieldValues(before);
+  const keys = new Set([...Object.keys(previous), ...Object.keys(after)]);
+  const changes: Record<string, { before: unknown; after: unknown }> = {};
+  keys.forEach((key) => {
+    const prev = previous[key] ?? null;
+    const next = after[key] ?? null;
+    if (JSON.stringify(prev) !== JSON.stringify(next)) {
+      changes[`${CUSTOM_FIELD_PREFIX}${key}`] = { before: prev, after: next };
+    }
+  });
+  return changes;
+}
+
+/**
+ * 一覧・エクスポートの `cf.<key>=値` フィルタを JSON パス条件にする。
+ * 数値・日付は `min..max`（片側省略可）で範囲指定できる。
+ */
+export function buildCustomFieldWhere(
+  definition: CustomFieldDefinition,
+  raw: string,
+): Prisma.EvangelistWhereInput | null {
+  const value = raw.trim();
+  if (!value) return null;
+  const path = [definition.key];
+
+  if ((definition.type === 'NUMBER' || definition.type === 'DATE') && value.includes('..')) {
+    const [from, to] = value.split('..').map((part) => part.trim());
+    const parse = (part: string) => {
+      if (!part) return undefined;
+      const result = checkCustomFieldValue(definition, part, { enforceRequired: false });
+      return result.ok && result.value !== null ? result.value : undefined;
+    };
+    const gte = parse(from);
+    const lte = parse(to);
+    if (gte === undefined && lte === undefined) return null;
+    return {
+      AND: [
+        ...(gte !== undefined ? [{ customFields: { path, gte } }] : []),
+        ...(lte !== undefined ? [{ customFields: { path, lte } }] : []),
+      ],
+    };
+  }
+
+  switch (definition.type) {
+    case 'TEXT':
+      return { customFields: { path, string_contains: value } };
+    case 'MULTI_SELECT':
+      return { customFields: { path, array_contains: [value] } };
+    default: {
+      const result = checkCustomFieldValue(definition, value, { enforceRequired: false });
+      if (!result.ok || result.value === null) return null;
+      return { customFields: { path, equals: result.value } };
+    }
+  }
+}
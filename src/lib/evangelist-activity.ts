@@ -0,0 +1,142 @@
+import type { Prisma } from '@prisma/client';
+
+export const ACTIVITY_SOURCE_VALUES = ['UI', 'IMPORT', 'BULK_ASSIGN', 'API'] as const;
+
+export type ActivitySourceValue = (typeof ACTIVITY_SOURCE_VALUES)[number];
+
+export const ACTIVITY_SOURCE_LABELS: Record<ActivitySourceValue, string> = {
+  UI: '画面',
+  IMPORT: 'CSVインポート',
+  BULK_ASSIGN: 'CSV一括反映',
+  API: 'API',
+};
+
+export const ACTIVITY_ACTION_LABELS: Record<string, string> = {
+  CREATED: '登録',
+  UPDATED: '更新',
+  MEETING_CREATED: '面談記録',
+  CONTACT_ATTEMPTED: '連絡記録',
+  PHASE_CHANGED: 'フェーズ変更',
+  MERGED: '重複統合',
+  REVERTED: '一括反映の取り消し',
+  ARCHIVED: 'アーカイブ',
+  RESTORED: 'アーカイブから復元',
+};
+
+// タイムライン表示用の項目名
+export const ACTIVITY_FIELD_LABELS: Record<string, string> = {
+  firstName: '名',
+  lastName: '姓',
+  firstNameKana: '名（ふりがな）',
+  lastNameKana: '姓（ふりがな）',
+  email: 'メールアドレス',
+  contactMethod: '連絡手段',
+  strength: '強み',
+  managementPhase: '管理フェーズ',
+  notes: '備考',
+  tier: 'Tier',
+  assignedCsId: '担当CS',
+  listProvided: 'リスト提供',
+  nextAction: 'ネクストアクション',
+  nextActionDueOn: 'NA期日',
+  recordId: 'レコードID',
+  supportPriority: '支援優先度',
+  pattern: 'パターン',
+  meetingStatus: '面談ステータス',
+  registrationStatus: '登録ステータス',
+  lineRegistered: 'LINE登録',
+  phoneNumber: '電話番号',
+  acquisitionSource: '獲得経路',
+  facebookUrl: 'Facebook',
+  listAcquired: 'リスト取得',
+  matchingListUrl: '突合リストURL',
+  contactOwner: 'コンタクト所有者',
+  marketingContactStatus: 'マーケティング連絡ステータス',
+  sourceCreatedAt: '元データ作成日',
+  tags: 'タグ',
+  mergedFrom: '統合元',
+  referredBy: '紹介者',
+  contactAttempt: '連絡',
+  archivedAt: 'アーカイブ日時',
+  archivedById: 'アーカイブした人',
+  archiveReason: 'アーカイブ理由',
+};
+
+export type ActivityFieldChange = { before: unknown; after: unknown };
+export type ActivityChanges = Record<string, ActivityFieldChange>;
+
+export type ActivityEntry = {
+  evangelistId: string;
+  actorId: string | null;
+  source: ActivitySourceValue;
+  action: string;
+  changes?: ActivityChanges | null;
+};
+
+type ActivityClient = {
+  evangelistActivity: Pick<Prisma.TransactionClient['evangelistActivity'], 'create' | 'createMany'>;
+};
+
+const IGNORED_FIELDS = new Set(['updatedAt', 'createdAt', 'displayName']);
+
+function toComparable(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined || value === '') return null;
+  return value;
+}
+
+/**
+ * 更新前後の値から変更のあった項目だけを抜き出す。
+ * `after` に含まれない（undefined の）項目は比較しない。
+ */
+export function diffActivityFields(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown>,
+): ActivityChanges {
+  const changes: ActivityChanges = {};
+
+  for (const [field, rawAfter] of Object.entries(after)) {
+    if (rawAfter === undefined || IGNORED_FIELDS.has(field)) continue;
+    const previous = toComparable(before?.[field]);
+    const next = toComparable(rawAfter);
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+    changes[field] = { before: previous, after: next };
+  }
+
+  return changes;
+}
+
+/**
+ * ブラウザからの fetch は Sec-Fetch-Site を送るため UI 操作とみなす。
+ * ヘッダが無い呼び出し（スクリプト等）は API 扱い。
+ */
+export function resolveActivitySource(request: Request): ActivitySourceValue {
+  return request.headers.get('sec-fetch-site') ? 'UI' : 'API';
+}
+
+function toCreateInput(entry: ActivityEntry): Prisma.EvangelistActivityCreateManyInput {
+  return {
+    evangelistId: entry.evangelistId,
+    actorId: entry.actorId,
+    source: entry.source,
+    action: entry.action,
+    changes: entry.changes ? (entry.changes as Prisma.InputJsonValue) : undefined,
+  };
+}
+
+/** 差分が無い UPDATED は記録しない */
+function hasContent(entry: ActivityEntry) {
+  return entry.action !== 'UPDATED' || Object.keys(entry.changes ?? {}).length > 0;
+}
+
+export async function recordEvangelistActivity(client: ActivityClient, entry: ActivityEntry) {
+  if (!hasContent(entry)) return null;
+  return client.evangelistActivity.create({ data: toCreateInput(entry) });
+}
+
+export async function recordEvangelistActivities(client: ActivityClient, entries: ActivityEntry[]) {
+  const data = entries.filter(hasContent).map(toCreateInput);
+  if (data.length === 0) return 0;
+  const result = await client.evangelistActivity.createMany({ data });
+  return result.count;
+}
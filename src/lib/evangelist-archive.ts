@@ -0,0 +1,64 @@
+import type { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+/**
+ * エヴァのアーカイブ（論理削除）・復元・完全削除。
+ * アーカイブ済みは一覧・集計・エクスポートから外し、面談などの履歴は残す。
+ * 完全削除（管理者のみ）はアーカイブ済みのものに限り、関連データを削除・匿名化する。
+ */
+
+export const archiveReasonSchema = z.string().trim().min(1, 'Reason is required').max(500);
+
+export const archiveEvangelistSchema = z.object({ reason: archiveReasonSchema });
+
+// 理由入力の候補（自由入力も可）
+export const ARCHIVE_REASON_PRESETS = ['重複登録', '連絡がつかない', '本人の希望', '活動終了'] as const;
+
+// 一覧・エクスポートの archived パラメータ（only でアーカイブ済みだけを表示）
+export const ARCHIVED_ONLY_PARAM = 'only';
+
+export function buildArchiveData(actorId: string | null, reason: string) {
+  return { archivedAt: new Date(), archivedById: actorId, archiveReason: reason };
+}
+
+export const RESTORE_DATA = { archivedAt: null, archivedById: null, archiveReason: null } as const;
+
+// 完全削除したエヴァの代わりに ToDo に残す表記
+const PURGED_LABEL = '（削除済みのエヴァ）';
+
+/**
+ * エヴァを完全に削除する。面談・紹介実績は削除し、関連する ToDo は件名・本文の氏名とリンクを伏せて残す。
+ * 関連する ToDo は evangelistId で結び付いたもの（リンク導入前に作られたものは本文のリンクで探す）。
+ * タグ・強み・フェーズ履歴・変更履歴・連絡記録は外部キーの Cascade で消え、このエヴァが紹介したエヴァは紹介者が外れる。
+ */
+export async function purgeEvangelist(
+  tx: Prisma.TransactionClient,
+  evangelist: { id: string; name: string | null },
+) {
+  const link = `/evangelists/${evangelist.id}`;
+  // 氏名は「姓 名」と空白なしの両方の表記を伏せる
+  const names = evangelist.name ? [...new Set([evangelist.name, evangelist.name.replace(/\s+/g, '')])] : [];
+  const anonymize = (text: string) =>
+    [link, ...names].reduce((result, target) => result.split(target).join(PURGED_LABEL), text);
+
+  const todos = await tx.todo.findMany({
+    where: { OR: [{ evangelistId: evangelist.id }, { notes: { contains: link } }] },
+    select: { id: true, title: true, notes: true },
+  });
+  for (const todo of todos) {
+    await tx.todo.update({
+      where: { id: todo.id },
+      data: {
+        title: anonymize(todo.title),
+        notes: todo.notes === null ? null : anonymize(todo.notes),
+        evangelistId: null,
+      },
+    });
+  }
+
+  const meetings = await tx.meeting.deleteMany({ where: { evangelistId: evangelist.id } });
+  const introductions = await tx.introduction.deleteMany({ where: { evangelistId: evangelist.id } });
+  await tx.evangelist.delete({ where: { id: evangelist.id } });
+
+  return { meetings: meetings.count, introductions: introductions.count, todos: todos.length };
+}
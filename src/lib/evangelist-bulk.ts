@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+import { archiveReasonSchema } from '@/lib/evangelist-archive';
+import { EVANGELIST_PHASE_VALUES } from '@/lib/evangelist-phase';
+
+/**
+ * 一覧で選択したエヴァへの一括操作（担当CS・Tier・タグ・フェーズ・NA・アーカイブ）。
+ * /api/evangelists/bulk が 1 トランザクションで処理し、結果をレコードごとに返す。
+ */
+
+export const BULK_ACTION_TYPES = ['assignCs', 'setTier', 'tags', 'setPhase', 'setNextAction', 'archive'] as const;
+
+export type BulkActionType = (typeof BULK_ACTION_TYPES)[number];
+
+export const BULK_ACTION_LABELS: Record<BulkActionType, string> = {
+  assignCs: '担当CSを変更',
+  setTier: 'Tierを変更',
+  tags: 'タグを追加・削除',
+  setPhase: 'フェーズを設定',
+  setNextAction: 'NA・期日を設定',
+  archive: 'アーカイブ',
+};
+
+// 1 回に処理できる件数
+export const BULK_MAX_IDS = 500;
+
+export const bulkActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('assignCs'), assignedCsId: z.string().min(1).nullable() }),
+  z.object({ type: z.literal('setTier'), tier: z.enum(['TIER1', 'TIER2']) }),
+  z
+    .object({
+      type: z.literal('tags'),
+      add: z.array(z.string().min(1)).max(50).default([]),
+      remove: z.array(z.string().min(1)).max(50).default([]),
+    })
+    .refine((data) => data.add.length + data.remove.length > 0, { message: 'No tags specified' }),
+  z.object({
+    type: z.literal('setPhase'),
+    managementPhase: z.enum(EVANGELIST_PHASE_VALUES),
+    // ルール外の遷移も適用する（ADMIN のみ）
+    force: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('setNextAction'),
+    nextAction: z.string().trim().max(1000).nullable(),
+    nextActionDueOn: z.string().datetime({ message: 'Invalid date format' }).nullable(),
+  }),
+  z.object({ type: z.literal('archive'), reason: archiveReasonSchema }),
+]);
+
+export type BulkAction = z.infer<typeof bulkActionSchema>;
+
+export const bulkUpdateSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(BULK_MAX_IDS),
+  action: bulkActionSchema,
+});
+
+export type BulkRecordStatus = 'updated' | 'unchanged' | 'skipped' | 'notFound';
+
+export const BULK_STATUS_LABELS: Record<BulkRecordStatus, string> = {
+  updated: '更新',
+  unchanged: '変更なし',
+  skipped: 'スキップ',
+  notFound: '見つかりません',
+};
+
+// スキップ理由（API は英語のコードで返し、画面で日本語にする）
+export const BULK_SKIP_REASON_LABELS: Record<string, string> = {
+  'Invalid phase transition': 'フェーズ遷移のルール外です',
+  Archived: 'アーカイブ済みです',
+};
+
+export type BulkRecordResult = {
+  id: string;
+  name: string | null;
+  status: BulkRecordStatus;
+  reason?: string;
+};
+
+export type BulkUpdateResponse = {
+  ok: true;
+  results: BulkRecordResult[];
+  summary: Record<BulkRecordStatus, number>;
+};
+
+export function summarizeBulkResults(results: BulkRecordResult[]): Record<BulkRecordStatus, number> {
+  const summary: Record<BulkRecordStatus, number> = { updated: 0, unchanged: 0, skipped: 0, notFound: 0 };
+  results.forEach((result) => {
+    summary[result.status] += 1;
+  });
+  return summary;
+}
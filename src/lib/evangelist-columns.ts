@@ -1,11 +1,19 @@
 import type { Prisma } from '@prisma/client';
 
 import { prisma } from '@/lib/prisma';
+import {
+  EVANGELIST_STRENGTHS_SELECT,
+  flattenEvangelistStrengths,
+  type StrengthEntry,
+} from '@/lib/evangelist-strengths';
+import { EVANGELIST_TAGS_SELECT, flattenEvangelistTags, type TagSummary } from '@/lib/tags';
 
 const FIELD_TO_COLUMN: Record<string, string> = {
   recordId: 'recordId',
   firstName: 'firstName',
   lastName: 'lastName',
+  firstNameKana: 'firstNameKana',
+  lastNameKana: 'lastNameKana',
   email: 'email',
   contactMethod: 'contactPref',
   supportPriority: 'supportPriority',
@@ -22,14 +30,16 @@ const FIELD_TO_COLUMN: Record<string, string> = {
   contactOwner: 'contactOwner',
   marketingContactStatus: 'marketingContactStatus',
   sourceCreatedAt: 'sourceCreatedAt',
-  strength: 'strengths',
   notes: 'notes',
   nextAction: 'nextAction',
   nextActionDueOn: 'nextActionDueOn',
   managementPhase: 'managementPhase',
   tier: 'tier',
   assignedCsId: 'assignedCsId',
-  tags: 'tags',
+  customFields: 'customFields',
+  archivedAt: 'archivedAt',
+  archiveReason: 'archiveReason',
+  referredById: 'referredById',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
 };
@@ -74,6 +84,11 @@ export function filterEvangelistData<T extends Record<string, unknown>>(
   return filtered as T;
 }
 
+/** 項目に対応する列が DB に存在するか（列名が項目名と異なるものも考慮する） */
+export function hasEvangelistField(columns: Set<string>, field: string) {
+  return columns.has(FIELD_TO_COLUMN[field] ?? field);
+}
+
 type BuildSelectOptions = {
   includeAssignedCs?: boolean;
   includeCount?: boolean;
@@ -96,6 +111,8 @@ export function buildEvangelistSelect(
   if (maybeInclude('recordId')) select.recordId = true;
   if (maybeInclude('firstName')) select.firstName = true;
   if (maybeInclude('lastName')) select.lastName = true;
+  if (maybeInclude('firstNameKana')) select.firstNameKana = true;
+  if (maybeInclude('lastNameKana')) select.lastNameKana = true;
   if (maybeInclude('email')) select.email = true;
   if (maybeInclude('contactMethod')) select.contactMethod = true;
   if (maybeInclude('supportPriority')) select.supportPriority = true;
@@ -112,17 +129,23 @@ export function buildEvangelistSelect(
   if (maybeInclude('contactOwner')) select.contactOwner = true;
   if (maybeInclude('marketingContactStatus')) select.marketingContactStatus = true;
   if (maybeInclude('sourceCreatedAt')) select.sourceCreatedAt = true;
-  if (maybeInclude('strength')) select.strength = true;
   if (maybeInclude('notes')) select.notes = true;
   if (maybeInclude('nextAction')) select.nextAction = true;
   if (maybeInclude('nextActionDueOn')) select.nextActionDueOn = true;
   if (maybeInclude('managementPhase')) select.managementPhase = true;
   if (maybeInclude('tier')) select.tier = true;
   if (maybeInclude('assignedCsId')) select.assignedCsId = true;
-  if (maybeInclude('tags')) select.tags = true;
+  if (maybeInclude('customFields')) select.customFields = true;
+  if (maybeInclude('archivedAt')) select.archivedAt = true;
+  if (maybeInclude('archiveReason')) select.archiveReason = true;
+  if (maybeInclude('referredById')) select.referredById = true;
   if (maybeInclude('createdAt')) select.createdAt = true;
   if (maybeInclude('updatedAt')) select.updatedAt = true;
 
+  // タグは中間テーブル（EvangelistTag）経由で取得し、normalizeEvangelistResult で平坦化する
+  select.tags = EVANGELIST_TAGS_SELECT;
+  select.strengths = EVANGELIST_STRENGTHS_SELECT;
+
   if (options.includeAssignedCs) {
     select.assignedCs = {
       select: {
@@ -147,6 +170,8 @@ const DEFAULT_SCALAR_FIELDS: string[] = [
   'recordId',
   'firstName',
   'lastName',
+  'firstNameKana',
+  'lastNameKana',
   'email',
   'contactMethod',
   'supportPriority',
@@ -163,22 +188,26 @@ const DEFAULT_SCALAR_FIELDS: string[] = [
   'contactOwner',
   'marketingContactStatus',
   'sourceCreatedAt',
-  'strength',
   'notes',
   'nextAction',
   'nextActionDueOn',
   'managementPhase',
   'tier',
   'assignedCsId',
-  'tags',
+  'customFields',
+  'archivedAt',
+  'archiveReason',
+  'referredById',
   'createdAt',
   'updatedAt',
 ];
 
 export function normalizeEvangelistResult<T extends Record<string, unknown>>(
   evangelist: T,
-): T & {
+): Omit<T, 'tags' | 'strengths'> & {
   assignedCs: { id: string; name: string } | null;
+  tags: TagSummary[];
+  strengths: StrengthEntry[];
   _count?: { meetings: number };
 } {
   const normalized: Record<string, unknown> = { ...evangelist };
@@ -189,6 +218,9 @@ export function normalizeEvangelistResult<T extends Record<string, unknown>>(
     }
   }
 
+  normalized.tags = flattenEvangelistTags(normalized.tags);
+  normalized.strengths = flattenEvangelistStrengths(normalized.strengths);
+
   if (!('assignedCs' in normalized)) {
     normalized.assignedCs = null;
   }
@@ -208,8 +240,10 @@ export function normalizeEvangelistResult<T extends Record<string, unknown>>(
     normalized._count = { meetings: 0 };
   }
 
-  return normalized as T & {
+  return normalized as Omit<T, 'tags' | 'strengths'> & {
     assignedCs: { id: string; name: string } | null;
+    tags: TagSummary[];
+    strengths: StrengthEntry[];
     _count: { meetings: number };
   };
 }
@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+
+/**
+ * エヴァの入力充足度（0〜100%）。
+ * 項目ごとの重みを Tier 別に設定し（CompletenessRule）、入力済み項目の重みの割合をスコアにする。
+ * 一覧・詳細のバッジ、詳細フィルタの「充足度」、ダッシュボードの CS 別集計で使う。
+ */
+
+export const COMPLETENESS_FIELDS = [
+  'email',
+  'phoneNumber',
+  'contactMethod',
+  'strength',
+  'kana',
+  'facebookUrl',
+  'assignedCs',
+  'managementPhase',
+  'nextAction',
+] as const;
+
+export type CompletenessField = (typeof COMPLETENESS_FIELDS)[number];
+
+export type CompletenessTier = 'TIER1' | 'TIER2';
+
+export const COMPLETENESS_TIERS: readonly CompletenessTier[] = ['TIER1', 'TIER2'];
+
+export const COMPLETENESS_FIELD_LABELS: Record<CompletenessField, string> = {
+  email: 'メールアドレス',
+  phoneNumber: '電話番号',
+  contactMethod: '連絡手段',
+  strength: '強み',
+  kana: 'ふりがな',
+  facebookUrl: 'Facebook',
+  assignedCs: '担当CS',
+  managementPhase: '管理フェーズ',
+  nextAction: 'ネクストアクション',
+};
+
+// 設定が無い項目の重み（Tier1 は手厚く追うため必須項目を多めにする）
+// 同じ値を migration で CompletenessRule に入れている（evangelist_metrics ビューはテーブルの重みだけで採点する）
+export const DEFAULT_COMPLETENESS_WEIGHTS: Record<CompletenessTier, Record<CompletenessField, number>> = {
+  TIER1: {
+    email: 3,
+    phoneNumber: 2,
+    contactMethod: 2,
+    strength: 2,
+    kana: 1,
+    facebookUrl: 1,
+    assignedCs: 2,
+    managementPhase: 1,
+    nextAction: 2,
+  },
+  TIER2: {
+    email: 3,
+    phoneNumber: 1,
+    contactMethod: 2,
+    strength: 1,
+    kana: 0,
+    facebookUrl: 0,
+    assignedCs: 1,
+    managementPhase: 1,
+    nextAction: 0,
+  },
+};
+
+// これ未満を「不足」として扱う（ダッシュボードの集計）
+export const COMPLETENESS_INCOMPLETE_BELOW = 60;
+
+export const COMPLETENESS_MAX_WEIGHT = 10;
+
+export type CompletenessWeights = Record<CompletenessTier, Record<CompletenessField, number>>;
+
+export type CompletenessResult = {
+  score: number;
+  missing: CompletenessField[];
+};
+
+export const completenessWeightsSchema = z.object({
+  TIER1: z.record(z.enum(COMPLETENESS_FIELDS), z.number().int().min(0).max(COMPLETENESS_MAX_WEIGHT)),
+  TIER2: z.record(z.enum(COMPLETENESS_FIELDS), z.number().int().min(0).max(COMPLETENESS_MAX_WEIGHT)),
+});
+
+type CompletenessClient = {
+  completenessRule: Pick<Prisma.TransactionClient['completenessRule'], 'findMany'>;
+};
+
+/** 設定済みの重み（未設定の項目は既定値） */
+export async function loadCompletenessWeights(client: CompletenessClient): Promise<CompletenessWeights> {
+  const rows = await client.completenessRule.findMany({ select: { tier: true, field: true, weight: true } });
+  const weights: CompletenessWeights = {
+    TIER1: { ...DEFAULT_COMPLETENESS_WEIGHTS.TIER1 },
+    TIER2: { ...DEFAULT_COMPLETENESS_WEIGHTS.TIER2 },
+  };
+  rows.forEach((row) => {
+    if ((COMPLETENESS_FIELDS as readonly string[]).includes(row.field)) {
+      weights[row.tier][row.field as CompletenessField] = row.weight;
+    }
+  });
+  return weights;
+}
+
+type CompletenessSource = {
+  tier?: string | null;
+  email?: string | null;
+  phoneNumber?: string | null;
+  contactMethod?: string | null;
+  strengths?: unknown[] | null;
+  firstNameKana?: string | null;
+  lastNameKana?: string | null;
+  facebookUrl?: string | null;
+  assignedCsId?: string | null;
+  managementPhase?: string | null;
+  nextAction?: string | null;
+};
+
+const hasText = (value?: string | null) => Boolean(value && value.trim());
+
+// 入力済みの判定（evangelist_metrics ビューの completeness と同じ条件）
+const IS_PRESENT: Record<CompletenessField, (source: CompletenessSource) => boolean> = {
+  email: (source) => hasText(source.email),
+  phoneNumber: (source) => hasText(source.phoneNumber),
+  contactMethod: (source) => hasText(source.contactMethod),
+  strength: (source) => (source.strengths?.length ?? 0) > 0,
+  kana: (source) => hasText(source.lastNameKana) && hasText(source.firstNameKana),
+  facebookUrl: (source) => hasText(source.facebookUrl),
+  assignedCs: (source) => Boolean(source.assignedCsId),
+  managementPhase: (source) => hasText(source.managementPhase),
+  nextAction: (source) => hasText(source.nextAction),
+};
+
+/** 充足度と未入力の項目（重みの大きい順）。採点対象が無ければ 100% */
+export function computeCompleteness(source: CompletenessSource, weights: CompletenessWeights): CompletenessResult {
+  const tierWeights = weights[source.tier === 'TIER1' ? 'TIER1' : 'TIER2'];
+  let total = 0;
+  let filled = 0;
+  const missing: CompletenessField[] = [];
+
+  COMPLETENESS_FIELDS.forEach((field) => {
+    const weight = tierWeights[field];
+    if (weight <= 0) return;
+    total += weight;
+    if (IS_PRESENT[field](source)) {
+      filled += weight;
+    } else {
+      missing.push(field);
+    }
+  });
+
+  missing.sort((a, b) => tierWeights[b] - tierWeights[a]);
+  return { score: total === 0 ? 100 : Math.round((filled / total) * 100), missing };
+}
@@ -0,0 +1,175 @@
+import { normalizeFacebookUrl, normalizePhoneNumber } from '@/lib/contact-normalize';
+import { normalizePersonName } from '@/lib/name-normalize';
+
+export type DuplicateCandidateSource = {
+  id: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  email?: string | null;
+  phoneNumber?: string | null;
+  facebookUrl?: string | null;
+};
+
+export type DuplicateReason = 'NAME' | 'NAME_REVERSED' | 'EMAIL' | 'PHONE' | 'FACEBOOK';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  NAME: '氏名一致',
+  NAME_REVERSED: '姓名逆転で一致',
+  EMAIL: 'メール一致',
+  PHONE: '電話番号一致',
+  FACEBOOK: 'Facebook一致',
+};
+
+// 一致した項目ごとの加点。合計が 100 を超える場合は 100 に丸める
+const REASON_SCORES: Record<DuplicateReason, number> = {
+  NAME: 40,
+  NAME_REVERSED: 30,
+  EMAIL: 60,
+  PHONE: 50,
+  FACEBOOK: 60,
+};
+
+export const DEFAULT_DUPLICATE_MIN_SCORE = 40;
+
+export function duplicateEmailKey(value?: string | null) {
+  const trimmed = value?.normalize('NFKC').trim().toLowerCase();
+  return trimmed || null;
+}
+
+/** 保存時と同じ正規化（E.164）をした電話番号（形式が正しくないものは比較しない） */
+export function duplicatePhoneKey(value?: string | null) {
+  return normalizePhoneNumber(value) ?? null;
+}
+
+/** 保存時と同じ正規化をした Facebook URL（形式が正しくないものは比較しない） */
+export function duplicateFacebookKey(value?: string | null) {
+  return normalizeFacebookUrl(value) ?? null;
+}
+
+function nameKey(first?: string | null, last?: string | null) {
+  const key = normalizePersonName(`${last ?? ''}${first ?? ''}`);
+  return key.length >= 2 ? key : null;
+}
+
+export type DuplicatePair = {
+  aId: string;
+  bId: string;
+  score: number;
+  reasons: DuplicateReason[];
+};
+
+/**
+ * 候補ペアをスコアリングする。全件総当たりを避けるため、
+ * いずれかのキーを共有するレコード同士だけを比較する。
+ */
+export function findDuplicatePairs(
+  records: DuplicateCandidateSource[],
+  minScore = DEFAULT_DUPLICATE_MIN_SCORE,
+): DuplicatePair[] {
+  const buckets = new Map<string, string[]>();
+  const keysById = new Map<
+    string,
+    { name: string | null; reversed: string | null; email: string | null; phone: string | null; facebook: string | null }
+  >();
+
+  const addToBucket = (key: string | null, id: string) => {
+    if (!key) return;
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.push(id);
+    } else {
+      buckets.set(key, [id]);
+    }
+  };
+
+  records.forEach((record) => {
+    const keys = {
+      name: nameKey(record.firstName, record.lastName),
+      reversed: nameKey(record.lastName, record.firstName),
+      email: duplicateEmailKey(record.email),
+      phone: duplicatePhoneKey(record.phoneNumber),
+      facebook: duplicateFacebookKey(record.facebookUrl),
+    };
+    keysById.set(record.id, keys);
+    addToBucket(keys.name ? `name:${keys.name}` : null, record.id);
+    addToBucket(keys.email ? `email:${keys.email}` : null, record.id);
+    addToBucket(keys.phone ? `phone:${keys.phone}` : null, record.id);
+    addToBucket(keys.facebook ? `fb:${keys.facebook}` : null, record.id);
+  });
+
+  // 姓名が逆に入っているケースは逆順キーで名前バケットを引く
+  records.forEach((record) => {
+    const reversed = keysById.get(record.id)?.reversed;
+    const bucket = reversed ? buckets.get(`name:${reversed}`) : undefined;
+    if (bucket && !bucket.includes(record.id)) {
+      bucket.push(record.id);
+    }
+  });
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+
+  buckets.forEach((ids) => {
+    if (ids.length < 2) return;
+    for (let i = 0; i < ids.length; i += 1) {
+      for (let j = i + 1; j < ids.length; j += 1) {
+        const [aId, bId] = ids[i] < ids[j] ? [ids[i], ids[j]] : [ids[j], ids[i]];
+        const pairKey = `${aId}:${bId}`;
+        if (aId === bId || seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const a = keysById.get(aId)!;
+        const b = keysById.get(bId)!;
+        const reasons: DuplicateReason[] = [];
+        if (a.name && a.name === b.name) reasons.push('NAME');
+        else if (a.name && (a.name === b.reversed || a.reversed === b.name)) reasons.push('NAME_REVERSED');
+        if (a.email && a.email === b.email) reasons.push('EMAIL');
+        if (a.phone && a.phone === b.phone) reasons.push('PHONE');
+        if (a.facebook && a.facebook === b.facebook) reasons.push('FACEBOOK');
+
+        const score = Math.min(
+          100,
+          reasons.reduce((total, reason) => total + REASON_SCORES[reason], 0),
+        );
+        if (score >= minScore) {
+          pairs.push({ aId, bId, score, reasons });
+        }
+      }
+    }
+  });
+
+  return pairs.sort((x, y) => y.score - x.score);
+}
+
+// 統合画面で残す値を選べる項目
+export const MERGEABLE_FIELDS = [
+  'lastName',
+  'firstName',
+  'lastNameKana',
+  'firstNameKana',
+  'email',
+  'phoneNumber',
+  'facebookUrl',
+  'contactMethod',
+  'managementPhase',
+  'tier',
+  'assignedCsId',
+  'listProvided',
+  'nextAction',
+  'nextActionDueOn',
+  'notes',
+  'recordId',
+  'supportPriority',
+  'pattern',
+  'meetingStatus',
+  'registrationStatus',
+  'lineRegistered',
+  'acquisitionSource',
+  'listAcquired',
+  'matchingListUrl',
+  'contactOwner',
+  'marketingContactStatus',
+  'sourceCreatedAt',
+] as const;
+
+export type MergeableField = (typeof MERGEABLE_FIELDS)[number];
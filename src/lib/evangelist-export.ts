@@ -0,0 +1,167 @@
+import {
+  CUSTOM_FIELD_PREFIX,
+  formatCustomFieldValue,
+  toCustomFieldValues,
+  type CustomFieldDefinition,
+} from '@/lib/custom-fields';
+import { EVANGELIST_PHASE_LABELS, isEvangelistPhase } from '@/lib/evangelist-phase';
+import { formatReferralName } from '@/lib/evangelist-referrals';
+import { formatStrengths } from '@/lib/evangelist-strengths';
+import { formatTagNames } from '@/lib/tags';
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportSource = Record<string, unknown> & {
+  assignedCs?: { id: string; name: string } | null;
+  _count?: { meetings: number; referrals?: number };
+  lastMeetingDate?: Date | null;
+  referredBy?: { firstName: string | null; lastName: string | null } | null;
+};
+
+type ExportColumn = {
+  key: string;
+  label: string;
+  value?: (row: ExportSource) => unknown;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function toDate(value: unknown) {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' && value) {
+    const parsed = new Date(value);
+    return Number.isNaN(parsed.getTime()) ? null : parsed;
+  }
+  return null;
+}
+
+/** 日時は JST の「YYYY-MM-DD HH:mm」 */
+function formatDateTime(value: unknown) {
+  const date = toDate(value);
+  if (!date) return '';
+  const jst = new Date(date.getTime() + JST_OFFSET_MS);
+  return `${jst.getUTCFullYear()}-${pad(jst.getUTCMonth() + 1)}-${pad(jst.getUTCDate())} ${pad(jst.getUTCHours())}:${pad(jst.getUTCMinutes())}`;
+}
+
+/** 期日は日付のみで保存しているため UTC の日付部分をそのまま使う */
+function formatDueDate(value: unknown) {
+  const date = toDate(value);
+  return date ? date.toISOString().slice(0, 10) : '';
+}
+
+// 出力できる列（並び順がそのまま既定の列順）
+export const EXPORT_COLUMNS: readonly ExportColumn[] = [
+  { key: 'id', label: 'ID' },
+  { key: 'recordId', label: 'レコードID' },
+  { key: 'lastName', label: '姓' },
+  { key: 'firstName', label: '名' },
+  { key: 'lastNameKana', label: '姓（ふりがな）' },
+  { key: 'firstNameKana', label: '名（ふりがな）' },
+  { key: 'email', label: 'メールアドレス' },
+  { key: 'phoneNumber', label: '電話番号' },
+  { key: 'tier', label: 'Tier' },
+  {
+    key: 'managementPhase',
+    label: '管理フェーズ',
+    value: (row) =>
+      isEvangelistPhase(row.managementPhase) ? EVANGELIST_PHASE_LABELS[row.managementPhase] : row.managementPhase,
+  },
+  { key: 'assignedCsName', label: '担当CS', value: (row) => row.assignedCs?.name ?? '' },
+  { key: 'assignedCsId', label: '担当CS ID' },
+  { key: 'contactMethod', label: '連絡手段' },
+  { key: 'strength', label: '強み', value: (row) => formatStrengths(row.strengths) ?? '' },
+  { key: 'nextAction', label: 'ネクストアクション' },
+  { key: 'nextActionDueOn', label: 'NA期日', value: (row) => formatDueDate(row.nextActionDueOn) },
+  { key: 'meetingCount', label: '面談回数', value: (row) => row._count?.meetings ?? 0 },
+  { key: 'lastMeetingDate', label: '最終面談日', value: (row) => formatDateTime(row.lastMeetingDate) },
+  { key: 'listProvided', label: 'リスト提供', value: (row) => (row.listProvided ? '済' : '未') },
+  { key: 'notes', label: '備考' },
+  { key: 'tags', label: 'タグ', value: (row) => formatTagNames(row.tags) ?? '' },
+  { key: 'supportPriority', label: 'サポート優先度' },
+  { key: 'pattern', label: 'パターン' },
+  { key: 'meetingStatus', label: '面談状況' },
+  { key: 'registrationStatus', label: '登録状況' },
+  { key: 'lineRegistered', label: 'LINE登録' },
+  { key: 'acquisitionSource', label: '流入経路' },
+  {
+    key: 'referredByName',
+    label: '紹介者',
+    value: (row) => (row.referredBy ? formatReferralName(row.referredBy) : ''),
+  },
+  { key: 'referralCount', label: '紹介したEVA数', value: (row) => row._count?.referrals ?? 0 },
+  { key: 'facebookUrl', label: 'Facebook URL' },
+  { key: 'listAcquired', label: 'リスト取得' },
+  { key: 'matchingListUrl', label: 'マッチングリストURL' },
+  { key: 'contactOwner', label: 'コンタクト担当者' },
+  { key: 'marketingContactStatus', label: 'マーケティングコンタクトステータス' },
+  { key: 'sourceCreatedAt', label: '元データ作成日', value: (row) => formatDateTime(row.sourceCreatedAt) },
+  { key: 'createdAt', label: '登録日時', value: (row) => formatDateTime(row.createdAt) },
+  { key: 'updatedAt', label: '更新日時', value: (row) => formatDateTime(row.updatedAt) },
+];
+
+export const EXPORT_COLUMN_KEYS = EXPORT_COLUMNS.map((column) => column.key);
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'lastName',
+  'firstName',
+  'email',
+  'tier',
+  'managementPhase',
+  'assignedCsName',
+  'nextAction',
+  'nextActionDueOn',
+  'meetingCount',
+  'lastMeetingDate',
+];
+
+/** カスタム項目は `cf.<key>` の列として標準列の後ろに並べる */
+export function buildCustomExportColumns(definitions: CustomFieldDefinition[]): ExportColumn[] {
+  return definitions.map((definition) => ({
+    key: `${CUSTOM_FIELD_PREFIX}${definition.key}`,
+    label: definition.label,
+    value: (row) => formatCustomFieldValue(definition, toCustomFieldValues(row.customFields)[definition.key]),
+  }));
+}
+
+/** 指定された列キーを定義順に並べ替え、未知のキーは除外する（空なら既定列） */
+export function resolveExportColumns(keys: string[], customDefinitions: CustomFieldDefinition[] = []) {
+  const requested = new Set(keys);
+  const columns = [...EXPORT_COLUMNS, ...buildCustomExportColumns(customDefinitions)].filter((column) =>
+    requested.has(column.key),
+  );
+  return columns.length > 0
+    ? columns
+    : EXPORT_COLUMNS.filter((column) => DEFAULT_EXPORT_COLUMNS.includes(column.key));
+}
+
+export function buildExportTable(rows: ExportSource[], columns: readonly ExportColumn[]) {
+  const header = columns.map((column) => column.label);
+  const body = rows.map((row) =>
+    columns.map((column) => {
+      const value = column.value ? column.value(row) : row[column.key];
+      return value ?? '';
+    }),
+  );
+  return { header, body };
+}
+
+export async function buildExportXlsx(header: string[], body: unknown[][]) {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  const worksheet = workbook.addWorksheet('evangelists');
+  worksheet.addRow(header).font = { bold: true };
+  body.forEach((row) => {
+    const added = worksheet.addRow(row.map((value) => (typeof value === 'number' ? value : String(value))));
+    // 文字列は書式「文字列」のセルにして、= や + で始まる値を編集・再保存しても数式として評価させない
+    added.eachCell((cell) => {
+      if (typeof cell.value === 'string') cell.numFmt = '@';
+    });
+  });
+  worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+  worksheet.columns.forEach((column) => {
+    column.width = 18;
+  });
+  return new Uint8Array(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,314 @@
+import { Prisma } from '@prisma/client';
+
+import { prisma } from '@/lib/prisma';
+import { buildCustomFieldWhere, CUSTOM_FIELD_PREFIX, loadCustomFieldDefinitions } from '@/lib/custom-fields';
+import { ARCHIVED_ONLY_PARAM } from '@/lib/evangelist-archive';
+import { hasEvangelistField } from '@/lib/evangelist-columns';
+import { tokenizeSearchTerm } from '@/lib/evangelist-search';
+import {
+  isQueryGroup,
+  parseEvangelistQuery,
+  QUERY_FIELDS,
+  type QueryCondition,
+  type QueryGroup,
+} from '@/lib/evangelist-query';
+import { PICKLIST_FIELDS } from '@/lib/picklists';
+import { buildTagWhere, type TagMatchMode } from '@/lib/tags';
+
+const MS_PER_DAY = 86_400_000;
+
+/** 日付（YYYY-MM-DD）の始まり。NA期日は日付のみを UTC で保存しているため UTC、それ以外は JST の 0 時 */
+function startOfDay(date: string, field: string) {
+  return new Date(field === 'nextActionDueOn' ? `${date}T00:00:00.000Z` : `${date}T00:00:00.000+09:00`);
+}
+
+/** 日付条件を [gte, lt) の範囲にする（以前・期間の終了日はその日を含む） */
+function toDateRange(condition: QueryCondition) {
+  const { field, op } = condition;
+  const from = op === 'onOrAfter' ? condition.value : op === 'between' ? condition.from : undefined;
+  const to = op === 'onOrBefore' ? condition.value : op === 'between' ? condition.to : undefined;
+  return {
+    ...(from ? { gte: startOfDay(from, field) } : {}),
+    ...(to ? { lt: new Date(startOfDay(to, field).getTime() + MS_PER_DAY) } : {}),
+  };
+}
+
+const COUNT_OPERATORS = { eq: 'equals', gte: 'gte', lte: 'lte' } as const;
+
+const COMPLETENESS_OPERATORS = { lt: 'lt', gte: 'gte', lte: 'lte' } as const;
+
+async function buildConditionWhere(
+  condition: QueryCondition,
+  columns: Set<string>,
+): Promise<Prisma.EvangelistWhereInput | null> {
+  const { field, op } = condition;
+  const values = condition.values ?? [];
+
+  switch (field) {
+    case 'tier': {
+      const tiers = values.filter((value): value is 'TIER1' | 'TIER2' => value === 'TIER1' || value === 'TIER2');
+      return op === 'notIn' ? { tier: { notIn: tiers } } : { tier: { in: tiers } };
+    }
+    case 'strength':
+      if (op === 'in') return { strengths: { some: { domain: { in: values } } } };
+      if (op === 'notIn') return { strengths: { none: { domain: { in: values } } } };
+      return op === 'isEmpty' ? { strengths: { none: {} } } : { strengths: { some: {} } };
+    case 'tags':
+      if (op === 'in') return { tags: { some: { tagId: { in: values } } } };
+      if (op === 'notIn') return { tags: { none: { tagId: { in: values } } } };
+      return op === 'isEmpty' ? { tags: { none: {} } } : { tags: { some: {} } };
+    case 'lastMeetingDate': {
+      if (op === 'isEmpty') return { meetings: { none: {} } };
+      if (op === 'isNotEmpty') return { meetings: { some: {} } };
+      // 最終面談日が範囲内 = 開始以降の面談があり、終了より後の面談がない
+      const { gte, lt } = toDateRange(condition);
+      return {
+        meetings: {
+          some: gte ? { date: { gte } } : {},
+          ...(lt ? { every: { date: { lt } } } : {}),
+        },
+      };
+    }
+    case 'meetingCount':
+    case 'referralCount':
+    case 'unansweredAttempts': {
+      // 件数はビュー（evangelist_metrics）の列。一覧のクエリの中でサブクエリとして絞り込む
+      const operator = COUNT_OPERATORS[op as keyof typeof COUNT_OPERATORS];
+      const count = Number.parseInt(condition.value ?? '', 10);
+      if (!operator || Number.isNaN(count)) return null;
+      return { metrics: { is: { [field]: { [operator]: count } } } };
+    }
+    case 'completeness': {
+      // 充足度もビュー（evangelist_metrics）の列。重みは CompletenessRule から DB 側で採点する
+      const operator = COMPLETENESS_OPERATORS[op as keyof typeof COMPLETENESS_OPERATORS];
+      const score = Number.parseInt(condition.value ?? '', 10);
+      if (!operator || Number.isNaN(score)) return null;
+      return { metrics: { is: { completeness: { [operator]: score } } } };
+    }
+    default:
+      break;
+  }
+
+  // 以降は evangelists の列（存在しない列の条件は無視する）
+  if (!hasEvangelistField(columns, field)) return null;
+
+  // 文字列の列は空文字も未設定として扱う
+  const isText = QUERY_FIELDS[field].type !== 'date';
+  if (op === 'isEmpty') {
+    return isText ? { OR: [{ [field]: null }, { [field]: '' }] } : { [field]: null };
+  }
+  if (op === 'isNotEmpty') {
+    return isText ? { AND: [{ [field]: { not: null } }, { NOT: { [field]: '' } }] } : { [field]: { not: null } };
+  }
+
+  switch (op) {
+    case 'contains':
+      return { [field]: { contains: condition.value, mode: 'insensitive' } };
+    case 'equals':
+      return { [field]: { equals: condition.value, mode: 'insensitive' } };
+    case 'in':
+      return { [field]: { in: values } };
+    case 'notIn':
+      // 「いずれでもない」には未設定も含める
+      return { OR: [{ [field]: { notIn: values } }, { [field]: null }] };
+    case 'onOrAfter':
+    case 'onOrBefore':
+    case 'between':
+      return { [field]: toDateRange(condition) };
+    default:
+      return null;
+  }
+}
+
+/** 詳細フィルタ（AND/OR グループ）を Prisma の where にする */
+export async function buildEvangelistQueryWhere(
+  group: QueryGroup,
+  columns: Set<string>,
+): Promise<Prisma.EvangelistWhereInput | null> {
+  const children = await Promise.all(
+    group.rules.map((node) =>
+      isQueryGroup(node) ? buildEvangelistQueryWhere(node, columns) : buildConditionWhere(node, columns),
+    ),
+  );
+  const wheres = children.filter((where): where is Prisma.EvangelistWhereInput => where !== null);
+  if (wheres.length === 0) return null;
+  return group.combinator === 'or' ? { OR: wheres } : { AND: wheres };
+}
+
+/** 検索用の列（searchText）がない DB 向けの検索（名前・メールの部分一致と displayName 列） */
+async function buildLegacySearchWhere(
+  search: string,
+  columns: Set<string>,
+): Promise<Prisma.EvangelistWhereInput | null> {
+  const searchConditions: Prisma.EvangelistWhereInput[] = [];
+  let displayNameIdFilter: Prisma.EvangelistWhereInput | null = null;
+
+  if (columns.has('firstName')) {
+    searchConditions.push({
+      firstName: { contains: search, mode: 'insensitive' },
+    });
+  }
+
+  if (columns.has('lastName')) {
+    searchConditions.push({
+      lastName: { contains: search, mode: 'insensitive' },
+    });
+  }
+
+  if (columns.has('email')) {
+    searchConditions.push({
+      email: { contains: search, mode: 'insensitive' },
+    });
+  }
+
+  const displayNameColumn = Array.from(columns).find((column) => {
+    const lowered = column.toLowerCase();
+    return lowered === 'displayname' || lowered === 'display_name';
+  });
+
+  if (displayNameColumn) {
+    const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+    const matches = await prisma.$queryRaw<{ id: string }[]>`
+      SELECT "id"
+      FROM "evangelists"
+      WHERE ${Prisma.raw(quoteIdentifier(displayNameColumn))} ILIKE ${`%${search}%`}
+    `;
+
+    if (matches.length > 0) {
+      displayNameIdFilter = {
+        id: { in: matches.map((match) => match.id) },
+      };
+    }
+  }
+
+  if (displayNameIdFilter) {
+    searchConditions.push(displayNameIdFilter);
+  }
+
+  return searchConditions.length > 0 ? { OR: searchConditions } : null;
+}
+
+/** 一覧・エクスポートの search パラメータの検索語（検索用の列がない DB では使わないので空） */
+export function searchTokensOf(searchParams: URLSearchParams, columns: Set<string>): string[] {
+  const search = (searchParams.get('search') || '').trim();
+  return search && columns.has('searchText') ? tokenizeSearchTerm(search) : [];
+}
+
+/**
+ * 一覧・エクスポート共通の絞り込み条件（search / ids / tier / tag / tags+tagMode / assignedCsId / stale / ステータス系項目 / cf.<key> / q）を組み立てる。
+ * アーカイブ済みのエヴァは含めない（archived=only ならアーカイブ済みだけ）。
+ * q（詳細フィルタ）が不正な場合は Error('Invalid query') を投げる。
+ * search は evangelist_search_matches ビュー（searchMatch）の条件になるため、
+ * この where を使うクエリは withEvangelistSearch(searchTokensOf(...)) の中で実行する。
+ */
+export async function buildEvangelistListWhere(
+  searchParams: URLSearchParams,
+  columns: Set<string>,
+): Promise<Prisma.EvangelistWhereInput> {
+  const search = (searchParams.get('search') || '').trim();
+  const tier = searchParams.get('tier') || 'ALL';
+  const status = searchParams.get('status') || '';
+  const stale = searchParams.get('stale'); // M3: stale=7 for meetings older than 7 days
+  const tag = searchParams.get('tag')?.trim(); // タグ名の完全一致（旧パラメータ）
+  const tagIds = (searchParams.get('tags') || '').split(',').map((id) => id.trim()).filter(Boolean);
+  const tagMode: TagMatchMode = searchParams.get('tagMode') === 'all' ? 'all' : 'any';
+  const assignedCsId = searchParams.get('assignedCsId'); // 担当CSフィルタ
+  const ids = (searchParams.get('ids') || '').split(',').map((id) => id.trim()).filter(Boolean); // 選択したエヴァ
+
+  const filters: Prisma.EvangelistWhereInput[] = [];
+
+  if (columns.has('archivedAt')) {
+    filters.push(
+      searchParams.get('archived') === ARCHIVED_ONLY_PARAM ? { archivedAt: { not: null } } : { archivedAt: null },
+    );
+  }
+
+  if (ids.length > 0) {
+    filters.push({ id: { in: ids } });
+  }
+
+  if (search) {
+    if (columns.has('searchText')) {
+      if (tokenizeSearchTerm(search).length > 0) {
+        filters.push({ searchMatch: { isNot: null } });
+      }
+    } else {
+      const legacyWhere = await buildLegacySearchWhere(search, columns);
+      if (legacyWhere) filters.push(legacyWhere);
+    }
+  }
+
+  if (status && status !== 'ALL') {
+    // status 列は現行スキーマに存在しないため利用しない
+  }
+
+  if (tier && tier !== 'ALL') {
+    filters.push({ tier: tier as 'TIER1' | 'TIER2' });
+  }
+
+  if (tag) {
+    filters.push({ tags: { some: { tag: { name: tag } } } });
+  }
+
+  const tagWhere = buildTagWhere(tagIds, tagMode);
+  if (tagWhere) {
+    filters.push(tagWhere);
+  }
+
+  if (assignedCsId && columns.has('assignedCsId')) {
+    filters.push({ assignedCsId });
+  }
+
+  if (stale) {
+    const staleDays = Number.parseInt(stale);
+    if (!Number.isNaN(staleDays) && staleDays > 0) {
+      const staleDate = new Date();
+      staleDate.setDate(staleDate.getDate() - staleDays);
+      filters.push({
+        OR: [
+          { meetings: { none: {} } },
+          {
+            meetings: {
+              every: {
+                date: {
+                  lt: staleDate,
+                },
+              },
+            },
+          },
+        ],
+      });
+    }
+  }
+
+  PICKLIST_FIELDS.forEach((field) => {
+    const value = searchParams.get(field)?.trim();
+    if (value && columns.has(field)) {
+      filters.push({ [field]: value });
+    }
+  });
+
+  const customParams = Array.from(searchParams.entries()).filter(
+    ([name, value]) => name.startsWith(CUSTOM_FIELD_PREFIX) && value.trim(),
+  );
+  if (customParams.length > 0 && columns.has('customFields')) {
+    const definitions = await loadCustomFieldDefinitions(prisma);
+    const definitionByKey = new Map(definitions.map((definition) => [definition.key, definition]));
+    customParams.forEach(([name, value]) => {
+      const definition = definitionByKey.get(name.slice(CUSTOM_FIELD_PREFIX.length));
+      const where = definition ? buildCustomFieldWhere(definition, value) : null;
+      if (where) filters.push(where);
+    });
+  }
+
+  const { query, errors } = parseEvangelistQuery(searchParams.get('q'));
+  if (errors.length > 0) {
+    throw new Error('Invalid query');
+  }
+  if (query) {
+    const queryWhere = await buildEvangelistQueryWhere(query, columns);
+    if (queryWhere) filters.push(queryWhere);
+  }
+
+  return filters.length > 0 ? { AND: filters } : {};
+}
@@ -0,0 +1,117 @@
+import type { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+export const EVANGELIST_PHASE_VALUES = [
+  'FIRST_CONTACT',
+  'REGISTERED',
+  'LIST_SHARED',
+  'CANDIDATE_SELECTION',
+  'INNOVATOR_REVIEW',
+  'INTRODUCING',
+  'FOLLOW_UP',
+] as const;
+
+export type EvangelistPhaseValue = (typeof EVANGELIST_PHASE_VALUES)[number];
+
+export const EVANGELIST_PHASE_LABELS: Record<EvangelistPhaseValue, string> = {
+  FIRST_CONTACT: '初回接触',
+  REGISTERED: '登録',
+  LIST_SHARED: 'リスト共有',
+  CANDIDATE_SELECTION: '候補選定',
+  INNOVATOR_REVIEW: 'イノベータ確認',
+  INTRODUCING: '紹介中',
+  FOLLOW_UP: 'フォローアップ',
+};
+
+const EVANGELIST_PHASE_SET = new Set<string>(EVANGELIST_PHASE_VALUES);
+
+// 旧 UI で保存されていたフェーズ値の読み替え
+const LEGACY_PHASE_ALIASES: Record<string, EvangelistPhaseValue> = {
+  INQUIRY: 'FIRST_CONTACT',
+  FIRST_MEETING: 'FIRST_CONTACT',
+  LIST_PROVIDED: 'LIST_SHARED',
+  INTRODUCTION_STARTED: 'INTRODUCING',
+  MEETING_SCHEDULED: 'INTRODUCING',
+  FIRST_RESULT: 'FOLLOW_UP',
+  CONTINUED_PROPOSAL: 'FOLLOW_UP',
+};
+
+export type PhaseTransitionSource = EvangelistPhaseValue | 'INITIAL';
+
+export const PHASE_TRANSITION_SOURCES: readonly PhaseTransitionSource[] = ['INITIAL', ...EVANGELIST_PHASE_VALUES];
+
+export type PhaseTransitionRules = Record<PhaseTransitionSource, readonly EvangelistPhaseValue[]>;
+
+/**
+ * 既定のフェーズ遷移ルール。キーの状態から遷移できる先を列挙する。
+ * `INITIAL` は未設定（null）からの遷移先。管理画面で変更した遷移元は PhaseTransitionRule の設定が優先される。
+ * ADMIN は force 指定でルール外の遷移も可能。
+ */
+export const DEFAULT_PHASE_TRANSITIONS: PhaseTransitionRules = {
+  INITIAL: ['FIRST_CONTACT', 'REGISTERED'],
+  FIRST_CONTACT: ['REGISTERED'],
+  REGISTERED: ['LIST_SHARED', 'FIRST_CONTACT'],
+  LIST_SHARED: ['CANDIDATE_SELECTION', 'REGISTERED'],
+  CANDIDATE_SELECTION: ['INNOVATOR_REVIEW', 'LIST_SHARED'],
+  INNOVATOR_REVIEW: ['INTRODUCING', 'CANDIDATE_SELECTION'],
+  INTRODUCING: ['FOLLOW_UP', 'INNOVATOR_REVIEW'],
+  FOLLOW_UP: ['CANDIDATE_SELECTION', 'INTRODUCING'],
+};
+
+export const PHASE_TRANSITION_SOURCE_LABELS: Record<PhaseTransitionSource, string> = {
+  INITIAL: '未設定',
+  ...EVANGELIST_PHASE_LABELS,
+};
+
+export const phaseTransitionRulesSchema = z.record(
+  z.enum(['INITIAL', ...EVANGELIST_PHASE_VALUES]),
+  z.array(z.enum(EVANGELIST_PHASE_VALUES)).max(EVANGELIST_PHASE_VALUES.length),
+);
+
+type PhaseTransitionClient = {
+  phaseTransitionRule: Pick<Prisma.TransactionClient['phaseTransitionRule'], 'findMany'>;
+};
+
+/** 設定済みの遷移ルール（未設定の遷移元は既定値） */
+export async function loadPhaseTransitionRules(client: PhaseTransitionClient): Promise<PhaseTransitionRules> {
+  const rows = await client.phaseTransitionRule.findMany({ select: { fromPhase: true, toPhases: true } });
+  const rules: PhaseTransitionRules = { ...DEFAULT_PHASE_TRANSITIONS };
+  rows.forEach((row) => {
+    if (!(PHASE_TRANSITION_SOURCES as readonly string[]).includes(row.fromPhase)) return;
+    rules[row.fromPhase as PhaseTransitionSource] = row.toPhases.filter(
+      (phase): phase is EvangelistPhaseValue => isEvangelistPhase(phase) && phase !== row.fromPhase,
+    );
+  });
+  return rules;
+}
+
+export function isEvangelistPhase(value: unknown): value is EvangelistPhaseValue {
+  return typeof value === 'string' && EVANGELIST_PHASE_SET.has(value);
+}
+
+/** DB 上の文字列（旧値を含む）を EvangelistPhase に正規化する */
+export function mapEvangelistPhase(input: unknown): EvangelistPhaseValue | null {
+  if (typeof input !== 'string') return null;
+
+  const upperCased = input.trim().toUpperCase();
+  if (!upperCased) return null;
+  if (isEvangelistPhase(upperCased)) return upperCased;
+
+  return LEGACY_PHASE_ALIASES[upperCased] ?? null;
+}
+
+export function getAllowedPhaseTransitions(
+  from: EvangelistPhaseValue | null,
+  rules: PhaseTransitionRules = DEFAULT_PHASE_TRANSITIONS,
+): readonly EvangelistPhaseValue[] {
+  return rules[from ?? 'INITIAL'] ?? [];
+}
+
+export function canTransitionPhase(
+  from: EvangelistPhaseValue | null,
+  to: EvangelistPhaseValue,
+  rules: PhaseTransitionRules = DEFAULT_PHASE_TRANSITIONS,
+): boolean {
+  if (from === to) return false;
+  return getAllowedPhaseTransitions(from, rules).includes(to);
+}
@@ -0,0 +1,231 @@
+import { z } from 'zod';
+
+/**
+ * エヴァ一覧の詳細フィルタ（AND/OR のグループを入れ子にできる条件式）。
+ * 一覧・ボード・エクスポートには JSON 文字列の `q` パラメータで渡し、保存ビューにもこの形で保存する。
+ */
+
+export const QUERY_FIELD_TYPES = ['text', 'enum', 'date', 'number'] as const;
+
+export type QueryFieldType = (typeof QUERY_FIELD_TYPES)[number];
+
+export const QUERY_OPERATORS = [
+  'contains',
+  'equals',
+  'in',
+  'notIn',
+  'onOrAfter',
+  'onOrBefore',
+  'between',
+  'eq',
+  'lt',
+  'gte',
+  'lte',
+  'isEmpty',
+  'isNotEmpty',
+] as const;
+
+export type QueryOperator = (typeof QUERY_OPERATORS)[number];
+
+export const QUERY_OPERATOR_LABELS: Record<QueryOperator, string> = {
+  contains: 'を含む',
+  equals: 'と一致',
+  in: 'のいずれか',
+  notIn: 'のいずれでもない',
+  onOrAfter: '以降',
+  onOrBefore: '以前',
+  between: 'の期間内',
+  eq: 'と等しい',
+  lt: '未満',
+  gte: '以上',
+  lte: '以下',
+  isEmpty: 'が未設定',
+  isNotEmpty: 'が設定済み',
+};
+
+const OPERATORS_BY_TYPE: Record<QueryFieldType, readonly QueryOperator[]> = {
+  text: ['contains', 'equals', 'isEmpty', 'isNotEmpty'],
+  enum: ['in', 'notIn', 'isEmpty', 'isNotEmpty'],
+  date: ['onOrAfter', 'onOrBefore', 'between', 'isEmpty', 'isNotEmpty'],
+  number: ['eq', 'gte', 'lte'],
+};
+
+type QueryFieldDefinition = {
+  label: string;
+  type: QueryFieldType;
+  operators?: readonly QueryOperator[];
+};
+
+// 条件に使える項目（enum の選択肢は画面側で用意する）
+export const QUERY_FIELDS = {
+  lastName: { label: '姓', type: 'text' },
+  firstName: { label: '名', type: 'text' },
+  email: { label: 'メールアドレス', type: 'text' },
+  phoneNumber: { label: '電話番号', type: 'text' },
+  notes: { label: '備考', type: 'text' },
+  nextAction: { label: 'ネクストアクション', type: 'text' },
+  tier: { label: 'Tier', type: 'enum', operators: ['in', 'notIn'] },
+  managementPhase: { label: '管理フェーズ', type: 'enum' },
+  strength: { label: '強み', type: 'enum' },
+  contactMethod: { label: '連絡手段', type: 'enum' },
+  assignedCsId: { label: '担当CS', type: 'enum' },
+  tags: { label: 'タグ', type: 'enum' },
+  sourceCreatedAt: { label: '元データ作成日', type: 'date' },
+  nextActionDueOn: { label: 'NA期日', type: 'date' },
+  createdAt: { label: '登録日', type: 'date', operators: ['onOrAfter', 'onOrBefore', 'between'] },
+  lastMeetingDate: { label: '最終面談日', type: 'date' },
+  meetingCount: { label: '面談回数', type: 'number' },
+  unansweredAttempts: { label: '未返信の連絡回数', type: 'number' },
+  referralCount: { label: '紹介したEVA数', type: 'number' },
+  completeness: { label: '充足度（%）', type: 'number', operators: ['lt', 'gte', 'lte'] },
+} as const satisfies Record<string, QueryFieldDefinition>;
+
+export type QueryFieldKey = keyof typeof QUERY_FIELDS;
+
+export const QUERY_FIELD_KEYS = Object.keys(QUERY_FIELDS) as QueryFieldKey[];
+
+export type QueryCondition = {
+  field: QueryFieldKey;
+  op: QueryOperator;
+  value?: string;
+  values?: string[];
+  from?: string;
+  to?: string;
+};
+
+export type QueryGroup = {
+  combinator: 'and' | 'or';
+  rules: QueryNode[];
+};
+
+export type QueryNode = QueryCondition | QueryGroup;
+
+// グループの入れ子（ルートを含む）と条件数の上限
+export const QUERY_MAX_DEPTH = 3;
+export const QUERY_MAX_CONDITIONS = 50;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function operatorsFor(field: QueryFieldKey): readonly QueryOperator[] {
+  const definition: QueryFieldDefinition = QUERY_FIELDS[field];
+  return definition.operators ?? OPERATORS_BY_TYPE[definition.type];
+}
+
+export function isQueryGroup(node: QueryNode): node is QueryGroup {
+  return 'rules' in node;
+}
+
+export function createEmptyQuery(): QueryGroup {
+  return { combinator: 'and', rules: [] };
+}
+
+export function createCondition(field: QueryFieldKey = 'lastName'): QueryCondition {
+  return { field, op: operatorsFor(field)[0] };
+}
+
+const conditionSchema = z.object({
+  field: z.enum(QUERY_FIELD_KEYS as [QueryFieldKey, ...QueryFieldKey[]]),
+  op: z.enum(QUERY_OPERATORS),
+  value: z.string().trim().max(200).optional(),
+  values: z.array(z.string().min(1).max(100)).max(100).optional(),
+  from: z.string().regex(DATE_PATTERN).optional(),
+  to: z.string().regex(DATE_PATTERN).optional(),
+});
+
+const nodeSchema: z.ZodType<QueryNode> = z.lazy(() => z.union([groupSchema, conditionSchema]));
+
+const groupSchema: z.ZodType<QueryGroup> = z.object({
+  combinator: z.enum(['and', 'or']),
+  rules: z.array(nodeSchema).max(QUERY_MAX_CONDITIONS),
+});
+
+export const queryGroupSchema = groupSchema;
+
+/** 条件として成立しているか（演算子が項目に合い、必要な値がそろっている） */
+export function describeConditionError(condition: QueryCondition): string | null {
+  const definition: QueryFieldDefinition = QUERY_FIELDS[condition.field];
+  if (!operatorsFor(condition.field).includes(condition.op)) {
+    return `${definition.label}には「${QUERY_OPERATOR_LABELS[condition.op]}」は使えません`;
+  }
+  switch (condition.op) {
+    case 'contains':
+    case 'equals':
+      return condition.value ? null : `${definition.label}の値を入力してください`;
+    case 'in':
+    case 'notIn':
+      return condition.values && condition.values.length > 0 ? null : `${definition.label}の値を選択してください`;
+    case 'onOrAfter':
+    case 'onOrBefore':
+      return condition.value && DATE_PATTERN.test(condition.value) ? null : `${definition.label}の日付を入力してください`;
+    case 'between':
+      if (!condition.from && !condition.to) return `${definition.label}の期間を入力してください`;
+      return condition.from && condition.to && condition.from > condition.to
+        ? `${definition.label}の期間の開始が終了より後になっています`
+        : null;
+    case 'eq':
+    case 'lt':
+    case 'gte':
+    case 'lte':
+      return condition.value && /^\d+$/.test(condition.value) ? null : `${definition.label}の数値を入力してください`;
+    default:
+      return null;
+  }
+}
+
+/** 入れ子の深さ・条件数・各条件の内容を確認し、問題の一覧を返す */
+export function validateQuery(query: QueryGroup): string[] {
+  const errors: string[] = [];
+  let conditions = 0;
+
+  const walk = (group: QueryGroup, depth: number) => {
+    if (depth > QUERY_MAX_DEPTH) {
+      errors.push(`グループの入れ子は${QUERY_MAX_DEPTH}段までです`);
+      return;
+    }
+    group.rules.forEach((node) => {
+      if (isQueryGroup(node)) {
+        walk(node, depth + 1);
+        return;
+      }
+      conditions += 1;
+      const error = describeConditionError(node);
+      if (error) errors.push(error);
+    });
+  };
+
+  walk(query, 1);
+  if (conditions > QUERY_MAX_CONDITIONS) {
+    errors.push(`条件は${QUERY_MAX_CONDITIONS}件までです`);
+  }
+  return Array.from(new Set(errors));
+}
+
+export function countQueryConditions(query: QueryGroup): number {
+  return query.rules.reduce((total, node) => total + (isQueryGroup(node) ? countQueryConditions(node) : 1), 0);
+}
+
+/**
+ * `q` パラメータ（JSON 文字列）を検証して QueryGroup にする。
+ * 未指定・空のグループは null、形式や条件が不正なら errors を返す。
+ */
+export function parseEvangelistQuery(
+  raw: string | null | undefined,
+): { query: QueryGroup | null; errors: string[] } {
+  if (!raw || !raw.trim()) return { query: null, errors: [] };
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { query: null, errors: ['条件の形式が正しくありません'] };
+  }
+
+  const result = groupSchema.safeParse(json);
+  if (!result.success) {
+    return { query: null, errors: ['条件の形式が正しくありません'] };
+  }
+
+  const errors = validateQuery(result.data);
+  if (errors.length > 0) return { query: null, errors };
+  return { query: countQueryConditions(result.data) > 0 ? result.data : null, errors: [] };
+}
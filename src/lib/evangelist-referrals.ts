@@ -0,0 +1,125 @@
+import type { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+/**
+ * EVA同士の紹介関係（誰の紹介で来たか）。
+ * acquisitionSource は自由記述の流入元のまま残し、紹介者は referredById で他のEVAを指す。
+ */
+
+export const setReferrerSchema = z.object({
+  referredById: z.string().min(1).nullable(),
+});
+
+// 紹介者をたどる上限（循環の確認用。実際の紹介の連鎖はこれより十分短い）
+const MAX_REFERRAL_DEPTH = 100;
+
+export type ReferralPerson = {
+  id: string;
+  name: string;
+  tier: string | null;
+  managementPhase: string | null;
+  archived: boolean;
+  createdAt: string;
+};
+
+export const referralPersonSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  tier: true,
+  managementPhase: true,
+  archivedAt: true,
+  createdAt: true,
+} as const;
+
+export const formatReferralName = (row: { lastName: string | null; firstName: string | null }) =>
+  [row.lastName, row.firstName].filter(Boolean).join(' ') || '（氏名未設定）';
+
+export function mapReferralPerson(row: {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  tier: string | null;
+  managementPhase: string | null;
+  archivedAt: Date | null;
+  createdAt: Date;
+}): ReferralPerson {
+  return {
+    id: row.id,
+    name: formatReferralName(row),
+    tier: row.tier,
+    managementPhase: row.managementPhase,
+    archived: row.archivedAt !== null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+type ReferralClient = {
+  evangelist: Pick<Prisma.TransactionClient['evangelist'], 'findUnique' | 'findMany' | 'groupBy'>;
+};
+
+/** referrerId を evangelistId の紹介者にすると紹介関係が循環するか（自分自身も循環とみなす） */
+export async function wouldCreateReferralCycle(client: ReferralClient, evangelistId: string, referrerId: string) {
+  let currentId: string | null = referrerId;
+  for (let depth = 0; currentId && depth < MAX_REFERRAL_DEPTH; depth++) {
+    if (currentId === evangelistId) return true;
+    const row: { referredById: string | null } | null = await client.evangelist.findUnique({
+      where: { id: currentId },
+      select: { referredById: true },
+    });
+    currentId = row?.referredById ?? null;
+  }
+  return currentId !== null;
+}
+
+export type TopReferrer = {
+  id: string;
+  name: string;
+  referrals: number;
+  recentReferrals: number;
+};
+
+/**
+ * 紹介したEVAの多い順（アーカイブ済みは紹介者・紹介先とも数えない）。
+ * recentReferrals は since 以降に登録された紹介先の数。
+ */
+export async function loadTopReferrers(client: ReferralClient, options: { limit: number; since: Date }) {
+  const where = { archivedAt: null, referredBy: { archivedAt: null } } satisfies Prisma.EvangelistWhereInput;
+
+  const ranked = await client.evangelist.groupBy({
+    by: ['referredById'],
+    where: { ...where, referredById: { not: null } },
+    _count: { _all: true },
+    orderBy: { _count: { referredById: 'desc' } },
+    take: options.limit,
+  });
+  const ids = ranked.flatMap((row) => row.referredById ?? []);
+  if (ids.length === 0) return [];
+
+  const [recent, referrers] = await Promise.all([
+    client.evangelist.groupBy({
+      by: ['referredById'],
+      where: { ...where, referredById: { in: ids }, createdAt: { gte: options.since } },
+      _count: { _all: true },
+    }),
+    client.evangelist.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, firstName: true, lastName: true },
+    }),
+  ]);
+  const recentById = new Map(recent.map((row) => [row.referredById, row._count._all]));
+  const referrerById = new Map(referrers.map((row) => [row.id, row]));
+
+  return ranked.flatMap<TopReferrer>((row) => {
+    const referrer = row.referredById ? referrerById.get(row.referredById) : undefined;
+    if (!referrer) return [];
+    return [
+      {
+        id: referrer.id,
+        name: formatReferralName(referrer),
+        referrals: row._count._all,
+        recentReferrals: recentById.get(referrer.id) ?? 0,
+      },
+    ];
+  });
+}
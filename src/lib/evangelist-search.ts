@@ -0,0 +1,276 @@
+import { Prisma } from '@prisma/client';
+
+import { BUSINESS_DOMAIN_LABELS, type BusinessDomainValue } from '@/lib/business-domain';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * エヴァの全文・あいまい検索。
+ * 検索対象は evangelists."searchText"（DB のトリガーが名前・ふりがな・連絡先・備考・強み・NA・面談メモから作る）で、
+ * トライグラム索引（部分一致・表記ゆれ）と重み付き tsvector（関連度）を併用する。
+ */
+
+// 1回の検索で使う語の上限
+const SEARCH_MAX_TOKENS = 8;
+
+// スニペットで一致箇所の前後に残す文字数
+const SNIPPET_RADIUS = 24;
+
+export type EvangelistSearchMatch = { id: string; rank: number };
+
+export type EvangelistSearchResult = {
+  tokens: string[];
+  matches: EvangelistSearchMatch[];
+};
+
+export type SearchSnippetSegment = { text: string; match: boolean };
+
+export type SearchSnippet = {
+  field: string;
+  label: string;
+  segments: SearchSnippetSegment[];
+};
+
+/** 検索用の正規化（NFKC・小文字・カタカナ→ひらがな）。DB の evangelist_search_normalize と同じ変換 */
+export function normalizeSearchText(value: string): string {
+  return value
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\u30a1-\u30f6]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60));
+}
+
+export function tokenizeSearchTerm(term: string): string[] {
+  const tokens = normalizeSearchText(term).split(/\s+/).filter(Boolean);
+  return Array.from(new Set(tokens)).slice(0, SEARCH_MAX_TOKENS);
+}
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+// 各語を前方一致の AND で結ぶ tsquery（記号は取り除き、語は引用符で囲む）
+function toPrefixTsQuery(tokens: string[]): string | null {
+  const lexemes = tokens
+    .map((token) => token.replace(/['\\&|!():*<>]/g, '').trim())
+    .filter(Boolean)
+    .map((token) => `'${token}':*`);
+  return lexemes.length > 0 ? lexemes.join(' & ') : null;
+}
+
+export type EvangelistSearchOptions = {
+  // 上位何件まで返すか（未指定なら一致したものをすべて返す）
+  limit?: number;
+  // アーカイブ済みを除く
+  activeOnly?: boolean;
+};
+
+/**
+ * 検索語に一致するエヴァの id を関連度の高い順に返す（コマンドパレット向け）。
+ * すべての語を含むもの・全文検索で一致するもの・語のつながりが似ているもの（typo）を拾う。
+ * 一覧・エクスポートは id の一覧を介さず、withEvangelistSearch と evangelist_search_matches ビューで絞り込む。
+ */
+export async function searchEvangelists(
+  term: string,
+  options: EvangelistSearchOptions = {},
+): Promise<EvangelistSearchResult | null> {
+  const tokens = tokenizeSearchTerm(term);
+  if (tokens.length === 0) return null;
+
+  const joined = tokens.join(' ');
+  const tsQuery = toPrefixTsQuery(tokens);
+  const containsAll = Prisma.join(
+    tokens.map((token) => Prisma.sql`e."searchText" LIKE ${`%${escapeLike(token)}%`}`),
+    ' AND ',
+  );
+  const textRank = tsQuery
+    ? Prisma.sql`ts_rank(e."searchVector", to_tsquery('simple', ${tsQuery}))`
+    : Prisma.sql`0`;
+  const textMatch = tsQuery
+    ? Prisma.sql`OR e."searchVector" @@ to_tsquery('simple', ${tsQuery})`
+    : Prisma.empty;
+
+  const rows = await prisma.$queryRaw<EvangelistSearchMatch[]>`
+    SELECT
+      e."id",
+      (
+        ${textRank} * 4
+        + word_similarity(${joined}, e."searchText")
+        + CASE WHEN ${containsAll} THEN 1 ELSE 0 END
+      )::float8 AS "rank"
+    FROM "evangelists" e
+    WHERE (
+      (${containsAll})
+      ${textMatch}
+      OR ${joined} <% e."searchText"
+    )
+    ${options.activeOnly ? Prisma.sql`AND e."archivedAt" IS NULL` : Prisma.empty}
+    ORDER BY "rank" DESC, e."updatedAt" DESC
+    ${options.limit ? Prisma.sql`LIMIT ${options.limit}` : Prisma.empty}
+  `;
+
+  return { tokens, matches: rows };
+}
+
+/**
+ * 検索語をトランザクションに設定してから run を実行する（tokens が空ならそのまま実行する）。
+ * evangelist_search_matches ビュー（Evangelist.searchMatch）が設定された語で一致・関連度を出すので、
+ * 一覧は他の絞り込み・関連度順の並べ替え・ページ分割を 1 つのクエリの中で行える。
+ * searchMatch を参照する where / orderBy は、必ずこの run の client で実行すること。
+ */
+export async function withEvangelistSearch<T>(
+  tokens: string[],
+  run: (client: Prisma.TransactionClient) => Promise<T>,
+  options: { timeout?: number } = {},
+): Promise<T> {
+  if (tokens.length === 0) return run(prisma);
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`
+      SELECT
+        set_config('flowgent.search_term', ${tokens.join(' ')}, true),
+        set_config('flowgent.search_tsquery', ${toPrefixTsQuery(tokens) ?? ''}, true)
+    `;
+    return run(tx);
+  }, options);
+}
+
+/**
+ * 文字列の中で検索語に一致した箇所を前後の文脈つきで切り出す。
+ * 一致判定は正規化後の文字列で行い、表示は元の文字列を使う。
+ */
+export function buildSearchSnippet(value: string, tokens: string[]): SearchSnippetSegment[] | null {
+  const text = value.replace(/\s+/g, ' ').trim();
+  if (!text || tokens.length === 0) return null;
+
+  // 正規化後の各文字が元の文字列のどこに対応するか
+  let normalized = '';
+  const origins: number[] = [];
+  let offset = 0;
+  for (const char of text) {
+    const converted = normalizeSearchText(char);
+    normalized += converted;
+    for (let index = 0; index < converted.length; index += 1) origins.push(offset);
+    offset += char.length;
+  }
+
+  const ranges: Array<[number, number]> = [];
+  tokens.forEach((token) => {
+    let position = normalized.indexOf(token);
+    while (position !== -1) {
+      const start = origins[position];
+      const last = origins[position + token.length - 1];
+      const end = last + (text.codePointAt(last)! > 0xffff ? 2 : 1);
+      ranges.push([start, end]);
+      position = normalized.indexOf(token, position + token.length);
+    }
+  });
+  if (ranges.length === 0) return null;
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  ranges.forEach(([start, end]) => {
+    const previous = merged[merged.length - 1];
+    if (previous && start <= previous[1]) {
+      previous[1] = Math.max(previous[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+
+  const windowStart = Math.max(0, merged[0][0] - SNIPPET_RADIUS);
+  const windowEnd = Math.min(text.length, merged[0][1] + SNIPPET_RADIUS * 2);
+  const segments: SearchSnippetSegment[] = [];
+  let cursor = windowStart;
+  merged.forEach(([start, end]) => {
+    if (start >= windowEnd || end <= windowStart) return;
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+    segments.push({ text: text.slice(Math.max(start, cursor), Math.min(end, windowEnd)), match: true });
+    cursor = Math.min(end, windowEnd);
+  });
+  if (cursor < windowEnd) segments.push({ text: text.slice(cursor, windowEnd), match: false });
+
+  if (windowStart > 0) segments.unshift({ text: '…', match: false });
+  if (windowEnd < text.length) segments.push({ text: '…', match: false });
+  return segments;
+}
+
+type SnippetSource = {
+  id: string;
+  firstNameKana?: string | null;
+  lastNameKana?: string | null;
+  email?: string | null;
+  phoneNumber?: string | null;
+  notes?: string | null;
+  nextAction?: string | null;
+  strengths?: Array<{ domain: string }>;
+};
+
+// スニペットを出す項目（名前は一覧にそのまま表示されるため除く）
+const SNIPPET_FIELDS: Array<{ field: string; label: string; read: (item: SnippetSource) => string | null | undefined }> = [
+  {
+    field: 'kana',
+    label: 'ふりがな',
+    read: (item) => [item.lastNameKana, item.firstNameKana].filter(Boolean).join(' '),
+  },
+  { field: 'email', label: 'メール', read: (item) => item.email },
+  { field: 'phoneNumber', label: '電話', read: (item) => item.phoneNumber },
+  {
+    field: 'strengths',
+    label: '強み',
+    read: (item) =>
+      (item.strengths ?? [])
+        .map((entry) => BUSINESS_DOMAIN_LABELS[entry.domain as BusinessDomainValue] ?? entry.domain)
+        .join(' '),
+  },
+  { field: 'nextAction', label: 'NA', read: (item) => item.nextAction },
+  { field: 'notes', label: '備考', read: (item) => item.notes },
+];
+
+/** 一覧の各行に、検索語が一致した箇所のスニペット（最大 max 件）を用意する */
+export async function loadSearchSnippets(
+  items: SnippetSource[],
+  tokens: string[],
+  max = 2,
+): Promise<Map<string, SearchSnippet[]>> {
+  const snippetsById = new Map<string, SearchSnippet[]>();
+  if (items.length === 0 || tokens.length === 0) return snippetsById;
+
+  const meetings = await prisma.meeting.findMany({
+    where: {
+      evangelistId: { in: items.map((item) => item.id) },
+      OR: tokens.flatMap((token) => [
+        { summary: { contains: token, mode: 'insensitive' as const } },
+        { nextActions: { contains: token, mode: 'insensitive' as const } },
+      ]),
+    },
+    orderBy: { date: 'desc' },
+    select: { evangelistId: true, date: true, summary: true, nextActions: true },
+  });
+  const meetingsById = new Map<string, typeof meetings>();
+  meetings.forEach((meeting) => {
+    const list = meetingsById.get(meeting.evangelistId) ?? [];
+    list.push(meeting);
+    meetingsById.set(meeting.evangelistId, list);
+  });
+
+  items.forEach((item) => {
+    const snippets: SearchSnippet[] = [];
+    for (const { field, label, read } of SNIPPET_FIELDS) {
+      if (snippets.length >= max) break;
+      const value = read(item);
+      const segments = value ? buildSearchSnippet(value, tokens) : null;
+      if (segments) snippets.push({ field, label, segments });
+    }
+    for (const meeting of meetingsById.get(item.id) ?? []) {
+      if (snippets.length >= max) break;
+      const value = [meeting.summary, meeting.nextActions].filter(Boolean).join(' ');
+      const segments = buildSearchSnippet(value, tokens);
+      if (segments) {
+        snippets.push({
+          field: 'meeting',
+          label: `面談 ${meeting.date.toLocaleDateString('ja-JP', { timeZone: 'Asia/Tokyo' })}`,
+          segments,
+        });
+      }
+    }
+    if (snippets.length > 0) snippetsById.set(item.id, snippets);
+  });
+
+  return snippetsById;
+}
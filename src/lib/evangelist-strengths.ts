@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+
+import {
+  BUSINESS_DOMAIN_LABELS,
+  BUSINESS_DOMAIN_VALUES,
+  mapBusinessDomain,
+  type BusinessDomainValue,
+} from '@/lib/business-domain';
+
+// 習熟度（未設定も可）
+export const STRENGTH_PROFICIENCY_LABELS: Record<number, string> = {
+  1: '基礎',
+  2: '実務',
+  3: '専門',
+};
+
+export const STRENGTH_PROFICIENCY_LEVELS = [1, 2, 3] as const;
+
+export type StrengthEntry = {
+  domain: BusinessDomainValue;
+  proficiency: number | null;
+};
+
+export const strengthEntriesSchema = z
+  .array(
+    z.object({
+      domain: z.enum(BUSINESS_DOMAIN_VALUES),
+      proficiency: z.number().int().min(1).max(3).optional().nullable(),
+    }),
+  )
+  .max(BUSINESS_DOMAIN_VALUES.length);
+
+/** Evangelist の select に含める strengths（習熟度の高い順） */
+export const EVANGELIST_STRENGTHS_SELECT = {
+  select: { domain: true, proficiency: true },
+  orderBy: [{ proficiency: { sort: 'desc', nulls: 'last' } }, { domain: 'asc' }],
+} satisfies Prisma.Evangelist$strengthsArgs;
+
+/** select した strengths を StrengthEntry の配列にする（未知の分野は除く） */
+export function flattenEvangelistStrengths(value: unknown): StrengthEntry[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object') return [];
+    const domain = mapBusinessDomain((entry as { domain?: unknown }).domain);
+    if (!domain) return [];
+    const proficiency = (entry as { proficiency?: unknown }).proficiency;
+    return [{ domain, proficiency: typeof proficiency === 'number' ? proficiency : null }];
+  });
+}
+
+/** 分野ごとに 1 件にまとめる（先に出たものを優先） */
+export function uniqueStrengths(entries: { domain: BusinessDomainValue; proficiency?: number | null }[]) {
+  const byDomain = new Map<BusinessDomainValue, StrengthEntry>();
+  entries.forEach(({ domain, proficiency }) => {
+    if (!byDomain.has(domain)) byDomain.set(domain, { domain, proficiency: proficiency ?? null });
+  });
+  return Array.from(byDomain.values());
+}
+
+export function formatStrengthEntry(entry: StrengthEntry) {
+  const label = BUSINESS_DOMAIN_LABELS[entry.domain];
+  return entry.proficiency ? `${label}（${STRENGTH_PROFICIENCY_LABELS[entry.proficiency] ?? entry.proficiency}）` : label;
+}
+
+/**
+ * 変更履歴・エクスポート用の表記（例: "IT（専門）, 営業"）。
+ * parseStrengths でそのまま読み戻せる。
+ */
+export function formatStrengths(value: unknown) {
+  const entries = flattenEvangelistStrengths(value).sort((a, b) =>
+    BUSINESS_DOMAIN_VALUES.indexOf(a.domain) - BUSINESS_DOMAIN_VALUES.indexOf(b.domain),
+  );
+  return entries.length > 0 ? entries.map(formatStrengthEntry).join(', ') : null;
+}
+
+function parseProficiency(value?: string) {
+  const text = value?.trim();
+  if (!text) return null;
+  const level = Number(text);
+  if (Number.isInteger(level) && level >= 1 && level <= 3) return level;
+  const entry = Object.entries(STRENGTH_PROFICIENCY_LABELS).find(([, label]) => label === text);
+  return entry ? Number(entry[0]) : null;
+}
+
+/**
+ * CSV の強み（"IT, 人事"、"IT:3 / 営業(実務)" など）を分野ごとの StrengthEntry にする。
+ * 分野は mapBusinessDomain で判別し、判別できなかった表記は unknown に返す。
+ */
+export function parseStrengths(value: unknown) {
+  const text = typeof value === 'string' ? value : '';
+  const entries: StrengthEntry[] = [];
+  const unknown: string[] = [];
+
+  text.split(/[,、/／;；\n]/).forEach((part) => {
+    const item = part.normalize('NFKC').trim();
+    if (!item) return;
+    const match = item.match(/^(.+?)\s*(?:[:：]\s*(.+)|[（(]\s*(.+?)\s*[)）])$/);
+    const domain = mapBusinessDomain(match ? match[1] : item);
+    if (!domain) {
+      unknown.push(item);
+      return;
+    }
+    entries.push({ domain, proficiency: match ? parseProficiency(match[2] ?? match[3]) : null });
+  });
+
+  return { entries: uniqueStrengths(entries), unknown };
+}
+
+/** 1 件の EVA の強みを置き換える */
+export async function setEvangelistStrengths(
+  tx: Prisma.TransactionClient,
+  evangelistId: string,
+  entries: StrengthEntry[],
+) {
+  await tx.evangelistStrengthEntry.deleteMany({ where: { evangelistId } });
+  if (entries.length > 0) {
+    await tx.evangelistStrengthEntry.createMany({
+      data: entries.map(({ domain, proficiency }) => ({ evangelistId, domain, proficiency })),
+      skipDuplicates: true,
+    });
+  }
+}
+
+/** 必須紹介ルールの強み条件（空なら全員対象、いずれかの分野が含まれれば対象） */
+export function matchesStrengthCondition(ruleStrengths: string[], entries: StrengthEntry[]) {
+  return ruleStrengths.length === 0 || entries.some((entry) => ruleStrengths.includes(entry.domain));
+}
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+
+import { CUSTOM_FIELD_KEY_PATTERN, CUSTOM_FIELD_PREFIX, type CustomFieldTargetKey } from '@/lib/custom-fields';
+
+export type DbField = {
+  key: string;
+  label: string;
+  isEssential?: boolean;
+};
+
+// CSV インポートで取り込めるフィールド（CSVMapper / マッピングテンプレート共通）
+export const DB_FIELDS = [
+  { key: 'recordId', label: 'レコードID' },
+  { key: 'firstName', label: '名', isEssential: true },
+  { key: 'lastName', label: '姓', isEssential: true },
+  { key: 'lastNameKana', label: '姓（ふりがな）' },
+  { key: 'firstNameKana', label: '名（ふりがな）' },
+  { key: 'supportPriority', label: 'サポート優先度' },
+  { key: 'email', label: 'メールアドレス' },
+  { key: 'pattern', label: 'パターン' },
+  { key: 'contactMethod', label: '連絡手段' },
+  { key: 'meetingStatus', label: '面談状況' },
+  { key: 'registrationStatus', label: '登録状況' },
+  { key: 'lineRegistered', label: 'LINE登録' },
+  { key: 'phoneNumber', label: '電話番号' },
+  { key: 'acquisitionSource', label: '流入経路' },
+  { key: 'facebookUrl', label: 'Facebook URL' },
+  { key: 'listAcquired', label: 'リスト取得' },
+  { key: 'matchingListUrl', label: 'マッチングリストURL' },
+  { key: 'contactOwner', label: 'コンタクト担当者' },
+  { key: 'sourceCreatedAt', label: '作成日 (YYYY-MM-DD HH:mm)' },
+  { key: 'marketingContactStatus', label: 'マーケティングコンタクトステータス' },
+  { key: 'strength', label: '強み' },
+  { key: 'notes', label: 'メモ' },
+  { key: 'tier', label: 'Tier (TIER1/TIER2)' },
+  { key: 'tags', label: 'タグ(カンマ区切り可)' },
+] as const satisfies readonly DbField[];
+
+export type FieldKey = (typeof DB_FIELDS)[number]['key'];
+
+export const DB_FIELD_KEYS = DB_FIELDS.map((field) => field.key) as [FieldKey, ...FieldKey[]];
+
+// 複数列から値を集約できるフィールド
+export const MULTI_VALUE_FIELDS = new Set<FieldKey>(['tags']);
+
+export const DB_FIELD_LABELS = DB_FIELDS.reduce<Record<string, string>>((acc, field) => {
+  acc[field.key] = field.label;
+  return acc;
+}, {});
+
+/**
+ * マッピングテンプレートの保存形式。CSV の列は位置ではなくヘッダ名で持つ。
+ * 複数値フィールド（tags）のみ配列を許可する。カスタム項目は `cf.<key>` に単一列を割り当てる。
+ */
+export type MappingTemplateColumns = Partial<Record<FieldKey | CustomFieldTargetKey, string | string[]>>;
+
+const isMappingTarget = (key: string) =>
+  (DB_FIELD_KEYS as string[]).includes(key) ||
+  (key.startsWith(CUSTOM_FIELD_PREFIX) && CUSTOM_FIELD_KEY_PATTERN.test(key.slice(CUSTOM_FIELD_PREFIX.length)));
+
+export const mappingTemplateColumnsSchema = z
+  .record(
+    z.string().refine(isMappingTarget, 'Unknown mapping target'),
+    z.union([z.string().trim().min(1).max(200), z.array(z.string().trim().min(1).max(200)).min(1)]),
+  )
+  .transform((mapping) => mapping as MappingTemplateColumns)
+  .refine(
+    (mapping) =>
+      Object.entries(mapping).every(
+        ([field, value]) => !Array.isArray(value) || MULTI_VALUE_FIELDS.has(field as FieldKey),
+      ),
+    { message: 'Only multi-value fields can map multiple columns' },
+  )
+  .refine((mapping) => Object.keys(mapping).length > 0, { message: 'Mapping must not be empty' });
+
+export function normalizeHeaderName(value: string) {
+  return value.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * テンプレートが参照する列のうち、現在の CSV ヘッダに存在する割合（0〜1）。
+ * 参照列が 1 つも無いテンプレートは 0 とする。
+ */
+export function scoreTemplateMatch(mapping: MappingTemplateColumns, headerNames: string[]) {
+  const available = new Set(headerNames.map(normalizeHeaderName));
+  const referenced = Object.values(mapping).flatMap((value) => (Array.isArray(value) ? value : value ? [value] : []));
+  if (referenced.length === 0) return 0;
+  const matched = referenced.filter((name) => available.has(normalizeHeaderName(name))).length;
+  return matched / referenced.length;
+}
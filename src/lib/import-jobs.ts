@@ -0,0 +1,104 @@
+import type { ImportRowStatus, Prisma } from '@prisma/client';
+
+import { toCsvWithBom } from '@/lib/csv';
+
+export const IMPORT_JOB_STATUS_LABELS: Record<string, string> = {
+  RUNNING: '実行中',
+  COMPLETED: '完了',
+  FAILED: '中断',
+};
+
+export const IMPORT_ROW_STATUS_LABELS: Record<ImportRowStatus, string> = {
+  CREATED: '新規登録',
+  UPDATED: '更新',
+  FAILED: '失敗',
+  SKIPPED: 'スキップ',
+};
+
+export const IMPORT_SKIP_REASON_NO_NAME = '姓・名が未入力';
+
+export const IMPORT_SKIP_REASON_ARCHIVED = 'アーカイブ済みのEVA（復元してから取り込んでください）';
+
+export type ImportPreviewAction = 'CREATE' | 'UPDATE' | 'UNCHANGED' | 'INVALID';
+
+export const IMPORT_PREVIEW_ACTION_LABELS: Record<ImportPreviewAction, string> = {
+  CREATE: '新規登録',
+  UPDATE: '更新',
+  UNCHANGED: '変更なし',
+  INVALID: 'スキップ',
+};
+
+// プレビュー（dryRun）で返す 1 行分の判定結果
+export type ImportPreviewItem = {
+  rowNumber: number;
+  action: ImportPreviewAction;
+  evangelistId?: string | null;
+  name: string;
+  changes?: Record<string, { before: unknown; after: unknown }>;
+  reason?: string | null;
+};
+
+export type ImportRowResult = {
+  rowNumber: number;
+  status: ImportRowStatus;
+  evangelistId?: string | null;
+  reason?: string | null;
+  data?: Record<string, unknown> | null;
+};
+
+type ImportJobClient = {
+  importJob: Pick<Prisma.TransactionClient['importJob'], 'update'>;
+  importJobRow: Pick<Prisma.TransactionClient['importJobRow'], 'createMany'>;
+};
+
+/** 行ごとの結果を保存し、ジョブの件数を加算する */
+export async function recordImportRows(client: ImportJobClient, jobId: string, results: ImportRowResult[]) {
+  if (results.length === 0) return;
+
+  const countOf = (status: ImportRowStatus) => results.filter((result) => result.status === status).length;
+
+  await client.importJobRow.createMany({
+    data: results.map((result) => ({
+      jobId,
+      rowNumber: result.rowNumber,
+      status: result.status,
+      evangelistId: result.evangelistId ?? null,
+      reason: result.reason ?? null,
+      data: result.data ? (result.data as Prisma.InputJsonValue) : undefined,
+    })),
+  });
+
+  await client.importJob.update({
+    where: { id: jobId },
+    data: {
+      createdCount: { increment: countOf('CREATED') },
+      updatedCount: { increment: countOf('UPDATED') },
+      failedCount: { increment: countOf('FAILED') },
+      skippedCount: { increment: countOf('SKIPPED') },
+    },
+  });
+}
+
+/**
+ * 失敗・スキップ行を「行番号, 結果, 理由, 送信値…」の CSV にする。
+ * Excel で文字化けしないよう BOM 付きで返す。
+ */
+export function buildImportFailureCsv(
+  rows: { rowNumber: number; status: ImportRowStatus; reason: string | null; data: unknown }[],
+) {
+  const dataKeys: string[] = [];
+  rows.forEach((row) => {
+    if (!row.data || typeof row.data !== 'object') return;
+    Object.keys(row.data as Record<string, unknown>).forEach((key) => {
+      if (!dataKeys.includes(key)) dataKeys.push(key);
+    });
+  });
+
+  const header = ['rowNumber', 'status', 'reason', ...dataKeys];
+  const body = rows.map((row) => {
+    const data = (row.data && typeof row.data === 'object' ? row.data : {}) as Record<string, unknown>;
+    return [row.rowNumber, IMPORT_ROW_STATUS_LABELS[row.status], row.reason, ...dataKeys.map((key) => data[key])];
+  });
+
+  return toCsvWithBom(header, body);
+}
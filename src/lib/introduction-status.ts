@@ -0,0 +1,47 @@
+export const INTRODUCTION_STATUS_VALUES = [
+  'PROPOSED',
+  'SENT',
+  'ACCEPTED',
+  'DECLINED',
+  'CLOSED',
+] as const;
+
+export type IntroductionStatusValue = (typeof INTRODUCTION_STATUS_VALUES)[number];
+
+export const INTRODUCTION_STATUS_LABELS: Record<IntroductionStatusValue, string> = {
+  PROPOSED: '提案中',
+  SENT: '紹介済み',
+  ACCEPTED: '成立',
+  DECLINED: '見送り',
+  CLOSED: 'クローズ',
+};
+
+const INTRODUCTION_STATUS_SET = new Set<string>(INTRODUCTION_STATUS_VALUES);
+
+export function isIntroductionStatus(value: unknown): value is IntroductionStatusValue {
+  return typeof value === 'string' && INTRODUCTION_STATUS_SET.has(value);
+}
+
+/**
+ * ステータス変更時に自動で打刻する日時列を返す。
+ * 既に値が入っている列は上書きしない。
+ */
+export function introductionTimestampsFor(
+  status: IntroductionStatusValue,
+  current: { sentAt: Date | null; respondedAt: Date | null; closedAt: Date | null },
+  now: Date = new Date(),
+) {
+  const stamps: { sentAt?: Date; respondedAt?: Date; closedAt?: Date } = {};
+
+  if (status === 'SENT' && !current.sentAt) {
+    stamps.sentAt = now;
+  }
+  if ((status === 'ACCEPTED' || status === 'DECLINED') && !current.respondedAt) {
+    stamps.respondedAt = now;
+  }
+  if (status === 'CLOSED' && !current.closedAt) {
+    stamps.closedAt = now;
+  }
+
+  return stamps;
+}
@@ -0,0 +1,17 @@
+/**
+ * 空白（全角含む）と括弧を取り除いた名前。CS 名の照合などに使う。
+ */
+export function cleanName(value?: string | null) {
+  if (!value) return '';
+  return value.replace(/[\s\u3000]+/g, '').replace(/[()（）]/g, '').trim();
+}
+
+/**
+ * 全角/半角・カタカナ/ひらがなの揺れを吸収した比較用の名前キー。
+ */
+export function normalizePersonName(value?: string | null) {
+  const cleaned = cleanName(value?.normalize('NFKC'));
+  return cleaned
+    .replace(/[ァ-ヶ]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60))
+    .toLowerCase();
+}
@@ -0,0 +1,254 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+
+import { recordEvangelistActivities } from '@/lib/evangelist-activity';
+
+// 選択肢で管理するステータス系の項目（Evangelist の列名）
+export const PICKLIST_FIELDS = [
+  'supportPriority',
+  'meetingStatus',
+  'registrationStatus',
+  'lineRegistered',
+  'listAcquired',
+  'marketingContactStatus',
+] as const;
+
+export type PicklistField = (typeof PICKLIST_FIELDS)[number];
+
+export const PICKLIST_FIELD_LABELS: Record<PicklistField, string> = {
+  supportPriority: 'サポート優先度',
+  meetingStatus: '面談状況',
+  registrationStatus: '登録状況',
+  lineRegistered: 'LINE登録',
+  listAcquired: 'リスト取得',
+  marketingContactStatus: 'マーケティングコンタクトステータス',
+};
+
+export function isPicklistField(value: unknown): value is PicklistField {
+  return typeof value === 'string' && (PICKLIST_FIELDS as readonly string[]).includes(value);
+}
+
+export type PicklistOptionItem = {
+  id: string;
+  field: PicklistField;
+  value: string;
+  sortOrder: number;
+  archived: boolean;
+  synonyms: string[];
+};
+
+/** 表記ゆれの照合キー（全角半角・大文字小文字・空白の差を吸収） */
+export function normalizePicklistText(value?: string | null) {
+  return (value ?? '').normalize('NFKC').trim().toLowerCase().replace(/\s+/g, '');
+}
+
+const picklistValueSchema = z.string().trim().min(1).max(100);
+
+export const createPicklistOptionSchema = z.object({
+  field: z.enum(PICKLIST_FIELDS),
+  value: picklistValueSchema,
+  synonyms: z.array(picklistValueSchema).max(100).optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+export const updatePicklistOptionSchema = z
+  .object({
+    value: picklistValueSchema.optional(),
+    synonyms: z.array(picklistValueSchema).max(100).optional(),
+    sortOrder: z.number().int().optional(),
+    archived: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, { message: 'No update fields provided' });
+
+export const normalizePicklistSchema = z.object({
+  field: z.enum(PICKLIST_FIELDS),
+  mappings: z
+    .array(z.object({ from: z.string(), optionId: z.string().min(1) }))
+    .min(1)
+    .max(500),
+  // 置き換えた元の表記を同義語として登録し、以後のインポートでも寄せる
+  addSynonyms: z.boolean().optional(),
+});
+
+type PicklistClient = {
+  picklistOption: Pick<Prisma.TransactionClient['picklistOption'], 'findMany'>;
+};
+
+export async function loadPicklistOptions(
+  client: PicklistClient,
+  options: { field?: PicklistField; includeArchived?: boolean } = {},
+): Promise<PicklistOptionItem[]> {
+  const rows = await client.picklistOption.findMany({
+    where: {
+      ...(options.field ? { field: options.field } : {}),
+      ...(options.includeArchived ? {} : { archived: false }),
+    },
+    orderBy: [{ field: 'asc' }, { sortOrder: 'asc' }, { value: 'asc' }],
+    select: {
+      id: true,
+      field: true,
+      value: true,
+      sortOrder: true,
+      archived: true,
+      synonyms: { select: { synonym: true }, orderBy: { createdAt: 'asc' } },
+    },
+  });
+
+  return rows
+    .filter((row): row is typeof row & { field: PicklistField } => isPicklistField(row.field))
+    .map(({ synonyms, ...row }) => ({ ...row, synonyms: synonyms.map((item) => item.synonym) }));
+}
+
+/**
+ * 選択肢の表記と同義語から、入力値を正規の表記に寄せる照合表を作る。
+ * 選択肢が 1 つも無い項目は自由入力のまま扱う（resolve は UNMANAGED を返す）。
+ */
+export async function loadPicklistResolver(client: PicklistClient) {
+  const items = await loadPicklistOptions(client, { includeArchived: true });
+  const byField = new Map<PicklistField, Map<string, string>>();
+
+  items.forEach((item) => {
+    const lookup = byField.get(item.field) ?? new Map<string, string>();
+    // アーカイブ済みの選択肢も、既存データや同義語の寄せ先としては使う
+    lookup.set(normalizePicklistText(item.value), item.value);
+    item.synonyms.forEach((synonym) => {
+      const key = normalizePicklistText(synonym);
+      if (key && !lookup.has(key)) lookup.set(key, item.value);
+    });
+    byField.set(item.field, lookup);
+  });
+
+  return {
+    isManaged(field: PicklistField) {
+      return byField.has(field);
+    },
+    resolve(field: PicklistField, value?: string | null): PicklistResolution {
+      const lookup = byField.get(field);
+      if (!lookup) return { status: 'UNMANAGED' };
+      const matched = lookup.get(normalizePicklistText(value));
+      return matched ? { status: 'MATCHED', value: matched } : { status: 'UNKNOWN' };
+    },
+  };
+}
+
+export type PicklistResolution =
+  | { status: 'MATCHED'; value: string }
+  | { status: 'UNKNOWN' }
+  | { status: 'UNMANAGED' };
+
+export type PicklistResolver = Awaited<ReturnType<typeof loadPicklistResolver>>;
+
+/**
+ * 行データのステータス系項目を選択肢の表記に置き換える。
+ * 選択肢に無い値はそのまま残し、未登録の値として返す。
+ */
+export function applyPicklists<T extends Partial<Record<PicklistField, string | null | undefined>>>(
+  resolver: PicklistResolver,
+  row: T,
+) {
+  const next = { ...row };
+  const unknown: { field: PicklistField; value: string }[] = [];
+
+  PICKLIST_FIELDS.forEach((field) => {
+    const raw = row[field];
+    if (typeof raw !== 'string' || !raw.trim()) return;
+    const resolution = resolver.resolve(field, raw);
+    if (resolution.status === 'MATCHED') {
+      next[field] = resolution.value as T[PicklistField];
+    } else if (resolution.status === 'UNKNOWN') {
+      unknown.push({ field, value: raw.trim() });
+    }
+  });
+
+  return { row: next, unknown };
+}
+
+export function describeUnknownPicklistValues(unknown: { field: PicklistField; value: string }[]) {
+  if (unknown.length === 0) return null;
+  return `選択肢にない値: ${unknown.map((item) => `${PICKLIST_FIELD_LABELS[item.field]}「${item.value}」`).join(', ')}`;
+}
+
+/**
+ * 選択肢の同義語を置き換える。
+ * 同じ項目の別の選択肢（表記・同義語）と重なるものは登録せず conflicts として返す。
+ */
+export async function replacePicklistSynonyms(
+  tx: Prisma.TransactionClient,
+  option: { id: string; field: PicklistField; value: string },
+  synonyms: string[],
+) {
+  const entries = new Map<string, string>();
+  const ownKey = normalizePicklistText(option.value);
+  synonyms.forEach((synonym) => {
+    const normalized = normalizePicklistText(synonym);
+    if (normalized && normalized !== ownKey && !entries.has(normalized)) entries.set(normalized, synonym.trim());
+  });
+
+  const others = await tx.picklistOption.findMany({
+    where: { field: option.field, id: { not: option.id } },
+    select: { value: true, synonyms: { select: { normalized: true } } },
+  });
+  const taken = new Map<string, string>();
+  others.forEach((other) => {
+    taken.set(normalizePicklistText(other.value), other.value);
+    other.synonyms.forEach((synonym) => taken.set(synonym.normalized, other.value));
+  });
+
+  const conflicts: { synonym: string; option: string }[] = [];
+  entries.forEach((synonym, normalized) => {
+    const owner = taken.get(normalized);
+    if (owner) {
+      conflicts.push({ synonym, option: owner });
+      entries.delete(normalized);
+    }
+  });
+
+  await tx.picklistSynonym.deleteMany({ where: { optionId: option.id } });
+  await tx.picklistSynonym.createMany({
+    data: Array.from(entries, ([normalized, synonym]) => ({
+      optionId: option.id,
+      field: option.field,
+      synonym,
+      normalized,
+    })),
+  });
+
+  return conflicts;
+}
+
+/**
+ * EVA の項目値を一括で置き換え、1 件ごとに変更履歴を残す。
+ * 正規化ツールと選択肢の表記変更で使う。
+ */
+export async function replaceEvangelistPicklistValues(
+  tx: Prisma.TransactionClient,
+  params: { field: PicklistField; from: string[]; to: string; actorId: string | null },
+) {
+  const from = Array.from(new Set(params.from)).filter((value) => value !== params.to);
+  if (from.length === 0) return 0;
+
+  const where = { [params.field]: { in: from } } as Prisma.EvangelistWhereInput;
+  const targets = (await tx.evangelist.findMany({
+    where,
+    select: { id: true, [params.field]: true } as Prisma.EvangelistSelect,
+  })) as Record<string, unknown>[];
+  if (targets.length === 0) return 0;
+
+  await tx.evangelist.updateMany({
+    where: { AND: [where, { id: { in: targets.map((target) => target.id as string) } }] },
+    data: { [params.field]: params.to },
+  });
+
+  await recordEvangelistActivities(
+    tx,
+    targets.map((target) => ({
+      evangelistId: target.id as string,
+      actorId: params.actorId,
+      source: 'UI',
+      action: 'UPDATED',
+      changes: { [params.field]: { before: target[params.field] ?? null, after: params.to } },
+    })),
+  );
+
+  return targets.length;
+}
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+
+import { queryGroupSchema, validateQuery, type QueryGroup } from '@/lib/evangelist-query';
+
+export type SavedViewItem = {
+  id: string;
+  name: string;
+  shared: boolean;
+  query: QueryGroup;
+  owner: { id: string; name: string };
+  pinned: boolean;
+  canManage: boolean;
+  updatedAt: string;
+};
+
+const savedViewQuerySchema = queryGroupSchema.superRefine((query, ctx) => {
+  validateQuery(query).forEach((message) => ctx.addIssue({ code: 'custom', message }));
+});
+
+export const createSavedViewSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  shared: z.boolean().optional(),
+  query: savedViewQuerySchema,
+});
+
+export const updateSavedViewSchema = createSavedViewSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, { message: 'No fields to update' });
+
+/** 一覧に返す保存ビュー（作成者と、閲覧ユーザーが固定しているか） */
+export function savedViewInclude(userId: string) {
+  return {
+    owner: { select: { id: true, name: true } },
+    pins: { where: { userId }, select: { userId: true } },
+  } satisfies Prisma.SavedViewInclude;
+}
+
+type SavedViewRow = Prisma.SavedViewGetPayload<{ include: ReturnType<typeof savedViewInclude> }>;
+
+export function canManageSavedView(session: { userId?: string; role?: string }, view: { ownerId: string }) {
+  return session.role === 'ADMIN' || view.ownerId === session.userId;
+}
+
+export function toSavedViewItem(row: SavedViewRow, session: { userId?: string; role?: string }): SavedViewItem {
+  return {
+    id: row.id,
+    name: row.name,
+    shared: row.shared,
+    query: row.query as QueryGroup,
+    owner: row.owner,
+    pinned: row.pins.length > 0,
+    canManage: canManageSavedView(session, row),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+type SavedViewClient = {
+  savedView: Pick<Prisma.TransactionClient['savedView'], 'findMany'>;
+};
+
+/** ナビゲーションに表示する、ユーザーが固定した保存ビュー（自分のものか共有のもの） */
+export async function loadPinnedViews(client: SavedViewClient, userId: string) {
+  return client.savedView.findMany({
+    where: {
+      pins: { some: { userId } },
+      OR: [{ ownerId: userId }, { shared: true }],
+    },
+    orderBy: { name: 'asc' },
+    select: { id: true, name: true },
+  });
+}
@@ -0,0 +1,146 @@
+import Papa from 'papaparse';
+import type { CellValue } from 'exceljs';
+
+export type DetectedEncoding = 'UTF-8' | 'UTF-8 (BOM)' | 'Shift_JIS' | 'CP932';
+
+export type SpreadsheetResult = {
+  rows: string[][];
+  format: 'csv' | 'xlsx';
+  encoding?: DetectedEncoding;
+  sheets?: string[];
+  sheet?: string;
+};
+
+/** CP932（Windows-31J）固有の NEC 特殊文字・IBM 拡張文字の第 1 バイトか */
+function isCp932ExtensionLead(byte: number) {
+  return byte === 0x87 || byte === 0xed || byte === 0xee || byte >= 0xfa;
+}
+
+/**
+ * バイト列の文字コードを判定して文字列に変換する。
+ * BOM 付き UTF-8 → 厳密な UTF-8 → Shift_JIS の順に試す。
+ * WHATWG の shift_jis デコーダは CP932 の拡張文字も扱えるため、判定結果は表示用。
+ */
+export function decodeTextBytes(bytes: Uint8Array): { text: string; encoding: DetectedEncoding } {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'UTF-8 (BOM)' };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' };
+  } catch {
+    // UTF-8 として不正なバイト列は Shift_JIS 系とみなす
+  }
+
+  let encoding: DetectedEncoding = 'Shift_JIS';
+  for (let i = 0; i < bytes.length; i += 1) {
+    const byte = bytes[i];
+    const isLead = (byte >= 0x81 && byte <= 0x9f) || (byte >= 0xe0 && byte <= 0xfc);
+    if (!isLead) continue;
+    if (isCp932ExtensionLead(byte)) {
+      encoding = 'CP932';
+      break;
+    }
+    i += 1;
+  }
+
+  return { text: new TextDecoder('shift_jis').decode(bytes), encoding };
+}
+
+/** .xlsx（ZIP）のシグネチャ PK\x03\x04 で始まるか */
+export function isXlsxBytes(bytes: Uint8Array) {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Excel の日付はタイムゾーンを持たず、exceljs は壁時計の値を UTC として Date にする。
+ * インポートの sourceCreatedAt と同じ「YYYY-MM-DD HH:mm」形式に揃える。
+ */
+function formatExcelDate(date: Date) {
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  if (date.getUTCHours() === 0 && date.getUTCMinutes() === 0) return day;
+  return `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+}
+
+function cellToString(value: CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatExcelDate(value);
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if ('richText' in value) return value.richText.map((part) => part.text).join('').trim();
+  if ('hyperlink' in value) return String(value.text ?? value.hyperlink).trim();
+  if ('result' in value) return cellToString((value.result ?? null) as CellValue);
+  if ('error' in value) return '';
+  return '';
+}
+
+async function loadWorkbook(bytes: Uint8Array) {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  await workbook.xlsx.load(buffer);
+  return workbook;
+}
+
+/**
+ * .xlsx の指定シート（未指定なら先頭シート）を CSV と同じ二次元配列にする。
+ * 空行は CSV の skipEmptyLines と同様に除外する。
+ */
+export async function readXlsxRows(bytes: Uint8Array, sheetName?: string | null) {
+  const workbook = await loadWorkbook(bytes);
+  const sheets = workbook.worksheets.map((worksheet) => worksheet.name);
+  const worksheet = sheetName
+    ? workbook.worksheets.find((candidate) => candidate.name === sheetName)
+    : workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error(sheetName ? `シート「${sheetName}」が見つかりません` : 'シートがありません');
+  }
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: false }, (row) => {
+    const values: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+      values[columnNumber - 1] = cellToString(cell.value);
+    });
+    const filled = Array.from(values, (value) => value ?? '');
+    if (filled.some((value) => value.length > 0)) rows.push(filled);
+  });
+
+  return { rows, sheets, sheet: worksheet.name };
+}
+
+export function parseCsvRows(text: string): string[][] {
+  const parsed = Papa.parse<unknown[]>(text, { header: false, skipEmptyLines: 'greedy' });
+  return parsed.data
+    .filter((row): row is unknown[] => Array.isArray(row))
+    .map((row) => row.map((cell) => (cell == null ? '' : String(cell).trim())));
+}
+
+/** CSV / TSV（UTF-8・Shift_JIS）と .xlsx を同じ行配列として読み込む */
+export async function readSpreadsheetBytes(
+  bytes: Uint8Array,
+  options: { sheet?: string | null } = {},
+): Promise<SpreadsheetResult> {
+  if (isXlsxBytes(bytes)) {
+    const { rows, sheets, sheet } = await readXlsxRows(bytes, options.sheet);
+    return { rows, format: 'xlsx', sheets, sheet };
+  }
+
+  const { text, encoding } = decodeTextBytes(bytes);
+  return { rows: parseCsvRows(text), format: 'csv', encoding };
+}
+
+/** 先頭行をヘッダとしてオブジェクト配列に変換する（ヘッダは trim 済み） */
+export function rowsToRecords(rows: string[][]): Record<string, string>[] {
+  const [headerRow, ...dataRows] = rows;
+  if (!headerRow) return [];
+  const headers = headerRow.map((header) => header.trim());
+  return dataRows.map((row) =>
+    headers.reduce<Record<string, string>>((acc, header, index) => {
+      if (header) acc[header] = row[index] ?? '';
+      return acc;
+    }, {}),
+  );
+}
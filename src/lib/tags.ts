@@ -0,0 +1,228 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+
+export const DEFAULT_TAG_COLOR = '#64748b';
+
+// 管理画面の色選択に並べるプリセット
+export const TAG_COLOR_PRESETS = [
+  '#64748b',
+  '#ef4444',
+  '#f97316',
+  '#eab308',
+  '#22c55e',
+  '#14b8a6',
+  '#3b82f6',
+  '#6366f1',
+  '#a855f7',
+  '#ec4899',
+] as const;
+
+export type TagSummary = {
+  id: string;
+  name: string;
+  color: string;
+};
+
+export type TagItem = TagSummary & {
+  description: string | null;
+  count: number;
+};
+
+export const TAG_MATCH_VALUES = ['any', 'all'] as const;
+
+export type TagMatchMode = (typeof TAG_MATCH_VALUES)[number];
+
+/** 重複判定の照合キー（全角半角・大文字小文字・空白の差を吸収） */
+export function normalizeTagName(value?: string | null) {
+  return (value ?? '').normalize('NFKC').trim().toLowerCase().replace(/\s+/g, '');
+}
+
+const tagColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Invalid color');
+
+export const createTagSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  color: tagColorSchema.optional(),
+  description: z.string().trim().max(500).optional().nullable(),
+});
+
+export const updateTagSchema = createTagSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, { message: 'No update fields provided' });
+
+export const bulkTagSchema = z
+  .object({
+    ids: z.array(z.string().min(1)).min(1).max(500),
+    add: z.array(z.string().min(1)).max(50).optional(),
+    remove: z.array(z.string().min(1)).max(50).optional(),
+  })
+  .refine((data) => (data.add?.length ?? 0) + (data.remove?.length ?? 0) > 0, {
+    message: 'No tags specified',
+  });
+
+/** Evangelist の select に含める tags（EvangelistTag 経由で Tag を引く） */
+export const EVANGELIST_TAGS_SELECT = {
+  select: { tag: { select: { id: true, name: true, color: true } } },
+  orderBy: { tag: { name: 'asc' } },
+} satisfies Prisma.Evangelist$tagsArgs;
+
+/** select した tags（{ tag } の配列）を TagSummary の配列にする。変換済みの値はそのまま返す */
+export function flattenEvangelistTags(value: unknown): TagSummary[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => (entry && typeof entry === 'object' && 'tag' in entry ? (entry as { tag: unknown }).tag : entry))
+    .filter((tag): tag is TagSummary => Boolean(tag) && typeof (tag as TagSummary).id === 'string');
+}
+
+/** 変更履歴・エクスポート用のタグ名一覧（名前順・カンマ区切り） */
+export function joinTagNames(names: string[]) {
+  return names.length > 0 ? [...names].sort((a, b) => a.localeCompare(b, 'ja')).join(', ') : null;
+}
+
+export function formatTagNames(tags: unknown) {
+  return joinTagNames(flattenEvangelistTags(tags).map((tag) => tag.name));
+}
+
+/** CSV の値（配列・カンマ区切り・JSON 配列文字列）をタグ名の配列にする */
+export function parseTagNames(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+  const names = raw.flatMap((item) => {
+    if (typeof item !== 'string') return [];
+    const text = item.trim();
+    if (text.startsWith('[')) {
+      try {
+        const parsed = JSON.parse(text);
+        if (Array.isArray(parsed)) return parsed.filter((name): name is string => typeof name === 'string');
+      } catch {
+        // JSON でなければカンマ区切りとして扱う
+      }
+    }
+    return text.split(/[,、]/);
+  });
+
+  const seen = new Set<string>();
+  return names
+    .map((name) => name.trim())
+    .filter((name) => {
+      const key = normalizeTagName(name);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+type TagClient = {
+  tag: Pick<Prisma.TransactionClient['tag'], 'findMany' | 'createMany'>;
+};
+
+/** タグ一覧（名前順、付与されている EVA の件数つき） */
+export async function loadTags(client: TagClient): Promise<TagItem[]> {
+  const rows = await client.tag.findMany({
+    orderBy: { name: 'asc' },
+    select: {
+      id: true,
+      name: true,
+      color: true,
+      description: true,
+      _count: { select: { evangelists: true } },
+    },
+  });
+  return rows.map(({ _count, ...tag }) => ({ ...tag, count: _count.evangelists }));
+}
+
+/**
+ * タグ名に対応する Tag を返す（無ければ既定の色で作成する）。
+ * 戻り値は normalizeTagName のキー → TagSummary。
+ */
+export async function ensureTags(client: TagClient, names: string[]) {
+  const byKey = new Map<string, string>();
+  names.forEach((name) => {
+    const key = normalizeTagName(name);
+    if (key && !byKey.has(key)) byKey.set(key, name.trim());
+  });
+  if (byKey.size === 0) return new Map<string, TagSummary>();
+
+  const keys = Array.from(byKey.keys());
+  const existing = await client.tag.findMany({
+    where: { normalized: { in: keys } },
+    select: { normalized: true },
+  });
+  const existingKeys = new Set(existing.map((tag) => tag.normalized));
+  const missing = keys.filter((key) => !existingKeys.has(key));
+  if (missing.length > 0) {
+    await client.tag.createMany({
+      data: missing.map((key) => ({ name: byKey.get(key) as string, normalized: key })),
+      skipDuplicates: true,
+    });
+  }
+
+  const tags = await client.tag.findMany({
+    where: { normalized: { in: keys } },
+    select: { id: true, name: true, color: true, normalized: true },
+  });
+  return new Map(tags.map(({ normalized, ...tag }) => [normalized, tag]));
+}
+
+/**
+ * 複数タグの絞り込み条件。any はいずれかを含む、all はすべてを含む。
+ */
+export function buildTagWhere(tagIds: string[], mode: TagMatchMode): Prisma.EvangelistWhereInput | null {
+  const ids = Array.from(new Set(tagIds.filter(Boolean)));
+  if (ids.length === 0) return null;
+  if (mode === 'all') {
+    return { AND: ids.map((tagId) => ({ tags: { some: { tagId } } })) };
+  }
+  return { tags: { some: { tagId: { in: ids } } } };
+}
+
+/**
+ * EVA ごとにタグを追加・削除し、変更履歴に残すための前後のタグ名を返す。
+ */
+export async function applyEvangelistTagChanges(
+  tx: Prisma.TransactionClient,
+  params: { evangelistIds: string[]; add?: string[]; remove?: string[] },
+) {
+  const add = Array.from(new Set(params.add ?? []));
+  const remove = Array.from(new Set(params.remove ?? [])).filter((id) => !add.includes(id));
+
+  const before = await tx.evangelist.findMany({
+    where: { id: { in: params.evangelistIds } },
+    select: { id: true, tags: EVANGELIST_TAGS_SELECT },
+  });
+  const evangelistIds = before.map((evangelist) => evangelist.id);
+
+  if (remove.length > 0) {
+    await tx.evangelistTag.deleteMany({
+      where: { evangelistId: { in: evangelistIds }, tagId: { in: remove } },
+    });
+  }
+  if (add.length > 0) {
+    await tx.evangelistTag.createMany({
+      data: evangelistIds.flatMap((evangelistId) => add.map((tagId) => ({ evangelistId, tagId }))),
+      skipDuplicates: true,
+    });
+  }
+
+  const after = await tx.evangelist.findMany({
+    where: { id: { in: evangelistIds } },
+    select: { id: true, tags: EVANGELIST_TAGS_SELECT },
+  });
+  const afterById = new Map(after.map((evangelist) => [evangelist.id, formatTagNames(evangelist.tags)]));
+
+  return before.map((evangelist) => ({
+    evangelistId: evangelist.id,
+    before: formatTagNames(evangelist.tags),
+    after: afterById.get(evangelist.id) ?? null,
+  }));
+}
+
+/** 1 件の EVA のタグを指定の ID 一覧に置き換える */
+export async function setEvangelistTags(tx: Prisma.TransactionClient, evangelistId: string, tagIds: string[]) {
+  const ids = Array.from(new Set(tagIds));
+  await tx.evangelistTag.deleteMany({ where: { evangelistId, tagId: { notIn: ids } } });
+  if (ids.length > 0) {
+    await tx.evangelistTag.createMany({
+      data: ids.map((tagId) => ({ evangelistId, tagId })),
+      skipDuplicates: true,
+    });
+  }
+}